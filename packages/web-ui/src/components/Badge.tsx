@@ -25,6 +25,7 @@ const STATE_TONE: Record<ProcessState, Tone> = {
   starting: 'warning',
   ready: 'success',
   running: 'success',
+  unhealthy: 'danger',
   finished: 'info',
   stopping: 'warning',
   stopped: 'neutral',
@@ -1,6 +1,7 @@
-import { For } from 'solid-js';
+import { For, Show } from 'solid-js';
 import type { IdeLink } from '../lib/types';
 import { linkifyOutput } from '../lib/ide';
+import { splitMatches } from '../lib/search';
 import { cx } from '../lib/cx';
 
 interface LinkedTextProps {
@@ -12,6 +13,8 @@ interface LinkedTextProps {
   baseDir?: string;
   /** Extra classes for each link anchor (e.g. to inherit error coloring). */
   linkClass?: string;
+  /** Search regex (with the `g` flag) whose matches are marked, links included. */
+  mark?: RegExp | null;
 }
 
 /**
@@ -36,12 +39,30 @@ export function LinkedText(props: LinkedTextProps) {
               props.linkClass,
             )}
           >
-            {seg.text}
+            <Marked text={seg.text} mark={props.mark} />
           </a>
         ) : (
-          <>{seg.text}</>
+          <Marked text={seg.text} mark={props.mark} />
         )
       }
     </For>
   );
 }
+
+function Marked(props: { text: string; mark?: RegExp | null }) {
+  return (
+    <Show when={props.mark} fallback={<>{props.text}</>}>
+      {(re) => (
+        <For each={splitMatches(props.text, re())}>
+          {(run) =>
+            run.match ? (
+              <mark class="rounded-sm bg-hl-yellow/30 text-fg-primary">{run.text}</mark>
+            ) : (
+              <>{run.text}</>
+            )
+          }
+        </For>
+      )}
+    </Show>
+  );
+}
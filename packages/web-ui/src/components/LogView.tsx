@@ -1,5 +1,16 @@
-import { type Accessor, For, createEffect, createSignal, on, onCleanup } from 'solid-js';
+import {
+  type Accessor,
+  For,
+  Show,
+  createEffect,
+  createMemo,
+  createSignal,
+  on,
+  onCleanup,
+} from 'solid-js';
 import { cx } from '../lib/cx';
+import { IconSearch } from '../lib/icons';
+import { compileSearch, lineMatches } from '../lib/search';
 import type { IdeLink, OutputLine } from '../lib/types';
 import { LinkedText } from './LinkedText';
 
@@ -25,6 +36,8 @@ interface LogViewProps {
   ide?: IdeLink | null;
   /** Emitting process's working dir; relative file refs resolve against it. */
   baseDir?: string;
+  /** Show the search bar (regex, highlights matches, optional filter). Default true. */
+  searchable?: boolean;
   class?: string;
 }
 
@@ -36,6 +49,10 @@ interface LogViewProps {
  * already pinned there. Scrolling up disengages auto-stick — pinning back
  * to the bottom re-engages it.
  *
+ * The search bar highlights regex matches in place (case-insensitive); "only
+ * matches" hides the other lines. It searches what's loaded here — older
+ * history lives behind `GET /api/search`.
+ *
  * Virtualization is intentionally deferred. orckit caps the output buffer per
  * process (default 1000 lines), so even with a few processes streaming the
  * DOM stays manageable. Add windowing if the cap grows.
@@ -43,6 +60,27 @@ interface LogViewProps {
 export function LogView(props: LogViewProps) {
   let viewport: HTMLDivElement | undefined;
   const [stuck, setStuck] = createSignal(true);
+  const [query, setQuery] = createSignal('');
+  const [onlyMatches, setOnlyMatches] = createSignal(false);
+
+  const compiled = createMemo(() => compileSearch(query()));
+  const mark = () => {
+    const c = compiled();
+    return c instanceof RegExp ? c : null;
+  };
+  const invalid = () => {
+    const c = compiled();
+    return c != null && !(c instanceof RegExp) ? c.error : null;
+  };
+  const matchCount = createMemo(() => {
+    const re = mark();
+    return re ? props.lines().filter((l) => lineMatches(l.text, re)).length : 0;
+  });
+  const visibleLines = createMemo(() => {
+    const re = mark();
+    if (!re || !onlyMatches()) return props.lines();
+    return props.lines().filter((l) => lineMatches(l.text, re));
+  });
 
   const handleScroll = () => {
     if (!viewport) return;
@@ -67,34 +105,86 @@ export function LogView(props: LogViewProps) {
   });
 
   return (
-    <div
-      ref={viewport}
-      onScroll={handleScroll}
-      class={cx(
-        'relative h-full overflow-y-auto bg-surface-inset rounded-md',
-        'border border-border-subtle',
-        'font-mono text-[12px] leading-[1.45]',
-        props.class,
-      )}
-    >
-      <div class="py-2">
-        <For
-          each={props.lines()}
-          fallback={
-            <div class="px-3 py-6 text-fg-tertiary text-xs text-center">
-              {props.emptyHint ?? 'no output yet'}
-            </div>
-          }
-        >
-          {(line) => (
-            <LogLine
-              line={line}
-              showStreamIndicator={props.showStreamIndicator}
-              ide={props.ide ?? null}
-              baseDir={props.baseDir}
+    <div class={cx('flex h-full flex-col gap-1.5', props.class)}>
+      <Show when={props.searchable !== false}>
+        <div class="flex items-center gap-2">
+          <label
+            class={cx(
+              'flex flex-1 items-center gap-1.5 rounded-md border bg-surface-inset px-2 h-7',
+              invalid()
+                ? 'border-status-failed'
+                : 'border-border-subtle focus-within:border-accent-dim',
+            )}
+          >
+            <IconSearch width={12} height={12} class="flex-shrink-0 text-fg-tertiary" />
+            <input
+              type="search"
+              value={query()}
+              onInput={(e) => setQuery(e.currentTarget.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setQuery('');
+              }}
+              placeholder="search logs (regex)"
+              aria-label="search logs"
+              title={invalid() ?? undefined}
+              spellcheck={false}
+              class="min-w-0 flex-1 bg-transparent font-mono text-[12px] text-fg-primary placeholder:text-fg-disabled outline-none"
             />
-          )}
-        </For>
+            <Show when={mark()}>
+              <span class="flex-shrink-0 font-mono text-[11px] text-fg-tertiary">
+                {matchCount()} / {props.lines().length}
+              </span>
+            </Show>
+            <Show when={invalid()}>
+              <span class="flex-shrink-0 text-[11px] text-status-failed">invalid regex</span>
+            </Show>
+          </label>
+          <button
+            type="button"
+            aria-pressed={onlyMatches()}
+            onClick={() => setOnlyMatches((v) => !v)}
+            class={cx(
+              'h-7 rounded-md border px-2 text-[11px] transition-colors duration-100',
+              onlyMatches()
+                ? 'border-accent-dim bg-accent-soft text-fg-primary'
+                : 'border-border-subtle text-fg-secondary hover:bg-surface-2 hover:text-fg-primary',
+            )}
+          >
+            only matches
+          </button>
+        </div>
+      </Show>
+      <div
+        ref={viewport}
+        onScroll={handleScroll}
+        class={cx(
+          'relative min-h-0 flex-1 overflow-y-auto bg-surface-inset rounded-md',
+          'border border-border-subtle',
+          'font-mono text-[12px] leading-[1.45]',
+        )}
+      >
+        <div class="py-2">
+          <For
+            each={visibleLines()}
+            fallback={
+              <div class="px-3 py-6 text-fg-tertiary text-xs text-center">
+                {mark() && onlyMatches()
+                  ? 'no matching lines'
+                  : (props.emptyHint ?? 'no output yet')}
+              </div>
+            }
+          >
+            {(line) => (
+              <LogLine
+                line={line}
+                showStreamIndicator={props.showStreamIndicator}
+                ide={props.ide ?? null}
+                baseDir={props.baseDir}
+                mark={mark()}
+              />
+            )}
+          </For>
+        </div>
       </div>
     </div>
   );
@@ -105,6 +195,7 @@ function LogLine(props: {
   showStreamIndicator?: boolean;
   ide?: IdeLink | null;
   baseDir?: string;
+  mark?: RegExp | null;
 }) {
   const colorClass = () =>
     props.line.highlight
@@ -125,7 +216,12 @@ function LogLine(props: {
         />
       )}
       <span class={cx('whitespace-pre-wrap break-all flex-1', colorClass())}>
-        <LinkedText text={props.line.text} ide={props.ide ?? null} baseDir={props.baseDir} />
+        <LinkedText
+          text={props.line.text}
+          ide={props.ide ?? null}
+          baseDir={props.baseDir}
+          mark={props.mark}
+        />
       </span>
     </div>
   );
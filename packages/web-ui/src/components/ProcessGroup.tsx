@@ -1,15 +1,17 @@
 import { For, Show, createSignal } from 'solid-js';
 import type { ProcessSnapshot, ProcessState } from '../lib/types';
 import { ProcessRow } from './ProcessRow';
-import { IconChevron } from '../lib/icons';
+import { IconChevron, IconPlay, IconRestart, IconStop } from '../lib/icons';
 import { cx } from '../lib/cx';
 import { StatusDot } from './StatusDot';
+import { IconButton } from './IconButton';
 
 interface ProcessGroupProps {
   name: string;
   processes: ProcessSnapshot[];
   selectedName: string | null;
   onSelect: (name: string) => void;
+  /** Called with a process name, or `@category` from the group header. */
   onStart: (name: string) => void;
   onRestart: (name: string) => void;
   onStop: (name: string) => void;
@@ -19,38 +21,81 @@ interface ProcessGroupProps {
 /**
  * Collapsible group of processes sharing a `category`. The header reads
  * "category · N processes" with a compact health summary — N ready, N
- * failed — so the user can scan health without expanding.
+ * failed — so the user can scan health without expanding. Hovering the
+ * header reveals start/restart/stop for the whole group (`@category`).
  */
 export function ProcessGroup(props: ProcessGroupProps) {
   const [open, setOpen] = createSignal(props.defaultOpen ?? true);
 
   const summary = () => summarize(props.processes);
+  const selector = () => `@${props.name}`;
+  const anyStartable = () =>
+    props.processes.some((p) => ['pending', 'stopped', 'failed', 'finished'].includes(p.state));
+  const anyStoppable = () =>
+    props.processes.some((p) => ['starting', 'ready', 'running', 'unhealthy'].includes(p.state));
 
   return (
     <section class="border-b border-border-subtle last:border-0">
-      <button
-        type="button"
-        onClick={() => setOpen(!open())}
-        class={cx(
-          'group w-full flex items-center gap-2 px-3 py-2',
-          'text-left transition-colors duration-75',
-          'hover:bg-surface-1/60 focus-visible:outline-none focus-visible:bg-surface-1',
-        )}
-      >
-        <IconChevron
-          width={12}
-          height={12}
+      <div class="group flex items-center hover:bg-surface-1/60 transition-colors duration-75">
+        <button
+          type="button"
+          onClick={() => setOpen(!open())}
+          class={cx(
+            'flex-1 min-w-0 flex items-center gap-2 pl-3 py-2',
+            'text-left',
+            'focus-visible:outline-none focus-visible:bg-surface-1',
+          )}
+        >
+          <IconChevron
+            width={12}
+            height={12}
+            class={cx(
+              'text-fg-tertiary transition-transform duration-150',
+              open() ? 'rotate-90' : '',
+            )}
+          />
+          <span class="text-[11px] uppercase tracking-wider font-mono text-fg-secondary flex-1">
+            {props.name}
+          </span>
+          <span class="text-[10px] font-mono text-fg-tertiary">{props.processes.length}</span>
+          <GroupHealth summary={summary()} />
+        </button>
+        <div
           class={cx(
-            'text-fg-tertiary transition-transform duration-150',
-            open() ? 'rotate-90' : '',
+            'flex items-center gap-1 pl-2 pr-3 transition-opacity',
+            'opacity-0 group-hover:opacity-100 focus-within:opacity-100',
           )}
-        />
-        <span class="text-[11px] uppercase tracking-wider font-mono text-fg-secondary flex-1">
-          {props.name}
-        </span>
-        <span class="text-[10px] font-mono text-fg-tertiary">{props.processes.length}</span>
-        <GroupHealth summary={summary()} />
-      </button>
+        >
+          <Show when={anyStartable()}>
+            <IconButton
+              size="sm"
+              variant="ghost"
+              label={`start ${selector()}`}
+              onClick={() => props.onStart(selector())}
+            >
+              <IconPlay width={14} height={14} />
+            </IconButton>
+          </Show>
+          <IconButton
+            size="sm"
+            variant="ghost"
+            label={`restart ${selector()}`}
+            onClick={() => props.onRestart(selector())}
+          >
+            <IconRestart width={14} height={14} />
+          </IconButton>
+          <Show when={anyStoppable()}>
+            <IconButton
+              size="sm"
+              variant="ghost"
+              label={`stop ${selector()}`}
+              onClick={() => props.onStop(selector())}
+            >
+              <IconStop width={14} height={14} />
+            </IconButton>
+          </Show>
+        </div>
+      </div>
       <Show when={open()}>
         <div class="bg-surface-0/50">
           <For each={props.processes}>
@@ -98,7 +143,7 @@ function summarize(processes: ProcessSnapshot[]) {
   for (const p of processes) {
     if (p.state === 'ready' || p.state === 'running' || p.state === 'finished') ready++;
     else if (p.state === 'starting' || p.state === 'stopping') starting++;
-    else if (p.state === 'failed') failed++;
+    else if (p.state === 'failed' || p.state === 'unhealthy') failed++;
     else if (p.state === 'pending') pending++;
   }
   return { ready, starting, failed, pending };
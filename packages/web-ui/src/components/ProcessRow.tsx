@@ -3,8 +3,12 @@ import { cx } from '../lib/cx';
 import type { ProcessSnapshot } from '../lib/types';
 import { Badge, StateBadge } from './Badge';
 import { BuildBadge } from './BuildBadge';
+import { WatchBadge } from './WatchBadge';
+import { RestartBadge } from './RestartBadge';
+import { Sparkline } from './Sparkline';
 import { IconButton } from './IconButton';
 import { IconRestart, IconStop, IconPlay, IconChevron } from '../lib/icons';
+import { formatBytes } from '../lib/format';
 
 export interface ProcessRowProps {
   process: ProcessSnapshot;
@@ -18,11 +22,14 @@ export interface ProcessRowProps {
 }
 
 export function ProcessRow(props: ProcessRowProps) {
-  const canStop = () => ['starting', 'ready', 'running'].includes(props.process.state);
+  const canStop = () => ['starting', 'ready', 'running', 'unhealthy'].includes(props.process.state);
   const canRestart = () => props.process.state !== 'pending';
   // An optional or stopped process can be started. Pending == hasn't run yet.
   const canStart = () =>
     ['pending', 'stopped', 'failed', 'finished'].includes(props.process.state);
+  // Only show resource usage while there's a live process group to measure.
+  const latest = () =>
+    canStop() ? props.process.metrics[props.process.metrics.length - 1] : undefined;
 
   return (
     <div
@@ -57,6 +64,17 @@ export function ProcessRow(props: ProcessRowProps) {
           <Show when={props.process.optional}>
             <Badge tone="neutral">optional</Badge>
           </Show>
+          <Show when={props.process.watchTriggered}>
+            <WatchBadge files={props.process.watchTriggered!} />
+          </Show>
+          <Show when={props.process.nextRestartAt}>
+            <RestartBadge at={props.process.nextRestartAt!} />
+          </Show>
+          <Show when={props.process.crashLoop}>
+            <span title={props.process.crashLoop!.message} class="inline-flex">
+              <Badge tone="danger">crash loop</Badge>
+            </span>
+          </Show>
           <Show when={props.process.retries > 0}>
             <span class="text-[10px] uppercase tracking-wider font-mono text-fg-tertiary">
               retry ×{props.process.retries}
@@ -73,6 +91,17 @@ export function ProcessRow(props: ProcessRowProps) {
         </Show>
       </div>
 
+      <Show when={latest()}>
+        <div
+          class="hidden sm:flex items-center gap-2 font-mono text-[11px] text-fg-tertiary tabular-nums"
+          title={`${latest()!.processes} process(es) in group`}
+        >
+          <Sparkline values={props.process.metrics.map((m) => m.cpu)} width={48} height={16} />
+          <span class="w-10 text-right">{Math.round(latest()!.cpu)}%</span>
+          <span class="w-16 text-right">{formatBytes(latest()!.rss)}</span>
+        </div>
+      </Show>
+
       <div
         class={cx(
           'flex items-center gap-1 transition-opacity',
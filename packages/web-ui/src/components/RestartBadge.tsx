@@ -0,0 +1,15 @@
+import { createSignal, onCleanup } from 'solid-js';
+import { Badge } from './Badge';
+
+/** "restart in 4s", counting down to a queued automatic restart. */
+export function RestartBadge(props: { at: number; class?: string }) {
+  const [now, setNow] = createSignal(Date.now());
+  const timer = setInterval(() => setNow(Date.now()), 250);
+  onCleanup(() => clearInterval(timer));
+  const seconds = () => Math.max(0, Math.ceil((props.at - now()) / 1000));
+  return (
+    <Badge tone="warning" class={props.class}>
+      <span class="tabular-nums">restart in {seconds()}s</span>
+    </Badge>
+  );
+}
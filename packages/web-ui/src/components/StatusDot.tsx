@@ -12,6 +12,7 @@ const COLORS: Record<ProcessState, string> = {
   starting: 'bg-status-starting pulse-dot',
   ready: 'bg-status-ready',
   running: 'bg-status-running',
+  unhealthy: 'bg-status-unhealthy pulse-dot',
   finished: 'bg-status-finished',
   stopping: 'bg-status-stopping pulse-dot',
   stopped: 'bg-status-stopped',
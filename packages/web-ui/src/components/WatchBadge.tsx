@@ -0,0 +1,17 @@
+import { Badge } from './Badge';
+
+/**
+ * "restarting: 3 files changed" while a `watch:`-triggered restart is in
+ * flight. Hovering lists the files.
+ */
+export function WatchBadge(props: { files: string[]; class?: string }) {
+  const label = () =>
+    props.files.length === 1 ? `${props.files[0]} changed` : `${props.files.length} files changed`;
+  return (
+    <span title={props.files.join('\n')} class="inline-flex min-w-0">
+      <Badge tone="warning" class={props.class}>
+        <span class="truncate">restarting: {label()}</span>
+      </Badge>
+    </span>
+  );
+}
@@ -1,4 +1,4 @@
-import type { OrckitSnapshot, OutputLine } from './types';
+import type { OrckitSnapshot, OutputLine, ProcessOverride } from './types';
 
 /**
  * REST + SSE client for the orckit web server.
@@ -21,8 +21,19 @@ export async function fetchOutput(name: string): Promise<OutputLine[]> {
   return body.lines;
 }
 
-export async function restartProcess(name: string): Promise<void> {
-  const res = await fetch(`/api/restart/${encodeURIComponent(name)}`, { method: 'POST' });
+/**
+ * Restart a process. With an `override`, its next spawn runs that command /
+ * env instead of the config; without one it runs the config again.
+ */
+export async function restartProcess(name: string, override?: ProcessOverride): Promise<void> {
+  const res = await fetch(`/api/restart/${encodeURIComponent(name)}`, {
+    method: 'POST',
+    // The server only takes an override sent as JSON.
+    ...(override && {
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(override),
+    }),
+  });
   if (!res.ok) {
     const body = (await res.json().catch(() => ({}))) as { error?: string };
     throw new Error(body.error ?? `restart failed: ${res.status}`);
@@ -44,3 +55,12 @@ export async function startProcess(name: string): Promise<void> {
     throw new Error(body.error ?? `start failed: ${res.status}`);
   }
 }
+
+/** Call off the automatic restart queued for a process. */
+export async function cancelRestart(name: string): Promise<void> {
+  const res = await fetch(`/api/cancel-restart/${encodeURIComponent(name)}`, { method: 'POST' });
+  if (!res.ok) {
+    const body = (await res.json().catch(() => ({}))) as { error?: string };
+    throw new Error(body.error ?? `cancel failed: ${res.status}`);
+  }
+}
@@ -60,6 +60,13 @@ export const IconAlert = (props: IconProps) => (
   </Base>
 );
 
+export const IconBell = (props: IconProps) => (
+  <Base {...props}>
+    <path d="M6 16V11a6 6 0 1 1 12 0v5l2 2H4l2-2z" />
+    <path d="M10 20a2 2 0 0 0 4 0" />
+  </Base>
+);
+
 export const IconClose = (props: IconProps) => (
   <Base {...props}>
     <path d="M6 6l12 12M18 6L6 18" />
@@ -0,0 +1,25 @@
+import type { OrckitNotification } from './types';
+
+/** Whether this browser has the Notification API at all (not, e.g., iOS Safari tabs). */
+export function notificationsSupported(): boolean {
+  return typeof Notification !== 'undefined';
+}
+
+/**
+ * Show a `browser` channel's notification as a desktop notification — only
+ * while the tab is in the background (the open dashboard already shows what
+ * happened) and once the user has granted permission. One notification per
+ * event and process is kept on screen: a newer one replaces it.
+ */
+export function showNotification(notification: OrckitNotification): void {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  if (!document.hidden) return;
+  const shown = new Notification(notification.title, {
+    body: notification.message,
+    tag: `${notification.project}:${notification.event}:${notification.name ?? ''}`,
+  });
+  shown.onclick = () => {
+    window.focus();
+    shown.close();
+  };
+}
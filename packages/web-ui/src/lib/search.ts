@@ -0,0 +1,42 @@
+/**
+ * Compile a log-search query typed by the user. Empty input means "no search"
+ * (null); an unparseable regex is reported rather than thrown so the input can
+ * flag it while the user is still typing. Matching is case-insensitive, like
+ * the browser's find-in-page.
+ */
+export function compileSearch(query: string): RegExp | null | { error: string } {
+  if (query === '') return null;
+  try {
+    return new RegExp(query, 'gi');
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+}
+
+/** A run of text that does (`match: true`) or doesn't match the search. */
+export interface MarkedRun {
+  text: string;
+  match: boolean;
+}
+
+/** Split `text` into alternating non-matching / matching runs for `re` (a `g` regex). */
+export function splitMatches(text: string, re: RegExp): MarkedRun[] {
+  const runs: MarkedRun[] = [];
+  let last = 0;
+  for (const m of text.matchAll(re)) {
+    // Zero-width matches (`^`, lookaheads) have nothing to mark.
+    if (m[0].length === 0) continue;
+    if (m.index > last) runs.push({ text: text.slice(last, m.index), match: false });
+    runs.push({ text: m[0], match: true });
+    last = m.index + m[0].length;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last), match: false });
+  return runs;
+}
+
+export function lineMatches(text: string, re: RegExp): boolean {
+  re.lastIndex = 0;
+  const hit = re.test(text);
+  re.lastIndex = 0;
+  return hit;
+}
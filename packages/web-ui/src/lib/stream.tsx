@@ -1,25 +1,48 @@
 import { createContext, createSignal, onCleanup, useContext, type Accessor } from 'solid-js';
 import { createStore, produce, type SetStoreFunction } from 'solid-js/store';
 import type {
+  BootStep,
+  BuildRun,
   BuildStatus,
+  CrashLoop,
+  Diagnostic,
   IdeLink,
+  LimitExceeded,
+  MetricsSample,
+  OrckitNotification,
   OrckitSnapshot,
   OutputLine,
+  ProcessOverride,
   ProcessSnapshot,
   ProcessState,
 } from './types';
 import { fetchOutput, fetchState } from './api';
+import { showNotification } from './notifications';
 
 /** Maximum buffered log lines per process — mirrors orckit's default buffer cap. */
 const MAX_LINES_PER_PROCESS = 1000;
+/** Maximum kept metrics samples per process — mirrors orckit's default `metrics.history`. */
+const MAX_METRICS_PER_PROCESS = 150;
+/** Maximum kept builds per process — mirrors orckit's default `build_history.size`. */
+const MAX_BUILDS_PER_PROCESS = 100;
+/** Maximum kept probe attempts per boot — mirrors orckit's timeline cap. */
+const MAX_PROBE_STEPS = 200;
 
 export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
 
 export interface OrckitStream {
   /** Project name from the snapshot. */
   project: Accessor<string>;
+  /** Active config profile from the snapshot, or null. */
+  profile: Accessor<string | null>;
   /** IDE deep-link descriptor, or null when not a JetBrains project. */
   ide: Accessor<IdeLink | null>;
+  /** Whether the config has a `browser` notification channel. */
+  notifications: Accessor<boolean>;
+  /** Whether restarts may override the command / env (`web.allow_overrides`). */
+  overrides: Accessor<boolean>;
+  /** The config's top-level `ports:`, as allocated. */
+  ports: Accessor<Record<string, number>>;
   /** List of all processes, reactive. */
   processes: Accessor<ProcessSnapshot[]>;
   /** Look up a process by name. */
@@ -43,7 +66,11 @@ interface BootSummary {
 
 interface StoreShape {
   project: string;
+  profile: string | null;
   ide: IdeLink | null;
+  notifications: boolean;
+  overrides: boolean;
+  ports: Record<string, number>;
   processes: Record<string, ProcessSnapshot>;
   /** Insertion order — kept in sync with snapshots so the dashboard list is stable. */
   order: string[];
@@ -54,7 +81,11 @@ interface StoreShape {
 
 const initialStore: StoreShape = {
   project: '',
+  profile: null,
   ide: null,
+  notifications: false,
+  overrides: false,
+  ports: {},
   processes: {},
   order: [],
   logs: {},
@@ -121,7 +152,11 @@ export function createOrckitStream(): OrckitStream {
 
   return {
     project: () => store.project,
+    profile: () => store.profile,
     ide: () => store.ide,
+    notifications: () => store.notifications,
+    overrides: () => store.overrides,
+    ports: () => store.ports,
     processes: () => store.order.map((n) => store.processes[n]!).filter(Boolean),
     process: (name) => store.processes[name],
     logsFor: (name) => () => store.logs[name] ?? [],
@@ -142,7 +177,11 @@ function applySnapshot(setStore: SetStoreFunction<StoreShape>, snap: OrckitSnaps
   setStore(
     produce((s) => {
       s.project = snap.project;
+      s.profile = snap.profile;
       s.ide = snap.ide;
+      s.notifications = snap.notifications;
+      s.overrides = snap.overrides;
+      s.ports = snap.ports;
       // Preserve any logs we've already buffered — snapshots don't carry them.
       const existingLogs = s.logs;
       const nextProcesses: Record<string, ProcessSnapshot> = {};
@@ -171,22 +210,54 @@ function bindHandlers(source: EventSource, setStore: SetStoreFunction<StoreShape
     setStore(
       produce((s) => {
         const p = s.processes[name];
-        if (p) p.state = state;
+        if (!p) return;
+        // Back from `unhealthy` without a restart — the liveness failure is over.
+        if (p.state === 'unhealthy' && state === 'running') p.lastError = undefined;
+        p.state = state;
+        if (state === 'starting') {
+          // Starting with no restart queued means someone started it by hand.
+          if (p.nextRestartAt == null) p.crashLoop = undefined;
+          p.nextRestartAt = null;
+        }
+        if (state !== 'starting' && state !== 'stopping' && state !== 'stopped') {
+          p.watchTriggered = undefined;
+        }
+      }),
+    );
+  });
+
+  source.addEventListener('starting', (e) => {
+    const { name, override } = parse<{ name: string; override?: ProcessOverride }>(e);
+    setStore(
+      produce((s) => {
+        const p = s.processes[name];
+        if (p) p.override = override;
       }),
     );
   });
 
   source.addEventListener('ready', (e) => {
     const { name } = parse<{ name: string }>(e);
+    let limited = false;
     setStore(
       produce((s) => {
         const p = s.processes[name];
         if (p) {
-          p.lastError = undefined;
+          limited = p.limitExceeded != null;
+          p.lastError = p.limitExceeded?.message;
           p.startedAt = p.startedAt ?? Date.now();
         }
       }),
     );
+    // A limit breach outlives the restart it caused but not a later one; only
+    // the server knows which this was, so ask it.
+    if (limited) {
+      void fetchState()
+        .then((snap) => applySnapshot(setStore, snap))
+        .catch(() => {
+          // the next reconnect's snapshot catches up
+        });
+    }
   });
 
   source.addEventListener('failed', (e) => {
@@ -199,13 +270,24 @@ function bindHandlers(source: EventSource, setStore: SetStoreFunction<StoreShape
     );
   });
 
+  source.addEventListener('unhealthy', (e) => {
+    const { name, reason } = parse<{ name: string; reason: string }>(e);
+    setStore(
+      produce((s) => {
+        const p = s.processes[name];
+        if (p) p.lastError = reason;
+      }),
+    );
+  });
+
   source.addEventListener('restarting', (e) => {
-    const { name, attempt } = parse<{ name: string; attempt: number }>(e);
+    const { name, attempt, delayMs } = parse<{ name: string; attempt: number; delayMs: number }>(e);
     setStore(
       produce((s) => {
         const p = s.processes[name];
         if (p) {
           p.retries = attempt;
+          p.nextRestartAt = Date.now() + delayMs;
           // A fresh boot supersedes the prior build outcome — mirrors the server.
           p.build = undefined;
           p.buildErrors = undefined;
@@ -214,6 +296,41 @@ function bindHandlers(source: EventSource, setStore: SetStoreFunction<StoreShape
     );
   });
 
+  source.addEventListener('restart-cancelled', (e) => {
+    const { name } = parse<{ name: string }>(e);
+    setStore(
+      produce((s) => {
+        const p = s.processes[name];
+        if (p) p.nextRestartAt = null;
+      }),
+    );
+  });
+
+  source.addEventListener('crash-loop', (e) => {
+    const { name, ...loop } = parse<{ name: string } & CrashLoop>(e);
+    setStore(
+      produce((s) => {
+        const p = s.processes[name];
+        if (p) p.crashLoop = loop;
+      }),
+    );
+  });
+
+  source.addEventListener('watch-triggered', (e) => {
+    const { name, files } = parse<{ name: string; files: string[] }>(e);
+    setStore(
+      produce((s) => {
+        const p = s.processes[name];
+        if (p) {
+          p.watchTriggered = files;
+          // The restart supersedes the prior build outcome, as with `restarting`.
+          p.build = undefined;
+          p.buildErrors = undefined;
+        }
+      }),
+    );
+  });
+
   source.addEventListener('build', (e) => {
     const { name, build } = parse<{ name: string; build: BuildStatus }>(e);
     setStore(
@@ -232,6 +349,85 @@ function bindHandlers(source: EventSource, setStore: SetStoreFunction<StoreShape
     );
   });
 
+  source.addEventListener('build-run', (e) => {
+    const { name, run } = parse<{ name: string; run: BuildRun }>(e);
+    setStore(
+      produce((s) => {
+        const p = s.processes[name];
+        if (!p) return;
+        p.builds.push(run);
+        if (p.builds.length > MAX_BUILDS_PER_PROCESS) {
+          p.builds.splice(0, p.builds.length - MAX_BUILDS_PER_PROCESS);
+        }
+      }),
+    );
+  });
+
+  source.addEventListener('diagnostics', (e) => {
+    const { name, diagnostics } = parse<{ name: string; diagnostics: Diagnostic[] }>(e);
+    setStore(
+      produce((s) => {
+        const p = s.processes[name];
+        if (p) p.diagnostics = diagnostics;
+      }),
+    );
+  });
+
+  source.addEventListener('metrics', (e) => {
+    const { name, sample } = parse<{ name: string; sample: MetricsSample }>(e);
+    setStore(
+      produce((s) => {
+        const p = s.processes[name];
+        if (!p) return;
+        p.metrics.push(sample);
+        if (p.metrics.length > MAX_METRICS_PER_PROCESS) {
+          p.metrics.splice(0, p.metrics.length - MAX_METRICS_PER_PROCESS);
+        }
+      }),
+    );
+  });
+
+  source.addEventListener('boot-step', (e) => {
+    const { name, startedAt, step } = parse<{ name: string; startedAt: number; step: BootStep }>(e);
+    setStore(
+      produce((s) => {
+        const p = s.processes[name];
+        if (!p) return;
+        // A new startedAt means a new boot (restart or respawn): start over.
+        if (!p.boot || p.boot.startedAt !== startedAt) {
+          p.boot = { startedAt, steps: [], droppedProbes: 0 };
+        }
+        const steps = p.boot.steps;
+        if (step.kind === 'probe') {
+          const probes = steps.filter((st) => st.kind === 'probe').length;
+          if (probes >= MAX_PROBE_STEPS) {
+            // Keep the first attempt; drop the one after it, as the server does.
+            const first = steps.findIndex((st) => st.kind === 'probe');
+            const second = steps.findIndex((st, i) => i > first && st.kind === 'probe');
+            if (second !== -1) {
+              steps.splice(second, 1);
+              p.boot.droppedProbes++;
+            }
+          }
+        }
+        steps.push(step);
+      }),
+    );
+  });
+
+  source.addEventListener('limit-exceeded', (e) => {
+    const { name, exceeded } = parse<{ name: string; exceeded: LimitExceeded }>(e);
+    setStore(
+      produce((s) => {
+        const p = s.processes[name];
+        if (p) {
+          p.limitExceeded = exceeded;
+          p.lastError = exceeded.message;
+        }
+      }),
+    );
+  });
+
   source.addEventListener('line', (e) => {
     const line = parse<{
       name: string;
@@ -256,6 +452,20 @@ function bindHandlers(source: EventSource, setStore: SetStoreFunction<StoreShape
     );
   });
 
+  // A config reload can add, remove or rewire processes — take a fresh
+  // snapshot rather than patching the store piecemeal.
+  source.addEventListener('config-reloaded', () => {
+    void fetchState()
+      .then((snap) => applySnapshot(setStore, snap))
+      .catch(() => {
+        // the next reconnect's snapshot catches up
+      });
+  });
+
+  source.addEventListener('notification', (e) => {
+    showNotification(parse<OrckitNotification>(e));
+  });
+
   source.addEventListener('boot:complete', (e) => {
     const summary = parse<BootSummary>(e);
     setStore('bootSummary', summary);
@@ -9,6 +9,7 @@ export type ProcessState =
   | 'starting'
   | 'ready'
   | 'running'
+  | 'unhealthy'
   | 'finished'
   | 'stopping'
   | 'stopped'
@@ -19,13 +20,107 @@ export type Stream = 'stdout' | 'stderr';
 /**
  * Mirror of orckit's `BuildStatus` (src/process/parsers.ts). The reduced,
  * current state of a process's most recent build, streamed over SSE for
- * processes whose `type` has a build parser (webpack, angular, …).
+ * processes whose `type` has a build parser (webpack, vite, tsc, …).
  */
 export type BuildStatus =
   | { phase: 'building'; percent?: number }
   | { phase: 'done'; success: boolean; errors: number; warnings: number; durationMs?: number }
   | { phase: 'failed'; reason?: string };
 
+/** Mirror of orckit's `BuildRun` (src/process/build-history.ts). One finished build. */
+export interface BuildRun {
+  startedAt: number;
+  durationMs?: number;
+  success: boolean;
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * Mirror of orckit's `MetricsSample` (src/process/metrics.ts). One CPU / memory
+ * reading for a process's whole process group.
+ */
+export interface MetricsSample {
+  timestamp: number;
+  /** Percent of one core since the previous sample (two busy cores read 200). */
+  cpu: number;
+  /** Resident memory of the whole group, in bytes. */
+  rss: number;
+  processes: number;
+}
+
+/**
+ * Mirror of orckit's `LimitExceeded` (src/process/limits.ts). A `limits:`
+ * ceiling that stayed crossed for `sustained_for`.
+ */
+export interface LimitExceeded {
+  limit: 'memory' | 'cpu';
+  value: number;
+  max: number;
+  sustainedMs: number;
+  action: 'warn' | 'restart' | 'stop';
+  message: string;
+}
+
+/**
+ * Mirror of orckit's boot timeline types (src/orchestrator/timeline.ts). The
+ * steps of a process's latest boot, in order: hooks, spawn, every ready-check
+ * attempt, and how it ended.
+ */
+export type BootStep =
+  | {
+      kind: 'hook';
+      hook: 'pre_start' | 'post_start';
+      timestamp: number;
+      durationMs: number;
+      error?: string;
+    }
+  | { kind: 'spawn'; timestamp: number; pid: number | null }
+  | {
+      kind: 'probe';
+      attempt: number;
+      timestamp: number;
+      ok: boolean;
+      reason?: string;
+      latencyMs: number;
+    }
+  | { kind: 'ready'; timestamp: number }
+  | { kind: 'failed'; timestamp: number; error: string };
+
+export interface BootTimeline {
+  startedAt: number;
+  steps: BootStep[];
+  /** Probe attempts dropped from the middle of a long wait. */
+  droppedProbes: number;
+}
+
+/**
+ * Mirror of orckit's `Diagnostic` (src/process/diagnostics.ts). One problem a
+ * compiler or linter reported against a file; `file` is as the tool printed it,
+ * usually relative to the process's `cwd`.
+ */
+export interface Diagnostic {
+  file: string;
+  line?: number;
+  column?: number;
+  severity: 'error' | 'warning';
+  code?: string;
+  message: string;
+}
+
+/** Mirror of orckit's `ProcessOverride` (src/orchestrator/orchestrator.ts). */
+export interface ProcessOverride {
+  command?: string;
+  env?: Record<string, string>;
+}
+
+/** Mirror of orckit's `CrashLoop` (src/orchestrator/restart.ts). */
+export interface CrashLoop {
+  failures: number;
+  windowMs: number;
+  message: string;
+}
+
 export interface OutputLine {
   text: string;
   stream: Stream;
@@ -43,13 +138,29 @@ export interface ProcessSnapshot {
   pid: number | null;
   startedAt: number | null;
   retries: number;
+  /**
+   * When the queued automatic restart spawns (epoch ms), or null. Seeded from
+   * the snapshot; set by `restarting`, cleared by `restart-cancelled` and once
+   * the process starts.
+   */
+  nextRestartAt: number | null;
+  /** The last crash loop, until the process is started by hand. */
+  crashLoop?: CrashLoop;
+  /**
+   * The one-off override the running spawn was started with; `command` is
+   * still the config's. Seeded from the snapshot, replaced on every `starting`.
+   */
+  override?: ProcessOverride;
   optional: boolean;
   /**
    * Absolute working directory the process runs in. Relative file references in
    * its output are resolved against this before building IDE deep links.
    */
   cwd: string;
+  /** The last failure, or else the standing `limits:` breach's message. */
   lastError?: string;
+  /** The last `limits:` breach, until something other than the limit restarts the process. */
+  limitExceeded?: LimitExceeded;
   build?: BuildStatus;
   /**
    * Diagnostic lines from the latest failing build. Seeded from the snapshot
@@ -57,6 +168,32 @@ export interface ProcessSnapshot {
    * error line as `reason`); cleared on a rebuild or a successful completion.
    */
   buildErrors?: string[];
+  /**
+   * Structured errors and warnings of the latest build. Seeded from the
+   * snapshot and replaced wholesale by `diagnostics` events.
+   */
+  diagnostics: Diagnostic[];
+  /**
+   * Finished builds, oldest first. Seeded from the snapshot and extended by
+   * `build-run` events; kept across restarts.
+   */
+  builds: BuildRun[];
+  /**
+   * Recent resource samples, oldest first. Seeded from the snapshot and
+   * extended by `metrics` events. Kept across restarts; empty off Linux.
+   */
+  metrics: MetricsSample[];
+  /**
+   * The latest boot, step by step. Seeded from the snapshot and extended by
+   * `boot-step` events; null until the process is first started.
+   */
+  boot: BootTimeline | null;
+  /**
+   * Files whose change triggered the restart in flight (`watch:` config).
+   * Client-side only: set from `watch-triggered` events and cleared once the
+   * process settles.
+   */
+  watchTriggered?: string[];
 }
 
 /**
@@ -75,6 +212,27 @@ export interface IdeLink {
 
 export interface OrckitSnapshot {
   project: string;
+  /** The config profile orckit was started with (`--profile`), or null. */
+  profile: string | null;
   processes: ProcessSnapshot[];
+  /** The config's top-level `ports:`, with `auto` entries replaced by the allocated port. */
+  ports: Record<string, number>;
   ide: IdeLink | null;
+  /** Whether a `browser` notification channel is configured. */
+  notifications: boolean;
+  /** Whether `web.allow_overrides` lets a restart carry a command / env. */
+  overrides: boolean;
+}
+
+/**
+ * Mirror of orckit's `Notification` (src/reporter/notifier.ts), sent as a
+ * `notification` event for each `browser` channel it passes.
+ */
+export interface OrckitNotification {
+  event: 'failed' | 'recovered' | 'build-failed' | 'all-ready';
+  project: string;
+  name: string | null;
+  title: string;
+  message: string;
+  timestamp: number;
 }
@@ -3,6 +3,8 @@ import { Button } from '../components/Button';
 import { IconButton } from '../components/IconButton';
 import { Badge, StateBadge } from '../components/Badge';
 import { BuildBadge } from '../components/BuildBadge';
+import { WatchBadge } from '../components/WatchBadge';
+import { RestartBadge } from '../components/RestartBadge';
 import { Card } from '../components/Card';
 import { TabBar } from '../components/TabBar';
 import { Toast } from '../components/Toast';
@@ -11,12 +13,31 @@ import { LogView } from '../components/LogView';
 import { LinkedText } from '../components/LinkedText';
 import { ProcessGroup, groupByCategory } from '../components/ProcessGroup';
 import { BrandMark } from '../components/Brand';
-import { IconPlay, IconRestart, IconStop, IconLogs, IconAlert, IconCopy } from '../lib/icons';
+import { Sparkline } from '../components/Sparkline';
+import {
+  IconPlay,
+  IconRestart,
+  IconStop,
+  IconLogs,
+  IconAlert,
+  IconBell,
+  IconCopy,
+} from '../lib/icons';
 import { useOrckit } from '../lib/stream';
 import { useToasts } from '../lib/toasts';
-import { restartProcess, startProcess, stopProcess } from '../lib/api';
-import type { OutputLine, ProcessSnapshot } from '../lib/types';
+import { cancelRestart, restartProcess, startProcess, stopProcess } from '../lib/api';
+import type {
+  BootStep,
+  BuildRun,
+  Diagnostic,
+  OutputLine,
+  ProcessOverride,
+  ProcessSnapshot,
+} from '../lib/types';
+import { buildIdeHref } from '../lib/ide';
+import { notificationsSupported } from '../lib/notifications';
 import { cx } from '../lib/cx';
+import { formatBytes } from '../lib/format';
 
 export default function DashboardPage() {
   return (
@@ -121,7 +142,7 @@ function ProjectHeader() {
     let failed = 0;
     for (const p of list) {
       if (p.state === 'ready' || p.state === 'running' || p.state === 'finished') ready++;
-      else if (p.state === 'failed') failed++;
+      else if (p.state === 'failed' || p.state === 'unhealthy') failed++;
     }
     return { ready, failed, total: list.length };
   };
@@ -129,9 +150,17 @@ function ProjectHeader() {
     <div class="px-4 py-3 border-b border-border-subtle">
       <div class="text-[10px] uppercase tracking-wider font-mono text-fg-tertiary">project</div>
       <div class="mt-0.5 flex items-center justify-between gap-2">
-        <span class="text-sm font-medium text-fg-primary truncate" title={orckit.project()}>
-          {orckit.project() || '—'}
-        </span>
+        <div class="flex items-center gap-1.5 min-w-0">
+          <span class="text-sm font-medium text-fg-primary truncate" title={orckit.project()}>
+            {orckit.project() || '—'}
+          </span>
+          <Show when={orckit.profile()}>
+            <span title="config profile">
+              <Badge tone="accent">{orckit.profile()}</Badge>
+            </span>
+          </Show>
+          <NotificationPrompt />
+        </div>
         <Show when={summary().total > 0}>
           <div class="flex items-center gap-2 text-[11px] font-mono text-fg-tertiary tabular-nums">
             <span>
@@ -144,17 +173,52 @@ function ProjectHeader() {
           </div>
         </Show>
       </div>
+      <Show when={Object.keys(orckit.ports()).length > 0}>
+        <div
+          class="mt-1 text-[11px] font-mono text-fg-tertiary truncate"
+          title="allocated under the config's ports:"
+        >
+          {Object.entries(orckit.ports())
+            .map(([key, port]) => `${key} ${port}`)
+            .join(' · ')}
+        </div>
+      </Show>
     </div>
   );
 }
 
+/**
+ * Asks for permission to show desktop notifications, while the config has a
+ * `browser` channel and the user hasn't answered yet.
+ */
+function NotificationPrompt() {
+  const orckit = useOrckit();
+  const [permission, setPermission] = createSignal(
+    notificationsSupported() ? Notification.permission : 'denied',
+  );
+  return (
+    <Show when={orckit.notifications() && permission() === 'default'}>
+      <IconButton
+        size="sm"
+        label="Enable desktop notifications"
+        onClick={() => void Notification.requestPermission().then(setPermission)}
+      >
+        <IconBell width={14} height={14} />
+      </IconButton>
+    </Show>
+  );
+}
+
 function ProcessDetail(props: {
   process: Accessor<ProcessSnapshot>;
   logs: Accessor<OutputLine[]>;
 }) {
-  const [tab, setTab] = createSignal<'logs' | 'errors' | 'details'>('logs');
+  const [tab, setTab] = createSignal<'logs' | 'errors' | 'problems' | 'timeline' | 'details'>(
+    'logs',
+  );
   const errorCount = () =>
     (props.process().lastError ? 1 : 0) + (props.process().buildErrors?.length ?? 0);
+  const problemCounts = () => countProblems(props.process().diagnostics);
 
   // Reset to "logs" when switching processes — avoids landing on "errors"
   // when the new process has none.
@@ -169,7 +233,7 @@ function ProcessDetail(props: {
       <div class="px-5 pt-3 pb-2 border-b border-border-subtle">
         <TabBar
           active={tab()}
-          onChange={(id) => setTab(id as 'logs' | 'errors' | 'details')}
+          onChange={(id) => setTab(id as 'logs' | 'errors' | 'problems' | 'timeline' | 'details')}
           tabs={[
             { id: 'logs', label: <>Logs</> },
             {
@@ -177,6 +241,17 @@ function ProcessDetail(props: {
               label: <>Errors</>,
               badge: errorCount() > 0 ? <Badge tone="danger">{errorCount()}</Badge> : undefined,
             },
+            {
+              id: 'problems',
+              label: <>Problems</>,
+              badge:
+                problemCounts().errors > 0 ? (
+                  <Badge tone="danger">{problemCounts().errors}</Badge>
+                ) : problemCounts().warnings > 0 ? (
+                  <Badge tone="warning">{problemCounts().warnings}</Badge>
+                ) : undefined,
+            },
+            { id: 'timeline', label: <>Timeline</> },
             { id: 'details', label: <>Details</> },
           ]}
         />
@@ -192,6 +267,12 @@ function ProcessDetail(props: {
         <Show when={tab() === 'errors'}>
           <ErrorsPanel process={props.process} />
         </Show>
+        <Show when={tab() === 'problems'}>
+          <ProblemsPanel process={props.process} />
+        </Show>
+        <Show when={tab() === 'timeline'}>
+          <TimelinePanel process={props.process} />
+        </Show>
         <Show when={tab() === 'details'}>
           <DetailsPanel process={props.process} />
         </Show>
@@ -203,11 +284,12 @@ function ProcessDetail(props: {
 function DetailHeader(props: { process: Accessor<ProcessSnapshot> }) {
   const p = () => props.process();
   const actions = useProcessActions();
-  const canStop = () => ['starting', 'ready', 'running'].includes(p().state);
+  const canStop = () => ['starting', 'ready', 'running', 'unhealthy'].includes(p().state);
   const canStart = () => ['pending', 'stopped', 'failed', 'finished'].includes(p().state);
   const [starting, setStarting] = createSignal(false);
   const [restarting, setRestarting] = createSignal(false);
   const [stopping, setStopping] = createSignal(false);
+  const [cancelling, setCancelling] = createSignal(false);
 
   return (
     <header class="px-5 py-4 border-b border-border-subtle">
@@ -222,9 +304,25 @@ function DetailHeader(props: { process: Accessor<ProcessSnapshot> }) {
             <Show when={p().category && p().category !== 'default'}>
               <Badge tone="accent">{p().category}</Badge>
             </Show>
+            <Show when={p().watchTriggered}>
+              <WatchBadge files={p().watchTriggered!} />
+            </Show>
             <Show when={p().retries > 0}>
               <Badge tone="warning">retry ×{p().retries}</Badge>
             </Show>
+            <Show when={p().nextRestartAt}>
+              <RestartBadge at={p().nextRestartAt!} />
+            </Show>
+            <Show when={p().crashLoop}>
+              <span title={p().crashLoop!.message} class="inline-flex">
+                <Badge tone="danger">crash loop</Badge>
+              </span>
+            </Show>
+            <Show when={p().override}>
+              <span title={describeOverride(p().override!)} class="inline-flex">
+                <Badge tone="info">override</Badge>
+              </span>
+            </Show>
           </div>
           <div class="mt-1 text-[12px] text-fg-tertiary font-mono truncate" title={p().command}>
             {p().command}
@@ -243,6 +341,23 @@ function DetailHeader(props: { process: Accessor<ProcessSnapshot> }) {
           </div>
         </div>
         <div class="flex items-center gap-1.5 flex-shrink-0">
+          <Show when={p().nextRestartAt}>
+            <Button
+              size="md"
+              variant="secondary"
+              loading={cancelling()}
+              onClick={async () => {
+                setCancelling(true);
+                try {
+                  await actions.cancelRestart(p().name);
+                } finally {
+                  setCancelling(false);
+                }
+              }}
+            >
+              Cancel restart
+            </Button>
+          </Show>
           <Show when={canStart()}>
             <Button
               size="md"
@@ -413,35 +528,448 @@ function ErrorsPanel(props: { process: Accessor<ProcessSnapshot> }) {
   );
 }
 
-function DetailsPanel(props: { process: Accessor<ProcessSnapshot> }) {
+function countProblems(diagnostics: Diagnostic[]): { errors: number; warnings: number } {
+  const errors = diagnostics.filter((d) => d.severity === 'error').length;
+  return { errors, warnings: diagnostics.length - errors };
+}
+
+/** Diagnostics per file, files in the order they were first reported. */
+function groupByFile(diagnostics: Diagnostic[]): [string, Diagnostic[]][] {
+  const files = new Map<string, Diagnostic[]>();
+  for (const d of diagnostics) {
+    const list = files.get(d.file);
+    if (list) list.push(d);
+    else files.set(d.file, [d]);
+  }
+  return [...files];
+}
+
+function ProblemsPanel(props: { process: Accessor<ProcessSnapshot> }) {
   const p = () => props.process();
+  const counts = () => countProblems(p().diagnostics);
+  return (
+    <Show
+      when={p().diagnostics.length > 0}
+      fallback={
+        <EmptyState
+          icon={<IconAlert width={28} height={28} />}
+          title="No problems"
+          description={`${p().name}'s latest build reported no errors or warnings.`}
+        />
+      }
+    >
+      <div class="flex flex-col gap-3 h-full overflow-y-auto">
+        <div class="text-[11px] font-mono text-fg-tertiary">
+          {counts().errors} {counts().errors === 1 ? 'error' : 'errors'} · {counts().warnings}{' '}
+          {counts().warnings === 1 ? 'warning' : 'warnings'}
+        </div>
+        <For each={groupByFile(p().diagnostics)}>
+          {([file, diagnostics]) => (
+            <ProblemFile file={file} diagnostics={diagnostics} cwd={p().cwd} />
+          )}
+        </For>
+      </div>
+    </Show>
+  );
+}
+
+function ProblemFile(props: { file: string; diagnostics: Diagnostic[]; cwd: string }) {
+  const orckit = useOrckit();
+  /** A deep link to `line`/`column` of this file, when an IDE was detected. */
+  const href = (d?: Diagnostic) => {
+    const ide = orckit.ide();
+    return ide ? buildIdeHref(ide, props.file, d?.line, d?.column, props.cwd) : undefined;
+  };
   return (
     <Card>
-      <dl class="grid grid-cols-[8rem_1fr] gap-x-4 gap-y-2 text-[12px]">
-        <Field label="State" value={<StateBadge state={p().state} />} />
-        <Show when={p().build}>
-          <Field label="Build" value={<BuildBadge build={p().build!} />} />
+      <div class="text-[12px] font-mono text-fg-primary break-all">
+        <Show when={href()} fallback={props.file}>
+          {(link) => (
+            <a
+              href={link()}
+              title={`Open in IDE — ${props.file}`}
+              class="underline decoration-dotted underline-offset-2 hover:decoration-solid text-hl-blue hover:text-accent"
+            >
+              {props.file}
+            </a>
+          )}
         </Show>
-        <Field label="Category" value={p().category || 'default'} mono />
-        <Field label="Type" value={p().type} mono />
-        <Field label="Command" value={p().command} mono />
-        <Field label="PID" value={p().pid != null ? String(p().pid) : '—'} mono />
-        <Field
-          label="Started"
-          value={p().startedAt ? new Date(p().startedAt!).toLocaleTimeString() : '—'}
-          mono
+        <span class="ml-2 text-fg-tertiary">{props.diagnostics.length}</span>
+      </div>
+      <ul class="mt-2 flex flex-col gap-1 text-[12px] font-mono">
+        <For each={props.diagnostics}>
+          {(d) => (
+            <li class="grid grid-cols-[1.25rem_4.5rem_1fr] gap-x-2 items-start">
+              <span class={d.severity === 'error' ? 'text-status-failed' : 'text-status-starting'}>
+                {d.severity === 'error' ? '✗' : '⚠'}
+              </span>
+              <span class="text-fg-tertiary tabular-nums">
+                <Show when={d.line != null} fallback="—">
+                  <Show when={href(d)} fallback={`${d.line}:${d.column ?? 1}`}>
+                    {(link) => (
+                      <a
+                        href={link()}
+                        title="Open in IDE"
+                        class="underline decoration-dotted underline-offset-2 hover:decoration-solid text-hl-blue hover:text-accent"
+                      >
+                        {d.line}:{d.column ?? 1}
+                      </a>
+                    )}
+                  </Show>
+                </Show>
+              </span>
+              <span class="min-w-0 whitespace-pre-wrap break-words text-fg-primary">
+                {d.message}
+                <Show when={d.code}>
+                  <span class="ml-2 text-fg-tertiary">{d.code}</span>
+                </Show>
+              </span>
+            </li>
+          )}
+        </For>
+      </ul>
+    </Card>
+  );
+}
+
+type ProbeStep = Extract<BootStep, { kind: 'probe' }>;
+
+/** A timeline row: one step, or a run of failed probe attempts with the same reason. */
+type TimelineRow = { step: BootStep; last?: ProbeStep; count: number };
+
+/**
+ * Fold consecutive failed probe attempts that share a reason into one row, so
+ * a long wait reads "37× connection refused" instead of 37 rows of it.
+ */
+function foldProbes(steps: BootStep[]): TimelineRow[] {
+  const rows: TimelineRow[] = [];
+  for (const step of steps) {
+    const prev = rows[rows.length - 1];
+    const head = prev?.step;
+    if (
+      step.kind === 'probe' &&
+      !step.ok &&
+      head?.kind === 'probe' &&
+      !head.ok &&
+      head.reason === step.reason
+    ) {
+      prev!.last = step;
+      prev!.count++;
+    } else {
+      rows.push({ step, count: 1 });
+    }
+  }
+  return rows;
+}
+
+function TimelinePanel(props: { process: Accessor<ProcessSnapshot> }) {
+  const p = () => props.process();
+  const boot = () => p().boot;
+  return (
+    <Show
+      when={boot()}
+      fallback={
+        <EmptyState
+          icon={<IconLogs width={28} height={28} />}
+          title="No boot yet"
+          description={`${p().name} hasn't been started.`}
         />
-        <Field
-          label="Dependencies"
-          value={p().depends_on.length > 0 ? p().depends_on.join(', ') : '—'}
-          mono
+      }
+    >
+      {(b) => (
+        <Card>
+          <div class="text-[11px] font-mono text-fg-tertiary mb-3">
+            Boot began {new Date(b().startedAt).toLocaleTimeString()}
+            <Show when={b().droppedProbes > 0}> · {b().droppedProbes} probe attempts not kept</Show>
+          </div>
+          <ol class="flex flex-col gap-1.5 text-[12px] font-mono">
+            <For each={foldProbes(b().steps)}>
+              {(row) => <TimelineStep row={row} startedAt={b().startedAt} />}
+            </For>
+          </ol>
+        </Card>
+      )}
+    </Show>
+  );
+}
+
+function TimelineStep(props: { row: TimelineRow; startedAt: number }) {
+  const step = () => props.row.step;
+  const offset = () => `+${formatDuration(Math.max(0, step().timestamp - props.startedAt))}`;
+  const failed = () => {
+    const s = step();
+    return (s.kind === 'probe' && !s.ok) || s.kind === 'failed' || (s.kind === 'hook' && !!s.error);
+  };
+  const label = () => {
+    const s = step();
+    switch (s.kind) {
+      case 'hook':
+        return `${s.hook} hook · ${formatDuration(s.durationMs)}`;
+      case 'spawn':
+        return s.pid != null ? `spawned · pid ${s.pid}` : 'spawned';
+      case 'probe': {
+        const last = props.row.last;
+        const attempts = last
+          ? `probe #${s.attempt}–#${last.attempt} (${props.row.count}×)`
+          : `probe #${s.attempt}`;
+        return `${attempts} · ${(last ?? s).latencyMs}ms`;
+      }
+      case 'ready':
+        return 'ready';
+      case 'failed':
+        return 'failed';
+    }
+  };
+  const detail = () => {
+    const s = step();
+    if (s.kind === 'probe') return s.reason;
+    if (s.kind === 'hook') return s.error;
+    if (s.kind === 'failed') return s.error;
+    return undefined;
+  };
+  return (
+    <li class="grid grid-cols-[5rem_1.25rem_1fr] gap-x-2 items-start">
+      <span class="text-fg-tertiary tabular-nums text-right">{offset()}</span>
+      <span class={failed() ? 'text-status-failed' : 'text-status-running'}>
+        {failed() ? '✗' : '✓'}
+      </span>
+      <span class="min-w-0">
+        <span class="text-fg-primary">{label()}</span>
+        <Show when={detail()}>
+          <span class="block text-fg-tertiary whitespace-pre-wrap break-all">{detail()}</span>
+        </Show>
+      </span>
+    </li>
+  );
+}
+
+/** `KEY=VALUE` per line → env map; blank lines and `#` comments are skipped. */
+function parseEnvLines(text: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('#')) continue;
+    const eq = line.indexOf('=');
+    if (eq <= 0) throw new Error(`expected KEY=VALUE, got "${line}"`);
+    env[line.slice(0, eq).trim()] = line.slice(eq + 1);
+  }
+  return env;
+}
+
+function describeOverride(override: ProcessOverride): string {
+  const env = Object.entries(override.env ?? {}).map(([k, v]) => `${k}=${v}`);
+  return [override.command && `command: ${override.command}`, ...env].filter(Boolean).join('\n');
+}
+
+/**
+ * Restart with a tweaked command or extra env for one spawn, without touching
+ * the config — and go back to the config afterwards.
+ */
+function OverridePanel(props: { process: Accessor<ProcessSnapshot> }) {
+  const p = () => props.process();
+  const actions = useProcessActions();
+  const [command, setCommand] = createSignal('');
+  const [envText, setEnvText] = createSignal('');
+  const [error, setError] = createSignal<string | null>(null);
+  const [busy, setBusy] = createSignal(false);
+
+  // Start from what's running: the current override, else the config.
+  createEffect(() => {
+    const override = p().override;
+    setCommand(override?.command ?? p().command);
+    setEnvText(
+      Object.entries(override?.env ?? {})
+        .map(([k, v]) => `${k}=${v}`)
+        .join('\n'),
+    );
+    setError(null);
+  });
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restartWithOverride = () => {
+    let env: Record<string, string>;
+    try {
+      env = parseEnvLines(envText());
+    } catch (err) {
+      setError((err as Error).message);
+      return;
+    }
+    setError(null);
+    const override: ProcessOverride = {};
+    if (command().trim() !== '' && command() !== p().command) override.command = command();
+    if (Object.keys(env).length > 0) override.env = env;
+    void run(() => actions.restart(p().name, override));
+  };
+
+  const inputClass =
+    'w-full rounded-md border border-border-subtle bg-surface-inset px-2 py-1.5 ' +
+    'font-mono text-[12px] text-fg-primary placeholder:text-fg-disabled outline-none ' +
+    'focus:border-accent-dim';
+
+  return (
+    <Card>
+      <div class="text-sm font-medium text-fg-primary">Restart with overrides</div>
+      <p class="mt-1 text-[12px] text-fg-tertiary">
+        Applies to the next spawn only; the config is left as it is.
+      </p>
+      <label class="mt-3 block text-fg-tertiary font-mono text-[11px] uppercase tracking-wider">
+        Command
+        <textarea
+          rows={2}
+          value={command()}
+          onInput={(e) => setCommand(e.currentTarget.value)}
+          spellcheck={false}
+          class={cx(inputClass, 'mt-1 normal-case tracking-normal')}
+        />
+      </label>
+      <label class="mt-3 block text-fg-tertiary font-mono text-[11px] uppercase tracking-wider">
+        Extra env
+        <textarea
+          rows={3}
+          value={envText()}
+          onInput={(e) => setEnvText(e.currentTarget.value)}
+          placeholder="DEBUG=*"
+          spellcheck={false}
+          class={cx(inputClass, 'mt-1 normal-case tracking-normal')}
         />
-        <Field label="Retries" value={String(p().retries)} mono />
-      </dl>
+      </label>
+      <Show when={error()}>
+        <div class="mt-2 text-[12px] text-status-failed">{error()}</div>
+      </Show>
+      <div class="mt-3 flex items-center gap-1.5">
+        <Button
+          size="sm"
+          variant="primary"
+          leadingIcon={<IconRestart width={12} height={12} />}
+          loading={busy()}
+          onClick={restartWithOverride}
+        >
+          Restart with overrides
+        </Button>
+        <Show when={p().override}>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={busy()}
+            onClick={() => void run(() => actions.restart(p().name))}
+          >
+            Revert to config
+          </Button>
+        </Show>
+      </div>
     </Card>
   );
 }
 
+function DetailsPanel(props: { process: Accessor<ProcessSnapshot> }) {
+  const orckit = useOrckit();
+  const p = () => props.process();
+  return (
+    <div class="flex flex-col gap-3 h-full overflow-y-auto">
+      <Card>
+        <dl class="grid grid-cols-[8rem_1fr] gap-x-4 gap-y-2 text-[12px]">
+          <Field label="State" value={<StateBadge state={p().state} />} />
+          <Show when={p().build}>
+            <Field label="Build" value={<BuildBadge build={p().build!} />} />
+          </Show>
+          <Show when={p().builds.length > 0}>
+            <Field label="Builds" value={<BuildTrend builds={p().builds} />} mono />
+          </Show>
+          <Field label="Category" value={p().category || 'default'} mono />
+          <Field label="Type" value={p().type} mono />
+          <Field label="Command" value={p().command} mono />
+          <Field label="PID" value={p().pid != null ? String(p().pid) : '—'} mono />
+          <Field
+            label="Started"
+            value={p().startedAt ? new Date(p().startedAt!).toLocaleTimeString() : '—'}
+            mono
+          />
+          <Field
+            label="Dependencies"
+            value={p().depends_on.length > 0 ? p().depends_on.join(', ') : '—'}
+            mono
+          />
+          <Field label="Retries" value={String(p().retries)} mono />
+          <Show when={p().limitExceeded}>
+            <Field label="Limit" value={p().limitExceeded!.message} mono />
+          </Show>
+          <Show when={p().metrics.length > 0}>
+            <Field
+              label="CPU"
+              value={
+                <MetricTrend
+                  values={p().metrics.map((m) => m.cpu)}
+                  label={`${Math.round(p().metrics[p().metrics.length - 1]!.cpu)}%`}
+                />
+              }
+              mono
+            />
+            <Field
+              label="Memory"
+              value={
+                <MetricTrend
+                  values={p().metrics.map((m) => m.rss)}
+                  label={formatBytes(p().metrics[p().metrics.length - 1]!.rss)}
+                />
+              }
+              mono
+            />
+          </Show>
+        </dl>
+      </Card>
+      <Show when={orckit.overrides()}>
+        <OverridePanel process={props.process} />
+      </Show>
+    </div>
+  );
+}
+
+/** Latest value beside a sparkline of the kept history. */
+function MetricTrend(props: { values: number[]; label: string }) {
+  return (
+    <span class="flex items-center gap-3">
+      <Sparkline values={props.values} width={160} height={20} />
+      <span class="tabular-nums">{props.label}</span>
+    </span>
+  );
+}
+
+/** Build durations over the kept history, with their p50 / p95 and failures. */
+function BuildTrend(props: { builds: BuildRun[] }) {
+  const durations = () => props.builds.flatMap((b) => (b.durationMs != null ? [b.durationMs] : []));
+  const sorted = () => [...durations()].sort((a, b) => a - b);
+  const failures = () => props.builds.filter((b) => !b.success).length;
+  return (
+    <span class="flex items-center gap-3">
+      <Show when={durations().length > 1}>
+        <Sparkline values={durations()} width={160} height={20} />
+      </Show>
+      <span class="tabular-nums">
+        <Show when={sorted().length > 0}>
+          p50 {formatBuildDuration(percentile(sorted(), 50))} · p95{' '}
+          {formatBuildDuration(percentile(sorted(), 95))} ·{' '}
+        </Show>
+        {props.builds.length} {props.builds.length === 1 ? 'build' : 'builds'}
+        {failures() > 0 ? `, ${failures()} failed` : ''}
+      </span>
+    </span>
+  );
+}
+
+/** Nearest-rank percentile of ascending, non-empty `sorted` — as orckit computes it. */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]!;
+}
+
 function Field(props: { label: string; value: import('solid-js').JSX.Element; mono?: boolean }) {
   return (
     <>
@@ -461,7 +989,7 @@ function Field(props: { label: string; value: import('solid-js').JSX.Element; mo
 }
 
 /**
- * Hook bundling restart + stop with toast feedback. Lives in the component
+ * Hook bundling the process actions with toast feedback. Lives in the component
  * tree so it can read the closest <ToastProvider>.
  */
 function useProcessActions() {
@@ -480,10 +1008,13 @@ function useProcessActions() {
         });
       }
     },
-    async restart(name: string) {
+    async restart(name: string, override?: ProcessOverride) {
       try {
-        await restartProcess(name);
-        toasts.push({ tone: 'success', title: `Restarted ${name}` });
+        await restartProcess(name, override);
+        toasts.push({
+          tone: 'success',
+          title: override ? `Restarted ${name} with overrides` : `Restarted ${name}`,
+        });
       } catch (err) {
         toasts.push({
           tone: 'danger',
@@ -493,6 +1024,19 @@ function useProcessActions() {
         });
       }
     },
+    async cancelRestart(name: string) {
+      try {
+        await cancelRestart(name);
+        toasts.push({ tone: 'info', title: `Cancelled the restart of ${name}` });
+      } catch (err) {
+        toasts.push({
+          tone: 'danger',
+          title: `Cancel failed: ${name}`,
+          description: (err as Error).message,
+          ttl: 6000,
+        });
+      }
+    },
     async stop(name: string) {
       try {
         await stopProcess(name);
@@ -529,6 +1073,12 @@ function ToastStack() {
   );
 }
 
+/** Like `formatDuration`, with tenths of a second — builds differ by less than one. */
+function formatBuildDuration(ms: number): string {
+  if (ms < 1000 || ms >= 60_000) return formatDuration(ms);
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
 function formatDuration(ms: number): string {
   if (ms < 1000) return `${ms}ms`;
   const s = Math.floor(ms / 1000);
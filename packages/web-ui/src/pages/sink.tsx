@@ -21,7 +21,16 @@ import {
   IconSearch,
   IconSettings,
 } from '../lib/icons';
-import type { BuildStatus, IdeLink, OutputLine, ProcessSnapshot, ProcessState } from '../lib/types';
+import type {
+  BootTimeline,
+  BuildRun,
+  BuildStatus,
+  IdeLink,
+  MetricsSample,
+  OutputLine,
+  ProcessSnapshot,
+  ProcessState,
+} from '../lib/types';
 
 const BUILD_STATES: BuildStatus[] = [
   { phase: 'building' },
@@ -37,6 +46,7 @@ const STATES: ProcessState[] = [
   'starting',
   'ready',
   'running',
+  'unhealthy',
   'finished',
   'stopping',
   'stopped',
@@ -99,6 +109,49 @@ const SAMPLE_IDE: IdeLink = {
   root: '/Users/dev/acme-web',
 };
 
+/** A fake metrics history: one sample every 2s ending now, memory creeping up. */
+function sampleMetrics(cpu: number[], rss: number): MetricsSample[] {
+  return cpu.map((value, i) => ({
+    timestamp: Date.now() - (cpu.length - 1 - i) * 2000,
+    cpu: value,
+    rss: rss + i * 2 * 1024 * 1024,
+    processes: 3,
+  }));
+}
+
+/** Fake builds, one a minute, taking `seconds` each; the ones in `failed` broke. */
+function sampleBuilds(seconds: number[], failed: number[] = []): BuildRun[] {
+  return seconds.map((value, i) => ({
+    startedAt: Date.now() - (seconds.length - i) * 60_000,
+    durationMs: value * 1000,
+    success: !failed.includes(i),
+    errors: failed.includes(i) ? 2 : 0,
+    warnings: 0,
+  }));
+}
+
+/** A fake boot: a pre_start hook, then five refused probes before the port opens. */
+function sampleBoot(startedAt: number): BootTimeline {
+  const probes = [1, 2, 3, 4, 5, 6].map((attempt) => ({
+    kind: 'probe' as const,
+    attempt,
+    timestamp: startedAt + 1400 + attempt * 500,
+    ok: attempt === 6,
+    reason: attempt === 6 ? undefined : 'connect ECONNREFUSED 127.0.0.1:4000',
+    latencyMs: attempt === 6 ? 4 : 1,
+  }));
+  return {
+    startedAt,
+    droppedProbes: 0,
+    steps: [
+      { kind: 'hook', hook: 'pre_start', timestamp: startedAt, durationMs: 1320 },
+      { kind: 'spawn', timestamp: startedAt + 1330, pid: 12101 },
+      ...probes,
+      { kind: 'ready', timestamp: startedAt + 4404 },
+    ],
+  };
+}
+
 const SAMPLE_PROCESSES: ProcessSnapshot[] = [
   {
     name: 'postgres',
@@ -110,8 +163,13 @@ const SAMPLE_PROCESSES: ProcessSnapshot[] = [
     pid: 12041,
     startedAt: Date.now() - 60_000,
     retries: 0,
+    nextRestartAt: null,
     optional: false,
     cwd: '/Users/dev/acme-web',
+    metrics: [],
+    diagnostics: [],
+    builds: [],
+    boot: null,
   },
   {
     name: 'redis',
@@ -123,8 +181,14 @@ const SAMPLE_PROCESSES: ProcessSnapshot[] = [
     pid: null,
     startedAt: null,
     retries: 2,
+    nextRestartAt: Date.now() + 8000,
+    crashLoop: { failures: 3, windowMs: 60_000, message: 'crash loop: 3 failures within 1m' },
     optional: false,
     cwd: '/Users/dev/acme-web',
+    metrics: [],
+    diagnostics: [],
+    builds: [],
+    boot: null,
     lastError: 'exited (code 1) — port 6379 in use',
   },
   {
@@ -137,8 +201,13 @@ const SAMPLE_PROCESSES: ProcessSnapshot[] = [
     pid: null,
     startedAt: Date.now() - 50_000,
     retries: 0,
+    nextRestartAt: null,
     optional: false,
     cwd: '/Users/dev/acme-web',
+    metrics: [],
+    diagnostics: [],
+    builds: [],
+    boot: null,
   },
   {
     name: 'api',
@@ -150,8 +219,14 @@ const SAMPLE_PROCESSES: ProcessSnapshot[] = [
     pid: 12101,
     startedAt: Date.now() - 30_000,
     retries: 0,
+    nextRestartAt: null,
     optional: false,
     cwd: '/Users/dev/acme-web',
+    diagnostics: [],
+    builds: [],
+    metrics: sampleMetrics([4, 12, 38, 21, 9, 6, 14, 7], 180 * 1024 * 1024),
+    boot: sampleBoot(Date.now() - 34_000),
+    override: { env: { DEBUG: 'api:*' } },
   },
   {
     name: 'web',
@@ -163,15 +238,37 @@ const SAMPLE_PROCESSES: ProcessSnapshot[] = [
     pid: 12180,
     startedAt: Date.now() - 5000,
     retries: 0,
+    nextRestartAt: null,
     optional: false,
     cwd: '/Users/dev/acme-web',
+    metrics: [],
+    boot: null,
     // Dev server stays up across a failed recompile — the build badge flags the
-    // breakage and the captured diagnostics surface in the Errors tab.
+    // breakage and the captured diagnostics surface in the Errors and Problems tabs.
     build: { phase: 'done', success: false, errors: 2, warnings: 0 },
     buildErrors: [
       'ERROR in ./src/app/app.component.ts:25:7 - TS2322: Type mismatch.',
       'ERROR in ./src/app/app.component.ts:30:11 - TS1434: Unexpected keyword.',
     ],
+    builds: sampleBuilds([3.1, 2.8, 3.4, 4.9, 3.2, 3.6, 5.8, 4.1], [6]),
+    diagnostics: [
+      {
+        file: './src/app/app.component.ts',
+        line: 25,
+        column: 7,
+        severity: 'error',
+        code: 'TS2322',
+        message: 'Type mismatch.',
+      },
+      {
+        file: './src/app/app.component.ts',
+        line: 30,
+        column: 11,
+        severity: 'error',
+        code: 'TS1434',
+        message: 'Unexpected keyword.',
+      },
+    ],
   },
   {
     name: 'worker',
@@ -183,8 +280,13 @@ const SAMPLE_PROCESSES: ProcessSnapshot[] = [
     pid: null,
     startedAt: null,
     retries: 0,
+    nextRestartAt: null,
     optional: false,
     cwd: '/Users/dev/acme-web',
+    metrics: [],
+    diagnostics: [],
+    builds: [],
+    boot: null,
   },
 ];
 
@@ -226,7 +328,7 @@ export default function Sink() {
 
         <Section
           title="Build status"
-          subtitle="For webpack/angular processes — the latest build outcome, shown independently of process state so a failed recompile on a still-running dev server stays visible."
+          subtitle="For processes with a build parser (webpack, vite, tsc, …) — the latest build outcome, shown independently of process state so a failed recompile on a still-running dev server stays visible."
         >
           <Card>
             <div class="flex flex-wrap items-center gap-3">
@@ -1,12 +1,16 @@
 #!/usr/bin/env node
-import { dirname, resolve } from 'node:path';
-import { Command } from 'commander';
+import { spawn } from 'node:child_process';
+import { closeSync, mkdirSync, openSync, readFileSync } from 'node:fs';
+import { dirname, relative, resolve } from 'node:path';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
-import { loadConfig, ConfigError } from './config/load.js';
+import { loadConfig, allocateConfigPorts, ConfigError } from './config/load.js';
+import { profileProcesses } from './config/profiles.js';
 import { BootFailedError, Orckit } from './orchestrator/orchestrator.js';
 import { attachCliReporter, printFailureDump, renderStatus } from './reporter/cli-reporter.js';
 import { attachShutdownReporter } from './reporter/shutdown-reporter.js';
 import { attachLogReporter, type LogReporterHandle } from './reporter/log-reporter.js';
+import { attachNotifier } from './reporter/notifier.js';
 import { attachMcpServer, type McpServerHandle } from './mcp/server.js';
 import { attachWebUi, type WebUiServerHandle } from './web/server.js';
 import { detectIde } from './web/ide.js';
@@ -14,6 +18,21 @@ import { attachRepl, type Repl } from './reporter/repl.js';
 import { renderGraph } from './reporter/graph-view.js';
 import { attachDashboard, type DashboardHandle, type DashboardLink } from './reporter/dashboard.js';
 import { buildGraph } from './graph/resolver.js';
+import { watchConfig } from './orchestrator/reload.js';
+import type { FileWatchHandle } from './orchestrator/watch.js';
+import { clearDaemonFiles, daemonPaths, runningDaemonPid, writeDaemonPid } from './daemon/paths.js';
+import {
+  attachControlServer,
+  type ControlFrame,
+  type ControlServerHandle,
+  type StatusResult,
+} from './daemon/control.js';
+import { sendControlRequest } from './daemon/client.js';
+
+/** How long `orc start --detach` waits for the daemon's control socket to answer. */
+const DAEMON_START_TIMEOUT_MS = 15_000;
+/** How long `orc stop` waits for the daemon process to exit after asking it to. */
+const DAEMON_STOP_TIMEOUT_MS = 60_000;
 
 const program = new Command()
   .name('orc')
@@ -24,10 +43,14 @@ program
   .command('validate')
   .description('Validate a configuration file and print the resolved dependency order')
   .option('-c, --config <path>', 'config file path', './orckit.yaml')
-  .action((opts: { config: string }) => {
+  .option('-p, --profile <name>', 'apply a profile from the config before validating')
+  .action((opts: { config: string; profile?: string }) => {
     try {
-      const config = loadConfig(opts.config);
-      console.log(chalk.green('✓ configuration valid'));
+      const config = loadConfig(opts.config, { profile: opts.profile });
+      console.log(
+        chalk.green('✓ configuration valid') +
+          (config.profile ? chalk.dim(` (profile ${config.profile})`) : ''),
+      );
       console.log(chalk.bold('\nDependency graph'));
       const graph = buildGraph(config);
       console.log(
@@ -45,10 +68,31 @@ program
   .command('list')
   .description('List processes defined in the configuration')
   .option('-c, --config <path>', 'config file path', './orckit.yaml')
-  .action((opts: { config: string }) => {
+  .option('-p, --profile <name>', 'list the processes a profile runs')
+  .option('--profiles', 'list the profiles defined in the configuration instead', false)
+  .action((opts: { config: string; profile?: string; profiles: boolean }) => {
     try {
-      const config = loadConfig(opts.config);
-      console.log(chalk.bold(`Processes for ${config.project}:`));
+      if (opts.profiles) {
+        const config = loadConfig(opts.config, { profile: null });
+        console.log(chalk.bold(`Profiles for ${config.project}:`));
+        if (Object.keys(config.profiles).length === 0) {
+          console.log(chalk.dim('  (none — add a `profiles:` section to the config)'));
+        }
+        for (const [name, profile] of Object.entries(config.profiles)) {
+          console.log(`  ${chalk.cyan(name)}`);
+          if (profile.description) console.log(`    ${profile.description}`);
+          const selected = [...profileProcesses(config.processes, profile)];
+          console.log(`    processes: ${selected.join(', ')}`);
+          const overridden = Object.keys(profile.overrides);
+          if (overridden.length > 0) console.log(`    overrides: ${overridden.join(', ')}`);
+        }
+        return;
+      }
+      const config = loadConfig(opts.config, { profile: opts.profile });
+      console.log(
+        chalk.bold(`Processes for ${config.project}:`) +
+          (config.profile ? chalk.dim(` (profile ${config.profile})`) : ''),
+      );
       for (const [name, processConfig] of Object.entries(config.processes)) {
         console.log(`  ${chalk.cyan(name)} ${chalk.dim(`(${processConfig.type})`)}`);
         console.log(`    command: ${processConfig.command}`);
@@ -63,7 +107,10 @@ program
 
 program
   .command('start [processes...]')
-  .description('Start all processes (or only the listed ones plus their dependencies)')
+  .description(
+    'Start all processes (or only the listed ones plus their dependencies; `@category` ' +
+      'and globs like "api-*" select several)',
+  )
   .option('-c, --config <path>', 'config file path', './orckit.yaml')
   .option('--show-output', 'stream process stdout/stderr to terminal (above the dashboard)', false)
   .option('--show-build', 'show raw build events as they happen', false)
@@ -77,8 +124,17 @@ program
   )
   .option('--mcp-port <port>', 'override the YAML mcp.port (must be enabled in config)')
   .option('--no-mcp', 'force-disable the built-in MCP server, overriding YAML')
+  .option('-p, --profile <name>', 'apply a profile from the config (default: its `profile:` key)')
+  .option('--watch-config', 'reload the config on change, restarting only what changed', false)
   .option('--web-port <port>', 'override the YAML web.port (must be enabled in config)')
   .option('--no-web', 'force-disable the built-in web dashboard, overriding YAML')
+  .option(
+    '--detach',
+    'run in the background; control it with `orc status|stop|restart|logs|attach`',
+    false,
+  )
+  // Internal: set on the re-spawned background process by --detach.
+  .addOption(new Option('--daemon').default(false).hideHelp())
   .action(
     async (
       processes: string[],
@@ -93,9 +149,21 @@ program
         mcpPort?: string;
         web: boolean;
         webPort?: string;
+        profile?: string;
+        watchConfig: boolean;
+        detach: boolean;
+        daemon: boolean;
       },
     ) => {
-      const config = loadConfig(opts.config);
+      const loaded = loadConfig(opts.config, { profile: opts.profile });
+      if (opts.detach) {
+        await detachDaemon(opts.config);
+        return;
+      }
+      // The detached process has no terminal: no live dashboard, no REPL, and
+      // plain reporter output lands in the daemon log file.
+      const daemon = opts.daemon ? daemonPaths(dirname(resolve(opts.config))) : null;
+      const config = await allocateConfigPorts(loaded);
       const orckit = new Orckit(config);
 
       // Capture each process's failure message so the boot-failure dump can
@@ -141,6 +209,7 @@ program
           mcpServer = await attachMcpServer(orckit, {
             port: cliMcpPort ?? config.mcp.port,
             host: config.mcp.host,
+            allowControl: config.mcp.allow_control,
           });
           links.push({ label: 'mcp', value: mcpServer.url });
         } catch (err) {
@@ -179,6 +248,7 @@ program
             port: cliWebPort ?? config.web.port,
             host: config.web.host,
             ide,
+            allowOverrides: config.web.allow_overrides,
           });
           // Web dashboard is the headline action surface — show it first.
           links.unshift({ label: 'web', value: webServer.url });
@@ -199,7 +269,7 @@ program
       // cli-reporter rides above it for preflight banners, failure tails,
       // and (optionally) raw output / build events.
       const dashboard: DashboardHandle | null =
-        opts.live === false ? null : attachDashboard(orckit, { links });
+        opts.live === false || daemon ? null : attachDashboard(orckit, { links });
 
       let repl: Repl | null = null;
 
@@ -234,6 +304,18 @@ program
         });
       }
 
+      // Command and webhook channels; `browser` ones go out through the web
+      // dashboard's event stream.
+      const notifier = attachNotifier(orckit, {
+        onError: (channel, err) => {
+          const print = dashboard?.printAbove ?? ((msg: string) => console.error(msg));
+          print(chalk.yellow(`  ${channel.type} notification failed: ${err.message}`));
+        },
+      });
+
+      let control: ControlServerHandle | null = null;
+      let configWatch: FileWatchHandle | null = null;
+
       let shuttingDown = false;
       const shutdown = async (signal: string, code = 0) => {
         if (shuttingDown) {
@@ -245,6 +327,7 @@ program
           process.exit(130);
         }
         shuttingDown = true;
+        configWatch?.close();
         dashboard?.dispose();
         repl?.detach();
         // Swap the live reporter for the verbose shutdown reporter so teardown
@@ -256,22 +339,43 @@ program
         console.log(
           chalk.dim('  (graceful shutdown — press Ctrl-C again to force-quit immediately)'),
         );
+        // A deliberate shutdown isn't news.
+        notifier.dispose();
         await orckit.dispose();
         await logReporter?.dispose();
         await mcpServer?.dispose();
         await webServer?.dispose();
+        await control?.dispose();
+        if (daemon) clearDaemonFiles(daemon);
         console.log(renderStatus(orckit.states()));
         process.exit(code);
       };
       process.on('SIGINT', () => void shutdown('SIGINT'));
       process.on('SIGTERM', () => void shutdown('SIGTERM'));
 
-      // Validate --with names eagerly so we don't spin up an MCP server / web
-      // dashboard before failing.
-      for (const name of opts.with) {
-        if (!(name in config.processes)) {
-          fail(new Error(`--with: unknown process "${name}"`));
+      // Bring the control socket up before booting so `orc status` can watch
+      // a slow boot, and so the --detach parent knows the daemon is alive.
+      if (daemon) {
+        try {
+          control = await attachControlServer(orckit, {
+            socketPath: daemon.socketPath,
+            onShutdown: () => shutdown('orc stop'),
+          });
+        } catch (err) {
+          await logReporter?.dispose();
+          await mcpServer?.dispose();
+          await webServer?.dispose();
+          fail(err);
         }
+        writeDaemonPid(daemon);
+      }
+
+      // Validate --with selectors eagerly so we don't spin up an MCP server /
+      // web dashboard before failing.
+      try {
+        orckit.resolveTargets(opts.with);
+      } catch (err) {
+        fail(new Error(`--with: ${(err as Error).message}`));
       }
       // Targeting precedence:
       //   - if positional names are given, those are the explicit targets
@@ -309,34 +413,47 @@ program
         fail(err);
       }
 
+      if (opts.watchConfig) {
+        const print = dashboard?.printAbove ?? ((msg: string) => console.error(msg));
+        configWatch = watchConfig(orckit, {
+          configPath: opts.config,
+          profile: opts.profile,
+          onError: (err) => {
+            print(chalk.red(`  ✗ config not reloaded: ${err.message}`));
+            print(chalk.dim('    (the running processes are unchanged; fix the file to retry)'));
+          },
+        });
+      }
+
       // REPL is only attached in plain mode — the persistent dashboard claims
       // the bottom of the terminal, and the browser dashboard is the action
       // surface when it's on.
-      if (!dashboard && opts.repl) {
+      if (!dashboard && !daemon && opts.repl) {
         repl = attachRepl({
           retry: async (givenTargets, cascade) => {
             const states = orckit.states();
             const failed = [...states].filter(([, s]) => s === 'failed').map(([n]) => n);
-            const targets = givenTargets.length > 0 ? givenTargets : failed;
+            let targets = failed;
+            if (givenTargets.length > 0) {
+              try {
+                targets = orckit.resolveTargets(givenTargets);
+              } catch (err) {
+                console.log(chalk.yellow(`  ${(err as Error).message}`));
+                return;
+              }
+            }
             if (targets.length === 0) {
               console.log(chalk.dim('  nothing to retry'));
               return;
             }
-            for (const name of targets) {
-              if (!states.has(name)) {
-                console.log(chalk.yellow(`  unknown process "${name}"`));
-                return;
-              }
-            }
             await orckit.restart(targets, { cascade });
           },
           start: async (targets) => {
-            const states = orckit.states();
-            for (const name of targets) {
-              if (!states.has(name)) {
-                console.log(chalk.yellow(`  unknown process "${name}"`));
-                return;
-              }
+            try {
+              orckit.resolveTargets(targets);
+            } catch (err) {
+              console.log(chalk.yellow(`  ${(err as Error).message}`));
+              return;
             }
             await orckit.startTargets(targets);
           },
@@ -354,8 +471,202 @@ program
     },
   );
 
+program
+  .command('status')
+  .description('Show process status of the background daemon (`orc start --detach`)')
+  .option('-c, --config <path>', 'config file path', './orckit.yaml')
+  .action(async (opts: { config: string }) => {
+    try {
+      const status = (await sendControlRequest(controlSocket(opts.config), {
+        command: 'status',
+      })) as StatusResult;
+      printDaemonStatus(status);
+    } catch (err) {
+      fail(err);
+    }
+  });
+
+program
+  .command('stop [processes...]')
+  .description('Stop processes in the background daemon, or the whole daemon when none are listed')
+  .option('-c, --config <path>', 'config file path', './orckit.yaml')
+  .action(async (processes: string[], opts: { config: string }) => {
+    try {
+      const paths = daemonPaths(dirname(resolve(opts.config)));
+      await sendControlRequest(paths.socketPath, { command: 'stop', names: processes });
+      if (processes.length > 0) {
+        console.log(chalk.green(`✓ stopped ${processes.join(', ')}`));
+        return;
+      }
+      console.log(chalk.dim('  stopping daemon...'));
+      const deadline = Date.now() + DAEMON_STOP_TIMEOUT_MS;
+      while (runningDaemonPid(paths) != null) {
+        if (Date.now() > deadline) {
+          fail(new Error(`daemon still running after ${DAEMON_STOP_TIMEOUT_MS / 1000}s`));
+        }
+        await sleep(200);
+      }
+      console.log(chalk.green('✓ daemon stopped'));
+    } catch (err) {
+      fail(err);
+    }
+  });
+
+program
+  .command('restart <processes...>')
+  .description('Restart processes in the background daemon (cascades to dependents)')
+  .option('-c, --config <path>', 'config file path', './orckit.yaml')
+  .option('--no-cascade', 'do not restart transitive dependents')
+  .action(async (processes: string[], opts: { config: string; cascade: boolean }) => {
+    try {
+      await sendControlRequest(controlSocket(opts.config), {
+        command: 'restart',
+        names: processes,
+        cascade: opts.cascade,
+      });
+      console.log(chalk.green(`✓ restarted ${processes.join(', ')}`));
+    } catch (err) {
+      fail(err);
+    }
+  });
+
+program
+  .command('logs <process>')
+  .description('Print recent output of a process in the background daemon')
+  .option('-c, --config <path>', 'config file path', './orckit.yaml')
+  .option('-n, --lines <count>', 'number of recent lines to print', '100')
+  .option('-f, --follow', 'keep streaming new output', false)
+  .action(async (name: string, opts: { config: string; lines: string; follow: boolean }) => {
+    const lines = Number(opts.lines);
+    if (!Number.isInteger(lines) || lines < 1) {
+      fail(new Error(`--lines must be a positive integer, got "${opts.lines}"`));
+    }
+    try {
+      await sendControlRequest(
+        controlSocket(opts.config),
+        { command: 'logs', name, lines, follow: opts.follow },
+        (frame) => {
+          if (frame.type !== 'line') return;
+          const marker = frame.stream === 'stderr' ? chalk.red('!') : chalk.dim('│');
+          console.log(`${marker} ${frame.text}`);
+        },
+      );
+    } catch (err) {
+      fail(err);
+    }
+  });
+
+program
+  .command('attach')
+  .description('Follow lifecycle events of the background daemon (Ctrl-C detaches)')
+  .option('-c, --config <path>', 'config file path', './orckit.yaml')
+  .option('--show-output', 'also stream process stdout/stderr', false)
+  .action(async (opts: { config: string; showOutput: boolean }) => {
+    // Ctrl-C ends this client only — the daemon keeps running.
+    process.on('SIGINT', () => process.exit(0));
+    try {
+      await sendControlRequest(
+        controlSocket(opts.config),
+        { command: 'attach', showOutput: opts.showOutput },
+        (frame: ControlFrame) => {
+          if (frame.type === 'status') {
+            printDaemonStatus(frame.status);
+            console.log(chalk.dim('\n  attached — Ctrl-C detaches, `orc stop` stops the daemon'));
+          } else if (frame.type === 'output') {
+            console.log(frame.text);
+          }
+        },
+      );
+      console.log(chalk.dim('  daemon closed the connection'));
+    } catch (err) {
+      fail(err);
+    }
+  });
+
 program.parseAsync().catch(fail);
 
+/**
+ * Re-spawn this `orc start` invocation as a detached background process with
+ * `--daemon`, its output appended to `.orckit/daemon.log`, then wait until its
+ * control socket answers. The child gets its own session, so closing the
+ * terminal no longer takes the stack down with it.
+ */
+async function detachDaemon(configPath: string): Promise<void> {
+  const paths = daemonPaths(dirname(resolve(configPath)));
+  const existing = runningDaemonPid(paths);
+  if (existing != null) {
+    fail(
+      new Error(
+        `an orckit daemon is already running for this project (pid ${existing}) — ` +
+          'run `orc stop` first',
+      ),
+    );
+  }
+
+  mkdirSync(paths.dir, { recursive: true });
+  const log = openSync(paths.logFile, 'a');
+  const args = process.argv.slice(2).filter((arg) => arg !== '--detach');
+  const child = spawn(
+    process.execPath,
+    [...process.execArgv, process.argv[1]!, ...args, '--daemon'],
+    {
+      detached: true,
+      stdio: ['ignore', log, log],
+    },
+  );
+  closeSync(log);
+  child.unref();
+  const exited = new Promise<number | null>((resolveExit) => child.once('exit', resolveExit));
+
+  const deadline = Date.now() + DAEMON_START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const code = await Promise.race([exited, sleep(200).then(() => undefined)]);
+    if (code !== undefined) {
+      console.error(chalk.red(`✗ daemon exited during startup (code ${code ?? '?'})`));
+      console.error(tailOf(paths.logFile, 20));
+      process.exit(1);
+    }
+    try {
+      const status = (await sendControlRequest(paths.socketPath, {
+        command: 'status',
+      })) as StatusResult;
+      console.log(chalk.green(`✓ orckit daemon started (pid ${status.pid})`));
+      console.log(chalk.dim(`  log:  ${relative(process.cwd(), paths.logFile)}`));
+      console.log(chalk.dim('  orc status · orc logs <name> -f · orc attach · orc stop'));
+      return;
+    } catch {
+      // socket not up yet — keep polling
+    }
+  }
+  fail(
+    new Error(
+      `daemon did not open its control socket within ${DAEMON_START_TIMEOUT_MS / 1000}s — ` +
+        `see ${paths.logFile}`,
+    ),
+  );
+}
+
+function controlSocket(configPath: string): string {
+  return daemonPaths(dirname(resolve(configPath))).socketPath;
+}
+
+function printDaemonStatus(status: StatusResult): void {
+  console.log(chalk.bold(`${status.project} ${chalk.dim(`(daemon pid ${status.pid})`)}`));
+  console.log(renderStatus(new Map(status.processes.map((p) => [p.name, p.state]))));
+}
+
+function tailOf(path: string, lines: number): string {
+  try {
+    return readFileSync(path, 'utf-8').trimEnd().split('\n').slice(-lines).join('\n');
+  } catch {
+    return '';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolveSleep) => setTimeout(resolveSleep, ms));
+}
+
 function fail(err: unknown): never {
   if (err instanceof ConfigError) {
     console.error(chalk.red(`✗ ${err.message}`));
@@ -0,0 +1,410 @@
+import { readFileSync } from 'node:fs';
+import { basename, dirname, relative, resolve } from 'node:path';
+import { load as parseYaml } from 'js-yaml';
+import { isRecord } from '../util/record.js';
+
+/** Where a config value was written: the file and the key path inside it. */
+interface Origin {
+  file: string;
+  text: string;
+  path: string[];
+}
+
+/** Origins keyed by a path in the composed config (segments joined by `\0`). */
+type Origins = Map<string, Origin>;
+
+export interface ComposedConfig {
+  /** The merged raw config, `extends` / `include` resolved and removed. */
+  value: unknown;
+  /**
+   * `"packages/api/orckit.yaml:12"` for a path in the merged config (as
+   * reported by the schema or interpolation), or null when it can't be traced.
+   */
+  locate(path: readonly (string | number)[]): string | null;
+  /** Absolute paths of every file read: `source` (when given), then bases and includes. */
+  files: string[];
+}
+
+/**
+ * A config file that can't be read or parsed, or a malformed `extends` /
+ * `include`. `file` names where the problem is, with a line when known.
+ */
+export class ComposeError extends Error {
+  constructor(
+    message: string,
+    public readonly file: string,
+  ) {
+    super(message);
+    this.name = 'ComposeError';
+  }
+}
+
+/** Separator between an include's prefix and the process names it brings in. */
+export const INCLUDE_SEPARATOR = ':';
+
+/**
+ * Resolve a config's `extends:` and `include:` into one raw object.
+ *
+ * `extends` (a path or list of paths) deep-merges the named base files under
+ * this one: maps merge key by key, anything else — lists included — is
+ * replaced by the extending file. `include` (a list of paths or
+ * `{ path, prefix }`) adds another file's `processes` and `preflight` checks.
+ * Included process names get `<prefix>:` in front (the prefix defaults to
+ * the included file's directory name; `prefix: ''` disables it). Their
+ * `depends_on` entries and `${processes.<name>.port}` / `${ports.<name>}`
+ * references naming a process from the same file are renamed to match, so any
+ * other name refers across files, and `ports` declared for those processes
+ * come along renamed. Other top-level keys of an included file are ignored,
+ * so a package's config can still run on its own.
+ *
+ * Relative `cwd` and `env_file` paths in a base or included file are made
+ * absolute against that file's directory. Paths are relative to `source`'s
+ * directory (or the working directory for inline text); cycles are an error.
+ */
+export function composeConfig(text: string, source?: string): ComposedConfig {
+  const file = source ? resolve(source) : undefined;
+  const read = new Set(file ? [file] : []);
+  const { value, origins } = composeFile(text, file, [], null, read);
+  return {
+    value,
+    files: [...read],
+    locate(path) {
+      const segments = path.map(String);
+      for (let n = segments.length; n > 0; n--) {
+        const origin = origins.get(key(segments.slice(0, n)));
+        if (!origin) continue;
+        return where(origin.file, origin.text, [...origin.path, ...segments.slice(n)]);
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * The files a config at `path` is composed from — itself plus every base and
+ * include it reaches. Falls back to just `path` when the composition fails,
+ * so a watcher still sees the edit that fixes it.
+ */
+export function configFiles(path: string): string[] {
+  try {
+    return composeConfig(readFileSync(path, 'utf-8'), path).files;
+  } catch {
+    return [resolve(path)];
+  }
+}
+
+/**
+ * @param stack files being composed, outermost first — for cycle detection
+ * @param via how this file was reached; all but the root file get relative
+ *   `cwd` / `env_file` made absolute, and included processes without a `cwd`
+ *   run in their file's directory
+ * @param read collects every file read, for `ComposedConfig.files`
+ */
+function composeFile(
+  text: string,
+  file: string | undefined,
+  stack: string[],
+  via: 'extends' | 'include' | null,
+  read: Set<string>,
+): { value: unknown; origins: Origins } {
+  const label = file ?? '<inline config>';
+  let doc: unknown;
+  try {
+    doc = parseYaml(text);
+  } catch (err) {
+    throw new ComposeError(`invalid YAML: ${(err as Error).message}`, displayPath(label));
+  }
+  const origins: Origins = new Map();
+  if (!isRecord(doc)) return { value: doc, origins };
+  const dir = file ? dirname(file) : process.cwd();
+  const at = (path: string[]) => where(label, text, path);
+  const { extends: bases, include, ...own } = doc;
+
+  // Bases first, so this file's own keys (merged and recorded last) win.
+  let merged: Record<string, unknown> = {};
+  for (const [i, base] of listOf(bases, 'extends', at)) {
+    const path = Array.isArray(bases) ? ['extends', String(i)] : ['extends'];
+    const target = resolve(dir, expectString(base, path, at));
+    const child = composeChild(target, at(path), stack, 'extends', read);
+    if (!isRecord(child.value)) continue;
+    merged = deepMerge(merged, child.value);
+    for (const [k, origin] of child.origins) origins.set(k, origin);
+  }
+
+  const ownDoc = via ? rebasePaths(own, dir, via === 'include') : own;
+  merged = deepMerge(merged, ownDoc);
+  recordOrigins(origins, ownDoc, label, text);
+
+  for (const [i, entry] of listOf(include, 'include', at)) {
+    const path = ['include', String(i)];
+    const spec = isRecord(entry) ? entry : { path: entry };
+    const pathAt = isRecord(entry) ? [...path, 'path'] : path;
+    const target = resolve(dir, expectString(spec.path, pathAt, at));
+    const prefix =
+      spec.prefix === undefined
+        ? basename(dirname(target))
+        : expectString(spec.prefix, [...path, 'prefix'], at);
+    const child = composeChild(target, at(path), stack, 'include', read);
+    if (!isRecord(child.value)) continue;
+    mergeInclude(merged, origins, { value: child.value, origins: child.origins }, prefix, at(path));
+  }
+  return { value: merged, origins };
+}
+
+function composeChild(
+  file: string,
+  referencedAt: string,
+  stack: string[],
+  via: 'extends' | 'include',
+  read: Set<string>,
+): { value: unknown; origins: Origins } {
+  if (stack.includes(file)) {
+    const cycle = [...stack.slice(stack.indexOf(file)), file].map(displayPath);
+    throw new ComposeError(`circular extends/include: ${cycle.join(' → ')}`, referencedAt);
+  }
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf-8');
+  } catch (err) {
+    const reason = `cannot read ${displayPath(file)}: ${(err as Error).message}`;
+    throw new ComposeError(reason, referencedAt);
+  }
+  read.add(file);
+  return composeFile(text, file, [...stack, file], via, read);
+}
+
+/** Add an included file's processes (renamed under `prefix`) and preflight checks. */
+function mergeInclude(
+  target: Record<string, unknown>,
+  origins: Origins,
+  child: { value: Record<string, unknown>; origins: Origins },
+  prefix: string,
+  referencedAt: string,
+): void {
+  const rename = (name: string) => (prefix ? `${prefix}${INCLUDE_SEPARATOR}${name}` : name);
+  const included = isRecord(child.value.processes) ? child.value.processes : {};
+  const processes = isRecord(target.processes) ? { ...target.processes } : {};
+  for (const [name, proc] of Object.entries(included)) {
+    const renamed = rename(name);
+    if (renamed in processes) {
+      throw new ComposeError(
+        `process "${renamed}" is already defined — give the include a different prefix`,
+        referencedAt,
+      );
+    }
+    processes[renamed] = renameSiblings(proc, (dep) => (dep in included ? rename(dep) : dep));
+  }
+  target.processes = processes;
+
+  // Ports declared for the included processes come along under their new
+  // names, unless the including file declares them itself.
+  const childPorts = isRecord(child.value.ports) ? child.value.ports : {};
+  const ownPorts = isRecord(target.ports) ? target.ports : {};
+  const ports = { ...ownPorts };
+  const portsOrigin = child.origins.get(key(['ports']));
+  for (const [name, port] of Object.entries(childPorts)) {
+    if (!(name in included) || rename(name) in ownPorts) continue;
+    ports[rename(name)] = port;
+    if (portsOrigin) {
+      origins.set(key(['ports', rename(name)]), { ...portsOrigin, path: ['ports', name] });
+    }
+  }
+  if (Object.keys(ports).length > 0) target.ports = ports;
+
+  const ownChecks = Array.isArray(target.preflight) ? target.preflight : [];
+  const childChecks = Array.isArray(child.value.preflight) ? child.value.preflight : [];
+  if (childChecks.length > 0) target.preflight = [...ownChecks, ...childChecks];
+
+  for (const [k, origin] of child.origins) {
+    const [top, second, ...rest] = k.split('\0');
+    if (top === 'processes' && second !== undefined && second in included) {
+      origins.set(key(['processes', rename(second), ...rest]), origin);
+    } else if (top === 'preflight' && second !== undefined && /^\d+$/.test(second)) {
+      origins.set(key(['preflight', String(ownChecks.length + Number(second)), ...rest]), origin);
+    }
+  }
+}
+
+// `${processes.<name>…}` and `${ports.<name>…}`, the name segment as
+// interpolation reads it. `$${` escapes are matched first and left alone.
+const SIBLING_REFERENCE_RE =
+  /\$\$\{|\$\{(processes\.|ports\.)([A-Za-z0-9_-]+(?::\w[\w-]*)*)(?=[.}]|:-)/g;
+
+/**
+ * An included process with its references to other processes of the same
+ * file renamed by `sibling`: `depends_on` entries, and `${processes.<name>.port}`
+ * / `${ports.<name>}` in any of its strings.
+ */
+function renameSiblings(proc: unknown, sibling: (name: string) => string): unknown {
+  if (!isRecord(proc)) return proc;
+  const walk = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return value.replace(SIBLING_REFERENCE_RE, (whole, kind?: string, name?: string) =>
+        kind === undefined ? whole : `\${${kind}${sibling(name!)}`,
+      );
+    }
+    if (Array.isArray(value)) return value.map(walk);
+    if (isRecord(value)) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, walk(v)]));
+    }
+    return value;
+  };
+  const renamed = walk(proc) as Record<string, unknown>;
+  if (Array.isArray(proc.depends_on)) {
+    renamed.depends_on = proc.depends_on.map((dep) =>
+      typeof dep === 'string' ? sibling(dep) : dep,
+    );
+  }
+  return renamed;
+}
+
+/**
+ * Note the file each value came from: every top-level key, and each process
+ * and process field individually — a process can be assembled from a base
+ * and an extending file.
+ */
+function recordOrigins(
+  origins: Origins,
+  doc: Record<string, unknown>,
+  file: string,
+  text: string,
+): void {
+  for (const [top, value] of Object.entries(doc)) {
+    origins.set(key([top]), { file, text, path: [top] });
+    if (top === 'preflight' && Array.isArray(value)) {
+      value.forEach((_, i) =>
+        origins.set(key([top, String(i)]), { file, text, path: [top, String(i)] }),
+      );
+    }
+    if (top !== 'processes' || !isRecord(value)) continue;
+    for (const [name, proc] of Object.entries(value)) {
+      origins.set(key([top, name]), { file, text, path: [top, name] });
+      if (!isRecord(proc)) continue;
+      for (const field of Object.keys(proc)) {
+        origins.set(key([top, name, field]), { file, text, path: [top, name, field] });
+      }
+    }
+  }
+}
+
+/**
+ * Make `env_file` and each process's `cwd` / `env_file` absolute against
+ * `dir`; with `defaultCwd`, a process without a `cwd` gets `dir` itself.
+ */
+function rebasePaths(
+  doc: Record<string, unknown>,
+  dir: string,
+  defaultCwd: boolean,
+): Record<string, unknown> {
+  const absolute = (files: unknown) =>
+    Array.isArray(files) ? files.map((f) => (typeof f === 'string' ? resolve(dir, f) : f)) : files;
+  const out: Record<string, unknown> = { ...doc };
+  if ('env_file' in doc) out.env_file = absolute(doc.env_file);
+  if (isRecord(doc.processes)) {
+    out.processes = Object.fromEntries(
+      Object.entries(doc.processes).map(([name, proc]) => {
+        if (!isRecord(proc)) return [name, proc];
+        const next: Record<string, unknown> = { ...proc };
+        if (typeof proc.cwd === 'string') next.cwd = resolve(dir, proc.cwd);
+        else if (proc.cwd === undefined && defaultCwd) next.cwd = dir;
+        if ('env_file' in proc) next.env_file = absolute(proc.env_file);
+        return [name, next];
+      }),
+    );
+  }
+  return out;
+}
+
+function deepMerge(
+  base: Record<string, unknown>,
+  over: Record<string, unknown>,
+): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...base };
+  for (const [k, v] of Object.entries(over)) {
+    const prev = out[k];
+    out[k] = isRecord(prev) && isRecord(v) ? deepMerge(prev, v) : v;
+  }
+  return out;
+}
+
+/** `extends` / `include` as `[index, entry]` pairs; a single string is a one-entry list. */
+function listOf(value: unknown, name: string, at: (path: string[]) => string): [number, unknown][] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return [[0, value]];
+  if (Array.isArray(value)) return [...value.entries()];
+  throw new ComposeError(`${name}: expected a path or a list of paths`, at([name]));
+}
+
+function expectString(value: unknown, path: string[], at: (path: string[]) => string): string {
+  if (typeof value === 'string') return value;
+  throw new ComposeError(`${path.join('.')}: expected a string`, at(path));
+}
+
+/** `file:line` for `path` in `text`, or just the file when the key can't be found. */
+function where(file: string, text: string, path: readonly string[]): string {
+  const line = findLine(text, path);
+  return `${displayPath(file)}${line != null ? `:${line}` : ''}`;
+}
+
+/**
+ * 1-based line of the deepest key along `path` in a YAML document, found by
+ * walking block-style indentation (`key:` lines and `- ` list items). Values
+ * written in flow style (`{ a: 1 }`) resolve to the line of the enclosing key.
+ * Best effort: returns null when even the first segment isn't found.
+ */
+export function findLine(text: string, path: readonly string[]): number | null {
+  const lines = text.split(/\r?\n/);
+  let found: number | null = null;
+  let start = 0;
+  let parentIndent = -1;
+  // Just matched a `- ` item: its first key may sit on the same line.
+  let afterItem = false;
+  for (const segment of path) {
+    const wantItem = /^\d+$/.test(segment);
+    let childIndent: number | null = null;
+    let items = -1;
+    let hit = -1;
+    for (let i = start; i < lines.length; i++) {
+      const line = lines[i]!;
+      if (/^\s*(#.*)?$/.test(line) || line.startsWith('---')) continue;
+      const indent = line.search(/\S/);
+      const item = /^-(\s+|$)/.exec(line.slice(indent));
+      const keyIndent = item ? indent + item[0].length : indent;
+      const sameItemLine = afterItem && i === start;
+      if (!sameItemLine && indent <= parentIndent) break;
+      if (wantItem) {
+        childIndent ??= indent;
+        if (indent !== childIndent || !item) continue;
+        if (++items === Number(segment)) {
+          hit = i;
+          parentIndent = indent;
+          break;
+        }
+        continue;
+      }
+      childIndent ??= keyIndent;
+      if (keyIndent !== childIndent) continue;
+      const match = /^(["']?)(.+?)\1\s*:(\s|$)/.exec(line.slice(keyIndent));
+      if (match?.[2] === segment) {
+        hit = i;
+        parentIndent = keyIndent;
+        break;
+      }
+    }
+    if (hit === -1) break;
+    found = hit + 1;
+    start = wantItem ? hit : hit + 1;
+    afterItem = wantItem;
+  }
+  return found;
+}
+
+function displayPath(file: string): string {
+  if (file.startsWith('<')) return file;
+  const rel = relative(process.cwd(), file);
+  return rel && !rel.startsWith('..') ? rel : file;
+}
+
+function key(segments: readonly string[]): string {
+  return segments.join('\0');
+}
@@ -0,0 +1,261 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { isRecord } from '../util/record.js';
+
+/**
+ * `${VAR}` / `${VAR:-default}` references. Dotted names (`ports.api`,
+ * `processes.web-app.port`, `processes.api:server.port` for an included
+ * process) address allocated ports. `$${` is an escape for a literal `${`, so
+ * a command can still hand `${VAR}` to the shell untouched.
+ */
+const REFERENCE_RE =
+  /\$\$\{|\$\{([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_-]+(?::\w[\w-]*)*)*)(?::-([^}]*))?\}/g;
+
+/**
+ * Parse a dotenv file: `KEY=value` lines, optional `export ` prefix, `#`
+ * comments, and single- or double-quoted values (double quotes understand
+ * `\n`, `\t`, `\"` and `\\`). Values are taken literally — no `${VAR}`
+ * expansion inside the file. Throws on a line that isn't an assignment,
+ * naming its 1-based line number.
+ */
+export function parseDotenv(text: string): Record<string, string> {
+  const vars: Record<string, string> = {};
+  const lines = text.split(/\r?\n/);
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('#')) return;
+    const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/.exec(line);
+    if (!match) throw new Error(`line ${i + 1}: expected KEY=value, got "${line}"`);
+    vars[match[1]!] = parseValue(match[2]!);
+  });
+  return vars;
+}
+
+function parseValue(rest: string): string {
+  const quote = rest[0];
+  if (quote === '"' || quote === "'") {
+    let end = rest.indexOf(quote, 1);
+    if (quote === '"') {
+      // Skip escaped quotes: an odd run of backslashes escapes the `"`.
+      while (end !== -1 && /(^|[^\\])(\\\\)*\\$/.test(rest.slice(1, end))) {
+        end = rest.indexOf(quote, end + 1);
+      }
+    }
+    // An unterminated quote is taken literally rather than rejected.
+    if (end === -1) return rest;
+    const inner = rest.slice(1, end);
+    if (quote === "'") return inner;
+    return inner.replace(/\\([nrt"\\])/g, (_, c: string) =>
+      c === 'n' ? '\n' : c === 'r' ? '\r' : c === 't' ? '\t' : c,
+    );
+  }
+  // Unquoted: an inline comment needs whitespace before the `#`.
+  const hash = rest.search(/\s#/);
+  return (hash === -1 ? rest : rest.slice(0, hash)).trim();
+}
+
+export interface InterpolateOptions {
+  /** Directory `env_file` paths are resolved against (the config file's dir). */
+  baseDir: string;
+  /** Variables visible to every reference before any `env_file`. Defaults to `process.env`. */
+  env?: NodeJS.ProcessEnv;
+  /**
+   * The resolved top-level `ports:` (see `allocatePorts`). Each is visible as
+   * `${ports.<key>}`, and — when the key names a process — as
+   * `${processes.<key>.port}`. Replaces the declaration in the output.
+   */
+  ports?: Record<string, number>;
+}
+
+/**
+ * Load `env_file`s and resolve `${VAR}` references in a raw (pre-validation)
+ * config object, returning a new object. Per process, later layers win:
+ *
+ *   process.env < top-level env_file < process env_file < process env
+ *
+ * The `env_file` variables are merged into each process's `env` so the
+ * spawned process sees them. References are resolved in `env` values first
+ * (against the layers below `env`), then in `command`, `stop_command`, `cwd`,
+ * the `http` ready-check `url`, the `custom` ready-check `command`, the
+ * `file` / `unix-socket` ready-check `path` and every hook — which also see
+ * the process's own resolved `env`. The `liveness:` check is resolved like
+ * the ready check. The `tcp`, `postgres`, `redis` and
+ * `grpc-health` ready-check `port` and the `ports` list take references too;
+ * a result that is all digits becomes a number so `port: ${ports.db}`
+ * validates.
+ *
+ * Anything that isn't shaped like a config is passed through for the schema
+ * to reject. Returns every problem found — an unreadable env file, a
+ * reference to an unset variable without a default — as `{ path, message }`
+ * so the caller can report them together.
+ */
+export function interpolateConfig(
+  raw: unknown,
+  opts: InterpolateOptions,
+): { value: unknown; issues: { path: string; message: string }[] } {
+  const issues: { path: string; message: string }[] = [];
+  if (!isRecord(raw) || !isRecord(raw.processes)) return { value: raw, issues };
+
+  const portVars: Record<string, string> = {};
+  for (const [key, port] of Object.entries(opts.ports ?? {})) {
+    portVars[`ports.${key}`] = String(port);
+    if (key in raw.processes) portVars[`processes.${key}.port`] = String(port);
+  }
+  const inherited = { ...definedEntries(opts.env ?? process.env), ...portVars };
+  const shared = loadEnvFiles(raw.env_file, 'env_file', opts.baseDir, issues);
+
+  const processes: Record<string, unknown> = {};
+  for (const [name, proc] of Object.entries(raw.processes)) {
+    if (!isRecord(proc)) {
+      processes[name] = proc;
+      continue;
+    }
+    const at = `processes.${name}`;
+    const fromFiles = {
+      ...shared,
+      ...loadEnvFiles(proc.env_file, `${at}.env_file`, opts.baseDir, issues),
+    };
+    const base = { ...inherited, ...fromFiles };
+    const sub = (value: unknown, path: string, scope: Record<string, string>) =>
+      typeof value === 'string' ? substitute(value, scope, `${at}.${path}`, issues) : value;
+
+    const env: Record<string, unknown> = { ...fromFiles };
+    if (isRecord(proc.env)) {
+      for (const [key, value] of Object.entries(proc.env)) {
+        env[key] = sub(value, `env.${key}`, base);
+      }
+    } else if (proc.env !== undefined) {
+      // Let the schema report the bad shape.
+      processes[name] = proc;
+      continue;
+    }
+    const scope = { ...base, ...definedEntries(env) };
+
+    const next: Record<string, unknown> = { ...proc, env };
+    for (const key of ['command', 'stop_command', 'cwd'] as const) {
+      if (key in proc) next[key] = sub(proc[key], key, scope);
+    }
+    for (const key of ['ready', 'liveness'] as const) {
+      const check = proc[key];
+      if (isRecord(check)) {
+        next[key] = interpolateCheck(check, key, (value, path) => sub(value, path, scope));
+      }
+    }
+    if (Array.isArray(proc.ports)) {
+      next.ports = proc.ports.map((port, i) => toPort(sub(port, `ports.${i}`, scope)));
+    }
+    if (isRecord(proc.hooks)) {
+      next.hooks = Object.fromEntries(
+        Object.entries(proc.hooks).map(([hook, cmd]) => [hook, sub(cmd, `hooks.${hook}`, scope)]),
+      );
+    }
+    processes[name] = next;
+  }
+
+  const value: Record<string, unknown> = { ...raw, processes };
+  if (opts.ports) value.ports = opts.ports;
+  return { value, issues };
+}
+
+/**
+ * Resolve the fields of a ready or liveness check that take references: the `http` `url`,
+ * the `custom` `command`, the `file` / `unix-socket` `path` and the port of
+ * the network checks — and those of every check inside `all` / `any` /
+ * `sequence`.
+ */
+function interpolateCheck(
+  check: Record<string, unknown>,
+  path: string,
+  sub: (value: unknown, path: string) => unknown,
+): Record<string, unknown> {
+  const next = { ...check };
+  switch (check.type) {
+    case 'http':
+      next.url = sub(check.url, `${path}.url`);
+      break;
+    case 'custom':
+      next.command = sub(check.command, `${path}.command`);
+      break;
+    case 'file':
+    case 'unix-socket':
+      next.path = sub(check.path, `${path}.path`);
+      break;
+    case 'tcp':
+    case 'postgres':
+    case 'redis':
+    case 'grpc-health':
+      if ('port' in check) next.port = toPort(sub(check.port, `${path}.port`));
+      break;
+    case 'all':
+    case 'any':
+    case 'sequence':
+      if (Array.isArray(check.checks)) {
+        next.checks = check.checks.map((part, i) =>
+          isRecord(part) ? interpolateCheck(part, `${path}.checks.${i}`, sub) : part,
+        );
+      }
+      break;
+  }
+  return next;
+}
+
+/** `"5432"` → 5432 for numeric fields; anything else is left for the schema to judge. */
+function toPort(value: unknown): unknown {
+  return typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+}
+
+/** Replace every `${VAR}` / `${VAR:-default}` in `text`; unset vars become issues. */
+function substitute(
+  text: string,
+  scope: Record<string, string>,
+  path: string,
+  issues: { path: string; message: string }[],
+): string {
+  return text.replace(REFERENCE_RE, (whole, name?: string, fallback?: string) => {
+    if (name === undefined) return '${';
+    const value = scope[name];
+    // Shell semantics: `:-` also applies when the variable is set but empty.
+    if ((value === undefined || value === '') && fallback !== undefined) return fallback;
+    if (value === undefined) {
+      issues.push({
+        path,
+        message: name.includes('.')
+          ? `\${${name}} does not match an entry under the top-level ports:`
+          : `\${${name}} is not set (define it in the environment or an env_file, or use \${${name}:-default})`,
+      });
+      return whole;
+    }
+    return value;
+  });
+}
+
+function loadEnvFiles(
+  files: unknown,
+  path: string,
+  baseDir: string,
+  issues: { path: string; message: string }[],
+): Record<string, string> {
+  if (!Array.isArray(files)) return {};
+  const vars: Record<string, string> = {};
+  files.forEach((file, i) => {
+    if (typeof file !== 'string') return;
+    const abs = resolve(baseDir, file);
+    try {
+      Object.assign(vars, parseDotenv(readFileSync(abs, 'utf-8')));
+    } catch (err) {
+      const reason = (err as NodeJS.ErrnoException).code
+        ? `cannot read ${abs}: ${(err as Error).message}`
+        : `${abs}: ${(err as Error).message}`;
+      issues.push({ path: `${path}.${i}`, message: reason });
+    }
+  });
+  return vars;
+}
+
+function definedEntries(env: Record<string, unknown>): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(env)) {
+    if (typeof v === 'string') out[k] = v;
+  }
+  return out;
+}
@@ -1,6 +1,10 @@
 import { readFileSync } from 'node:fs';
-import { load as parseYaml } from 'js-yaml';
+import { dirname, resolve } from 'node:path';
 import { orckitConfigSchema, type OrckitConfig } from './schema.js';
+import { composeConfig, ComposeError, type ComposedConfig } from './compose.js';
+import { interpolateConfig } from './interpolate.js';
+import { applyProfile } from './profiles.js';
+import { allocatePorts } from '../util/port.js';
 
 export class ConfigError extends Error {
   constructor(
@@ -12,33 +16,172 @@ export class ConfigError extends Error {
   }
 }
 
-export function parseConfigText(text: string, source?: string): OrckitConfig {
-  let raw: unknown;
+export interface LoadOptions {
+  /**
+   * Profile to apply (see `profiles:`). Defaults to the config's own
+   * `profile:` key; `null` applies none.
+   */
+  profile?: string | null;
+  /**
+   * Ports to keep for `ports:` entries declared `auto` — the previous load's
+   * allocation, so a reload doesn't move a running process to a new port.
+   */
+  keepPorts?: Record<string, number>;
+}
+
+/** What `allocateConfigPorts` needs to resolve a config once its `auto` ports are known. */
+interface PendingPorts {
+  raw: unknown;
+  declared: Record<string, number | 'auto'>;
+  baseDir: string;
+  source?: string;
+  composed: ComposedConfig;
+}
+
+/** Loaded configs whose `auto` ports are still placeholders. */
+const pendingPorts = new WeakMap<OrckitConfig, PendingPorts>();
+
+/** Stands in for an `auto` port until `allocateConfigPorts` picks a real one. */
+const PLACEHOLDER_PORT = 65_535;
+
+/**
+ * Parse, resolve and validate a YAML config.
+ *
+ * `extends` / `include` are merged first (see `composeConfig`), so profiles,
+ * interpolation and the schema all see one config; each reported issue names
+ * the file and line it traces back to.
+ *
+ * Finding a free port is I/O, so `ports: { x: auto }` entries aren't
+ * allocated here: they — and every `${ports.x}` reference to them — hold a
+ * placeholder until the config goes through `allocateConfigPorts`. A config
+ * without `auto` ports comes back fully resolved.
+ */
+export function parseConfigText(
+  text: string,
+  source?: string,
+  options: LoadOptions = {},
+): OrckitConfig {
+  let composed: ComposedConfig;
   try {
-    raw = parseYaml(text);
+    composed = composeConfig(text, source);
   } catch (err) {
-    throw new ConfigError(`invalid YAML: ${(err as Error).message}`, source);
+    if (err instanceof ComposeError) throw new ConfigError(err.message, err.file);
+    throw err;
   }
-  return validateConfig(raw, source);
+  const profiled = applyProfile(composed.value, options.profile);
+  if (profiled.issues.length > 0) {
+    throw new ConfigError(`invalid profile:\n${formatIssues(profiled.issues, composed)}`, source);
+  }
+  const raw = profiled.value;
+  const declared = readPortDeclarations(raw, source);
+  for (const [key, port] of Object.entries(options.keepPorts ?? {})) {
+    if (declared[key] === 'auto') declared[key] = port;
+  }
+  // `env_file` paths are relative to the config file, like everything else
+  // in it; without a source (inline text) they resolve against cwd.
+  const pending = {
+    raw,
+    declared,
+    baseDir: source ? dirname(resolve(source)) : process.cwd(),
+    source,
+    composed,
+  };
+  const placeholders = Object.fromEntries(
+    Object.entries(declared).map(([key, port]) => [key, port === 'auto' ? PLACEHOLDER_PORT : port]),
+  );
+  const config = resolveConfig(pending, placeholders);
+  if (Object.values(declared).includes('auto')) pendingPorts.set(config, pending);
+  return config;
 }
 
-export function loadConfig(configPath: string): OrckitConfig {
+export function loadConfig(configPath: string, options: LoadOptions = {}): OrckitConfig {
   let text: string;
   try {
     text = readFileSync(configPath, 'utf-8');
   } catch (err) {
     throw new ConfigError(`cannot read file: ${(err as Error).message}`, configPath);
   }
-  return parseConfigText(text, configPath);
+  return parseConfigText(text, configPath, options);
+}
+
+/**
+ * Allocate the `auto` ports of a config from `loadConfig` / `parseConfigText`
+ * — each a distinct free port — and resolve the references to them. Returns a
+ * new config; one without `auto` ports (or already allocated) comes back as is.
+ */
+export async function allocateConfigPorts(config: OrckitConfig): Promise<OrckitConfig> {
+  const pending = pendingPorts.get(config);
+  if (!pending) return config;
+  return resolveConfig(pending, await allocatePorts(pending.declared));
+}
+
+/** Whether `config` still has `auto` ports for `allocateConfigPorts` to allocate. */
+export function hasUnallocatedPorts(config: OrckitConfig): boolean {
+  return pendingPorts.has(config);
+}
+
+/** Interpolate (with `ports` as the top-level ports) and validate. */
+function resolveConfig(pending: PendingPorts, ports: Record<string, number>): OrckitConfig {
+  const { raw, baseDir, source, composed } = pending;
+  const { value, issues } = interpolateConfig(raw, { baseDir, ports });
+  if (issues.length > 0) {
+    throw new ConfigError(`unresolved variables:\n${formatIssues(issues, composed)}`, source);
+  }
+  return validate(value, source, composed);
+}
+
+/** The raw top-level `ports:` map, checked just enough to allocate from. */
+function readPortDeclarations(raw: unknown, source?: string): Record<string, number | 'auto'> {
+  if (typeof raw !== 'object' || raw === null || !('ports' in raw)) return {};
+  const declared = (raw as { ports: unknown }).ports;
+  if (declared == null) return {};
+  if (typeof declared !== 'object' || Array.isArray(declared)) {
+    throw new ConfigError('ports: expected a map of name → port number or "auto"', source);
+  }
+  const out: Record<string, number | 'auto'> = {};
+  for (const [key, value] of Object.entries(declared)) {
+    if (value === 'auto' || (Number.isInteger(value) && value >= 1 && value <= 65_535)) {
+      out[key] = value as number | 'auto';
+    } else {
+      throw new ConfigError(
+        `ports.${key}: expected a port number (1-65535) or "auto", got ${JSON.stringify(value)}`,
+        source,
+      );
+    }
+  }
+  return out;
 }
 
 export function validateConfig(raw: unknown, source?: string): OrckitConfig {
+  return validate(raw, source);
+}
+
+function validate(raw: unknown, source?: string, composed?: ComposedConfig): OrckitConfig {
   const result = orckitConfigSchema.safeParse(raw);
   if (!result.success) {
-    const issues = result.error.issues
-      .map((i) => `  - ${i.path.join('.') || '(root)'}: ${i.message}`)
-      .join('\n');
-    throw new ConfigError(`invalid configuration:\n${issues}`, source);
+    const issues = result.error.issues.map((i) => ({
+      path: i.path.map(String),
+      message: i.message,
+    }));
+    throw new ConfigError(`invalid configuration:\n${formatIssues(issues, composed)}`, source);
   }
   return result.data;
 }
+
+/**
+ * One `  - path: message` line per issue, followed by ` (file:line)` when the
+ * path can be traced back through `composed`. Dotted string paths (as the
+ * profile and interpolation passes report them) are split on `.`.
+ */
+function formatIssues(
+  issues: { path: string | string[]; message: string }[],
+  composed?: ComposedConfig,
+): string {
+  return issues
+    .map((i) => {
+      const path = typeof i.path === 'string' ? i.path.split('.') : i.path;
+      const at = path.length > 0 ? composed?.locate(path) : null;
+      return `  - ${path.join('.') || '(root)'}: ${i.message}${at ? ` (${at})` : ''}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { profileSchema, type Profile } from './schema.js';
+import { isRecord } from '../util/record.js';
+
+/**
+ * Apply the named profile (default: the config's own `profile:` key; `null`
+ * for none, even when the config names one) to a raw
+ * (pre-interpolation) config object, returning a new object. Runs before
+ * `${VAR}` interpolation so override values can use references too.
+ *
+ *   - `processes` keeps the listed processes, those in `required`, and their
+ *     transitive `depends_on`; everything else is removed.
+ *   - `optional` / `required` set each named process's `optional` flag.
+ *   - `overrides` merge `env` over the process's env and replace `command`
+ *     and `ready`.
+ *
+ * Every profile's process references are checked (not just the applied
+ * one's), so a typo in an unused profile still surfaces in `orc validate`.
+ * Problems come back as `{ path, message }`. Profile shapes the schema would
+ * reject are left alone for `validateConfig` to report.
+ */
+export function applyProfile(
+  raw: unknown,
+  name: string | null | undefined,
+): { value: unknown; issues: { path: string; message: string }[] } {
+  const issues: { path: string; message: string }[] = [];
+  if (!isRecord(raw) || !isRecord(raw.processes)) return { value: raw, issues };
+  const parsed = z.record(z.string(), profileSchema).safeParse(raw.profiles ?? {});
+  if (!parsed.success) return { value: raw, issues };
+  const profiles = parsed.data;
+  const known = new Set(Object.keys(raw.processes));
+
+  for (const [profileName, profile] of Object.entries(profiles)) {
+    const at = `profiles.${profileName}`;
+    for (const key of ['processes', 'optional', 'required'] as const) {
+      (profile[key] ?? []).forEach((ref, i) => {
+        if (!known.has(ref)) issues.push({ path: `${at}.${key}.${i}`, message: unknown(ref) });
+      });
+    }
+    for (const ref of Object.keys(profile.overrides)) {
+      if (!known.has(ref)) issues.push({ path: `${at}.overrides.${ref}`, message: unknown(ref) });
+    }
+  }
+
+  if (name === null) {
+    const { profile: _ignored, ...rest } = raw;
+    return { value: rest, issues };
+  }
+  const active = name ?? (typeof raw.profile === 'string' ? raw.profile : undefined);
+  if (active === undefined || issues.length > 0) return { value: raw, issues };
+  const profile = profiles[active];
+  if (!profile) {
+    const available = Object.keys(profiles);
+    issues.push({
+      path: 'profile',
+      message: `unknown profile "${active}" (${available.length > 0 ? `available: ${available.join(', ')}` : 'no profiles defined'})`,
+    });
+    return { value: raw, issues };
+  }
+
+  const selected = profileProcesses(raw.processes as Record<string, unknown>, profile);
+  const processes: Record<string, unknown> = {};
+  for (const [procName, proc] of Object.entries(raw.processes)) {
+    if (!selected.has(procName)) continue;
+    if (!isRecord(proc)) {
+      processes[procName] = proc;
+      continue;
+    }
+    const next: Record<string, unknown> = { ...proc };
+    if (profile.optional.includes(procName)) next.optional = true;
+    if (profile.required.includes(procName)) next.optional = false;
+    const override = profile.overrides[procName];
+    if (override?.command !== undefined) next.command = override.command;
+    if (override?.ready !== undefined) next.ready = override.ready;
+    if (override?.env !== undefined) {
+      next.env = { ...(isRecord(proc.env) ? proc.env : {}), ...override.env };
+    }
+    processes[procName] = next;
+  }
+  return { value: { ...raw, processes, profile: active }, issues };
+}
+
+/**
+ * The processes a profile runs: its `processes` (all of them when unset) and
+ * `required` entries plus their transitive `depends_on`, in config order.
+ */
+export function profileProcesses(
+  processes: Record<string, unknown>,
+  profile: Pick<Profile, 'processes' | 'required'>,
+): Set<string> {
+  if (!profile.processes) return new Set(Object.keys(processes));
+  const keep = new Set<string>();
+  const visit = (name: string) => {
+    if (keep.has(name) || !(name in processes)) return;
+    keep.add(name);
+    const proc = processes[name];
+    const deps = isRecord(proc) && Array.isArray(proc.depends_on) ? proc.depends_on : [];
+    for (const dep of deps) if (typeof dep === 'string') visit(dep);
+  };
+  for (const name of [...profile.processes, ...profile.required]) visit(name);
+  return new Set(Object.keys(processes).filter((name) => keep.has(name)));
+}
+
+function unknown(name: string): string {
+  return `unknown process "${name}"`;
+}
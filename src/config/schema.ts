@@ -1,9 +1,43 @@
 import { z } from 'zod';
+import { parseDuration } from './duration.js';
+
+/**
+ * One accepted HTTP status: an exact code (`204`), a class (`'2xx'`) or an
+ * inclusive range (`'200-299'`).
+ */
+const httpStatusSchema = z.union([
+  z.number().int().min(100).max(599),
+  z.string().regex(/^[1-5]xx$/, "expected a status class like '2xx'"),
+  z
+    .string()
+    .regex(/^\d{3}-\d{3}$/, "expected a status range like '200-299'")
+    .refine((range) => {
+      const [from, to] = range.split('-').map(Number) as [number, number];
+      return from >= 100 && to <= 599 && from <= to;
+    }, 'status range must run low to high within 100-599'),
+]);
 
 const httpReadyCheck = z.object({
   type: z.literal('http'),
   url: z.string().url(),
-  expected_status: z.number().int().min(100).max(599).default(200),
+  method: z.enum(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']).default('GET'),
+  headers: z.record(z.string(), z.string()).optional(),
+  /** Request body, sent as-is; set a `content-type` in `headers` to match. */
+  body: z.string().optional(),
+  /** One status or a list; any match passes. */
+  expected_status: z.union([httpStatusSchema, z.array(httpStatusSchema).min(1)]).default(200),
+  /** The response body must contain this text. */
+  body_contains: z.string().min(1).optional(),
+  /**
+   * A field of the JSON response body (`$.status`, `checks[0].state`) that
+   * must exist — and equal `json_equals` when that's set.
+   */
+  json_path: z.string().min(1).optional(),
+  json_equals: z.union([z.string(), z.number(), z.boolean(), z.null()]).optional(),
+  /** Accept self-signed and otherwise unverifiable TLS certificates. */
+  insecure: z.boolean().default(false),
+  /** How long one request may take before it counts as a failed attempt. Default: 5000. */
+  attempt_timeout_ms: z.number().int().positive().optional(),
   interval_ms: z.number().int().positive().default(1000),
   timeout_ms: z.number().int().positive().default(60_000),
 });
@@ -16,6 +50,65 @@ const tcpReadyCheck = z.object({
   timeout_ms: z.number().int().positive().default(60_000),
 });
 
+/** Ready once `path` exists — and, with `pattern`, once its content matches. */
+const fileReadyCheck = z.object({
+  type: z.literal('file'),
+  /** Relative to the process's `cwd`. */
+  path: z.string().min(1),
+  pattern: z.string().min(1).optional(),
+  interval_ms: z.number().int().positive().default(500),
+  timeout_ms: z.number().int().positive().default(60_000),
+});
+
+/** Ready once a connection to the unix domain socket at `path` succeeds. */
+const unixSocketReadyCheck = z.object({
+  type: z.literal('unix-socket'),
+  /** Relative to the process's `cwd`. */
+  path: z.string().min(1),
+  interval_ms: z.number().int().positive().default(1000),
+  timeout_ms: z.number().int().positive().default(60_000),
+});
+
+/**
+ * Ready once the server answers a protocol startup message the way
+ * `pg_isready` counts as accepting connections — any reply except "the
+ * database system is starting up". No password needed; the check never
+ * authenticates.
+ */
+const postgresReadyCheck = z.object({
+  type: z.literal('postgres'),
+  host: z.string().default('localhost'),
+  port: z.number().int().min(1).max(65_535).default(5432),
+  user: z.string().min(1).default('postgres'),
+  /** Default: the `user`. */
+  database: z.string().min(1).optional(),
+  interval_ms: z.number().int().positive().default(1000),
+  timeout_ms: z.number().int().positive().default(60_000),
+});
+
+/** Ready once the server answers `PING` with `PONG` (after `AUTH`, with a `password`). */
+const redisReadyCheck = z.object({
+  type: z.literal('redis'),
+  host: z.string().default('localhost'),
+  port: z.number().int().min(1).max(65_535).default(6379),
+  password: z.string().optional(),
+  interval_ms: z.number().int().positive().default(1000),
+  timeout_ms: z.number().int().positive().default(60_000),
+});
+
+/**
+ * Ready once the standard `grpc.health.v1.Health/Check` call reports
+ * `SERVING` for `service` (default: the server as a whole). Plaintext HTTP/2.
+ */
+const grpcHealthReadyCheck = z.object({
+  type: z.literal('grpc-health'),
+  host: z.string().default('localhost'),
+  port: z.number().int().min(1).max(65_535),
+  service: z.string().default(''),
+  interval_ms: z.number().int().positive().default(1000),
+  timeout_ms: z.number().int().positive().default(60_000),
+});
+
 const logPatternReadyCheck = z.object({
   type: z.literal('log-pattern'),
   pattern: z.string().min(1),
@@ -34,12 +127,78 @@ const customReadyCheck = z.object({
   timeout_ms: z.number().int().positive().default(60_000),
 });
 
+/**
+ * A check inside `all` / `any` / `sequence`. The combinator's `timeout_ms`
+ * covers the whole thing, so the parts don't take one; `exit-code` can't be
+ * combined (the process exiting *is* that check).
+ */
+const composableReadyCheck = z.discriminatedUnion('type', [
+  httpReadyCheck.omit({ timeout_ms: true }),
+  tcpReadyCheck.omit({ timeout_ms: true }),
+  logPatternReadyCheck.omit({ timeout_ms: true }),
+  customReadyCheck.omit({ timeout_ms: true }),
+  fileReadyCheck.omit({ timeout_ms: true }),
+  unixSocketReadyCheck.omit({ timeout_ms: true }),
+  postgresReadyCheck.omit({ timeout_ms: true }),
+  redisReadyCheck.omit({ timeout_ms: true }),
+  grpcHealthReadyCheck.omit({ timeout_ms: true }),
+]);
+
+const compositeReadyCheck = <T extends 'all' | 'any' | 'sequence'>(type: T) =>
+  z.object({
+    type: z.literal(type),
+    checks: z.array(composableReadyCheck).min(1),
+    timeout_ms: z.number().int().positive().default(60_000),
+  });
+
+/** Ready once every check passes; a check that passed stays passed. */
+const allReadyCheck = compositeReadyCheck('all');
+/** Ready as soon as one check passes. */
+const anyReadyCheck = compositeReadyCheck('any');
+/**
+ * The checks in order: each is polled once the one before it has passed. Log
+ * patterns are matched from the start, so a line printed early still counts.
+ */
+const sequenceReadyCheck = compositeReadyCheck('sequence');
+
 export const readyCheckSchema = z.discriminatedUnion('type', [
   httpReadyCheck,
   tcpReadyCheck,
   logPatternReadyCheck,
   exitCodeReadyCheck,
   customReadyCheck,
+  fileReadyCheck,
+  unixSocketReadyCheck,
+  postgresReadyCheck,
+  redisReadyCheck,
+  grpcHealthReadyCheck,
+  allReadyCheck,
+  anyReadyCheck,
+  sequenceReadyCheck,
+]);
+
+/**
+ * Extra settings shared by every `liveness:` check. The per-check fields are
+ * the ready check's, minus its overall `timeout_ms` — liveness has no
+ * deadline, it counts consecutive failures.
+ */
+const livenessFields = {
+  /** Time between checks once the process is up. */
+  interval_ms: z.number().int().positive().default(10_000),
+  /** Consecutive failed checks before the process is `unhealthy`. */
+  failure_threshold: z.number().int().positive().default(3),
+  /** Grace period after the process is ready before the first check. */
+  initial_delay_ms: z.number().int().nonnegative().default(0),
+};
+
+export const livenessCheckSchema = z.discriminatedUnion('type', [
+  httpReadyCheck.omit({ timeout_ms: true }).extend(livenessFields),
+  tcpReadyCheck.omit({ timeout_ms: true }).extend(livenessFields),
+  customReadyCheck.omit({ timeout_ms: true }).extend(livenessFields),
+  unixSocketReadyCheck.omit({ timeout_ms: true }).extend(livenessFields),
+  postgresReadyCheck.omit({ timeout_ms: true }).extend(livenessFields),
+  redisReadyCheck.omit({ timeout_ms: true }).extend(livenessFields),
+  grpcHealthReadyCheck.omit({ timeout_ms: true }).extend(livenessFields),
 ]);
 
 const outputFilterSchema = z.object({
@@ -68,7 +227,140 @@ const hookConfigSchema = z.object({
 // error.
 const restartPolicySchema = z.enum(['always', 'on-failure', 'never']).default('never');
 
-const processTypeSchema = z.enum(['bash', 'webpack', 'angular', 'docker']).default('bash');
+const watchConfigSchema = z.object({
+  /**
+   * Globs, relative to the process's `cwd`, whose changes restart the
+   * process. A plain directory path covers everything below it.
+   */
+  paths: z.array(z.string().min(1)).min(1),
+  /** Globs excluded even when a `paths` entry matches. */
+  ignore: z.array(z.string().min(1)).default(['**/node_modules/**', '**/.git/**']),
+  /** Quiet period after the last change before restarting, so a save-all is one restart. */
+  debounce_ms: z.number().int().nonnegative().default(300),
+  /** Also restart the processes that (transitively) depend on this one. */
+  restart_dependents: z.boolean().default(false),
+});
+
+/**
+ * A duration as milliseconds or a string like `"30s"` / `"2m"` (see
+ * `parseDuration`); always milliseconds once parsed.
+ */
+const durationSchema = z.union([z.number().int().nonnegative(), z.string()]).transform((v, ctx) => {
+  if (typeof v === 'number') return v;
+  try {
+    return parseDuration(v);
+  } catch (err) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (err as Error).message });
+    return z.NEVER;
+  }
+});
+
+const restartBackoffSchema = z
+  .object({
+    /** Delay before the first restart. */
+    initial: durationSchema.default(1000),
+    /** Ceiling the delay stops growing at. */
+    max: durationSchema.default(60_000),
+    /** Growth per attempt: the nth restart waits `initial × multiplier^(n-1)`. */
+    multiplier: z.number().min(1).default(2),
+    /** Randomly spread each delay by up to this fraction either way (0–1). */
+    jitter: z.number().min(0).max(1).default(0),
+  })
+  .refine((b) => b.max >= b.initial, { message: 'max must be at least initial' });
+
+const crashLoopSchema = z.object({
+  /** Restart-worthy failures (crashes, unhealthy turns) that make a loop… */
+  failures: z.number().int().min(2).default(3),
+  /** …when they all fall within this window. */
+  within: durationSchema.default(60_000),
+});
+
+/** A regular expression (JavaScript syntax), checked to compile. */
+const regexSchema = z
+  .string()
+  .min(1)
+  .refine(
+    (source) => {
+      try {
+        new RegExp(source);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'invalid regular expression', abort: true },
+  );
+
+/**
+ * A build parser for a tool orckit has no built-in one for. Each regex is
+ * tested against every output line (ANSI colours stripped), first match in the
+ * order below wins.
+ */
+const buildParserSchema = z
+  .strictObject({
+    /**
+     * The build failed. Named groups `errors` / `warnings` override the counts
+     * of `error_line` / `warning_line` matches.
+     */
+    failure: regexSchema.optional(),
+    /** The build finished; the same named groups as `failure` apply. */
+    success: regexSchema.optional(),
+    /** A build (or rebuild) began. */
+    start: regexSchema.optional(),
+    /** Progress; the first capture group is the percentage. */
+    progress: regexSchema
+      .refine((source) => new RegExp(`${source}|`).exec('')!.length > 1, {
+        message: 'progress needs a capture group for the percentage',
+      })
+      .optional(),
+    /** An error diagnostic; counted, and the line becomes the failure reason. */
+    error_line: regexSchema.optional(),
+    /** A warning diagnostic; counted. */
+    warning_line: regexSchema.optional(),
+  })
+  .refine((b) => b.success != null || b.failure != null, {
+    message: 'set success and/or failure, or no build ever completes',
+  });
+
+const limitActionSchema = z.enum(['warn', 'restart', 'stop']).default('warn');
+
+const limitsConfigSchema = z
+  .object({
+    /** Resident memory of the whole process group, in MB. */
+    max_memory_mb: z.number().positive().optional(),
+    /** CPU as a percentage of one core — a group keeping two cores busy is at 200. */
+    max_cpu_percent: z.number().positive().optional(),
+    /**
+     * How long every sample has to stay over a limit before it counts, so a
+     * compile spike doesn't trip it. `0` acts on the first sample over.
+     */
+    sustained_for: durationSchema.default(30_000),
+    /**
+     * What crossing a limit does after `process:limit-exceeded` fires: `warn`
+     * only reports it, `restart` restarts the process (not its dependents),
+     * `stop` stops it.
+     */
+    action: limitActionSchema,
+  })
+  .refine((l) => l.max_memory_mb != null || l.max_cpu_percent != null, {
+    message: 'set max_memory_mb and/or max_cpu_percent',
+  });
+
+const processTypeSchema = z
+  .enum([
+    'bash',
+    'webpack',
+    'angular',
+    'vite',
+    'next',
+    'esbuild',
+    'tsc',
+    'vitest',
+    'jest',
+    'rollup',
+    'docker',
+  ])
+  .default('bash');
 
 const DOCKER_NAME_RE = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
 
@@ -109,12 +401,55 @@ export const processConfigSchema = z
       )
       .optional(),
     cwd: z.string().optional(),
+    /**
+     * Dotenv files (relative to the config file) whose variables are added to
+     * this process's environment and are visible to its `${VAR}` references.
+     * Layered over the top-level `env_file`; `env` still wins over both.
+     * Already applied by the time the config is loaded.
+     */
+    env_file: z.array(z.string()).default([]),
     env: z.record(z.string(), z.string()).default({}),
     depends_on: z.array(z.string()).default([]),
     ready: readyCheckSchema.optional(),
+    /**
+     * Keeps checking the process after it's up (any network check, or custom). Once
+     * `failure_threshold` checks in a row fail it turns `unhealthy` and the
+     * `restart` policy applies, as if it had crashed; a passing check brings
+     * it back to `running`.
+     */
+    liveness: livenessCheckSchema.optional(),
     restart: restartPolicySchema,
     restart_delay_ms: z.number().int().nonnegative().default(2000),
+    /** Exponential backoff between restarts; replaces the flat `restart_delay_ms`. */
+    restart_backoff: restartBackoffSchema.optional(),
     max_retries: z.number().int().nonnegative().default(3),
+    /**
+     * Give the process its full `max_retries` back once it has stayed up
+     * (`running`, not `unhealthy`) this long — so a crash a day doesn't
+     * eventually exhaust the budget. Unset: retries only reset on a manual start.
+     */
+    reset_retries_after: durationSchema.optional(),
+    /**
+     * When restarts come this fast, `process:crash-loop` flags it. Restarts
+     * carry on as the policy says; the flag is for whoever is watching.
+     */
+    crash_loop: crashLoopSchema.default({ failures: 3, within: 60_000 }),
+    /**
+     * Restart the process when files it depends on change — for backends
+     * without their own hot reload. `restart` only reacts to crashes; this
+     * reacts to edits. Each trigger emits `process:watch-triggered`.
+     */
+    watch: watchConfigSchema.optional(),
+    /**
+     * Memory / CPU ceilings checked against each `metrics:` sample. Needs
+     * metrics sampling, so Linux only.
+     */
+    limits: limitsConfigSchema.optional(),
+    /**
+     * A build parser made of regexes, for tools without a built-in `type`.
+     * Takes precedence over the type's parser.
+     */
+    build: buildParserSchema.optional(),
     output: outputFilterSchema.optional(),
     hooks: hookConfigSchema.optional(),
     /**
@@ -180,6 +515,22 @@ export const processConfigSchema = z
         path: ['container_name'],
       });
     }
+    const httpChecks = [
+      { check: data.ready, path: ['ready'] },
+      { check: data.liveness, path: ['liveness'] },
+      ...(data.ready && 'checks' in data.ready
+        ? data.ready.checks.map((check, i) => ({ check, path: ['ready', 'checks', i] }))
+        : []),
+    ];
+    for (const { check, path } of httpChecks) {
+      if (check?.type === 'http' && check.json_equals !== undefined && !check.json_path) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'json_equals needs a json_path to compare',
+          path: [...path, 'json_equals'],
+        });
+      }
+    }
   });
 
 const preflightCheckSchema = z.object({
@@ -209,6 +560,12 @@ const mcpConfigSchema = z.object({
   enabled: z.boolean().default(true),
   port: z.number().int().min(1).max(65_535).default(7676),
   host: z.string().default('127.0.0.1'),
+  /**
+   * Expose the mutating tools (`restart_process`, `start_process`,
+   * `stop_process`) alongside the read-only ones. Off by default, so the
+   * server stays strictly observational until a team opts in.
+   */
+  allow_control: z.boolean().default(false),
 });
 
 const webConfigSchema = z.object({
@@ -220,6 +577,109 @@ const webConfigSchema = z.object({
   enabled: z.boolean().default(true),
   port: z.number().int().min(1).max(65_535).default(7677),
   host: z.string().default('127.0.0.1'),
+  /**
+   * Let `POST /api/restart/:name` (the dashboard's "Restart with overrides")
+   * run a process with a command and env sent over HTTP. Off by default —
+   * whoever can reach the dashboard could then run any command.
+   */
+  allow_overrides: z.boolean().default(false),
+});
+
+const metricsConfigSchema = z.object({
+  /**
+   * Sample CPU and memory for each running process's whole process group
+   * (Linux, via `/proc`). Elsewhere sampling is silently off.
+   */
+  enabled: z.boolean().default(true),
+  /** Time between samples. */
+  interval_ms: z.number().int().min(250).default(2000),
+  /** Samples kept per process — 150 at the default interval is five minutes. */
+  history: z.number().int().min(1).max(10_000).default(150),
+});
+
+const buildHistoryConfigSchema = z.object({
+  /** Finished builds kept per process, for duration trends. */
+  size: z.number().int().min(1).max(10_000).default(100),
+  /** Keep the history in `file` so it survives restarting orckit. */
+  persist: z.boolean().default(false),
+  /** Where a persisted history lives (relative to cwd or absolute). */
+  file: z.string().default('.orckit/build-history.json'),
+});
+
+/** What a notification channel can be told about. */
+export const notificationEventSchema = z.enum(['failed', 'recovered', 'build-failed', 'all-ready']);
+
+/** The fields a `command` channel's `{{field}}` placeholders can name. */
+export const NOTIFICATION_FIELDS = [
+  'event',
+  'project',
+  'name',
+  'title',
+  'message',
+  'timestamp',
+] as const;
+
+/** Filters every channel takes. */
+const notificationFilterFields = {
+  /** The events this channel wants. Default: all of them. */
+  on: z
+    .array(notificationEventSchema)
+    .min(1)
+    .default(['failed', 'recovered', 'build-failed', 'all-ready']),
+  /**
+   * Only these processes: names, `@category` or globs, as on the command line.
+   * `all-ready` isn't about one process and always passes. Default: every process.
+   */
+  processes: z.array(z.string().min(1)).optional(),
+  /** At most one notification per event and process within this window. */
+  debounce: durationSchema.default(0),
+};
+
+const commandChannelSchema = z.strictObject({
+  type: z.literal('command'),
+  /**
+   * Run with bash. `{{field}}` placeholders (see `NOTIFICATION_FIELDS`) are
+   * replaced with the shell-quoted value, so they need no quotes of their
+   * own; the same values are in `ORCKIT_<FIELD>` env vars.
+   */
+  command: z
+    .string()
+    .min(1)
+    .superRefine((command, ctx) => {
+      for (const [, field] of command.matchAll(/\{\{\s*(\w+)\s*\}\}/g)) {
+        if (!(NOTIFICATION_FIELDS as readonly string[]).includes(field!)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `unknown field "{{${field}}}" — expected one of ${NOTIFICATION_FIELDS.join(', ')}`,
+          });
+        }
+      }
+    }),
+  ...notificationFilterFields,
+});
+
+const webhookChannelSchema = z.strictObject({
+  type: z.literal('webhook'),
+  /** Receives a JSON `POST` of the notification. */
+  url: z.url({ protocol: /^https?$/ }),
+  headers: z.record(z.string(), z.string()).default({}),
+  ...notificationFilterFields,
+});
+
+/** Shown by the web dashboard through the browser's Notification API. */
+const browserChannelSchema = z.strictObject({
+  type: z.literal('browser'),
+  ...notificationFilterFields,
+});
+
+export const notificationChannelSchema = z.discriminatedUnion('type', [
+  commandChannelSchema,
+  webhookChannelSchema,
+  browserChannelSchema,
+]);
+
+const notificationsConfigSchema = z.object({
+  channels: z.array(notificationChannelSchema).default([]),
 });
 
 /**
@@ -255,17 +715,86 @@ const ideConfigSchema = z.object({
   project: z.string().optional(),
 });
 
+const profileOverrideSchema = z.strictObject({
+  command: z.string().min(1).optional(),
+  /** Merged over the process's `env`. */
+  env: z.record(z.string(), z.string()).optional(),
+  /**
+   * Replaces the process's ready check. Only its `type` is checked here; the
+   * full check is validated as part of the process when the profile is applied.
+   */
+  ready: z.looseObject({ type: z.string() }).optional(),
+});
+
+export const profileSchema = z.object({
+  description: z.string().optional(),
+  /**
+   * The processes this profile runs, plus everything they depend on. Every
+   * other process is dropped from the config. Omit to keep them all.
+   */
+  processes: z.array(z.string()).optional(),
+  /** Processes to mark `optional: true` under this profile. */
+  optional: z.array(z.string()).default([]),
+  /** Processes to mark `optional: false` (and include) under this profile. */
+  required: z.array(z.string()).default([]),
+  /** Per-process `command` / `env` / `ready` overrides, keyed by process name. */
+  overrides: z.record(z.string(), profileOverrideSchema).default({}),
+});
+
 export const orckitConfigSchema = z
   .object({
     project: z.string().default('orckit'),
+    /**
+     * Dotenv files (relative to the config file) shared by every process: their
+     * variables land in each process's environment and resolve `${VAR}`
+     * references anywhere interpolation applies.
+     */
+    env_file: z.array(z.string()).default([]),
+    /**
+     * Named ports shared across the config. In YAML a value may be `auto`:
+     * `allocateConfigPorts` swaps it for a free port, so two checkouts (or two
+     * developers) on one machine don't collide. Referenced as
+     * `${ports.<name>}`; a key matching a process name is also
+     * `${processes.<name>.port}`. Always numbers once loaded — `auto` ones
+     * placeholders until allocated.
+     */
+    ports: z.record(z.string(), z.number().int().min(1).max(65_535)).default({}),
     processes: z.record(z.string(), processConfigSchema).refine((p) => Object.keys(p).length > 0, {
       message: 'at least one process is required',
     }),
+    /**
+     * Named variants of this config — which processes run and per-process
+     * overrides — selected with `orc start --profile <name>`. Applied by
+     * `loadConfig` before interpolation and validation.
+     */
+    profiles: z.record(z.string(), profileSchema).default({}),
+    /**
+     * The active profile. In YAML, the profile applied when `--profile` isn't
+     * given; once loaded, whichever profile was applied (unset for none).
+     */
+    profile: z.string().optional(),
     preflight: z.array(preflightCheckSchema).default([]),
     logs: logsConfigSchema.default({ enabled: false, dir: '.orckit/logs' }),
-    mcp: mcpConfigSchema.default({ enabled: true, port: 7676, host: '127.0.0.1' }),
-    web: webConfigSchema.default({ enabled: true, port: 7677, host: '127.0.0.1' }),
+    mcp: mcpConfigSchema.default({
+      enabled: true,
+      port: 7676,
+      host: '127.0.0.1',
+      allow_control: false,
+    }),
+    web: webConfigSchema.default({
+      enabled: true,
+      port: 7677,
+      host: '127.0.0.1',
+      allow_overrides: false,
+    }),
     ide: ideConfigSchema.default({ enabled: true, tool: 'webstorm' }),
+    metrics: metricsConfigSchema.default({ enabled: true, interval_ms: 2000, history: 150 }),
+    build_history: buildHistoryConfigSchema.default({
+      size: 100,
+      persist: false,
+      file: '.orckit/build-history.json',
+    }),
+    notifications: notificationsConfigSchema.default({ channels: [] }),
   })
   .superRefine((data, ctx) => {
     // A required process can't depend on an optional one — if `optional: true`
@@ -284,18 +813,46 @@ export const orckitConfigSchema = z
         }
       }
     }
+    if (!data.metrics.enabled) {
+      for (const [name, process] of Object.entries(data.processes)) {
+        if (!process.limits) continue;
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['processes', name, 'limits'],
+          message: 'limits are checked against resource samples — they need metrics.enabled: true',
+        });
+      }
+    }
   });
 
 export type OrckitConfig = z.infer<typeof orckitConfigSchema>;
 export type ProcessConfig = z.infer<typeof processConfigSchema>;
 export type ReadyCheck = z.infer<typeof readyCheckSchema>;
+export type LivenessCheck = z.infer<typeof livenessCheckSchema>;
 export type HttpReadyCheck = z.infer<typeof httpReadyCheck>;
 export type TcpReadyCheck = z.infer<typeof tcpReadyCheck>;
 export type LogPatternReadyCheck = z.infer<typeof logPatternReadyCheck>;
 export type ExitCodeReadyCheck = z.infer<typeof exitCodeReadyCheck>;
 export type CustomReadyCheck = z.infer<typeof customReadyCheck>;
+export type FileReadyCheck = z.infer<typeof fileReadyCheck>;
+export type UnixSocketReadyCheck = z.infer<typeof unixSocketReadyCheck>;
+export type PostgresReadyCheck = z.infer<typeof postgresReadyCheck>;
+export type RedisReadyCheck = z.infer<typeof redisReadyCheck>;
+export type GrpcHealthReadyCheck = z.infer<typeof grpcHealthReadyCheck>;
+export type CompositeReadyCheck = z.infer<
+  typeof allReadyCheck | typeof anyReadyCheck | typeof sequenceReadyCheck
+>;
+export type ComposableReadyCheck = z.infer<typeof composableReadyCheck>;
 export type OutputFilter = z.infer<typeof outputFilterSchema>;
 export type HookConfig = z.infer<typeof hookConfigSchema>;
+export type NotificationEvent = z.infer<typeof notificationEventSchema>;
+export type NotificationChannel = z.infer<typeof notificationChannelSchema>;
+export type Profile = z.infer<typeof profileSchema>;
+export type ProfileOverride = z.infer<typeof profileOverrideSchema>;
+export type WatchConfig = z.infer<typeof watchConfigSchema>;
+export type LimitsConfig = z.infer<typeof limitsConfigSchema>;
+export type BuildParserConfig = z.infer<typeof buildParserSchema>;
+export type LimitAction = z.infer<typeof limitActionSchema>;
 export type RestartPolicy = z.infer<typeof restartPolicySchema>;
 export type ProcessType = z.infer<typeof processTypeSchema>;
 export type PreflightCheck = z.infer<typeof preflightCheckSchema>;
@@ -304,3 +861,4 @@ export type McpConfig = z.infer<typeof mcpConfigSchema>;
 export type WebConfig = z.infer<typeof webConfigSchema>;
 export type IdeConfig = z.infer<typeof ideConfigSchema>;
 export type IdeTool = z.infer<typeof ideToolSchema>;
+export type MetricsConfig = z.infer<typeof metricsConfigSchema>;
@@ -0,0 +1,64 @@
+import { connect } from 'node:net';
+import { bindLineStream } from '../util/line-stream.js';
+import type { ControlFrame, ControlRequest } from './control.js';
+
+/** Thrown when no daemon answers on the control socket. */
+export class DaemonNotRunningError extends Error {
+  constructor(public readonly socketPath: string) {
+    super(`no orckit daemon is running (nothing listening on ${socketPath})`);
+    this.name = 'DaemonNotRunningError';
+  }
+}
+
+/**
+ * Send one request to a daemon's control socket. `onFrame` sees every
+ * non-terminal frame (log lines, attach output) as it arrives. Resolves with
+ * the `result` frame's payload — or with `undefined` when the daemon closes a
+ * streaming request without one (e.g. it shut down during `orc attach`) —
+ * and rejects on an `error` frame.
+ */
+export function sendControlRequest(
+  socketPath: string,
+  request: ControlRequest,
+  onFrame: (frame: ControlFrame) => void = () => {},
+): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const socket = connect(socketPath);
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      fn();
+    };
+
+    socket.setEncoding('utf-8');
+    socket.once('connect', () => socket.write(JSON.stringify(request) + '\n'));
+    socket.once('error', (err: NodeJS.ErrnoException) => {
+      settle(() =>
+        reject(
+          err.code === 'ENOENT' || err.code === 'ECONNREFUSED'
+            ? new DaemonNotRunningError(socketPath)
+            : err,
+        ),
+      );
+    });
+    socket.once('close', () => settle(() => resolve(undefined)));
+
+    bindLineStream(socket, (line) => {
+      if (line.trim() === '') return;
+      let frame: ControlFrame;
+      try {
+        frame = JSON.parse(line) as ControlFrame;
+      } catch {
+        return;
+      }
+      if (frame.type === 'result') {
+        settle(() => resolve(frame.data));
+      } else if (frame.type === 'error') {
+        settle(() => reject(new Error(frame.message)));
+      } else {
+        onFrame(frame);
+      }
+    });
+  });
+}
@@ -0,0 +1,217 @@
+import { createServer, connect, type Server, type Socket } from 'node:net';
+import { rmSync } from 'node:fs';
+import type { Orckit } from '../orchestrator/orchestrator.js';
+import type { OutputLine } from '../process/output.js';
+import { buildStatus, type StatusEntry } from '../mcp/tools.js';
+import { attachCliReporter } from '../reporter/cli-reporter.js';
+import { bindLineStream } from '../util/line-stream.js';
+
+/**
+ * One request per connection, sent by the client as a single JSON line. The
+ * daemon answers with newline-delimited JSON frames (`ControlFrame`) and
+ * closes the connection after the terminating `result`/`error` frame —
+ * except for streaming requests (`logs` with `follow`, `attach`), which stay
+ * open until the client hangs up.
+ */
+export type ControlRequest =
+  | { command: 'status' }
+  | { command: 'start'; names: string[] }
+  | { command: 'stop'; names: string[] }
+  | { command: 'restart'; names: string[]; cascade?: boolean }
+  | { command: 'logs'; name: string; lines?: number; follow?: boolean }
+  | { command: 'attach'; showOutput?: boolean };
+
+export interface StatusResult {
+  project: string;
+  pid: number;
+  processes: StatusEntry[];
+}
+
+export type ControlFrame =
+  | { type: 'result'; data?: unknown }
+  | { type: 'error'; message: string }
+  | { type: 'line'; name: string; text: string; stream: OutputLine['stream']; timestamp: number }
+  | { type: 'status'; status: StatusResult }
+  | { type: 'output'; text: string };
+
+export interface ControlServerOptions {
+  /** Unix socket path to listen on (see `daemonPaths`). */
+  socketPath: string;
+  /**
+   * Invoked for a `stop` request without process names: the client asked for
+   * the whole daemon to go away. Runs after the reply has been flushed.
+   */
+  onShutdown: () => void | Promise<void>;
+}
+
+export interface ControlServerHandle {
+  readonly socketPath: string;
+  /** Stop listening, drop open client streams, remove the socket file. */
+  dispose(): Promise<void>;
+}
+
+const DEFAULT_LOG_LINES = 100;
+
+/**
+ * Attach the local control socket that lets `orc status` / `orc stop` /
+ * `orc restart` / `orc logs` / `orc attach` drive a detached orchestrator.
+ * Every command maps onto the public `Orckit` API — the socket adds transport,
+ * not behavior.
+ *
+ * Refuses to start when another live daemon already answers on the socket; a
+ * stale socket file (left by a killed daemon) is removed first.
+ */
+export async function attachControlServer(
+  orckit: Orckit,
+  opts: ControlServerOptions,
+): Promise<ControlServerHandle> {
+  const sockets = new Set<Socket>();
+  const detachers = new Set<() => void>();
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.setEncoding('utf-8');
+    let handled = false;
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+    bindLineStream(socket, (line) => {
+      if (handled || line.trim() === '') return;
+      handled = true;
+      void handle(socket, line);
+    });
+  });
+
+  const send = (socket: Socket, frame: ControlFrame) => {
+    if (socket.writable) socket.write(JSON.stringify(frame) + '\n');
+  };
+  const finish = (socket: Socket, frame: ControlFrame) => {
+    if (socket.writable) socket.end(JSON.stringify(frame) + '\n');
+  };
+
+  /** Keep `detach` registered until the client hangs up (or the server is disposed). */
+  const holdOpen = (socket: Socket, detach: () => void) => {
+    detachers.add(detach);
+    socket.once('close', () => {
+      detachers.delete(detach);
+      detach();
+    });
+  };
+
+  const status = (): StatusResult => ({
+    project: orckit.projectName,
+    pid: process.pid,
+    processes: buildStatus(orckit),
+  });
+
+  async function handle(socket: Socket, raw: string): Promise<void> {
+    let request: ControlRequest;
+    try {
+      request = JSON.parse(raw) as ControlRequest;
+    } catch {
+      finish(socket, { type: 'error', message: 'malformed request (expected one JSON line)' });
+      return;
+    }
+    try {
+      switch (request.command) {
+        case 'status':
+          finish(socket, { type: 'result', data: status() });
+          return;
+        case 'start':
+          await orckit.startTargets(request.names);
+          finish(socket, { type: 'result' });
+          return;
+        case 'stop':
+          if (request.names.length === 0) {
+            await new Promise<void>((done) => {
+              socket.end(JSON.stringify({ type: 'result' } satisfies ControlFrame) + '\n', done);
+            });
+            await opts.onShutdown();
+            return;
+          }
+          await orckit.stop(request.names);
+          finish(socket, { type: 'result' });
+          return;
+        case 'restart':
+          await orckit.restart(request.names, { cascade: request.cascade });
+          finish(socket, { type: 'result' });
+          return;
+        case 'logs': {
+          const backlog = orckit.output(request.name, request.lines ?? DEFAULT_LOG_LINES);
+          for (const line of backlog) send(socket, lineFrame(request.name, line));
+          if (!request.follow) {
+            finish(socket, { type: 'result' });
+            return;
+          }
+          const name = request.name;
+          const onLine = (lineName: string, line: OutputLine) => {
+            if (lineName === name) send(socket, lineFrame(name, line));
+          };
+          orckit.on('process:line', onLine);
+          holdOpen(socket, () => orckit.off('process:line', onLine));
+          return;
+        }
+        case 'attach': {
+          send(socket, { type: 'status', status: status() });
+          const detach = attachCliReporter(orckit, {
+            showOutput: request.showOutput ?? false,
+            out: (text) => send(socket, { type: 'output', text }),
+          });
+          holdOpen(socket, detach);
+          return;
+        }
+        default:
+          finish(socket, {
+            type: 'error',
+            message: `unknown command "${(request as { command?: unknown }).command}"`,
+          });
+      }
+    } catch (err) {
+      finish(socket, { type: 'error', message: (err as Error).message });
+    }
+  }
+
+  await removeStaleSocket(opts.socketPath);
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(opts.socketPath, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    socketPath: opts.socketPath,
+    async dispose() {
+      for (const detach of detachers) detach();
+      detachers.clear();
+      for (const socket of sockets) socket.destroy();
+      sockets.clear();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      rmSync(opts.socketPath, { force: true });
+    },
+  };
+}
+
+function lineFrame(name: string, line: OutputLine): ControlFrame {
+  return { type: 'line', name, text: line.text, stream: line.stream, timestamp: line.timestamp };
+}
+
+/**
+ * A socket file outlives a daemon that was SIGKILLed. Probe it: if nothing
+ * accepts the connection the file is stale and safe to unlink; if something
+ * does, another daemon owns this project and we must not steal its socket.
+ */
+function removeStaleSocket(socketPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const probe = connect(socketPath);
+    probe.once('connect', () => {
+      probe.destroy();
+      reject(new Error(`another orckit daemon is already listening on ${socketPath}`));
+    });
+    probe.once('error', (err: NodeJS.ErrnoException) => {
+      probe.destroy();
+      if (err.code === 'ECONNREFUSED') rmSync(socketPath, { force: true });
+      resolve();
+    });
+  });
+}
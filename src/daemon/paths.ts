@@ -0,0 +1,79 @@
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+
+/** Where a background `orc start --detach` keeps its bookkeeping files. */
+export interface DaemonPaths {
+  /** The `.orckit/` state directory next to the config file. */
+  readonly dir: string;
+  /** Holds the daemon's pid while it's alive. */
+  readonly pidFile: string;
+  /** Unix socket the client commands (`orc status`, `orc stop`, ...) connect to. */
+  readonly socketPath: string;
+  /** stdout/stderr of the detached orchestrator. */
+  readonly logFile: string;
+}
+
+// sun_path is 108 bytes on Linux and 104 on macOS; leave headroom for the NUL.
+const MAX_SOCKET_PATH = 100;
+
+/**
+ * Resolve the daemon files for a project rooted at `baseDir` (the directory
+ * holding `orckit.yaml`). The socket normally lives in `.orckit/` too, but a
+ * deeply nested checkout can push it past the OS limit for unix socket paths —
+ * in that case it moves to the temp dir under a name derived from `baseDir`,
+ * so every client still computes the same path.
+ */
+export function daemonPaths(baseDir: string): DaemonPaths {
+  const root = resolve(baseDir);
+  const dir = join(root, '.orckit');
+  let socketPath = join(dir, 'orckit.sock');
+  if (socketPath.length > MAX_SOCKET_PATH) {
+    const hash = createHash('sha1').update(root).digest('hex').slice(0, 12);
+    socketPath = join(tmpdir(), `orckit-${hash}.sock`);
+  }
+  return {
+    dir,
+    pidFile: join(dir, 'orckit.pid'),
+    socketPath,
+    logFile: join(dir, 'daemon.log'),
+  };
+}
+
+export function writeDaemonPid(paths: DaemonPaths, pid = process.pid): void {
+  mkdirSync(paths.dir, { recursive: true });
+  writeFileSync(paths.pidFile, `${pid}\n`);
+}
+
+/**
+ * Pid of the daemon that owns `paths`, or null when none is running. A pid file
+ * left behind by a daemon that was SIGKILLed (or a crashed machine) is removed
+ * along with its socket, so a fresh `--detach` isn't blocked by it.
+ */
+export function runningDaemonPid(paths: DaemonPaths): number | null {
+  let pid: number;
+  try {
+    pid = Number(readFileSync(paths.pidFile, 'utf-8').trim());
+  } catch {
+    return null;
+  }
+  if (Number.isInteger(pid) && pid > 0 && isProcessAlive(pid)) return pid;
+  clearDaemonFiles(paths);
+  return null;
+}
+
+export function clearDaemonFiles(paths: DaemonPaths): void {
+  rmSync(paths.pidFile, { force: true });
+  rmSync(paths.socketPath, { force: true });
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the pid exists but belongs to someone else — still alive.
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
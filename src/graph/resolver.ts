@@ -1,4 +1,5 @@
 import type { OrckitConfig } from '../config/schema.js';
+import { globToRegExp, hasGlobChars } from '../util/glob.js';
 
 export class DependencyError extends Error {
   constructor(message: string) {
@@ -113,12 +114,54 @@ export function transitiveDependents(graph: DependencyGraph, name: string): Set<
   return visited;
 }
 
-export function filterToTargets(graph: DependencyGraph, targets: string[]): Set<string> {
-  const required = new Set<string>();
-  for (const name of targets) {
-    if (!graph.has(name)) {
-      throw new DependencyError(`unknown process "${name}"`);
+/** Process name → category, for `@category` selectors. */
+export type CategoryMap = ReadonlyMap<string, string>;
+
+export function categoriesOf(config: OrckitConfig): CategoryMap {
+  return new Map(Object.entries(config.processes).map(([name, p]) => [name, p.category]));
+}
+
+/**
+ * Expand target selectors to process names, in graph (config) order without
+ * duplicates. A selector is a process name, `@category` for every process in
+ * that category, or a glob over names (`api-*`, `{web,admin}`). Throws
+ * `DependencyError` for a selector that matches nothing.
+ */
+export function expandSelectors(
+  graph: DependencyGraph,
+  selectors: string[],
+  categories: CategoryMap = new Map(),
+): string[] {
+  const selected = new Set<string>();
+  for (const selector of selectors) {
+    let matches: string[];
+    if (selector.startsWith('@')) {
+      const category = selector.slice(1);
+      matches = [...graph.keys()].filter((name) => categories.get(name) === category);
+      if (matches.length === 0) {
+        throw new DependencyError(`no process in category "${category}"`);
+      }
+    } else if (hasGlobChars(selector)) {
+      const re = globToRegExp(selector);
+      matches = [...graph.keys()].filter((name) => re.test(name));
+      if (matches.length === 0) throw new DependencyError(`no process matches "${selector}"`);
+    } else {
+      if (!graph.has(selector)) throw new DependencyError(`unknown process "${selector}"`);
+      matches = [selector];
     }
+    for (const name of matches) selected.add(name);
+  }
+  return [...graph.keys()].filter((name) => selected.has(name));
+}
+
+/** The processes `targets` (selectors, see `expandSelectors`) name, plus everything they depend on. */
+export function filterToTargets(
+  graph: DependencyGraph,
+  targets: string[],
+  categories: CategoryMap = new Map(),
+): Set<string> {
+  const required = new Set<string>();
+  for (const name of expandSelectors(graph, targets, categories)) {
     required.add(name);
     for (const dep of transitiveDependencies(graph, name)) {
       required.add(dep);
@@ -1,11 +1,23 @@
 import { execa } from 'execa';
-import { connect } from 'node:net';
+import { access, readFile } from 'node:fs/promises';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { connect as http2Connect } from 'node:http2';
+import { request as httpsRequest } from 'node:https';
+import { connect, type NetConnectOpts } from 'node:net';
+import { resolve as resolvePath } from 'node:path';
 import type {
+  ComposableReadyCheck,
+  CompositeReadyCheck,
   CustomReadyCheck,
+  FileReadyCheck,
+  GrpcHealthReadyCheck,
   HttpReadyCheck,
   LogPatternReadyCheck,
+  PostgresReadyCheck,
   ReadyCheck,
+  RedisReadyCheck,
   TcpReadyCheck,
+  UnixSocketReadyCheck,
 } from '../config/schema.js';
 
 export interface ProbeResult {
@@ -20,7 +32,16 @@ export interface HealthProbe {
   feedLine?(line: string): void;
 }
 
-export function createProbe(config: Exclude<ReadyCheck, { type: 'exit-code' }>): HealthProbe {
+export interface ProbeOptions {
+  /** What relative `file` / `unix-socket` paths resolve against — the process's cwd. */
+  cwd?: string;
+}
+
+export function createProbe(
+  config: Exclude<ReadyCheck, { type: 'exit-code' }>,
+  options: ProbeOptions = {},
+): HealthProbe {
+  const cwd = options.cwd ?? process.cwd();
   switch (config.type) {
     case 'http':
       return new HttpProbe(config);
@@ -30,21 +51,51 @@ export function createProbe(config: Exclude<ReadyCheck, { type: 'exit-code' }>):
       return new LogPatternProbe(config);
     case 'custom':
       return new CustomProbe(config);
+    case 'file':
+      return new FileProbe(config, cwd);
+    case 'unix-socket':
+      return new UnixSocketProbe(config, cwd);
+    case 'postgres':
+      return new PostgresProbe(config);
+    case 'redis':
+      return new RedisProbe(config);
+    case 'grpc-health':
+      return new GrpcHealthProbe(config);
+    case 'all':
+    case 'any':
+    case 'sequence':
+      return new CompositeProbe(config, options);
   }
 }
 
+/** The plain checks in `ready` — its parts for `all` / `any` / `sequence`, else itself. */
+export function leafReadyChecks(
+  ready: ReadyCheck | undefined,
+): (Exclude<ReadyCheck, CompositeReadyCheck> | ComposableReadyCheck)[] {
+  if (!ready) return [];
+  return ready.type === 'all' || ready.type === 'any' || ready.type === 'sequence'
+    ? ready.checks
+    : [ready];
+}
+
 /**
  * Extract the local listen endpoint a ready check targets, if any. Used to
  * pre-flight that the port is actually free before spawning — otherwise a
  * stale process on the same port would let the probe report a false "ready"
  * while the newly spawned command fails to bind. Returns null for checks
- * that don't pin a local port (log-pattern, custom, or remote-host probes).
+ * that don't pin a local port (log-pattern, custom, or remote-host probes) and
+ * for `all` / `any` / `sequence` — ask about each of `leafReadyChecks` instead.
  */
 export function readyCheckLocalEndpoint(
-  ready: ReadyCheck | undefined,
+  ready: ReadyCheck | ComposableReadyCheck | undefined,
 ): { host: string; port: number } | null {
   if (!ready) return null;
-  if (ready.type === 'tcp') {
+  if (
+    ready.type === 'tcp' ||
+    ready.type === 'postgres' ||
+    ready.type === 'redis' ||
+    ready.type === 'grpc-health'
+  ) {
     if (!isLocalHost(ready.host)) return null;
     return { host: ready.host, port: ready.port };
   }
@@ -74,6 +125,11 @@ function isLocalHost(host: string): boolean {
 
 const ATTEMPT_TIMEOUT_MS = 5000;
 
+/** Response bodies are read up to this size for `body_contains` / `json_path`. */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+type HttpStatus = HttpReadyCheck['expected_status'];
+
 class HttpProbe implements HealthProbe {
   readonly intervalMs: number;
   readonly timeoutMs: number;
@@ -84,23 +140,131 @@ class HttpProbe implements HealthProbe {
   }
 
   async check(): Promise<ProbeResult> {
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), ATTEMPT_TIMEOUT_MS);
+    let response: { status: number; body: string };
     try {
-      const response = await fetch(this.config.url, { signal: controller.signal });
-      if (response.status === this.config.expected_status) {
-        return { ok: true };
-      }
+      response = await this.request();
+    } catch (err) {
+      return { ok: false, reason: describeRequestError(err as NodeJS.ErrnoException) };
+    }
+    const { expected_status: expected, body_contains: contains, json_path: path } = this.config;
+    if (!statusMatches(response.status, expected)) {
       return {
         ok: false,
-        reason: `HTTP ${response.status} (expected ${this.config.expected_status})`,
+        reason: `HTTP ${response.status} (expected ${describeExpectedStatus(expected)})`,
       };
-    } catch (err) {
-      return { ok: false, reason: (err as Error).message };
-    } finally {
-      clearTimeout(timer);
     }
+    if (contains !== undefined && !response.body.includes(contains)) {
+      return { ok: false, reason: `response body does not contain ${JSON.stringify(contains)}` };
+    }
+    if (path !== undefined) {
+      let json: unknown;
+      try {
+        json = JSON.parse(response.body);
+      } catch {
+        return { ok: false, reason: `response body is not JSON (needed for ${path})` };
+      }
+      const found = readJsonPath(json, path);
+      if (!found.exists) return { ok: false, reason: `${path} not found in the response` };
+      const want = this.config.json_equals;
+      if (want !== undefined && found.value !== want) {
+        return {
+          ok: false,
+          reason: `${path} is ${JSON.stringify(found.value)} (expected ${JSON.stringify(want)})`,
+        };
+      }
+    }
+    return { ok: true };
+  }
+
+  /** One request, with `agent: false` so no keep-alive socket outlives the attempt. */
+  private request(): Promise<{ status: number; body: string }> {
+    const url = new URL(this.config.url);
+    const timeoutMs = this.config.attempt_timeout_ms ?? ATTEMPT_TIMEOUT_MS;
+    const headers: Record<string, string> = { ...this.config.headers };
+    const body = this.config.body;
+    if (
+      body !== undefined &&
+      !Object.keys(headers).some((h) => h.toLowerCase() === 'content-length')
+    ) {
+      headers['content-length'] = String(Buffer.byteLength(body));
+    }
+    return new Promise((resolve, reject) => {
+      const onResponse = (res: IncomingMessage) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        res.on('data', (chunk: Buffer) => {
+          if (size >= MAX_BODY_BYTES) return;
+          chunks.push(chunk);
+          size += chunk.length;
+        });
+        res.on('error', reject);
+        res.on('end', () => {
+          clearTimeout(timer);
+          resolve({
+            status: res.statusCode ?? 0,
+            body: Buffer.concat(chunks).subarray(0, MAX_BODY_BYTES).toString('utf-8'),
+          });
+        });
+      };
+      const options = { method: this.config.method, headers, agent: false } as const;
+      const req =
+        url.protocol === 'https:'
+          ? httpsRequest(url, { ...options, rejectUnauthorized: !this.config.insecure }, onResponse)
+          : httpRequest(url, options, onResponse);
+      const timer = setTimeout(
+        () => req.destroy(new Error(`no response within ${timeoutMs}ms`)),
+        timeoutMs,
+      );
+      req.on('error', (err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+      req.end(body);
+    });
+  }
+}
+
+function statusMatches(status: number, expected: HttpStatus): boolean {
+  const accepted = Array.isArray(expected) ? expected : [expected];
+  return accepted.some((want) => {
+    if (typeof want === 'number') return status === want;
+    if (want.endsWith('xx')) return Math.floor(status / 100) === Number(want[0]);
+    const [from, to] = want.split('-').map(Number) as [number, number];
+    return status >= from && status <= to;
+  });
+}
+
+/** `"200"`, `"2xx"`, `"200, 204 or 3xx"`. */
+function describeExpectedStatus(expected: HttpStatus): string {
+  const accepted = (Array.isArray(expected) ? expected : [expected]).map(String);
+  return accepted.length === 1
+    ? accepted[0]!
+    : `${accepted.slice(0, -1).join(', ')} or ${accepted[accepted.length - 1]}`;
+}
+
+/**
+ * Look up a dotted path (`$.status`, `checks[0].state`, `data.items.2`) in a
+ * parsed JSON value. A leading `$` is optional.
+ */
+function readJsonPath(json: unknown, path: string): { exists: boolean; value?: unknown } {
+  const steps = [
+    ...path.replace(/^\$/, '').matchAll(/\[(\d+)\]|\[["']([^"']*)["']\]|([^.[\]]+)/g),
+  ].map((m) => (m[1] !== undefined ? Number(m[1]) : (m[2] ?? m[3]!)));
+  let value = json;
+  for (const step of steps) {
+    if (value === null || typeof value !== 'object' || !(step in value)) return { exists: false };
+    value = (value as Record<string | number, unknown>)[step];
   }
+  return { exists: true, value };
+}
+
+/** A failed request's message, with the fix for the common local-HTTPS case. */
+function describeRequestError(err: NodeJS.ErrnoException): string {
+  const selfSigned =
+    err.code === 'DEPTH_ZERO_SELF_SIGNED_CERT' ||
+    err.code === 'SELF_SIGNED_CERT_IN_CHAIN' ||
+    err.code === 'UNABLE_TO_VERIFY_LEAF_SIGNATURE';
+  return selfSigned ? `${err.message} (set insecure: true to accept it)` : err.message;
 }
 
 class TcpProbe implements HealthProbe {
@@ -113,30 +277,35 @@ class TcpProbe implements HealthProbe {
   }
 
   check(): Promise<ProbeResult> {
-    return new Promise((resolve) => {
-      const socket = connect({ host: this.config.host, port: this.config.port });
-      const cleanup = () => {
-        socket.removeAllListeners();
-        socket.destroy();
-      };
-      const timer = setTimeout(() => {
-        cleanup();
-        resolve({ ok: false, reason: 'connection timeout' });
-      }, ATTEMPT_TIMEOUT_MS);
-      socket.once('connect', () => {
-        clearTimeout(timer);
-        cleanup();
-        resolve({ ok: true });
-      });
-      socket.once('error', (err) => {
-        clearTimeout(timer);
-        cleanup();
-        resolve({ ok: false, reason: err.message });
-      });
-    });
+    return tryConnect({ host: this.config.host, port: this.config.port });
   }
 }
 
+/** Open a connection and close it straight away; ok when it was accepted. */
+function tryConnect(target: NetConnectOpts): Promise<ProbeResult> {
+  return new Promise((resolve) => {
+    const socket = connect(target);
+    const cleanup = () => {
+      socket.removeAllListeners();
+      socket.destroy();
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      resolve({ ok: false, reason: 'connection timeout' });
+    }, ATTEMPT_TIMEOUT_MS);
+    socket.once('connect', () => {
+      clearTimeout(timer);
+      cleanup();
+      resolve({ ok: true });
+    });
+    socket.once('error', (err) => {
+      clearTimeout(timer);
+      cleanup();
+      resolve({ ok: false, reason: err.message });
+    });
+  });
+}
+
 class LogPatternProbe implements HealthProbe {
   readonly intervalMs = 100;
   readonly timeoutMs: number;
@@ -181,3 +350,416 @@ class CustomProbe implements HealthProbe {
     return { ok: false, reason: `command exited ${result.exitCode}` };
   }
 }
+
+class FileProbe implements HealthProbe {
+  readonly intervalMs: number;
+  readonly timeoutMs: number;
+  private readonly path: string;
+  private readonly regex: RegExp | null;
+
+  constructor(
+    private readonly config: FileReadyCheck,
+    cwd: string,
+  ) {
+    this.intervalMs = config.interval_ms;
+    this.timeoutMs = config.timeout_ms;
+    this.path = resolvePath(cwd, config.path);
+    this.regex = config.pattern ? new RegExp(config.pattern) : null;
+  }
+
+  async check(): Promise<ProbeResult> {
+    let content: string;
+    try {
+      if (!this.regex) {
+        await access(this.path);
+        return { ok: true };
+      }
+      content = await readFile(this.path, 'utf-8');
+    } catch (err) {
+      const missing = (err as NodeJS.ErrnoException).code === 'ENOENT';
+      return {
+        ok: false,
+        reason: missing ? `${this.config.path} does not exist` : (err as Error).message,
+      };
+    }
+    return this.regex.test(content)
+      ? { ok: true }
+      : { ok: false, reason: `${this.config.path} does not match /${this.config.pattern}/` };
+  }
+}
+
+class UnixSocketProbe implements HealthProbe {
+  readonly intervalMs: number;
+  readonly timeoutMs: number;
+  private readonly path: string;
+
+  constructor(config: UnixSocketReadyCheck, cwd: string) {
+    this.intervalMs = config.interval_ms;
+    this.timeoutMs = config.timeout_ms;
+    this.path = resolvePath(cwd, config.path);
+  }
+
+  check(): Promise<ProbeResult> {
+    return tryConnect({ path: this.path });
+  }
+}
+
+/** SQLSTATE `cannot_connect_now`: starting up, shutting down or in recovery. */
+const PG_CANNOT_CONNECT_NOW = '57P03';
+
+class PostgresProbe implements HealthProbe {
+  readonly intervalMs: number;
+  readonly timeoutMs: number;
+
+  constructor(private readonly config: PostgresReadyCheck) {
+    this.intervalMs = config.interval_ms;
+    this.timeoutMs = config.timeout_ms;
+  }
+
+  /**
+   * Send a protocol 3.0 StartupMessage and read the first reply. An
+   * authentication request means the server is accepting connections; so
+   * does any error except 57P03 — a wrong user or database is the server up
+   * and answering, which is all `pg_isready` asks too.
+   */
+  async check(): Promise<ProbeResult> {
+    let reply: Buffer;
+    try {
+      reply = await exchange(
+        { host: this.config.host, port: this.config.port },
+        postgresStartupMessage(this.config.user, this.config.database ?? this.config.user),
+        // An authentication request or an error, whole; anything else is over at byte one.
+        (buf) =>
+          buf.length > 0 &&
+          (!'RE'.includes(String.fromCharCode(buf[0]!)) ||
+            (buf.length >= 5 && buf.length >= 1 + buf.readInt32BE(1))),
+      );
+    } catch (err) {
+      return { ok: false, reason: (err as Error).message };
+    }
+    const type = String.fromCharCode(reply[0] ?? 0);
+    if (type === 'R') return { ok: true };
+    if (type !== 'E' || reply.length < 5) {
+      return { ok: false, reason: 'not a postgres server (unexpected reply to startup)' };
+    }
+    const fields = postgresErrorFields(reply.subarray(5, 1 + reply.readInt32BE(1)));
+    if (fields.get('C') !== PG_CANNOT_CONNECT_NOW) return { ok: true };
+    return { ok: false, reason: `postgres: ${fields.get('M') ?? 'not accepting connections'}` };
+  }
+}
+
+function postgresStartupMessage(user: string, database: string): Buffer {
+  const params = Buffer.from(`user\0${user}\0database\0${database}\0\0`, 'utf-8');
+  const header = Buffer.alloc(8);
+  header.writeInt32BE(8 + params.length, 0);
+  header.writeInt32BE(196_608, 4); // protocol 3.0
+  return Buffer.concat([header, params]);
+}
+
+/** An ErrorResponse body: `<code byte><cstring>` pairs, ended by a 0 byte. */
+function postgresErrorFields(body: Buffer): Map<string, string> {
+  const fields = new Map<string, string>();
+  let at = 0;
+  while (at < body.length && body[at] !== 0) {
+    const end = body.indexOf(0, at + 1);
+    if (end === -1) break;
+    fields.set(String.fromCharCode(body[at]!), body.toString('utf-8', at + 1, end));
+    at = end + 1;
+  }
+  return fields;
+}
+
+class RedisProbe implements HealthProbe {
+  readonly intervalMs: number;
+  readonly timeoutMs: number;
+
+  constructor(private readonly config: RedisReadyCheck) {
+    this.intervalMs = config.interval_ms;
+    this.timeoutMs = config.timeout_ms;
+  }
+
+  async check(): Promise<ProbeResult> {
+    const commands = [
+      ...(this.config.password !== undefined ? [['AUTH', this.config.password]] : []),
+      ['PING'],
+    ];
+    let reply: string;
+    try {
+      const raw = await exchange(
+        { host: this.config.host, port: this.config.port },
+        Buffer.from(commands.map(respCommand).join(''), 'utf-8'),
+        // Every reply here is one line: +OK, +PONG or -ERR ….
+        (buf) => buf.toString('utf-8').split('\r\n').length > commands.length,
+      );
+      reply = raw.toString('utf-8');
+    } catch (err) {
+      return { ok: false, reason: (err as Error).message };
+    }
+    const lines = reply.split('\r\n').slice(0, commands.length);
+    const error = lines.find((line) => line.startsWith('-'));
+    if (error) return { ok: false, reason: `redis: ${error.slice(1)}` };
+    return lines[lines.length - 1] === '+PONG'
+      ? { ok: true }
+      : { ok: false, reason: `redis: expected PONG, got ${JSON.stringify(lines.at(-1) ?? '')}` };
+  }
+}
+
+/** A command as a RESP array of bulk strings. */
+function respCommand(args: string[]): string {
+  return `*${args.length}\r\n${args.map((a) => `$${Buffer.byteLength(a)}\r\n${a}\r\n`).join('')}`;
+}
+
+/**
+ * Connect, write `request` and collect the reply until `complete` says it's
+ * whole. Rejects on connection errors, an early close and after
+ * `ATTEMPT_TIMEOUT_MS`.
+ */
+function exchange(
+  target: NetConnectOpts,
+  request: Buffer,
+  complete: (reply: Buffer) => boolean,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const socket = connect(target);
+    let reply = Buffer.alloc(0);
+    const finish = (err: Error | null) => {
+      clearTimeout(timer);
+      socket.removeAllListeners();
+      socket.destroy();
+      if (err) reject(err);
+      else resolve(reply);
+    };
+    const timer = setTimeout(() => finish(new Error('no reply')), ATTEMPT_TIMEOUT_MS);
+    socket.once('connect', () => socket.write(request));
+    socket.on('data', (chunk: Buffer) => {
+      reply = Buffer.concat([reply, chunk]);
+      if (complete(reply)) finish(null);
+    });
+    socket.once('error', (err) => finish(err));
+    socket.once('close', () => finish(new Error('connection closed before a full reply')));
+  });
+}
+
+/** `grpc.health.v1.HealthCheckResponse.ServingStatus`, by value. */
+const GRPC_SERVING_STATUS = ['UNKNOWN', 'SERVING', 'NOT_SERVING', 'SERVICE_UNKNOWN'];
+
+class GrpcHealthProbe implements HealthProbe {
+  readonly intervalMs: number;
+  readonly timeoutMs: number;
+
+  constructor(private readonly config: GrpcHealthReadyCheck) {
+    this.intervalMs = config.interval_ms;
+    this.timeoutMs = config.timeout_ms;
+  }
+
+  async check(): Promise<ProbeResult> {
+    let response: { grpcStatus: string | undefined; grpcMessage: string | undefined; body: Buffer };
+    try {
+      response = await this.call();
+    } catch (err) {
+      return { ok: false, reason: (err as Error).message };
+    }
+    if (response.grpcStatus !== '0') {
+      const message = response.grpcMessage ? `: ${decodeURIComponent(response.grpcMessage)}` : '';
+      return { ok: false, reason: `grpc-status ${response.grpcStatus ?? 'missing'}${message}` };
+    }
+    const status = readProtoVarintField(response.body.subarray(5), 1) ?? 0;
+    const name = GRPC_SERVING_STATUS[status] ?? String(status);
+    const subject = this.config.service
+      ? `service ${JSON.stringify(this.config.service)}`
+      : 'server';
+    return name === 'SERVING' ? { ok: true } : { ok: false, reason: `${subject} is ${name}` };
+  }
+
+  /** One unary `Health/Check` over a fresh plaintext HTTP/2 session. */
+  private call(): Promise<{
+    grpcStatus: string | undefined;
+    grpcMessage: string | undefined;
+    body: Buffer;
+  }> {
+    return new Promise((resolve, reject) => {
+      const session = http2Connect(`http://${this.config.host}:${this.config.port}`);
+      const timer = setTimeout(() => session.destroy(new Error('no reply')), ATTEMPT_TIMEOUT_MS);
+      const fail = (err: Error) => {
+        clearTimeout(timer);
+        session.destroy();
+        reject(err);
+      };
+      session.once('error', fail);
+      const req = session.request({
+        ':method': 'POST',
+        ':path': '/grpc.health.v1.Health/Check',
+        'content-type': 'application/grpc',
+        te: 'trailers',
+      });
+      const chunks: Buffer[] = [];
+      // A trailers-only response puts grpc-status in the headers.
+      let status: { grpcStatus?: string; grpcMessage?: string } = {};
+      const record = (headers: Record<string, unknown>) => {
+        if (headers['grpc-status'] !== undefined) {
+          status = {
+            grpcStatus: String(headers['grpc-status']),
+            grpcMessage:
+              headers['grpc-message'] !== undefined ? String(headers['grpc-message']) : undefined,
+          };
+        }
+      };
+      req.on('response', record);
+      req.on('trailers', record);
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.once('error', fail);
+      req.once('end', () => {
+        clearTimeout(timer);
+        session.close();
+        resolve({
+          grpcStatus: status.grpcStatus,
+          grpcMessage: status.grpcMessage,
+          body: Buffer.concat(chunks),
+        });
+      });
+      req.end(grpcFrame(this.config.service));
+    });
+  }
+}
+
+/** A length-prefixed `HealthCheckRequest { string service = 1; }`. */
+function grpcFrame(service: string): Buffer {
+  const name = Buffer.from(service, 'utf-8');
+  const message =
+    name.length > 0
+      ? Buffer.concat([Buffer.from([0x0a]), varint(name.length), name])
+      : Buffer.alloc(0);
+  const prefix = Buffer.alloc(5);
+  prefix.writeUInt32BE(message.length, 1);
+  return Buffer.concat([prefix, message]);
+}
+
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  let rest = value;
+  while (rest >= 0x80) {
+    bytes.push((rest & 0x7f) | 0x80);
+    rest >>>= 7;
+  }
+  bytes.push(rest);
+  return Buffer.from(bytes);
+}
+
+/** The value of varint field `field` in a protobuf message, skipping the others. */
+function readProtoVarintField(message: Buffer, field: number): number | undefined {
+  let at = 0;
+  const readVarint = () => {
+    let value = 0;
+    let shift = 0;
+    while (at < message.length) {
+      const byte = message[at++]!;
+      value += (byte & 0x7f) * 2 ** shift;
+      if (byte < 0x80) return value;
+      shift += 7;
+    }
+    return value;
+  };
+  while (at < message.length) {
+    const tag = readVarint();
+    const wireType = tag & 0x7;
+    if (wireType === 0) {
+      const value = readVarint();
+      if (tag >>> 3 === field) return value;
+    } else if (wireType === 2) {
+      at += readVarint();
+    } else if (wireType === 1) {
+      at += 8;
+    } else if (wireType === 5) {
+      at += 4;
+    } else {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * `all` / `any` / `sequence` over other probes. Every log line goes to every
+ * part (a log-pattern part later in a sequence must not miss a line printed
+ * while an earlier part was still pending); a part that has passed is not
+ * checked again. The failure reason names the parts still pending.
+ */
+class CompositeProbe implements HealthProbe {
+  readonly intervalMs: number;
+  readonly timeoutMs: number;
+  private readonly parts: { label: string; probe: HealthProbe; passed: boolean }[];
+
+  constructor(
+    private readonly config: CompositeReadyCheck,
+    options: ProbeOptions,
+  ) {
+    this.timeoutMs = config.timeout_ms;
+    this.parts = config.checks.map((check) => ({
+      label: describeCheck(check),
+      probe: createProbe({ ...check, timeout_ms: config.timeout_ms }, options),
+      passed: false,
+    }));
+    this.intervalMs = Math.min(...this.parts.map((p) => p.probe.intervalMs));
+  }
+
+  async check(): Promise<ProbeResult> {
+    if (this.config.type === 'sequence') return this.checkSequence();
+    const pending = this.parts.filter((p) => !p.passed);
+    const results = await Promise.all(pending.map((p) => p.probe.check()));
+    const failures: string[] = [];
+    pending.forEach((part, i) => {
+      const result = results[i]!;
+      if (result.ok) part.passed = true;
+      else failures.push(`${part.label}: ${result.reason ?? 'not ready'}`);
+    });
+    if (this.config.type === 'any') {
+      return this.parts.some((p) => p.passed)
+        ? { ok: true }
+        : { ok: false, reason: `none ready — ${failures.join('; ')}` };
+    }
+    return failures.length === 0
+      ? { ok: true }
+      : { ok: false, reason: `waiting on ${failures.join('; ')}` };
+  }
+
+  private async checkSequence(): Promise<ProbeResult> {
+    for (const [i, part] of this.parts.entries()) {
+      if (part.passed) continue;
+      const result = await part.probe.check();
+      if (!result.ok) {
+        return {
+          ok: false,
+          reason: `waiting on step ${i + 1} of ${this.parts.length}, ${part.label}: ${result.reason ?? 'not ready'}`,
+        };
+      }
+      part.passed = true;
+    }
+    return { ok: true };
+  }
+
+  feedLine(line: string): void {
+    for (const part of this.parts) part.probe.feedLine?.(line);
+  }
+}
+
+/** `"http http://localhost:3000/health"`, `"tcp localhost:5432"` — a part's name in reasons. */
+function describeCheck(check: ComposableReadyCheck): string {
+  switch (check.type) {
+    case 'http':
+      return `http ${check.url}`;
+    case 'tcp':
+      return `tcp ${check.host}:${check.port}`;
+    case 'log-pattern':
+      return 'log-pattern';
+    case 'custom':
+      return `custom \`${check.command}\``;
+    case 'file':
+      return `file ${check.path}`;
+    case 'unix-socket':
+      return `unix-socket ${check.path}`;
+    case 'postgres':
+    case 'redis':
+    case 'grpc-health':
+      return `${check.type} ${check.host}:${check.port}`;
+  }
+}
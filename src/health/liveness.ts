@@ -0,0 +1,57 @@
+import type { LivenessCheck } from '../config/schema.js';
+import { createProbe, type HealthProbe, type ProbeOptions } from './checks.js';
+import { sleep } from './wait.js';
+
+export interface LivenessHandlers {
+  /** `failure_threshold` checks in a row failed; `reason` is the last failure's. */
+  onUnhealthy(reason: string): void;
+  /** A check passed again after `onUnhealthy`. */
+  onRecovered(): void;
+}
+
+/** The probe for a `liveness:` check — the same probes readiness uses. */
+export function createLivenessProbe(
+  config: LivenessCheck,
+  options: ProbeOptions = {},
+): HealthProbe {
+  // `timeout_ms` is readiness's overall deadline; a liveness probe never has one.
+  return createProbe({ ...config, timeout_ms: config.interval_ms }, options);
+}
+
+/**
+ * Run `probe` every `interval_ms` (after `initial_delay_ms`) until `signal`
+ * aborts. Reports the switch to unhealthy once, when `failure_threshold`
+ * consecutive checks have failed, and the switch back on the next passing
+ * check; checks keep running in between.
+ */
+export async function monitorLiveness(
+  probe: HealthProbe,
+  config: Pick<LivenessCheck, 'interval_ms' | 'failure_threshold' | 'initial_delay_ms'>,
+  handlers: LivenessHandlers,
+  signal: AbortSignal,
+): Promise<void> {
+  let failures = 0;
+  let unhealthy = false;
+  try {
+    await sleep(config.initial_delay_ms, signal);
+    while (!signal.aborted) {
+      const result = await probe.check();
+      if (signal.aborted) return;
+      if (result.ok) {
+        failures = 0;
+        if (unhealthy) {
+          unhealthy = false;
+          handlers.onRecovered();
+        }
+      } else if (++failures >= config.failure_threshold && !unhealthy) {
+        unhealthy = true;
+        handlers.onUnhealthy(
+          `liveness check failed ${failures} times in a row${result.reason ? ` (last: ${result.reason})` : ''}`,
+        );
+      }
+      await sleep(config.interval_ms, signal);
+    }
+  } catch {
+    // aborted mid-sleep: the process is stopping or gone
+  }
+}
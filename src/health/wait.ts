@@ -14,7 +14,8 @@ export class HealthTimeoutError extends Error {
 
 export interface WaitOptions {
   signal?: AbortSignal;
-  onAttempt?: (attempt: number, result: ProbeResult) => void;
+  /** After each check; `latencyMs` is how long the probe took to answer. */
+  onAttempt?: (attempt: number, result: ProbeResult, latencyMs: number) => void;
 }
 
 export async function waitForReady(probe: HealthProbe, options: WaitOptions = {}): Promise<void> {
@@ -27,8 +28,9 @@ export async function waitForReady(probe: HealthProbe, options: WaitOptions = {}
       throw new Error('health check aborted');
     }
     attempt++;
+    const checkedAt = Date.now();
     const result = await probe.check();
-    options.onAttempt?.(attempt, result);
+    options.onAttempt?.(attempt, result, Date.now() - checkedAt);
     if (result.ok) return;
     lastReason = result.reason;
     await sleep(probe.intervalMs, options.signal);
@@ -36,7 +38,7 @@ export async function waitForReady(probe: HealthProbe, options: WaitOptions = {}
   throw new HealthTimeoutError(probe.timeoutMs, lastReason);
 }
 
-function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
   return new Promise((resolve, reject) => {
     if (signal?.aborted) {
       reject(new Error('aborted'));
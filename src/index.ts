@@ -1,5 +1,19 @@
 export { Orckit, BootFailedError } from './orchestrator/orchestrator.js';
-export type { OrckitEvents, BootSummary, RestartOptions } from './orchestrator/orchestrator.js';
+export type {
+  OrckitEvents,
+  BootSummary,
+  RestartOptions,
+  ProcessOverride,
+} from './orchestrator/orchestrator.js';
+export { watchConfig, diffProcesses } from './orchestrator/reload.js';
+export type { ConfigChange, ConfigWatchOptions } from './orchestrator/reload.js';
+export {
+  BootTimeline,
+  type BootStep,
+  type BootTimelineSnapshot,
+  type ProbeAttempt,
+} from './orchestrator/timeline.js';
+export { restartDelay, CrashLoopDetector, type CrashLoop } from './orchestrator/restart.js';
 
 export {
   type ProcessState,
@@ -10,7 +24,15 @@ export {
   isReadyOrDone,
 } from './orchestrator/lifecycle.js';
 
-export { loadConfig, parseConfigText, validateConfig, ConfigError } from './config/load.js';
+export {
+  loadConfig,
+  parseConfigText,
+  validateConfig,
+  allocateConfigPorts,
+  hasUnallocatedPorts,
+  ConfigError,
+} from './config/load.js';
+export type { LoadOptions } from './config/load.js';
 
 export type {
   OrckitConfig,
@@ -22,6 +44,12 @@ export type {
   LogPatternReadyCheck,
   ExitCodeReadyCheck,
   CustomReadyCheck,
+  FileReadyCheck,
+  UnixSocketReadyCheck,
+  PostgresReadyCheck,
+  RedisReadyCheck,
+  GrpcHealthReadyCheck,
+  CompositeReadyCheck,
   HookConfig,
   OutputFilter,
   RestartPolicy,
@@ -31,6 +59,13 @@ export type {
   WebConfig,
   IdeConfig,
   IdeTool,
+  MetricsConfig,
+  LimitsConfig,
+  BuildParserConfig,
+  LimitAction,
+  LivenessCheck,
+  NotificationChannel,
+  NotificationEvent,
 } from './config/schema.js';
 
 export {
@@ -39,14 +74,22 @@ export {
   groupIntoWaves,
   transitiveDependencies,
   filterToTargets,
+  expandSelectors,
+  categoriesOf,
   visualize,
   DependencyError,
 } from './graph/resolver.js';
 
-export type { DependencyGraph } from './graph/resolver.js';
+export type { DependencyGraph, CategoryMap } from './graph/resolver.js';
 
-export { createProbe, type HealthProbe, type ProbeResult } from './health/checks.js';
+export {
+  createProbe,
+  type HealthProbe,
+  type ProbeOptions,
+  type ProbeResult,
+} from './health/checks.js';
 export { waitForReady, HealthTimeoutError } from './health/wait.js';
+export { createLivenessProbe, monitorLiveness, type LivenessHandlers } from './health/liveness.js';
 
 export { Runner, type Stream, type RunnerEvents } from './process/runner.js';
 export {
@@ -54,10 +97,49 @@ export {
   type LineParser,
   parseWebpackLine,
   parseAngularLine,
+  createViteParser,
+  createNextParser,
+  createEsbuildParser,
+  createTscParser,
+  createVitestParser,
+  createJestParser,
+  createRollupParser,
+  createBuildParser,
   getParser,
+  parserFor,
   stripAnsi,
 } from './process/parsers.js';
+export {
+  BuildHistory,
+  buildStats,
+  loadBuildHistory,
+  saveBuildHistory,
+  type BuildRun,
+  type BuildStats,
+} from './process/build-history.js';
+export {
+  DiagnosticParser,
+  type Diagnostic,
+  type DiagnosticSeverity,
+} from './process/diagnostics.js';
 export { OutputBuffer, type OutputLine } from './process/output.js';
+export {
+  MetricsHistory,
+  MetricsSampler,
+  readGroupUsage,
+  formatBytes,
+  type MetricsSample,
+  type GroupUsage,
+} from './process/metrics.js';
+export { LimitTracker, type LimitExceeded, type LimitKind } from './process/limits.js';
+export {
+  searchLogs,
+  parseTimeBound,
+  type LogSearchQuery,
+  type LogSearchOptions,
+  type LogSearchResult,
+  type LogSearchMatch,
+} from './process/search.js';
 
 export { runHook, HookError, type HookKind, type HookContext } from './orchestrator/hooks.js';
 export { runPreflight, PreflightError, type PreflightResult } from './orchestrator/preflight.js';
@@ -81,7 +163,25 @@ export {
   type DashboardOptions,
   type DashboardHandle,
 } from './reporter/dashboard.js';
+export {
+  attachNotifier,
+  renderCommand,
+  type Notification,
+  type NotifierOptions,
+  type NotifierHandle,
+} from './reporter/notifier.js';
 
 export { attachMcpServer, type McpServerOptions, type McpServerHandle } from './mcp/server.js';
 export { attachWebUi, type WebUiServerOptions, type WebUiServerHandle } from './web/server.js';
 export { detectIde, type IdeLink, type DetectIdeOptions } from './web/ide.js';
+
+export {
+  attachControlServer,
+  type ControlServerOptions,
+  type ControlServerHandle,
+  type ControlRequest,
+  type ControlFrame,
+  type StatusResult,
+} from './daemon/control.js';
+export { sendControlRequest, DaemonNotRunningError } from './daemon/client.js';
+export { daemonPaths, runningDaemonPid, type DaemonPaths } from './daemon/paths.js';
@@ -6,6 +6,7 @@ import {
 } from 'node:http';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { resolve } from 'node:path';
 import type { Orckit } from '../orchestrator/orchestrator.js';
 import { registerTools } from './tools.js';
 
@@ -16,6 +17,12 @@ export interface McpServerOptions {
   host?: string;
   /** Path component of the MCP endpoint. Defaults to "/mcp". */
   path?: string;
+  /**
+   * Register the mutating tools (`restart_process`, `start_process`,
+   * `stop_process`). Defaults to true here; `orc start` passes
+   * `mcp.allow_control`, which defaults to false.
+   */
+  allowControl?: boolean;
 }
 
 export interface McpServerHandle {
@@ -29,9 +36,11 @@ export interface McpServerHandle {
 
 /**
  * Attach an in-process MCP server to an Orckit instance. The server exposes
- * three read-only tools (`get_status`, `get_errors`, `get_logs`) over
- * Streamable HTTP and is intended to be hit by Claude Code or any other MCP
- * client.
+ * read-only tools (`get_status`, `get_errors`, `get_logs`, `search_logs`,
+ * `wait_for`) and, unless
+ * `allowControl` is false, control tools (`restart_process`, `start_process`,
+ * `stop_process`) over Streamable HTTP. It is intended to be hit by Claude
+ * Code or any other MCP client.
  *
  * Returns a handle whose `dispose()` cleanly closes the HTTP listener and
  * tears down the MCP transport. Throws on `EADDRINUSE` so the caller can
@@ -49,7 +58,18 @@ export async function attachMcpServer(
   const onFailed = (name: string, err?: Error) => {
     lastErrors.set(name, err?.message ?? 'process failed');
   };
+  const onUnhealthy = (name: string, reason: string) => {
+    lastErrors.set(name, reason);
+  };
   orckit.on('process:failed', onFailed);
+  orckit.on('process:unhealthy', onUnhealthy);
+
+  // Log files are only consulted for sessions older than this server — newer
+  // ones are still in the buffers. Resolved like `attachLogReporter` does.
+  const search = {
+    logDir: orckit.config.logs.enabled ? resolve(orckit.config.logs.dir) : null,
+    historyBefore: Date.now(),
+  };
 
   // Streamable HTTP in stateless mode requires a fresh transport per request —
   // see the SDK's simpleStatelessStreamableHttp example. The McpServer setup
@@ -59,7 +79,10 @@ export async function attachMcpServer(
       { name: 'orckit', version: '0.2.0' },
       { capabilities: { tools: {} } },
     );
-    registerTools(mcp, orckit, lastErrors);
+    registerTools(mcp, orckit, lastErrors, {
+      allowControl: opts.allowControl ?? true,
+      search,
+    });
     const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
     res.on('close', () => {
       transport.close().catch(() => {});
@@ -102,6 +125,7 @@ export async function attachMcpServer(
     port,
     async dispose() {
       orckit.off('process:failed', onFailed);
+      orckit.off('process:unhealthy', onUnhealthy);
       await new Promise<void>((resolve, reject) => {
         http.close((err) => (err ? reject(err) : resolve()));
         // http.close() only stops accepting new sockets; it waits for existing
@@ -1,10 +1,34 @@
+import { resolve } from 'node:path';
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import type { Orckit } from '../orchestrator/orchestrator.js';
+import type { Orckit, RestartOptions } from '../orchestrator/orchestrator.js';
 import type { ProcessState } from '../orchestrator/lifecycle.js';
 import type { OrckitConfig } from '../config/schema.js';
 import type { OutputLine } from '../process/output.js';
+import { formatBytes, type MetricsSample } from '../process/metrics.js';
+import { formatDuration as formatElapsed } from '../config/duration.js';
+import type { BootStep, BootTimelineSnapshot } from '../orchestrator/timeline.js';
+import type { LimitExceeded } from '../process/limits.js';
+import type { Diagnostic, DiagnosticSeverity } from '../process/diagnostics.js';
+import { buildStats, type BuildRun, type BuildStats } from '../process/build-history.js';
+import {
+  searchLogs,
+  parseTimeBound,
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_CONTEXT,
+  MAX_SEARCH_LIMIT,
+  type LogSearchOptions,
+  type LogSearchResult,
+  type SearchLine,
+} from '../process/search.js';
+import {
+  waitFor,
+  formatWaitForText,
+  DEFAULT_WAIT_TIMEOUT_MS,
+  MAX_WAIT_TIMEOUT_MS,
+  type WaitCondition,
+} from './wait-for.js';
 
 /**
  * Minimum surface the tool helpers need from an Orckit. The full `Orckit`
@@ -17,9 +41,40 @@ export interface OrckitView {
     pid: number | null;
     startedAt: number | null;
     retries: number;
+    limitExceeded: LimitExceeded | null;
+    nextRestartAt: number | null;
   };
   states(): Map<string, ProcessState>;
   output(name: string, n?: number): OutputLine[];
+  metrics(name: string, n?: number): MetricsSample[];
+  timeline(name: string): BootTimelineSnapshot | null;
+  diagnostics(name: string): Diagnostic[];
+  buildHistory(name: string, n?: number): BuildRun[];
+}
+
+/**
+ * The mutating half of `Orckit` the control tools drive. Kept separate from
+ * `OrckitView` so the read-only helpers stay trivially stubbable.
+ */
+export interface OrckitControl extends OrckitView {
+  resolveTargets(selectors: string[]): string[];
+  restart(targets: string[], options?: RestartOptions): Promise<void>;
+  startTargets(targets: string[]): Promise<void>;
+  stop(targets?: string[]): Promise<void>;
+}
+
+export type ControlAction = 'restart' | 'start' | 'stop';
+
+export interface ControlResult {
+  action: ControlAction;
+  /** The selector as given: a name, `@category` or glob. */
+  name: string;
+  /** The processes `name` picked, in config order. */
+  targets: string[];
+  /** Only meaningful for `restart`; mirrors `RestartOptions.cascade`. */
+  cascade?: boolean;
+  /** Status of every process once the action settled. */
+  processes: StatusEntry[];
 }
 
 export interface StatusEntry {
@@ -29,6 +84,8 @@ export interface StatusEntry {
   startedAt: number | null;
   uptimeMs: number | null;
   retries: number;
+  /** Until the queued automatic restart spawns; null when none is queued. */
+  restartInMs: number | null;
   manualRetry: boolean;
 }
 
@@ -36,6 +93,8 @@ export interface ErrorEntry {
   name: string;
   state: ProcessState;
   lastError: string | null;
+  /** Set when the entry is (also) a `limits:` breach; the process may still be up. */
+  limitExceeded: LimitExceeded | null;
   recentStderr: { timestamp: number; text: string }[];
 }
 
@@ -45,11 +104,46 @@ export interface LogsResult {
   lines: { timestamp: number; stream: 'stdout' | 'stderr'; text: string }[];
 }
 
+export interface MetricsEntry {
+  name: string;
+  state: ProcessState;
+  /** The most recent sample, or null when none was taken (not running, or metrics off). */
+  latest: MetricsSample | null;
+  /** Average and peak over the returned history. */
+  cpu: { avg: number; max: number } | null;
+  rss: { avg: number; max: number } | null;
+  history: MetricsSample[];
+}
+
+export interface TimelineResult {
+  name: string;
+  state: ProcessState;
+  /** Null until the process has been started. */
+  boot: BootTimelineSnapshot | null;
+}
+
+export interface DiagnosticsEntry {
+  name: string;
+  state: ProcessState;
+  /** Process cwd the diagnostics' relative `file`s are relative to. */
+  cwd: string;
+  diagnostics: Diagnostic[];
+}
+
+export interface BuildHistoryEntry {
+  name: string;
+  state: ProcessState;
+  /** Over the returned runs. */
+  stats: BuildStats;
+  runs: BuildRun[];
+}
+
 const STATE_ICON: Record<ProcessState, string> = {
   pending: '·',
   starting: '◐',
   ready: '○',
   running: '✓',
+  unhealthy: '!',
   finished: '✓',
   stopping: '◑',
   stopped: '·',
@@ -68,16 +162,24 @@ export function buildStatus(orckit: OrckitView): StatusEntry[] {
       startedAt: info.startedAt,
       uptimeMs: info.startedAt != null ? now - info.startedAt : null,
       retries: info.retries,
+      restartInMs: info.nextRestartAt != null ? Math.max(0, info.nextRestartAt - now) : null,
       manualRetry: processConfig.manual_retry,
     });
   }
   return entries;
 }
 
+/**
+ * Failed and unhealthy processes, plus any whose last `limits:` breach still
+ * stands — a breach leaves the process running (`warn`, `restart`) or
+ * `stopped`, not `failed`, but it's just as much what went wrong.
+ */
 export function buildErrors(orckit: OrckitView, lastErrors: Map<string, string>): ErrorEntry[] {
   const entries: ErrorEntry[] = [];
   for (const [name, state] of orckit.states()) {
-    if (state !== 'failed') continue;
+    const { limitExceeded } = orckit.inspect(name);
+    const broken = state === 'failed' || state === 'unhealthy';
+    if (!broken && !limitExceeded) continue;
     const stderr = orckit
       .output(name)
       .filter((l) => l.stream === 'stderr')
@@ -86,7 +188,8 @@ export function buildErrors(orckit: OrckitView, lastErrors: Map<string, string>)
     entries.push({
       name,
       state,
-      lastError: lastErrors.get(name) ?? null,
+      lastError: (broken ? lastErrors.get(name) : undefined) ?? limitExceeded?.message ?? null,
+      limitExceeded,
       recentStderr: stderr,
     });
   }
@@ -115,7 +218,132 @@ export function buildLogs(
   };
 }
 
-export function formatStatusText(entries: StatusEntry[]): string {
+/**
+ * CPU / memory per process (or just `name`), with the last `samples` readings
+ * and their average and peak. Throws for an unknown process name.
+ */
+export function buildMetrics(
+  orckit: OrckitView,
+  args: { name?: string; samples?: number },
+): MetricsEntry[] {
+  const samples = clamp(args.samples ?? 30, 1, 10_000);
+  const names = args.name != null ? [args.name] : Object.keys(orckit.config.processes);
+  return names.map((name) => {
+    const { state } = orckit.inspect(name);
+    const history = orckit.metrics(name, samples);
+    const stats = (pick: (s: MetricsSample) => number) =>
+      history.length === 0
+        ? null
+        : {
+            avg:
+              Math.round((history.reduce((sum, s) => sum + pick(s), 0) / history.length) * 10) / 10,
+            max: Math.max(...history.map(pick)),
+          };
+    return {
+      name,
+      state,
+      latest: history.at(-1) ?? null,
+      cpu: stats((s) => s.cpu),
+      rss: stats((s) => s.rss),
+      history,
+    };
+  });
+}
+
+/**
+ * The last `runs` finished builds per process that has any (or just `name`),
+ * with p50 / p95 duration and failures over them. Throws for an unknown
+ * process name.
+ */
+export function buildBuildHistory(
+  orckit: OrckitView,
+  args: { name?: string; runs?: number },
+): BuildHistoryEntry[] {
+  const count = clamp(args.runs ?? 50, 1, 10_000);
+  const names = args.name != null ? [args.name] : Object.keys(orckit.config.processes);
+  const entries: BuildHistoryEntry[] = [];
+  for (const name of names) {
+    const { state } = orckit.inspect(name);
+    const runs = orckit.buildHistory(name, count);
+    if (runs.length === 0 && args.name == null) continue;
+    entries.push({ name, state, stats: buildStats(runs), runs });
+  }
+  return entries;
+}
+
+/** The latest boot of one process, step by step. Throws for an unknown process name. */
+export function buildTimeline(orckit: OrckitView, args: { name: string }): TimelineResult {
+  const { state } = orckit.inspect(args.name);
+  return { name: args.name, state, boot: orckit.timeline(args.name) };
+}
+
+/**
+ * Run a control action and report where every process landed. Resolves once
+ * the underlying `Orckit` call settles — for `restart`/`start` that means the
+ * target is ready (or failed), so the returned status is the outcome, not a
+ * "request accepted". `args.name` is a selector (see `Orckit.resolveTargets`);
+ * throws when it matches no process.
+ */
+export async function runControl(
+  orckit: OrckitControl,
+  action: ControlAction,
+  args: { name: string; cascade?: boolean },
+): Promise<ControlResult> {
+  // Resolve up-front so a selector that matches nothing fails before any
+  // process is touched.
+  const targets = orckit.resolveTargets([args.name]);
+  switch (action) {
+    case 'restart':
+      await orckit.restart(targets, { cascade: args.cascade });
+      return {
+        action,
+        name: args.name,
+        targets,
+        cascade: args.cascade !== false,
+        processes: buildStatus(orckit),
+      };
+    case 'start':
+      await orckit.startTargets(targets);
+      break;
+    case 'stop':
+      await orckit.stop(targets);
+      break;
+  }
+  return { action, name: args.name, targets, processes: buildStatus(orckit) };
+}
+
+/**
+ * The latest build's diagnostics per process — only processes that have some,
+ * unless `name` picks one. `severity` keeps just errors or just warnings.
+ * Throws for an unknown process name.
+ */
+export function buildDiagnostics(
+  orckit: OrckitView,
+  args: { name?: string; severity?: DiagnosticSeverity },
+): DiagnosticsEntry[] {
+  const names = args.name != null ? [args.name] : Object.keys(orckit.config.processes);
+  const entries: DiagnosticsEntry[] = [];
+  for (const name of names) {
+    const { state } = orckit.inspect(name);
+    const diagnostics = orckit
+      .diagnostics(name)
+      .filter((d) => args.severity == null || d.severity === args.severity);
+    if (diagnostics.length === 0 && args.name == null) continue;
+    const cwd = resolve(orckit.config.processes[name]!.cwd ?? '.');
+    entries.push({ name, state, cwd, diagnostics });
+  }
+  return entries;
+}
+
+/**
+ * One line per process, then the counts. With `ports` — the config's resolved
+ * top-level `ports:` — a closing line lists them; which process binds which
+ * isn't known, so they're not attributed.
+ */
+export function formatStatusText(
+  entries: StatusEntry[],
+  ports: Record<string, number> = {},
+): string {
   if (entries.length === 0) return 'no processes configured';
   const nameW = Math.max(...entries.map((e) => e.name.length));
   const stateW = Math.max(...entries.map((e) => e.state.length));
@@ -126,7 +354,9 @@ export function formatStatusText(entries: StatusEntry[]): string {
     const pidPart = e.pid != null ? `pid ${e.pid}` : '';
     const upPart = e.uptimeMs != null ? `up ${formatDuration(e.uptimeMs)}` : '';
     const retryPart = e.retries > 0 ? `retries ${e.retries}` : '';
-    const tail = [pidPart, upPart, retryPart].filter(Boolean).join('  ');
+    const restartPart =
+      e.restartInMs != null ? `restarting in ${formatDuration(e.restartInMs)}` : '';
+    const tail = [pidPart, upPart, retryPart, restartPart].filter(Boolean).join('  ');
     lines.push(
       `  ${STATE_ICON[e.state]} ${e.name.padEnd(nameW)}  ${e.state.padEnd(stateW)}  ${tail}`,
     );
@@ -134,20 +364,186 @@ export function formatStatusText(entries: StatusEntry[]): string {
   const summary = Object.entries(counts)
     .map(([s, n]) => `${n} ${s}`)
     .join(', ');
+  const portList = Object.entries(ports).map(([key, port]) => `${key} ${port}`);
+  if (portList.length > 0) lines.push(`ports: ${portList.join(', ')}`);
   return `${entries.length} processes (${summary}):\n${lines.join('\n')}`;
 }
 
+export function formatMetricsText(entries: MetricsEntry[]): string {
+  if (entries.length === 0) return 'no processes configured';
+  const nameW = Math.max(...entries.map((e) => e.name.length));
+  const lines = entries.map((e) => {
+    const head = `  ${STATE_ICON[e.state]} ${e.name.padEnd(nameW)}`;
+    if (!e.latest || !e.cpu || !e.rss) return `${head}  (no samples)`;
+    const procs = e.latest.processes === 1 ? '1 proc' : `${e.latest.processes} procs`;
+    return (
+      `${head}  cpu ${e.latest.cpu}%  rss ${formatBytes(e.latest.rss)}  (${procs})` +
+      `  — over ${e.history.length} samples: cpu avg ${e.cpu.avg}% max ${e.cpu.max}%,` +
+      ` rss max ${formatBytes(e.rss.max)}`
+    );
+  });
+  return `Resource usage (CPU % of one core, resident memory of the process group):\n${lines.join('\n')}`;
+}
+
+/**
+ * A summary line per process, then one line per run, newest first, so the
+ * trend reads top-down from "now".
+ */
+export function formatBuildHistoryText(entries: BuildHistoryEntry[]): string {
+  if (entries.length === 0) return 'no builds recorded yet';
+  const sections = entries.map((entry) => {
+    const { stats } = entry;
+    const summary = [
+      `${stats.runs} ${stats.runs === 1 ? 'build' : 'builds'}, ${stats.failures} failed`,
+      stats.p50Ms != null ? `p50 ${formatElapsed(stats.p50Ms)}` : '',
+      stats.p95Ms != null ? `p95 ${formatElapsed(stats.p95Ms)}` : '',
+    ].filter(Boolean);
+    const lines = [`${STATE_ICON[entry.state]} ${entry.name} — ${summary.join(' · ')}`];
+    for (const run of [...entry.runs].reverse()) {
+      const took = run.durationMs != null ? formatElapsed(run.durationMs) : '?';
+      const counts = [
+        run.errors > 0 ? `${run.errors} ${run.errors === 1 ? 'error' : 'errors'}` : '',
+        run.warnings > 0 ? `${run.warnings} ${run.warnings === 1 ? 'warning' : 'warnings'}` : '',
+      ].filter(Boolean);
+      const outcome = counts.length > 0 ? `${took.padEnd(7)}  ${counts.join(', ')}` : took;
+      lines.push(
+        `  ${new Date(run.startedAt).toISOString()}  ${run.success ? '✓' : '✗'} ${outcome}`,
+      );
+    }
+    return lines.join('\n');
+  });
+  return sections.join('\n\n');
+}
+
+/**
+ * One line per step, offset from the start of the boot. Runs of failed probe
+ * attempts with the same reason fold into one line, so a long wait reads as
+ * "37× connection refused" rather than 37 lines of it.
+ */
+export function formatTimelineText(result: TimelineResult, now = Date.now()): string {
+  const { boot } = result;
+  if (!boot) return `${result.name} (${result.state}) has not been started yet`;
+  const lines: string[] = [];
+  const at = (timestamp: number) =>
+    `+${formatElapsed(Math.max(0, timestamp - boot.startedAt))}`.padEnd(9);
+  const steps = boot.steps;
+  const firstProbe = steps.findIndex((s) => s.kind === 'probe');
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i]!;
+    switch (step.kind) {
+      case 'hook':
+        lines.push(
+          `  ${at(step.timestamp)}${step.hook} hook ${step.error ? `✗ ${formatElapsed(step.durationMs)}  ${step.error}` : `✓ ${formatElapsed(step.durationMs)}`}`,
+        );
+        break;
+      case 'spawn':
+        lines.push(`  ${at(step.timestamp)}spawned${step.pid != null ? ` (pid ${step.pid})` : ''}`);
+        break;
+      case 'probe': {
+        // Fold the failed attempts that follow with the same reason — but keep
+        // the first attempt alone when some after it were dropped.
+        let last = i;
+        while (
+          !step.ok &&
+          !(i === firstProbe && boot.droppedProbes > 0) &&
+          steps[last + 1]?.kind === 'probe'
+        ) {
+          const next = steps[last + 1] as Extract<BootStep, { kind: 'probe' }>;
+          if (next.ok || next.reason !== step.reason) break;
+          last++;
+        }
+        const end = steps[last] as Extract<BootStep, { kind: 'probe' }>;
+        const label =
+          last === i
+            ? `probe #${step.attempt}`
+            : `probe #${step.attempt}–#${end.attempt} (${last - i + 1}×)`;
+        const outcome = step.ok ? '✓' : `✗  ${step.reason ?? 'not ready'}`;
+        lines.push(`  ${at(step.timestamp)}${label} ${outcome}  [${end.latencyMs}ms]`);
+        if (i === firstProbe && boot.droppedProbes > 0) {
+          lines.push(`  ${''.padEnd(9)}… ${boot.droppedProbes} more attempts not kept`);
+        }
+        i = last;
+        break;
+      }
+      case 'ready':
+        lines.push(`  ${at(step.timestamp)}ready`);
+        break;
+      case 'failed':
+        lines.push(`  ${at(step.timestamp)}failed: ${step.error}`);
+        break;
+    }
+  }
+  const head =
+    `${STATE_ICON[result.state]} ${result.name} (${result.state}) — boot began ` +
+    `${formatElapsed(now - boot.startedAt)} ago`;
+  return lines.length > 0 ? `${head}\n${lines.join('\n')}` : `${head}\n  (no steps yet)`;
+}
+
+/**
+ * Grouped by process, then file: one `line:col  severity  code  message` row
+ * per diagnostic, so an agent can go straight to each location.
+ */
+export function formatDiagnosticsText(entries: DiagnosticsEntry[]): string {
+  const all = entries.flatMap((e) => e.diagnostics);
+  if (all.length === 0) {
+    return entries.length === 1
+      ? `no diagnostics for ${entries[0]!.name} — its latest build reported no errors or warnings`
+      : 'no diagnostics — the latest builds reported no errors or warnings';
+  }
+  const errors = all.filter((d) => d.severity === 'error').length;
+  const warnings = all.length - errors;
+  const counts = [
+    errors > 0 ? `${errors} ${errors === 1 ? 'error' : 'errors'}` : '',
+    warnings > 0 ? `${warnings} ${warnings === 1 ? 'warning' : 'warnings'}` : '',
+  ].filter(Boolean);
+  const sections = entries.map((entry) => {
+    const byFile = new Map<string, Diagnostic[]>();
+    for (const d of entry.diagnostics) byFile.set(d.file, [...(byFile.get(d.file) ?? []), d]);
+    const lines = [`${STATE_ICON[entry.state]} ${entry.name} (cwd ${entry.cwd})`];
+    if (byFile.size === 0) lines.push('  (none)');
+    for (const [file, diagnostics] of byFile) {
+      lines.push(`  ${file}`);
+      for (const d of diagnostics) {
+        const at = d.line != null ? `${d.line}:${d.column ?? 1}` : '-';
+        const code = d.code ? `  ${d.code}` : '';
+        lines.push(`    ${at.padEnd(7)} ${d.severity}${code}  ${d.message}`);
+      }
+    }
+    return lines.join('\n');
+  });
+  return `${counts.join(', ')}:\n\n${sections.join('\n\n')}`;
+}
+
 export function formatErrorsText(entries: ErrorEntry[]): string {
   if (entries.length === 0) return 'no errors — all processes are healthy';
   const blocks = entries.map((e) => {
-    const head = `✗ ${e.name}  ${e.lastError ?? '(no error message captured)'}`;
+    const head =
+      e.state === 'failed'
+        ? `✗ ${e.name}  ${e.lastError ?? '(no error message captured)'}`
+        : e.state === 'unhealthy'
+          ? `! ${e.name} (unhealthy)  ${e.lastError ?? '(no reason captured)'}`
+          : `⚠ ${e.name} (${e.state})  ${e.lastError}${limitActionNote(e.limitExceeded)}`;
     if (e.recentStderr.length === 0) {
       return `${head}\n  (no recent stderr)`;
     }
     const tail = e.recentStderr.map((l) => `  ! ${l.text}`).join('\n');
     return `${head}\n${tail}`;
   });
-  return `${entries.length} failed process${entries.length === 1 ? '' : 'es'}:\n\n${blocks.join('\n\n')}`;
+  const failed = entries.filter((e) => e.state === 'failed').length;
+  const unhealthy = entries.filter((e) => e.state === 'unhealthy').length;
+  const overLimit = entries.length - failed - unhealthy;
+  const counts = [
+    failed > 0 ? `${failed} failed process${failed === 1 ? '' : 'es'}` : null,
+    unhealthy > 0 ? `${unhealthy} unhealthy` : null,
+    overLimit > 0 ? `${overLimit} over a resource limit` : null,
+  ].filter(Boolean);
+  return `${counts.join(', ')}:\n\n${blocks.join('\n\n')}`;
+}
+
+function limitActionNote(limit: LimitExceeded | null): string {
+  if (limit?.action === 'restart') return ' — restarted';
+  if (limit?.action === 'stop') return ' — stopped';
+  return '';
 }
 
 export function formatLogsText(result: LogsResult): string {
@@ -159,8 +555,61 @@ export function formatLogsText(result: LogsResult): string {
   return `${header}\n${body}`;
 }
 
-const logsInputShape = {
+export function formatSearchText(result: LogSearchResult): string {
+  const n = result.matches.length;
+  const scope = result.processes.length > 0 ? result.processes.join(', ') : 'no processes';
+  const head =
+    `${n} match${n === 1 ? '' : 'es'} for /${result.pattern}/ in ${scope}` +
+    (result.truncated ? ` (showing the most recent ${n})` : '');
+  if (n === 0) return head;
+  const render = (marker: string, l: SearchLine) =>
+    `  ${marker}${l.stream === 'stderr' ? '!' : '|'} ${l.text}`;
+  const blocks = result.matches.map((m) => {
+    const when = new Date(m.line.timestamp).toISOString();
+    const from = m.source === 'file' ? ' (log file, session start)' : '';
+    return [
+      `${m.name}  ${when}${from}`,
+      ...m.before.map((l) => render(' ', l)),
+      render('>', m.line),
+      ...m.after.map((l) => render(' ', l)),
+    ].join('\n');
+  });
+  return `${head}:\n\n${blocks.join('\n\n')}`;
+}
+
+const CONTROL_VERB: Record<ControlAction, string> = {
+  restart: 'restarted',
+  start: 'started',
+  stop: 'stopped',
+};
+
+export function formatControlText(result: ControlResult): string {
+  const single = result.targets.length === 1 && result.targets[0] === result.name;
+  const picked = single ? result.name : `${result.name} (${result.targets.join(', ')})`;
+  const scope = result.cascade ? (single ? ' and its dependents' : ' and their dependents') : '';
+  const states = result.targets.flatMap((name) => {
+    const entry = result.processes.find((p) => p.name === name);
+    return entry ? [single ? entry.state : `${name} ${entry.state}`] : [];
+  });
+  const outcome = states.length > 0 ? ` — now ${states.join(', ')}` : '';
+  return `${CONTROL_VERB[result.action]} ${picked}${scope}${outcome}\n\n${formatStatusText(result.processes)}`;
+}
+
+const processNameShape = {
   name: z.string().describe('Process name as defined in orckit.yaml.'),
+};
+
+const selectorShape = {
+  name: z
+    .string()
+    .describe(
+      'Process name as defined in orckit.yaml, `@category` for every process in that ' +
+        'category, or a glob over names (`api-*`).',
+    ),
+};
+
+const logsInputShape = {
+  ...processNameShape,
   lines: z
     .number()
     .int()
@@ -174,10 +623,137 @@ const logsInputShape = {
     .describe('Filter by stream (default "all").'),
 };
 
+const PROCESS_STATES = [
+  'pending',
+  'starting',
+  'ready',
+  'running',
+  'unhealthy',
+  'finished',
+  'stopping',
+  'stopped',
+  'failed',
+] as const satisfies readonly ProcessState[];
+
+const waitForInputShape = {
+  ...processNameShape,
+  until: z
+    .enum(['state', 'build', 'log'])
+    .describe(
+      'What to wait for: "state" (the process reaches `state`), "build" (its next ' +
+        'build completes or fails), or "log" (it prints a line matching `pattern`).',
+    ),
+  state: z
+    .enum(PROCESS_STATES)
+    .optional()
+    .describe('Target state for until="state" (default "running"; "ready" also accepts running).'),
+  pattern: z
+    .string()
+    .optional()
+    .describe('JavaScript regular expression for until="log", matched against each new line.'),
+  timeout_ms: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_WAIT_TIMEOUT_MS)
+    .optional()
+    .describe(
+      `Give up after this many milliseconds (default ${DEFAULT_WAIT_TIMEOUT_MS}, max ${MAX_WAIT_TIMEOUT_MS}).`,
+    ),
+};
+
+const searchInputShape = {
+  pattern: z.string().describe('JavaScript regular expression to match against each line.'),
+  regex: z
+    .boolean()
+    .optional()
+    .describe('Set false to match `pattern` as literal text (default true).'),
+  ignore_case: z.boolean().optional().describe('Case-insensitive match (default false).'),
+  since: z
+    .string()
+    .optional()
+    .describe('Skip older lines: a duration ago ("15m", "2h"), an ISO timestamp, or epoch ms.'),
+  until: z
+    .string()
+    .optional()
+    .describe('Skip newer lines: a duration ago, an ISO timestamp, or epoch ms.'),
+  processes: z.array(z.string()).optional().describe('Only search these processes.'),
+  categories: z.array(z.string()).optional().describe('Only search processes in these categories.'),
+  stream: z
+    .enum(['stdout', 'stderr', 'all'])
+    .optional()
+    .describe('Filter by stream (default "all").'),
+  context: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_SEARCH_CONTEXT)
+    .optional()
+    .describe(`Lines of surrounding output per match (default 0, max ${MAX_SEARCH_CONTEXT}).`),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_SEARCH_LIMIT)
+    .optional()
+    .describe(
+      `Most-recent matches to return (default ${DEFAULT_SEARCH_LIMIT}, max ${MAX_SEARCH_LIMIT}).`,
+    ),
+};
+
+const metricsInputShape = {
+  name: z.string().optional().describe('Only this process (default: every process).'),
+  samples: z
+    .number()
+    .int()
+    .min(1)
+    .max(10_000)
+    .optional()
+    .describe('Most-recent samples to return and summarize per process (default 30).'),
+};
+
+const buildHistoryInputShape = {
+  name: z.string().optional().describe('Only this process (default: every process with builds).'),
+  runs: z
+    .number()
+    .int()
+    .min(1)
+    .max(10_000)
+    .optional()
+    .describe('Most-recent builds to return and summarize per process (default 50).'),
+};
+
+const diagnosticsInputShape = {
+  name: z.string().optional().describe('Only this process (default: every process with any).'),
+  severity: z
+    .enum(['error', 'warning'])
+    .optional()
+    .describe('Only errors or only warnings (default both).'),
+};
+
+const restartInputShape = {
+  ...selectorShape,
+  cascade: z
+    .boolean()
+    .optional()
+    .describe('Also restart every transitive dependent (default true).'),
+};
+
+export interface RegisterToolsOptions {
+  /**
+   * Register the mutating tools (`restart_process`, `start_process`,
+   * `stop_process`). Mirrors `mcp.allow_control`.
+   */
+  allowControl?: boolean;
+  /** Where `search_logs` finds log files beyond the in-memory buffers. */
+  search?: LogSearchOptions;
+}
+
 export function registerTools(
   server: McpServer,
   orckit: Orckit,
   lastErrors: Map<string, string>,
+  options: RegisterToolsOptions = {},
 ): void {
   server.registerTool(
     'get_status',
@@ -186,13 +762,15 @@ export function registerTools(
       description:
         'Get the current status of all processes managed by orckit for this project. ' +
         'Returns each process name, lifecycle state ' +
-        '(pending/starting/ready/running/finished/stopping/stopped/failed), PID, uptime, ' +
-        'retry count, and whether the process is marked manual_retry. Use this to answer ' +
+        '(pending/starting/ready/running/unhealthy/finished/stopping/stopped/failed), PID, uptime, ' +
+        'retry count, and whether the process is marked manual_retry, plus the ports ' +
+        'allocated under the top-level ports: map. Use this to answer ' +
         '"is the build running" or "what state is the API in".',
     },
     async () => {
       const entries = buildStatus(orckit);
-      return toResult(formatStatusText(entries), { processes: entries });
+      const ports = orckit.config.ports;
+      return toResult(formatStatusText(entries, ports), { processes: entries, ports });
     },
   );
 
@@ -202,8 +780,10 @@ export function registerTools(
       title: 'Failed processes',
       description:
         'List any failed processes with the failure error message and up to the last 50 ' +
-        'lines of stderr. An empty list means everything is healthy. Use this first when ' +
-        'diagnosing a broken build.',
+        'lines of stderr, plus unhealthy processes (failing their liveness check, with the ' +
+        'reason) and processes that crossed a configured memory/CPU limit (with ' +
+        'the limit and whether they were restarted or stopped). An empty list means ' +
+        'everything is healthy. Use this first when diagnosing a broken build.',
     },
     async () => {
       const entries = buildErrors(orckit, lastErrors);
@@ -229,6 +809,208 @@ export function registerTools(
       }
     },
   );
+
+  server.registerTool(
+    'search_logs',
+    {
+      title: 'Search logs',
+      description:
+        'Search the output of every process (or a filtered subset) for a regex, optionally ' +
+        'within a time window and with surrounding context lines. Covers the in-memory ' +
+        'buffers and, when logs.enabled is set, older sessions in the log files. Use to ' +
+        'find when an error first appeared or which process printed a message.',
+      inputSchema: searchInputShape,
+    },
+    async (args) => {
+      try {
+        const result = await searchLogs(
+          orckit,
+          {
+            pattern: args.pattern,
+            regex: args.regex,
+            ignoreCase: args.ignore_case,
+            since: args.since != null ? parseTimeBound(args.since) : undefined,
+            until: args.until != null ? parseTimeBound(args.until) : undefined,
+            processes: args.processes,
+            categories: args.categories,
+            stream: args.stream,
+            context: args.context,
+            limit: args.limit,
+          },
+          options.search,
+        );
+        return toResult(formatSearchText(result), result);
+      } catch (err) {
+        return errorResult((err as Error).message);
+      }
+    },
+  );
+
+  server.registerTool(
+    'wait_for',
+    {
+      title: 'Wait for a process',
+      description:
+        'Block until a process reaches a lifecycle state, finishes its next build ' +
+        '(e.g. a webpack, vite or tsc rebuild), or prints a log line matching a regex — then return ' +
+        'the state, the build result (success, error and warning counts), or the matching ' +
+        'line. Use after editing code or restarting a process instead of polling ' +
+        'get_status. Only builds and lines that happen after the call count.',
+      inputSchema: waitForInputShape,
+    },
+    async (args, extra) => {
+      let condition: WaitCondition;
+      if (args.until === 'log') {
+        if (args.pattern == null) return errorResult('until="log" requires a pattern');
+        condition = { kind: 'log', pattern: args.pattern };
+      } else if (args.until === 'build') {
+        condition = { kind: 'build' };
+      } else {
+        condition = { kind: 'state', state: args.state ?? 'running' };
+      }
+      try {
+        const result = await waitFor(orckit, args.name, condition, {
+          timeoutMs: args.timeout_ms,
+          signal: extra.signal,
+        });
+        return toResult(formatWaitForText(result), result);
+      } catch (err) {
+        return errorResult((err as Error).message);
+      }
+    },
+  );
+
+  server.registerTool(
+    'get_boot_timeline',
+    {
+      title: 'Boot timeline',
+      description:
+        "Show how a process's latest boot went, step by step: pre_start hook, spawn, every " +
+        'ready-check attempt with its result and latency, ready or failed, post_start hook. ' +
+        'Use to answer why a process is stuck in starting or why it never became ready.',
+      inputSchema: processNameShape,
+    },
+    async (args) => {
+      try {
+        const result = buildTimeline(orckit, args);
+        return toResult(formatTimelineText(result), result);
+      } catch (err) {
+        return errorResult((err as Error).message);
+      }
+    },
+  );
+
+  server.registerTool(
+    'get_diagnostics',
+    {
+      title: 'Build diagnostics',
+      description:
+        'List the errors and warnings of the latest build of processes with a build parser ' +
+        '(tsc, esbuild, webpack, eslint, Angular output), as file, line, column, severity, ' +
+        'code and message, grouped by file. Relative paths are relative to the cwd shown. ' +
+        'Use to find what to fix after a failed build instead of reading raw logs.',
+      inputSchema: diagnosticsInputShape,
+    },
+    async (args) => {
+      try {
+        const entries = buildDiagnostics(orckit, args);
+        return toResult(formatDiagnosticsText(entries), { processes: entries });
+      } catch (err) {
+        return errorResult((err as Error).message);
+      }
+    },
+  );
+
+  server.registerTool(
+    'get_metrics',
+    {
+      title: 'Resource usage',
+      description:
+        'Get CPU and memory usage per process — summed over each process group, so ' +
+        'child processes (compilers, workers) count — with recent history, average and ' +
+        'peak. Use to find the process pinning the CPU or leaking memory.',
+      inputSchema: metricsInputShape,
+    },
+    async (args) => {
+      try {
+        const entries = buildMetrics(orckit, args);
+        return toResult(formatMetricsText(entries), { processes: entries });
+      } catch (err) {
+        return errorResult((err as Error).message);
+      }
+    },
+  );
+
+  server.registerTool(
+    'get_build_history',
+    {
+      title: 'Build history',
+      description:
+        'Get the recent builds of processes with a build parser — when each started, how ' +
+        'long it took, whether it succeeded and its error / warning counts — with p50 and ' +
+        'p95 durations. Use to tell whether rebuilds are getting slower or failing more often.',
+      inputSchema: buildHistoryInputShape,
+    },
+    async (args) => {
+      try {
+        const entries = buildBuildHistory(orckit, args);
+        return toResult(formatBuildHistoryText(entries), { processes: entries });
+      } catch (err) {
+        return errorResult((err as Error).message);
+      }
+    },
+  );
+
+  if (options.allowControl === false) return;
+
+  const control = async (action: ControlAction, args: { name: string; cascade?: boolean }) => {
+    try {
+      const result = await runControl(orckit, action, args);
+      return toResult(formatControlText(result), result);
+    } catch (err) {
+      return errorResult((err as Error).message);
+    }
+  };
+
+  server.registerTool(
+    'restart_process',
+    {
+      title: 'Restart a process',
+      description:
+        'Stop and re-start a process (or a `@category` / glob of them), by default together ' +
+        'with every process that depends on it. Waits until the restarted processes are ready (or failed) and ' +
+        'returns the resulting status. Use after fixing the cause of a failure instead of ' +
+        'asking the user to retry.',
+      inputSchema: restartInputShape,
+    },
+    async (args) => control('restart', args),
+  );
+
+  server.registerTool(
+    'start_process',
+    {
+      title: 'Start a process',
+      description:
+        'Start a process that is not running (pending, stopped, failed, or an optional ' +
+        'process), pulling in its dependencies. Accepts `@category` or a glob to start ' +
+        'several. Processes that are already running are left alone. Waits until they are ' +
+        'ready (or failed) and returns the resulting status.',
+      inputSchema: selectorShape,
+    },
+    async (args) => control('start', args),
+  );
+
+  server.registerTool(
+    'stop_process',
+    {
+      title: 'Stop a process',
+      description:
+        'Gracefully stop a process, or a `@category` / glob of them (SIGTERM, then ' +
+        'SIGKILL after the grace period). Dependents keep running. Returns the resulting status.',
+      inputSchema: selectorShape,
+    },
+    async (args) => control('stop', args),
+  );
 }
 
 function toResult(text: string, json: unknown): CallToolResult {
@@ -0,0 +1,188 @@
+import type { Orckit } from '../orchestrator/orchestrator.js';
+import type { ProcessState } from '../orchestrator/lifecycle.js';
+import type { OutputLine } from '../process/output.js';
+import { reduceBuild, type BuildEvent, type BuildStatus } from '../process/parsers.js';
+
+/** The slice of `Orckit` `waitFor` subscribes to; a real `Orckit` or a test double. */
+export type WaitForTarget = Pick<Orckit, 'on' | 'off' | 'inspect'>;
+
+export type WaitCondition =
+  | { kind: 'state'; state: ProcessState }
+  | { kind: 'build' }
+  | { kind: 'log'; pattern: string };
+
+export type WaitForResult =
+  | { name: string; condition: 'state'; state: ProcessState; elapsedMs: number }
+  | { name: string; condition: 'build'; build: BuildStatus; elapsedMs: number }
+  | {
+      name: string;
+      condition: 'log';
+      line: { timestamp: number; stream: OutputLine['stream']; text: string };
+      elapsedMs: number;
+    };
+
+export class WaitForTimeoutError extends Error {
+  constructor(
+    public readonly processName: string,
+    public readonly timeoutMs: number,
+    what: string,
+    public readonly lastState: ProcessState,
+  ) {
+    super(
+      `timed out after ${timeoutMs}ms waiting for ${processName} ${what} (currently ${lastState})`,
+    );
+    this.name = 'WaitForTimeoutError';
+  }
+}
+
+export const DEFAULT_WAIT_TIMEOUT_MS = 30_000;
+export const MAX_WAIT_TIMEOUT_MS = 300_000;
+/**
+ * How long after a `build:failed` with no `build:complete` the failure counts
+ * as the outcome. The parsers report one `build:failed` per error line while
+ * the build is still going, so the summary usually follows within this.
+ */
+export const BUILD_FAILURE_QUIET_MS = 1000;
+
+// A process passes through `ready` on its way to `running`, and the transition
+// is immediate — waiting for exactly `ready` would usually miss it.
+const SATISFIES: Partial<Record<ProcessState, ProcessState[]>> = {
+  ready: ['ready', 'running'],
+};
+
+/**
+ * Block until `name` meets `condition`, resolving from the orchestrator's
+ * events:
+ *
+ *   - `state`: the process reaches the state (resolves immediately if it
+ *     already has).
+ *   - `build`: the *next* `build:complete` — an earlier build that already
+ *     settled does not count. A `build:failed` settles it only once
+ *     `failureQuietMs` pass without another build event, for a build that
+ *     never prints a summary.
+ *   - `log`: the next output line matching the regex. The existing buffer is
+ *     not searched; use `get_logs` for that.
+ *
+ * A process passing through `failed` or `stopped` does not end the wait: an
+ * auto-restart or a manual retry may still be on its way, and only the caller
+ * knows how long that's worth waiting for. Rejects with `WaitForTimeoutError`
+ * (naming the last state seen) after `timeoutMs`, with "aborted" when `signal`
+ * fires, and immediately for an unknown process or invalid regex.
+ */
+export function waitFor(
+  orckit: WaitForTarget,
+  name: string,
+  condition: WaitCondition,
+  options: { timeoutMs?: number; failureQuietMs?: number; signal?: AbortSignal } = {},
+): Promise<WaitForResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+  const failureQuietMs = options.failureQuietMs ?? BUILD_FAILURE_QUIET_MS;
+  const startedAt = Date.now();
+  const elapsed = () => Date.now() - startedAt;
+
+  return new Promise((resolve, reject) => {
+    let current: ProcessState;
+    let pattern: RegExp | null = null;
+    try {
+      current = orckit.inspect(name).state;
+      if (condition.kind === 'log') pattern = new RegExp(condition.pattern);
+    } catch (err) {
+      reject(err instanceof SyntaxError ? new Error(`invalid pattern: ${err.message}`) : err);
+      return;
+    }
+
+    if (condition.kind === 'state' && satisfies(current, condition.state)) {
+      resolve({ name, condition: 'state', state: current, elapsedMs: 0 });
+      return;
+    }
+
+    const onState = (n: string, state: ProcessState) => {
+      if (n !== name) return;
+      current = state;
+      if (condition.kind === 'state' && satisfies(state, condition.state)) {
+        finish(() => resolve({ name, condition: 'state', state, elapsedMs: elapsed() }));
+      }
+    };
+    let quietTimer: NodeJS.Timeout | undefined;
+    const onBuild = (n: string, event: BuildEvent) => {
+      if (n !== name) return;
+      clearTimeout(quietTimer);
+      const build = reduceBuild(event);
+      if (event.type === 'build:complete') {
+        finish(() => resolve({ name, condition: 'build', build, elapsedMs: elapsed() }));
+      } else if (event.type === 'build:failed') {
+        quietTimer = setTimeout(() => {
+          finish(() => resolve({ name, condition: 'build', build, elapsedMs: elapsed() }));
+        }, failureQuietMs);
+      }
+    };
+    const onLine = (n: string, line: OutputLine) => {
+      if (n !== name || !pattern?.test(line.text)) return;
+      const { timestamp, stream, text } = line;
+      finish(() =>
+        resolve({
+          name,
+          condition: 'log',
+          line: { timestamp, stream, text },
+          elapsedMs: elapsed(),
+        }),
+      );
+    };
+    const onAbort = () => finish(() => reject(new Error('aborted')));
+    const timer = setTimeout(() => {
+      finish(() => reject(new WaitForTimeoutError(name, timeoutMs, describe(condition), current)));
+    }, timeoutMs);
+
+    let done = false;
+    function finish(settle: () => void): void {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      clearTimeout(quietTimer);
+      orckit.off('process:state', onState);
+      orckit.off('process:build', onBuild);
+      orckit.off('process:line', onLine);
+      options.signal?.removeEventListener('abort', onAbort);
+      settle();
+    }
+
+    orckit.on('process:state', onState);
+    if (condition.kind === 'build') orckit.on('process:build', onBuild);
+    if (condition.kind === 'log') orckit.on('process:line', onLine);
+    if (options.signal?.aborted) onAbort();
+    else options.signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function formatWaitForText(result: WaitForResult): string {
+  const took = `after ${result.elapsedMs}ms`;
+  switch (result.condition) {
+    case 'state':
+      return `${result.name} is ${result.state} (${took})`;
+    case 'build': {
+      const b = result.build;
+      if (b.phase === 'done') {
+        const verdict = b.success ? 'succeeded' : 'failed';
+        return `${result.name} build ${verdict} — ${b.errors} errors, ${b.warnings} warnings (${took})`;
+      }
+      return `${result.name} build failed${b.phase === 'failed' && b.reason ? `: ${b.reason}` : ''} (${took})`;
+    }
+    case 'log':
+      return `${result.name} logged a matching line (${took}):\n  ${result.line.stream === 'stderr' ? '!' : '|'} ${result.line.text}`;
+  }
+}
+
+function satisfies(state: ProcessState, target: ProcessState): boolean {
+  return (SATISFIES[target] ?? [target]).includes(state);
+}
+
+function describe(condition: WaitCondition): string {
+  switch (condition.kind) {
+    case 'state':
+      return `to reach ${condition.state}`;
+    case 'build':
+      return 'to finish a build';
+    case 'log':
+      return `to log /${condition.pattern}/`;
+  }
+}
@@ -3,6 +3,8 @@ export type ProcessState =
   | 'starting'
   | 'ready'
   | 'running'
+  /** Was running, but its `liveness:` check has failed `failure_threshold` times in a row. */
+  | 'unhealthy'
   | 'finished'
   | 'stopping'
   | 'stopped'
@@ -13,6 +15,8 @@ export type LifecycleEvent =
   | { kind: 'ready' }
   | { kind: 'mark-running' }
   | { kind: 'mark-finished' }
+  | { kind: 'liveness-failed' }
+  | { kind: 'liveness-recovered' }
   | { kind: 'stop-requested' }
   | { kind: 'exited'; expected: boolean; code: number | null }
   | { kind: 'fail' };
@@ -42,16 +46,24 @@ export function transition(state: ProcessState, event: LifecycleEvent): ProcessS
     case 'mark-finished':
       if (state === 'ready') return 'finished';
       break;
+    case 'liveness-failed':
+      if (state === 'running') return 'unhealthy';
+      break;
+    case 'liveness-recovered':
+      if (state === 'unhealthy') return 'running';
+      break;
     case 'stop-requested':
-      if (state === 'starting' || state === 'ready' || state === 'running') return 'stopping';
+      if (isActive(state)) return 'stopping';
       break;
-    case 'exited':
+    case 'exited': {
       if (state === 'stopping') return 'stopped';
-      if (event.expected && (state === 'ready' || state === 'running')) return 'stopped';
+      const up = state === 'ready' || state === 'running' || state === 'unhealthy';
+      if (event.expected && up) return 'stopped';
       // Clean exit (code 0) from an active process is a clean completion, not a failure.
       // Restart policy still applies in the orchestrator (`always` will restart even on stop).
-      if (event.code === 0 && (state === 'ready' || state === 'running')) return 'stopped';
+      if (event.code === 0 && up) return 'stopped';
       return 'failed';
+    }
     case 'fail':
       if (state === 'stopping' || state === 'stopped') return state;
       return 'failed';
@@ -64,7 +76,7 @@ export function isTerminal(state: ProcessState): boolean {
 }
 
 export function isActive(state: ProcessState): boolean {
-  return state === 'starting' || state === 'ready' || state === 'running';
+  return state === 'starting' || state === 'ready' || state === 'running' || state === 'unhealthy';
 }
 
 /** True when the process has successfully reached a dependency-satisfying state. */
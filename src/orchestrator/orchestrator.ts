@@ -1,18 +1,38 @@
 import { EventEmitter } from 'node:events';
+import { resolve } from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
 import type { OrckitConfig, ProcessConfig } from '../config/schema.js';
+import { allocateConfigPorts, hasUnallocatedPorts } from '../config/load.js';
 import {
   buildGraph,
   filterToTargets,
+  expandSelectors,
+  categoriesOf,
   groupIntoWaves,
   resolveStartOrder,
   transitiveDependents,
   type DependencyGraph,
 } from '../graph/resolver.js';
-import { createProbe, readyCheckLocalEndpoint, type HealthProbe } from '../health/checks.js';
+import {
+  createProbe,
+  leafReadyChecks,
+  readyCheckLocalEndpoint,
+  type HealthProbe,
+} from '../health/checks.js';
 import { HealthTimeoutError, waitForReady } from '../health/wait.js';
+import { createLivenessProbe, monitorLiveness } from '../health/liveness.js';
 import { Runner } from '../process/runner.js';
 import { OutputBuffer, type OutputLine } from '../process/output.js';
-import { getParser, type BuildEvent, type LineParser } from '../process/parsers.js';
+import { MetricsHistory, MetricsSampler, type MetricsSample } from '../process/metrics.js';
+import { LimitTracker, type LimitExceeded } from '../process/limits.js';
+import { parserFor, type BuildEvent, type LineParser } from '../process/parsers.js';
+import { DiagnosticParser, type Diagnostic } from '../process/diagnostics.js';
+import {
+  BuildHistory,
+  loadBuildHistory,
+  saveBuildHistory,
+  type BuildRun,
+} from '../process/build-history.js';
 import { isPortFree, killPortHolders } from '../util/port.js';
 import {
   isActive,
@@ -24,6 +44,15 @@ import {
 import { runHook, type HookKind } from './hooks.js';
 import { removeDockerContainer } from './docker.js';
 import { PreflightError, runPreflight, type PreflightResult } from './preflight.js';
+import { watchFiles, type FileWatchHandle } from './watch.js';
+import {
+  BootTimeline,
+  type BootStep,
+  type BootTimelineSnapshot,
+  type ProbeAttempt,
+} from './timeline.js';
+import { diffProcesses, type ConfigChange } from './reload.js';
+import { CrashLoopDetector, restartDelay, type CrashLoop } from './restart.js';
 
 export interface BootSummary {
   ready: string[];
@@ -68,55 +97,178 @@ export type OrckitEvents = {
   'process:port-freed': [name: string, port: number, pid: number];
   'process:stopped': [name: string, durationMs?: number];
   'process:failed': [name: string, error?: Error];
-  'process:restarting': [name: string, attempt: number];
+  /** An automatic restart is queued; it spawns after `delayMs` unless cancelled. */
+  'process:restarting': [name: string, attempt: number, delayMs: number];
+  /** A queued automatic restart was called off (`cancelRestart`, a manual restart, or stop). */
+  'process:restart-cancelled': [name: string];
+  /** `crash_loop.failures` restart-worthy failures fell within `crash_loop.within`. */
+  'process:crash-loop': [name: string, loop: CrashLoop];
+  /**
+   * One ready-check attempt while the process boots (also a `probe` step of
+   * its timeline). `bootStartedAt` identifies the boot it belongs to.
+   */
+  'process:probe': [name: string, attempt: ProbeAttempt, bootStartedAt: number];
+  /** Any other step of a process's boot timeline: hooks, spawn, ready, failed. */
+  'process:boot-step': [
+    name: string,
+    step: Exclude<BootStep, { kind: 'probe' }>,
+    bootStartedAt: number,
+  ];
+  /** The `liveness:` check failed `failure_threshold` times in a row; the restart policy follows. */
+  'process:unhealthy': [name: string, reason: string];
+  /** Files matching the process's `watch:` changed; a restart follows. Paths are relative to its cwd. */
+  'process:watch-triggered': [name: string, files: string[]];
   'process:line': [name: string, line: OutputLine];
   'process:build': [name: string, event: BuildEvent];
+  /** A build finished (`build:complete`) and joined the process's build history. */
+  'process:build-run': [name: string, run: BuildRun];
+  /**
+   * The process's problem list changed: its output reported a diagnostic, or a
+   * build cleared them. Carries the whole current list (see `diagnostics()`).
+   */
+  'process:diagnostics': [name: string, diagnostics: Diagnostic[]];
+  /** A CPU / memory sample for a running process's process group (`metrics:`). */
+  'process:metrics': [name: string, sample: MetricsSample];
+  /** A `limits:` ceiling stayed crossed for `sustained_for`; its `action` follows. */
+  'process:limit-exceeded': [name: string, exceeded: LimitExceeded];
   'hook:start': [name: string, hook: HookKind];
   'hook:line': [name: string, hook: HookKind, text: string, stream: 'stdout' | 'stderr'];
   'hook:complete': [name: string, hook: HookKind];
   'hook:failed': [name: string, hook: HookKind, error: Error];
   'boot:complete': [summary: BootSummary];
   'all:ready': [names: string[]];
+  /**
+   * `reload()` swapped in a new config. Fires after removed and changed
+   * processes have stopped and before anything (re)starts, so listeners can
+   * rebuild their view of the process set from `orckit.config`.
+   */
+  'config:reloaded': [change: ConfigChange];
 };
 
+/** Diagnostics kept per process; a build with more is broken enough already. */
+const MAX_DIAGNOSTICS = 200;
+
 interface Handle {
   state: ProcessState;
   config: ProcessConfig;
   runner: Runner | null;
   probe: HealthProbe | null;
+  /** Stops the `liveness:` checks of the current spawn. */
+  liveness: AbortController | null;
   buffer: OutputBuffer;
+  /** Resource samples, kept across restarts so the history reads as one timeline. */
+  metrics: MetricsHistory;
+  limits: LimitTracker;
+  /**
+   * The last `limits:` breach, kept through the restart it caused and cleared
+   * when something else (re)starts the process.
+   */
+  limitExceeded: LimitExceeded | null;
+  /**
+   * Some parsers tally a build as it goes; replaced on every spawn so a run
+   * that died mid-build doesn't leak its counts into the next one.
+   */
   parser: LineParser | null;
+  /** Only for processes with a build parser; replaced on every spawn. */
+  diagnosticParser: DiagnosticParser | null;
+  /** Diagnostics of the latest build, oldest first, at most `MAX_DIAGNOSTICS`. */
+  diagnostics: Diagnostic[];
+  /** Finished builds, kept across restarts (`build_history.size` at most). */
+  builds: BuildHistory;
   retries: number;
   shutdown: AbortController | null;
   restartAbort: AbortController | null;
+  /** When the queued automatic restart spawns; null when none is queued. */
+  restartAt: number | null;
+  /** Since when the process has been `running` without a failure; null otherwise. */
+  healthySince: number | null;
+  crashLoops: CrashLoopDetector;
+  /** The last crash loop, until the process is started by hand or its retries reset. */
+  crashLoop: CrashLoop | null;
+  /** Set by `restart({ override })`; taken by the next spawn. */
+  pendingOverride: ProcessOverride | null;
+  /** The override the current spawn runs with; null when it runs its config. */
+  override: ProcessOverride | null;
+  /** File watcher for `config.watch`; attached on first start, closed on full stop. */
+  watcher: FileWatchHandle | null;
   startedAt: number | null;
   stoppingAt: number | null;
+  /** The latest boot, step by step; replaced on every spawn. */
+  timeline: BootTimeline | null;
 }
 
 export interface RestartOptions {
   /** When true (default), also restart all transitive dependents of each target. */
   cascade?: boolean;
+  /**
+   * Run the (single) target's next spawn with this command and/or extra env
+   * instead of its config. Dependents restart with their own config.
+   */
+  override?: ProcessOverride;
+}
+
+/**
+ * A one-off change to how a process is spawned, for trying a flag or a
+ * `DEBUG=*` without editing the config. Applies to one spawn: the next
+ * restart, automatic or manual, goes back to the config unless it brings its
+ * own override.
+ */
+export interface ProcessOverride {
+  /** Replaces `command`. */
+  command?: string;
+  /** Merged over `env` (and the env files). */
+  env?: Record<string, string>;
 }
 
 export class Orckit extends EventEmitter<OrckitEvents> {
-  private readonly graph: DependencyGraph;
+  private currentConfig: OrckitConfig;
+  private graph: DependencyGraph;
   private readonly handles = new Map<string, Handle>();
   private stopping = false;
   private inStartLoop = false;
+  private metricsTimer: NodeJS.Timeout | null = null;
+  private readonly sampler = new MetricsSampler();
+  /**
+   * The persisted build history as last loaded or saved — including processes
+   * this config doesn't run, so saving doesn't drop another profile's runs.
+   */
+  private persistedBuilds: Record<string, BuildRun[]>;
 
-  constructor(public readonly config: OrckitConfig) {
+  constructor(config: OrckitConfig) {
     super();
+    this.currentConfig = config;
     this.graph = buildGraph(config);
+    const { persist, file } = config.build_history;
+    this.persistedBuilds = persist ? loadBuildHistory(resolve(file)) : {};
     for (const [name, processConfig] of Object.entries(config.processes)) {
-      this.handles.set(name, this.makeHandle(processConfig));
+      this.handles.set(name, this.makeHandle(processConfig, this.persistedBuilds[name]));
     }
   }
 
+  /**
+   * Allocate the config's `auto` ports if the caller hasn't (see
+   * `allocateConfigPorts`), before anything spawns with a placeholder. Only
+   * the processes' resolved fields change, so the handles just take them.
+   */
+  private async allocatePorts(): Promise<void> {
+    if (!hasUnallocatedPorts(this.currentConfig)) return;
+    const next = await allocateConfigPorts(this.currentConfig);
+    this.currentConfig = next;
+    for (const [name, handle] of this.handles) handle.config = next.processes[name]!;
+  }
+
+  /** The config in effect — replaced by `reload()`. */
+  get config(): OrckitConfig {
+    return this.currentConfig;
+  }
+
   get projectName(): string {
     return this.config.project;
   }
 
   async start(targets?: string[]): Promise<BootSummary> {
+    await this.allocatePorts();
+    this.startSampling();
     if (this.config.preflight.length > 0) {
       await this.doPreflight();
     }
@@ -126,7 +278,7 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     // they only start when explicitly named or via startTargets() at runtime.
     const required =
       targets && targets.length > 0
-        ? filterToTargets(this.graph, targets)
+        ? filterToTargets(this.graph, targets, categoriesOf(this.config))
         : new Set(
             resolveStartOrder(this.graph).filter(
               (name) => !this.handles.get(name)!.config.optional,
@@ -168,7 +320,13 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     return summary;
   }
 
+  /**
+   * Stop `targets` (selectors, as `start` takes), or everything when none are
+   * given. Throws for an unknown name or a selector that matches nothing,
+   * before stopping anything.
+   */
   async stop(targets?: string[]): Promise<void> {
+    const names = targets && targets.length > 0 ? this.resolveTargets(targets) : undefined;
     this.stopping = true;
     // Cancel any pending auto-restart timers up-front so they don't try to revive
     // processes while we're tearing down.
@@ -177,7 +335,16 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     }
 
     const order = resolveStartOrder(this.graph);
-    const toStop = targets && targets.length > 0 ? new Set(targets) : new Set(order);
+    const toStop = new Set(names ?? order);
+    // A full shutdown also ends file watching. Stopping individual processes
+    // leaves their watchers in place; triggers on a stopped process are ignored.
+    if (!names) {
+      for (const handle of this.handles.values()) {
+        handle.watcher?.close();
+        handle.watcher = null;
+      }
+      this.stopSampling();
+    }
     // Tear processes down in parallel. Each stopOne() waits up to the per-process
     // grace window (10s) for a clean exit before escalating to SIGKILL; doing
     // them sequentially would sum those windows — with a dozen processes that's
@@ -202,14 +369,16 @@ export class Orckit extends EventEmitter<OrckitEvents> {
    */
   async startTargets(targets: string[]): Promise<void> {
     if (targets.length === 0) return;
+    await this.allocatePorts();
 
-    const required = filterToTargets(this.graph, targets);
+    const required = filterToTargets(this.graph, targets, categoriesOf(this.config));
     const order = resolveStartOrder(this.graph).filter((n) => required.has(n));
 
     this.inStartLoop = true;
     try {
       for (const name of order) {
         const handle = this.requireHandle(name);
+        handle.limitExceeded = null;
         // Skip anything already healthy — typical case for shared deps that
         // were started by the initial boot.
         if (isReadyOrDone(handle.state) || handle.state === 'starting') continue;
@@ -227,12 +396,13 @@ export class Orckit extends EventEmitter<OrckitEvents> {
 
   async restart(targets: string[], options: RestartOptions = {}): Promise<void> {
     const cascade = options.cascade !== false;
+    const names = this.resolveTargets(targets);
+    if (options.override && names.length !== 1) {
+      throw new Error('an override applies to exactly one process');
+    }
 
     const toRestart = new Set<string>();
-    for (const name of targets) {
-      if (!this.handles.has(name)) {
-        throw new Error(`unknown process "${name}"`);
-      }
+    for (const name of names) {
       toRestart.add(name);
       if (cascade) {
         for (const dep of transitiveDependents(this.graph, name)) {
@@ -244,8 +414,11 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     // Cancel any pending auto-restart timers for the targets so manual retry
     // doesn't race with the auto-retry that's already queued.
     for (const name of toRestart) {
-      this.handles.get(name)!.restartAbort?.abort();
+      const handle = this.handles.get(name)!;
+      handle.restartAbort?.abort();
+      handle.limitExceeded = null;
     }
+    if (options.override) this.handles.get(names[0]!)!.pendingOverride = options.override;
 
     const order = resolveStartOrder(this.graph);
     const stopOrder = [...order].reverse().filter((n) => toRestart.has(n));
@@ -271,6 +444,89 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     this.kickPending();
   }
 
+  /**
+   * Switch to a new config without tearing down the whole stack. Processes
+   * whose resolved config is unchanged keep running. Removed processes stop;
+   * changed ones — and everything depending on them — restart with the new
+   * config, unless they weren't up to begin with (a pending process picks the
+   * new config up when it starts, a stopped one stays stopped). Added
+   * processes start unless they're `optional`.
+   *
+   * Throws `DependencyError`, before touching anything, when the new config's
+   * dependency graph doesn't resolve.
+   */
+  async reload(next: OrckitConfig): Promise<ConfigChange> {
+    const nextGraph = buildGraph(next);
+    resolveStartOrder(nextGraph);
+
+    const diff = diffProcesses(this.currentConfig, next);
+    const restarted = new Set<string>();
+    for (const name of diff.changed) {
+      restarted.add(name);
+      for (const dep of transitiveDependents(nextGraph, name)) {
+        if (this.handles.has(dep)) restarted.add(dep);
+      }
+    }
+    for (const name of restarted) {
+      const state = this.handles.get(name)!.state;
+      if (state === 'pending' || state === 'stopped') restarted.delete(name);
+    }
+    const change: ConfigChange = { ...diff, restarted: [...restarted] };
+
+    const removed = new Set(diff.removed);
+    for (const name of [...removed, ...restarted]) {
+      this.handles.get(name)!.restartAbort?.abort();
+    }
+    const stopOrder = resolveStartOrder(this.graph)
+      .reverse()
+      .filter((n) => removed.has(n) || restarted.has(n));
+    for (const name of stopOrder) {
+      await this.stopOne(name);
+    }
+
+    for (const name of diff.removed) {
+      this.handles.get(name)!.watcher?.close();
+      this.handles.delete(name);
+    }
+    for (const name of diff.changed) {
+      const handle = this.handles.get(name)!;
+      const prev = handle.config;
+      const config = next.processes[name]!;
+      handle.config = config;
+      handle.parser = parserFor(config);
+      handle.diagnosticParser = handle.parser ? new DiagnosticParser() : null;
+      if (
+        prev.buffer_size !== config.buffer_size ||
+        !isDeepStrictEqual(prev.output, config.output)
+      ) {
+        handle.buffer = new OutputBuffer(config.buffer_size, config.output);
+      }
+      // Re-attached with the new `watch:` settings on the next start.
+      handle.watcher?.close();
+      handle.watcher = null;
+    }
+    for (const name of diff.added) {
+      this.handles.set(name, this.makeHandle(next.processes[name]!, this.persistedBuilds[name]));
+    }
+    this.currentConfig = next;
+    this.graph = nextGraph;
+    this.emit('config:reloaded', change);
+
+    const toStart = [...restarted, ...diff.added.filter((name) => !next.processes[name]!.optional)];
+    await this.startTargets(toStart);
+    return change;
+  }
+
+  /**
+   * The process names `selectors` pick, in config order: names as-is,
+   * `@category`, or globs (`api-*`). Every method taking targets accepts
+   * selectors; this is for callers that need the names themselves. Throws
+   * for a selector that matches nothing.
+   */
+  resolveTargets(selectors: string[]): string[] {
+    return expandSelectors(this.graph, selectors, categoriesOf(this.config));
+  }
+
   state(name: string): ProcessState {
     return this.requireHandle(name).state;
   }
@@ -283,6 +539,35 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     return this.requireHandle(name).buffer.recent(n);
   }
 
+  /** Recent CPU / memory samples for a process, oldest first (`metrics.history` at most). */
+  metrics(name: string, n?: number): MetricsSample[] {
+    return this.requireHandle(name).metrics.recent(n);
+  }
+
+  /**
+   * Errors and warnings from the process's latest build, as file / line /
+   * column / code. Only processes with a build parser report any. A new build
+   * starts the list afresh; a successful one drops the errors and keeps its
+   * warnings.
+   */
+  diagnostics(name: string): Diagnostic[] {
+    return [...this.requireHandle(name).diagnostics];
+  }
+
+  /**
+   * The process's finished builds, oldest first (`build_history.size` at
+   * most), kept across restarts — and across runs of orckit with
+   * `build_history.persist`.
+   */
+  buildHistory(name: string, n?: number): BuildRun[] {
+    return this.requireHandle(name).builds.recent(n);
+  }
+
+  /** How the process's latest boot went, step by step; null until it first starts. */
+  timeline(name: string): BootTimelineSnapshot | null {
+    return this.requireHandle(name).timeline?.snapshot() ?? null;
+  }
+
   /**
    * Snapshot of a process's runtime metadata. Exposes the bits of the private
    * `Handle` that consumers (status reporters, MCP server) need without
@@ -293,6 +578,10 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     pid: number | null;
     startedAt: number | null;
     retries: number;
+    limitExceeded: LimitExceeded | null;
+    nextRestartAt: number | null;
+    crashLoop: CrashLoop | null;
+    override: ProcessOverride | null;
   } {
     const h = this.requireHandle(name);
     return {
@@ -300,9 +589,24 @@ export class Orckit extends EventEmitter<OrckitEvents> {
       pid: h.runner?.pid ?? null,
       startedAt: h.startedAt,
       retries: h.retries,
+      limitExceeded: h.limitExceeded,
+      nextRestartAt: h.restartAt,
+      crashLoop: h.crashLoop,
+      override: h.override,
     };
   }
 
+  /**
+   * Call off the automatic restart queued for a process, leaving it as it is
+   * (failed, or stopped if it was unhealthy). Returns false when none was queued.
+   */
+  cancelRestart(name: string): boolean {
+    const handle = this.requireHandle(name);
+    if (!handle.restartAbort) return false;
+    handle.restartAbort.abort();
+    return true;
+  }
+
   async dispose(): Promise<void> {
     await this.stop();
   }
@@ -345,6 +649,57 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     }
   }
 
+  /** Begin periodic `/proc` sampling, once, when `metrics.enabled` (Linux only). */
+  private startSampling(): void {
+    const { metrics } = this.config;
+    if (this.metricsTimer || !metrics.enabled || process.platform !== 'linux') return;
+    this.metricsTimer = setInterval(() => this.sampleMetrics(), metrics.interval_ms);
+    // Sampling alone must not keep the event loop (and a test run) alive.
+    this.metricsTimer.unref();
+  }
+
+  private stopSampling(): void {
+    if (this.metricsTimer) clearInterval(this.metricsTimer);
+    this.metricsTimer = null;
+  }
+
+  private sampleMetrics(): void {
+    // The runner spawns each process detached, so its pid is also its pgid.
+    const groups = new Map<string, number>();
+    for (const [name, handle] of this.handles) {
+      const pid = handle.runner?.pid;
+      if (pid != null) groups.set(name, pid);
+    }
+    for (const [name, sample] of this.sampler.sample(groups)) {
+      const handle = this.handles.get(name);
+      if (!handle) continue;
+      handle.metrics.push(sample);
+      this.emit('process:metrics', name, sample);
+      const limits = handle.config.limits;
+      if (limits) {
+        const exceeded = handle.limits.check(limits, sample);
+        if (exceeded.length > 0) this.handleLimitExceeded(name, exceeded);
+      }
+    }
+  }
+
+  /** Report each breach, then apply the (shared) `limits.action` once. */
+  private handleLimitExceeded(name: string, exceeded: LimitExceeded[]): void {
+    const handle = this.handles.get(name);
+    if (!handle || this.stopping) return;
+    for (const breach of exceeded) this.emit('process:limit-exceeded', name, breach);
+    const breach = exceeded[0]!;
+    if (breach.action === 'restart') {
+      this.restart([name], { cascade: false }).catch(() => {
+        // failure already emitted via process:failed
+      });
+    } else if (breach.action === 'stop') {
+      void this.stop([name]);
+    }
+    // Set after `restart()` has synchronously cleared it for its targets.
+    handle.limitExceeded = breach;
+  }
+
   private async doPreflight(): Promise<void> {
     this.emit('preflight:start');
     const results = await runPreflight(this.config.preflight);
@@ -356,15 +711,53 @@ export class Orckit extends EventEmitter<OrckitEvents> {
 
   private async startOne(name: string): Promise<void> {
     const handle = this.requireHandle(name);
-    if (handle.state === 'starting' || handle.state === 'ready' || handle.state === 'running') {
-      return;
-    }
+    if (isActive(handle.state)) return;
     handle.retries = 0;
+    handle.crashLoop = null;
+    this.ensureWatching(name);
     await this.spawnAndAwaitReady(name);
   }
 
+  /** Attach the `watch:` file watcher for a process, once. */
+  private ensureWatching(name: string): void {
+    const handle = this.requireHandle(name);
+    const watch = handle.config.watch;
+    if (!watch || handle.watcher) return;
+    handle.watcher = watchFiles(
+      {
+        cwd: resolve(handle.config.cwd ?? '.'),
+        paths: watch.paths,
+        ignore: watch.ignore,
+        debounceMs: watch.debounce_ms,
+      },
+      (files) => this.handleWatchChange(name, files),
+    );
+  }
+
+  private async handleWatchChange(name: string, files: string[]): Promise<void> {
+    const handle = this.handles.get(name);
+    if (!handle || this.stopping) return;
+    // Only restart what's meant to be up: a process still waiting on its deps
+    // starts with the new files anyway, and a stopped one was stopped on purpose.
+    if (handle.state === 'pending' || handle.state === 'stopping' || handle.state === 'stopped') {
+      return;
+    }
+    this.emit('process:watch-triggered', name, files);
+    try {
+      await this.restart([name], { cascade: handle.config.watch?.restart_dependents ?? false });
+    } catch {
+      // failure already emitted via process:failed
+    }
+  }
+
   private async spawnAndAwaitReady(name: string): Promise<void> {
     const handle = this.requireHandle(name);
+    handle.timeline = new BootTimeline(Date.now());
+    handle.parser = parserFor(handle.config);
+    handle.diagnosticParser = handle.parser ? new DiagnosticParser() : null;
+    this.setDiagnostics(name, handle, []);
+    handle.override = handle.pendingOverride;
+    handle.pendingOverride = null;
 
     // For `type: docker`, nuke any container left over from a previous run
     // before pre_start. Failures are swallowed inside the helper — the upcoming
@@ -381,6 +774,7 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     } catch (err) {
       this.applyEvent(name, { kind: 'fail' });
       this.emit('process:failed', name, err as Error);
+      this.bootStep(name, { kind: 'failed', timestamp: Date.now(), error: (err as Error).message });
       throw err;
     }
 
@@ -393,8 +787,9 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     // falsely report "ready (Xms)" while the newly spawned command itself
     // fails to bind — that's the confusing "✓ ready" then "✗ failed" sequence.
     // Fail fast with a clear error instead.
-    const endpoint = readyCheckLocalEndpoint(handle.config.ready);
-    if (endpoint && !(await isPortFree(endpoint.port, endpoint.host))) {
+    for (const check of leafReadyChecks(handle.config.ready)) {
+      const endpoint = readyCheckLocalEndpoint(check);
+      if (!endpoint || (await isPortFree(endpoint.port, endpoint.host))) continue;
       const err = new Error(
         `port ${endpoint.port} is already in use — another process is bound to it ` +
           `(the ready check would falsely succeed against the existing listener). ` +
@@ -402,11 +797,13 @@ export class Orckit extends EventEmitter<OrckitEvents> {
       );
       this.applyEvent(name, { kind: 'fail' });
       this.emit('process:failed', name, err);
+      this.bootStep(name, { kind: 'failed', timestamp: Date.now(), error: err.message });
       throw err;
     }
 
-    const runner = new Runner(name, handle.config);
+    const runner = new Runner(name, applyOverride(handle.config, handle.override));
     handle.runner = runner;
+    handle.limits.reset();
     handle.shutdown = new AbortController();
     handle.startedAt = Date.now();
 
@@ -421,6 +818,7 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     // Do not install the global exit-handler here — we await the exit inline.
     if (ready?.type === 'exit-code') {
       runner.start();
+      this.bootStep(name, { kind: 'spawn', timestamp: Date.now(), pid: runner.pid ?? null });
       const code = await new Promise<number | null>((resolve) => {
         runner.once('exit', (c) => resolve(c));
       });
@@ -428,6 +826,11 @@ export class Orckit extends EventEmitter<OrckitEvents> {
       if (code !== 0) {
         this.applyEvent(name, { kind: 'fail' });
         this.emit('process:failed', name, new Error(`exited with code ${code}`));
+        this.bootStep(name, {
+          kind: 'failed',
+          timestamp: Date.now(),
+          error: `exited with code ${code}`,
+        });
         throw new Error(`process "${name}" exited with code ${code}`);
       }
       this.markReadyAndFinished(name);
@@ -439,6 +842,7 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     // exits (during health check or later) flow through one place.
     runner.once('exit', (code, signal) => this.handleExit(name, code, signal));
     runner.start();
+    this.bootStep(name, { kind: 'spawn', timestamp: Date.now(), pid: runner.pid ?? null });
 
     if (!ready) {
       this.markReadyAndRunning(name);
@@ -446,7 +850,7 @@ export class Orckit extends EventEmitter<OrckitEvents> {
       return;
     }
 
-    const probe = createProbe(ready);
+    const probe = createProbe(ready, { cwd: handle.config.cwd });
     handle.probe = probe;
     try {
       const exitDuringHealth = new Promise<never>((_, reject) => {
@@ -455,19 +859,38 @@ export class Orckit extends EventEmitter<OrckitEvents> {
         );
       });
       await Promise.race([
-        waitForReady(probe, { signal: handle.shutdown.signal }),
+        waitForReady(probe, {
+          signal: handle.shutdown.signal,
+          onAttempt: (attempt, result, latencyMs) => {
+            const probeAttempt: ProbeAttempt = {
+              attempt,
+              timestamp: Date.now() - latencyMs,
+              ok: result.ok,
+              reason: result.reason,
+              latencyMs,
+            };
+            const timeline = handle.timeline;
+            if (!timeline) return;
+            timeline.record({ kind: 'probe', ...probeAttempt });
+            this.emit('process:probe', name, probeAttempt, timeline.startedAt);
+          },
+        }),
         exitDuringHealth,
       ]);
     } catch (err) {
-      if (runner.running) await runner.stop();
-      // handleExit (if it fired) will already have transitioned to failed; otherwise do it here.
+      const failure =
+        err instanceof HealthTimeoutError
+          ? new Error(`"${name}" did not become ready: ${err.message}`)
+          : (err as Error);
+      // handleExit (if it fired) will already have transitioned to failed; otherwise do it
+      // here, before the stop below — its exit would otherwise be reported in place of why.
       if (handle.state !== 'failed') {
         this.applyEvent(name, { kind: 'fail' });
-        this.emit('process:failed', name, err as Error);
+        this.emit('process:failed', name, failure);
       }
-      throw err instanceof HealthTimeoutError
-        ? new Error(`"${name}" did not become ready: ${err.message}`)
-        : (err as Error);
+      this.bootStep(name, { kind: 'failed', timestamp: Date.now(), error: failure.message });
+      if (runner.running) await runner.stop();
+      throw failure;
     }
 
     this.markReadyAndRunning(name);
@@ -476,18 +899,55 @@ export class Orckit extends EventEmitter<OrckitEvents> {
 
   private markReadyAndRunning(name: string): void {
     this.applyEvent(name, { kind: 'ready' });
+    this.bootStep(name, { kind: 'ready', timestamp: Date.now() });
     const handle = this.handles.get(name)!;
     this.emit('process:ready', name, Date.now() - (handle.startedAt ?? Date.now()));
     this.applyEvent(name, { kind: 'mark-running' });
+    handle.healthySince = Date.now();
     this.emit('process:running', name);
+    this.startLiveness(name);
     this.kickPending();
   }
 
+  /** Begin the `liveness:` checks for a process that just came up, if it has any. */
+  private startLiveness(name: string): void {
+    const handle = this.handles.get(name)!;
+    const liveness = handle.config.liveness;
+    if (!liveness) return;
+    const abort = new AbortController();
+    handle.liveness = abort;
+    void monitorLiveness(
+      createLivenessProbe(liveness, { cwd: handle.config.cwd }),
+      liveness,
+      {
+        onUnhealthy: (reason) => {
+          if (handle.state !== 'running') return;
+          this.applyEvent(name, { kind: 'liveness-failed' });
+          this.emit('process:unhealthy', name, reason);
+          void this.maybeRestart(name);
+        },
+        onRecovered: () => {
+          if (handle.state !== 'unhealthy') return;
+          this.applyEvent(name, { kind: 'liveness-recovered' });
+          handle.healthySince = Date.now();
+          this.emit('process:running', name);
+        },
+      },
+      abort.signal,
+    );
+  }
+
+  private stopLiveness(handle: Handle): void {
+    handle.liveness?.abort();
+    handle.liveness = null;
+  }
+
   private markReadyAndFinished(name: string): void {
     // For one-shot (exit-code) processes the "ready" transition coincides with
     // process completion — we skip emitting `process:ready` and let consumers
     // observe `process:finished` (which carries the duration) instead.
     this.applyEvent(name, { kind: 'ready' });
+    this.bootStep(name, { kind: 'ready', timestamp: Date.now() });
     this.applyEvent(name, { kind: 'mark-finished' });
     const handle = this.handles.get(name)!;
     this.emit('process:finished', name, Date.now() - (handle.startedAt ?? Date.now()));
@@ -498,6 +958,7 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     const handle = this.requireHandle(name);
     if (!isActive(handle.state)) return;
 
+    this.stopLiveness(handle);
     await this.runHookSafe(name, 'pre_stop');
 
     this.applyEvent(name, { kind: 'stop-requested' });
@@ -529,7 +990,9 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     const handle = this.handles.get(name);
     if (!handle?.config.kill_orphan_ports) return;
     const ports = new Set(handle.config.ports);
-    if (handle.config.ready?.type === 'tcp') ports.add(handle.config.ready.port);
+    for (const check of leafReadyChecks(handle.config.ready)) {
+      if (check.type === 'tcp') ports.add(check.port);
+    }
     if (ports.size === 0) return;
     const freed = await killPortHolders([...ports]);
     for (const { port, pid } of freed) this.emit('process:port-freed', name, port, pid);
@@ -544,17 +1007,59 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     if (handle.probe?.feedLine) handle.probe.feedLine(text);
     if (handle.parser) {
       const event = handle.parser(text);
-      if (event) this.emit('process:build', name, event);
+      if (event) {
+        if (event.type === 'build:start') this.setDiagnostics(name, handle, []);
+        else if (event.type === 'build:complete' && event.success) {
+          const warnings = handle.diagnostics.filter((d) => d.severity === 'warning');
+          this.setDiagnostics(name, handle, warnings);
+        }
+        this.emit('process:build', name, event);
+        const run = handle.builds.record(event);
+        if (run) {
+          this.emit('process:build-run', name, run);
+          this.saveBuildHistory();
+        }
+      }
+    }
+    const diagnostic = handle.diagnosticParser?.push(text);
+    if (diagnostic && handle.diagnostics.length < MAX_DIAGNOSTICS) {
+      this.setDiagnostics(name, handle, [...handle.diagnostics, diagnostic]);
     }
   }
 
+  /** Write every process's build history to `build_history.file` when `persist` is on. */
+  private saveBuildHistory(): void {
+    const { persist, file } = this.config.build_history;
+    if (!persist) return;
+    for (const [name, handle] of this.handles) this.persistedBuilds[name] = handle.builds.recent();
+    try {
+      saveBuildHistory(resolve(file), this.persistedBuilds);
+    } catch {
+      // Best-effort: without a writable `.orckit/` the history just doesn't
+      // outlive this run.
+    }
+  }
+
+  /** Replace a process's problem list, announcing it when it actually changed. */
+  private setDiagnostics(name: string, handle: Handle, diagnostics: Diagnostic[]): void {
+    const same =
+      diagnostics.length === handle.diagnostics.length &&
+      diagnostics.every((d, i) => d === handle.diagnostics[i]);
+    if (same) return;
+    handle.diagnostics = diagnostics;
+    this.emit('process:diagnostics', name, [...diagnostics]);
+  }
+
   private handleExit(name: string, code: number | null, signal: NodeJS.Signals | null): void {
     void signal;
     const handle = this.handles.get(name);
     if (!handle) return;
     const expected = handle.state === 'stopping' || this.stopping;
+    // Already failed (a ready check gave up and stopped it) and reported as such.
+    const reported = handle.state === 'failed';
     handle.runner = null;
     handle.probe = null;
+    this.stopLiveness(handle);
     this.applyEvent(name, { kind: 'exited', expected, code });
     if (handle.state === 'stopped') {
       const stopMs = handle.stoppingAt != null ? Date.now() - handle.stoppingAt : undefined;
@@ -564,7 +1069,7 @@ export class Orckit extends EventEmitter<OrckitEvents> {
       if (!expected) void this.maybeRestart(name);
       return;
     }
-    this.emit('process:failed', name, new Error(`exited (code ${code ?? '?'})`));
+    if (!reported) this.emit('process:failed', name, new Error(`exited (code ${code ?? '?'})`));
     void this.maybeRestart(name);
   }
 
@@ -572,24 +1077,48 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     if (this.stopping) return;
     const handle = this.handles.get(name);
     if (!handle) return;
+    // A long enough healthy run earns the full retry budget back.
+    const healthyFor = handle.healthySince != null ? Date.now() - handle.healthySince : 0;
+    handle.healthySince = null;
+    const resetAfter = handle.config.reset_retries_after;
+    if (resetAfter != null && healthyFor >= resetAfter) {
+      handle.retries = 0;
+      handle.crashLoop = null;
+    }
+
     const policy = handle.config.restart;
     if (policy === 'never') return;
-    if (policy === 'on-failure' && handle.state !== 'failed') return;
+    // An unhealthy process counts as failed; left alone, it stays unhealthy
+    // (and recovers if its liveness check passes again).
+    const failed = handle.state === 'failed' || handle.state === 'unhealthy';
+    if (policy === 'on-failure' && !failed) return;
+    const loop = handle.crashLoops.record(handle.config.crash_loop);
+    if (loop) {
+      handle.crashLoop = loop;
+      this.emit('process:crash-loop', name, loop);
+    }
     if (handle.retries >= handle.config.max_retries) return;
 
     handle.retries++;
-    this.emit('process:restarting', name, handle.retries);
+    const delayMs = restartDelay(handle.config, handle.retries);
+    // Unlike a crash, an unhealthy process is still up — take it down first.
+    if (handle.state === 'unhealthy') await this.stopOne(name);
 
     // Abortable delay so a manual restart can preempt the queued auto-retry.
     const abort = new AbortController();
     handle.restartAbort = abort;
+    handle.restartAt = Date.now() + delayMs;
+    this.emit('process:restarting', name, handle.retries, delayMs);
     try {
-      await delay(handle.config.restart_delay_ms, abort.signal);
+      await delay(delayMs, abort.signal);
     } catch {
       handle.restartAbort = null;
+      handle.restartAt = null;
+      this.emit('process:restart-cancelled', name);
       return;
     }
     handle.restartAbort = null;
+    handle.restartAt = null;
 
     try {
       await this.spawnAndAwaitReady(name);
@@ -603,6 +1132,8 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     const handle = this.handles.get(name);
     if (!handle?.config.hooks?.[hook]) return;
     this.emit('hook:start', name, hook);
+    const startedAt = Date.now();
+    const onTimeline = hook === 'pre_start' || hook === 'post_start';
     try {
       await runHook(hook, handle.config.hooks, {
         cwd: handle.config.cwd,
@@ -611,12 +1142,37 @@ export class Orckit extends EventEmitter<OrckitEvents> {
         onLine: (text, stream) => this.emit('hook:line', name, hook, text, stream),
       });
       this.emit('hook:complete', name, hook);
+      if (onTimeline) {
+        this.bootStep(name, {
+          kind: 'hook',
+          hook,
+          timestamp: startedAt,
+          durationMs: Date.now() - startedAt,
+        });
+      }
     } catch (err) {
       this.emit('hook:failed', name, hook, err as Error);
+      if (onTimeline) {
+        this.bootStep(name, {
+          kind: 'hook',
+          hook,
+          timestamp: startedAt,
+          durationMs: Date.now() - startedAt,
+          error: (err as Error).message,
+        });
+      }
       throw err;
     }
   }
 
+  /** Add a non-probe step to the process's current boot timeline and announce it. */
+  private bootStep(name: string, step: Exclude<BootStep, { kind: 'probe' }>): void {
+    const handle = this.handles.get(name);
+    if (!handle?.timeline) return;
+    handle.timeline.record(step);
+    this.emit('process:boot-step', name, step, handle.timeline.startedAt);
+  }
+
   private applyEvent(name: string, event: LifecycleEvent): void {
     const handle = this.handles.get(name);
     if (!handle) return;
@@ -626,19 +1182,35 @@ export class Orckit extends EventEmitter<OrckitEvents> {
     this.emit('process:state', name, next);
   }
 
-  private makeHandle(config: ProcessConfig): Handle {
+  private makeHandle(config: ProcessConfig, builds: BuildRun[] = []): Handle {
+    const parser = parserFor(config);
     return {
       state: 'pending',
       config,
       runner: null,
       probe: null,
+      liveness: null,
       buffer: new OutputBuffer(config.buffer_size, config.output),
-      parser: getParser(config.type),
+      metrics: new MetricsHistory(this.config.metrics.history),
+      limits: new LimitTracker(),
+      limitExceeded: null,
+      parser,
+      diagnosticParser: parser ? new DiagnosticParser() : null,
+      diagnostics: [],
+      builds: new BuildHistory(this.config.build_history.size, builds),
       retries: 0,
       shutdown: null,
       restartAbort: null,
+      restartAt: null,
+      healthySince: null,
+      crashLoops: new CrashLoopDetector(),
+      crashLoop: null,
+      pendingOverride: null,
+      override: null,
+      watcher: null,
       startedAt: null,
       stoppingAt: null,
+      timeline: null,
     };
   }
 
@@ -666,3 +1238,13 @@ function delay(ms: number, signal?: AbortSignal): Promise<void> {
     signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
+
+/** The config a spawn runs with: `config` with `override`'s command and env on top. */
+function applyOverride(config: ProcessConfig, override: ProcessOverride | null): ProcessConfig {
+  if (!override) return config;
+  return {
+    ...config,
+    command: override.command ?? config.command,
+    env: { ...config.env, ...override.env },
+  };
+}
@@ -0,0 +1,114 @@
+import { dirname, relative, sep } from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
+import type { OrckitConfig } from '../config/schema.js';
+import { allocateConfigPorts, loadConfig, type LoadOptions } from '../config/load.js';
+import { configFiles } from '../config/compose.js';
+import type { Orckit } from './orchestrator.js';
+import { watchFiles, type FileWatchHandle } from './watch.js';
+
+/** What `Orckit.reload()` did, by process name (config order). */
+export interface ConfigChange {
+  added: string[];
+  removed: string[];
+  /** Processes whose resolved config differs between the two configs. */
+  changed: string[];
+  /** Changed processes and their dependents that were up and got restarted. */
+  restarted: string[];
+}
+
+/** Compare two configs' processes field by field (after interpolation and profiles). */
+export function diffProcesses(
+  prev: OrckitConfig,
+  next: OrckitConfig,
+): Omit<ConfigChange, 'restarted'> {
+  const added: string[] = [];
+  const changed: string[] = [];
+  for (const [name, config] of Object.entries(next.processes)) {
+    const before = prev.processes[name];
+    if (!before) added.push(name);
+    else if (!isDeepStrictEqual(before, config)) changed.push(name);
+  }
+  const removed = Object.keys(prev.processes).filter((name) => !(name in next.processes));
+  return { added, removed, changed };
+}
+
+/** `"+worker −legacy ~api"` — the one-line form reporters print after a reload. */
+export function describeConfigChange(change: ConfigChange): string {
+  const parts = [
+    ...change.added.map((n) => `+${n}`),
+    ...change.removed.map((n) => `−${n}`),
+    ...change.changed.map((n) => `~${n}`),
+  ];
+  return parts.length > 0 ? parts.join(' ') : 'no process changes';
+}
+
+export interface ConfigWatchOptions {
+  /** The config file `orc start` loaded. */
+  configPath: string;
+  /** Passed to every `loadConfig` — the `--profile` the stack was started with. */
+  profile?: LoadOptions['profile'];
+  /** Quiet period after the last edit before reloading. Default: 300ms. */
+  debounceMs?: number;
+  /** A reload was applied (also announced as `config:reloaded` on the orckit). */
+  onReload?: (change: ConfigChange) => void;
+  /**
+   * An edit that doesn't load (`ConfigError`) or doesn't resolve
+   * (`DependencyError`). The running stack is left as it was.
+   */
+  onError?: (err: Error) => void;
+}
+
+/**
+ * Reload `orckit` whenever its config file — or any file it `extends` or
+ * `include`s — changes. Each change re-runs `loadConfig` and hands the result
+ * to `Orckit.reload()`; `auto` ports keep their current allocation (new ones
+ * get a free port), so only processes whose config actually changed restart.
+ * Edits made while a reload is in flight are applied in one more reload after
+ * it.
+ */
+export function watchConfig(orckit: Orckit, opts: ConfigWatchOptions): FileWatchHandle {
+  let watcher: FileWatchHandle | null = null;
+  let closed = false;
+
+  const reload = async () => {
+    try {
+      const next = await allocateConfigPorts(
+        loadConfig(opts.configPath, { profile: opts.profile, keepPorts: orckit.config.ports }),
+      );
+      const change = await orckit.reload(next);
+      opts.onReload?.(change);
+    } catch (err) {
+      opts.onError?.(err as Error);
+    }
+    // An edit may have added or dropped an include; follow the new file set.
+    if (!closed) arm();
+  };
+
+  const arm = () => {
+    watcher?.close();
+    const files = configFiles(opts.configPath);
+    const cwd = dirname(files[0]!);
+    watcher = watchFiles(
+      {
+        cwd,
+        paths: files.map((f) => relativeTo(cwd, f)),
+        ignore: [],
+        debounceMs: opts.debounceMs ?? 300,
+      },
+      reload,
+    );
+  };
+
+  arm();
+  return {
+    close() {
+      closed = true;
+      watcher?.close();
+    },
+  };
+}
+
+/** `file` relative to `dir` with `/` separators, as `watchFiles` globs expect. */
+function relativeTo(dir: string, file: string): string {
+  return relative(dir, file).split(sep).join('/');
+}
@@ -0,0 +1,56 @@
+import type { ProcessConfig } from '../config/schema.js';
+
+/** `crash_loop:` fired — `failures` restarts within `windowMs`. */
+export interface CrashLoop {
+  failures: number;
+  windowMs: number;
+  message: string;
+}
+
+/**
+ * How long to wait before restart `attempt` (1-based). Without
+ * `restart_backoff` that's the flat `restart_delay_ms`; with it, `initial`
+ * grows by `multiplier` per attempt up to `max`, then `jitter` spreads it by
+ * up to that fraction either way so a stack of crashing processes doesn't
+ * retry in lockstep.
+ */
+export function restartDelay(
+  config: Pick<ProcessConfig, 'restart_delay_ms' | 'restart_backoff'>,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const backoff = config.restart_backoff;
+  if (!backoff) return config.restart_delay_ms;
+  const base = Math.min(backoff.max, backoff.initial * backoff.multiplier ** (attempt - 1));
+  const spread = backoff.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(base * (1 + spread)));
+}
+
+/**
+ * Counts restart-worthy failures of one process in a sliding window. Reports
+ * once when the window fills, then starts counting afresh, so a process that
+ * keeps looping is reported once per `failures` failures rather than on every
+ * one after the threshold.
+ */
+export class CrashLoopDetector {
+  private failures: number[] = [];
+
+  /** Note a failure at `now`; returns the loop when this one completes it. */
+  record(config: ProcessConfig['crash_loop'], now = Date.now()): CrashLoop | null {
+    this.failures = this.failures.filter((t) => now - t < config.within);
+    this.failures.push(now);
+    if (this.failures.length < config.failures) return null;
+    this.failures = [];
+    return {
+      failures: config.failures,
+      windowMs: config.within,
+      message: `crash loop: ${config.failures} failures within ${formatWindow(config.within)}`,
+    };
+  }
+}
+
+function formatWindow(ms: number): string {
+  if (ms % 60_000 === 0) return `${ms / 60_000}m`;
+  if (ms % 1000 === 0) return `${ms / 1000}s`;
+  return `${ms}ms`;
+}
@@ -0,0 +1,69 @@
+/** One ready-check attempt. */
+export interface ProbeAttempt {
+  /** 1-based, per spawn. */
+  attempt: number;
+  /** When the attempt started. */
+  timestamp: number;
+  ok: boolean;
+  /** Why it failed, as the probe put it. */
+  reason?: string;
+  /** How long the probe took to answer. */
+  latencyMs: number;
+}
+
+/** One step of a process's boot, in the order they happened. */
+export type BootStep =
+  | {
+      kind: 'hook';
+      hook: 'pre_start' | 'post_start';
+      timestamp: number;
+      durationMs: number;
+      /** Set when the hook failed. */
+      error?: string;
+    }
+  | { kind: 'spawn'; timestamp: number; pid: number | null }
+  | ({ kind: 'probe' } & ProbeAttempt)
+  | { kind: 'ready'; timestamp: number }
+  | { kind: 'failed'; timestamp: number; error: string };
+
+export interface BootTimelineSnapshot {
+  /** When this boot began (before `pre_start`). */
+  startedAt: number;
+  steps: BootStep[];
+  /** Probe attempts dropped from the middle of a long wait to bound the size. */
+  droppedProbes: number;
+}
+
+/** Probe steps kept per boot; a log-pattern check polls every 100ms. */
+const MAX_PROBE_STEPS = 200;
+
+/**
+ * The steps of one boot of one process: hooks, spawn, every ready-check
+ * attempt, and how it ended. Replaced on every spawn, so it always describes
+ * the latest boot. Past `MAX_PROBE_STEPS` the oldest probe attempts are
+ * dropped (the first one is kept — it shows how the wait began).
+ */
+export class BootTimeline {
+  private readonly steps: BootStep[] = [];
+  private probes = 0;
+  private dropped = 0;
+
+  constructor(readonly startedAt: number) {}
+
+  record(step: BootStep): void {
+    if (step.kind === 'probe' && ++this.probes > MAX_PROBE_STEPS) {
+      const first = this.steps.findIndex((s) => s.kind === 'probe');
+      const second = this.steps.findIndex((s, i) => i > first && s.kind === 'probe');
+      if (second !== -1) {
+        this.steps.splice(second, 1);
+        this.probes--;
+        this.dropped++;
+      }
+    }
+    this.steps.push(step);
+  }
+
+  snapshot(): BootTimelineSnapshot {
+    return { startedAt: this.startedAt, steps: [...this.steps], droppedProbes: this.dropped };
+  }
+}
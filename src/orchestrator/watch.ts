@@ -0,0 +1,193 @@
+import { readdirSync, statSync, watch, type Dirent, type FSWatcher } from 'node:fs';
+import { basename, dirname, join, relative, resolve, sep } from 'node:path';
+import { globBase, globToRegExp, hasGlobChars } from '../util/glob.js';
+
+export interface FileWatchOptions {
+  /** Directory the globs are relative to (the process's cwd). */
+  cwd: string;
+  /** Globs (or plain file/directory paths) whose changes trigger `onChange`. */
+  paths: string[];
+  /** Globs excluded even when a `paths` entry matches. */
+  ignore: string[];
+  /** Quiet period after the last change before `onChange` fires. */
+  debounceMs: number;
+}
+
+export interface FileWatchHandle {
+  close(): void;
+}
+
+/**
+ * Directories no watch descends into — dependencies, VCS metadata, build
+ * output and orckit's own files, which change on every install or build —
+ * unless a `paths` entry names one explicitly.
+ */
+const IGNORED_DIRS = ['node_modules', '.git', 'dist', 'build', 'coverage', '.orckit'];
+
+/**
+ * Watch `paths` under `cwd` and call `onChange` with the changed files
+ * (relative to `cwd`, sorted) once changes have been quiet for `debounceMs`.
+ * While an `onChange` promise is pending, further changes are collected and
+ * delivered in one batch after it settles — an edit made while a restart is
+ * in flight still triggers one more restart, not one per file.
+ *
+ * Each glob's literal base directory is watched: on its own when the glob
+ * only reaches its direct entries (`*.py`, `src/*.go`), otherwise together
+ * with every directory below it, skipping `IGNORED_DIRS`. Directories created
+ * under such a base later are watched as they appear. Bases that don't exist
+ * are skipped. Changes under an ignored directory or matching `ignore` are
+ * dropped before they reach the debounce.
+ */
+export function watchFiles(
+  opts: FileWatchOptions,
+  onChange: (files: string[]) => Promise<void> | void,
+): FileWatchHandle {
+  const include = opts.paths.flatMap((p) => {
+    // Each path skips the ignored directories it doesn't name itself.
+    const skips = IGNORED_DIRS.filter((dir) => !p.split('/').includes(dir));
+    const inSkipped = (rel: string) => rel.split('/').some((segment) => skips.includes(segment));
+    // A plain directory path means "anything below it".
+    const res = hasGlobChars(p) ? [globToRegExp(p)] : [globToRegExp(p), globToRegExp(`${p}/**`)];
+    return res.map((re) => (rel: string) => re.test(rel) && !inSkipped(rel));
+  });
+  const exclude = opts.ignore.map((p) => globToRegExp(p));
+  // Not descended into at all: the ignored directories no path names.
+  const ignoredDirs = new Set(
+    IGNORED_DIRS.filter((dir) => !opts.paths.some((p) => p.split('/').includes(dir))),
+  );
+  const matches = (rel: string) =>
+    include.some((test) => test(rel)) && !exclude.some((re) => re.test(rel));
+
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+  let closed = false;
+
+  const flush = () => {
+    timer = null;
+    if (closed || running || pending.size === 0) return;
+    const files = [...pending].sort();
+    pending.clear();
+    running = true;
+    void Promise.resolve()
+      .then(() => onChange(files))
+      .catch(() => {
+        // The callback owns its error reporting; a throw must not kill the watch.
+      })
+      .finally(() => {
+        running = false;
+        if (pending.size > 0) schedule();
+      });
+  };
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, opts.debounceMs);
+  };
+
+  const watchers = new Map<string, FSWatcher>();
+  const unwatch = (dir: string) => {
+    for (const [watched, watcher] of watchers) {
+      if (watched === dir || watched.startsWith(dir + sep)) {
+        watcher.close();
+        watchers.delete(watched);
+      }
+    }
+  };
+  const watchDir = (dir: string, tree: boolean) => {
+    if (closed || watchers.has(dir)) return;
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(dir, { persistent: false }, (_event, filename) => {
+        if (closed || !filename) return;
+        const path = resolve(dir, filename.toString());
+        if (tree) {
+          // Follow directories appearing and disappearing below the base.
+          if (!isDirectory(path)) unwatch(path);
+          else if (!ignoredDirs.has(basename(path))) watchTree(path);
+        }
+        const rel = relative(opts.cwd, path).split(sep).join('/');
+        if (!matches(rel)) return;
+        pending.add(rel);
+        if (!running) schedule();
+      });
+    } catch {
+      // Vanished between the stat and the watch.
+      return;
+    }
+    // A watched directory that disappears errors the watcher; there's
+    // nothing left to observe there, so just let it go.
+    watcher.on('error', () => unwatch(dir));
+    watchers.set(dir, watcher);
+  };
+  const watchTree = (dir: string) => {
+    watchDir(dir, true);
+    let entries: Dirent[];
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory() && !ignoredDirs.has(entry.name)) watchTree(join(dir, entry.name));
+    }
+  };
+
+  for (const [dir, tree] of watchRoots(opts.cwd, opts.paths)) {
+    if (tree) watchTree(dir);
+    else watchDir(dir, false);
+  }
+
+  return {
+    close() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
+
+/**
+ * The directories to watch — each glob's base (a plain file path is watched
+ * through its parent), minus missing ones — and whether each needs the whole
+ * tree below it: a plain directory path or a glob reaching past one segment
+ * under its base does. A root inside another's tree is covered by it.
+ */
+function watchRoots(cwd: string, paths: string[]): Map<string, boolean> {
+  const roots = new Map<string, boolean>();
+  for (const p of paths) {
+    const baseRel = globBase(p);
+    const base = resolve(cwd, baseRel);
+    let dir: string;
+    let tree: boolean;
+    try {
+      if (statSync(base).isDirectory()) {
+        const below = baseRel === '.' ? p.replace(/^\.\//, '') : p.slice(baseRel.length + 1);
+        dir = base;
+        tree = !hasGlobChars(p) || below.includes('/') || below.includes('**');
+      } else {
+        dir = dirname(base);
+        tree = false;
+      }
+    } catch {
+      // Not there (yet); nothing to watch.
+      continue;
+    }
+    roots.set(dir, roots.get(dir) === true || tree);
+  }
+  const trees = [...roots].filter(([, tree]) => tree).map(([dir]) => dir);
+  return new Map([...roots].filter(([dir]) => !trees.some((other) => dir.startsWith(other + sep))));
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/** `"main.go changed"` / `"3 files changed"` — the short form reporters show for a watch trigger. */
+export function describeWatchTrigger(files: string[]): string {
+  return files.length === 1 ? `${files[0]} changed` : `${files.length} files changed`;
+}
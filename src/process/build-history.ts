@@ -0,0 +1,129 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { BuildEvent } from './parsers.js';
+
+/** One finished build of a process. */
+export interface BuildRun {
+  /** When the build began — its `build:start`, or when it completed if none was seen. */
+  startedAt: number;
+  /** As the tool reported it, else measured from `build:start`; unset when neither is known. */
+  durationMs?: number;
+  success: boolean;
+  errors: number;
+  warnings: number;
+}
+
+/** Duration percentiles and failure count over a set of runs. */
+export interface BuildStats {
+  runs: number;
+  failures: number;
+  /** Over the runs that have a duration; null when none does. */
+  p50Ms: number | null;
+  p95Ms: number | null;
+}
+
+/**
+ * The finished builds of one process, oldest first, at most `capacity`. Fed
+ * every build event: a `build:start` opens a run and the next `build:complete`
+ * closes it. A `build:failed` alone doesn't end a run — the parsers report one
+ * per error line of a build that's still going.
+ */
+export class BuildHistory {
+  private readonly runs: BuildRun[];
+  private startedAt: number | null = null;
+
+  constructor(
+    public readonly capacity: number,
+    runs: BuildRun[] = [],
+  ) {
+    this.runs = runs.slice(-capacity);
+  }
+
+  /** Follow one build event; returns the run a `build:complete` finishes. */
+  record(event: BuildEvent, now = Date.now()): BuildRun | null {
+    if (event.type === 'build:start') {
+      this.startedAt = now;
+      return null;
+    }
+    if (event.type !== 'build:complete') return null;
+    const opened = this.startedAt;
+    this.startedAt = null;
+    const durationMs = event.durationMs ?? (opened != null ? Math.max(0, now - opened) : undefined);
+    const run: BuildRun = {
+      startedAt: opened ?? now,
+      ...(durationMs != null ? { durationMs } : {}),
+      success: event.success,
+      errors: event.errors,
+      warnings: event.warnings,
+    };
+    this.runs.push(run);
+    if (this.runs.length > this.capacity) this.runs.shift();
+    return run;
+  }
+
+  /** The most recent `n` runs (default: all), oldest first. */
+  recent(n = this.runs.length): BuildRun[] {
+    return n > 0 ? this.runs.slice(-n) : [];
+  }
+}
+
+export function buildStats(runs: BuildRun[]): BuildStats {
+  const durations = runs.flatMap((r) => (r.durationMs != null ? [r.durationMs] : []));
+  durations.sort((a, b) => a - b);
+  return {
+    runs: runs.length,
+    failures: runs.filter((r) => !r.success).length,
+    p50Ms: percentile(durations, 50),
+    p95Ms: percentile(durations, 95),
+  };
+}
+
+/** Nearest-rank percentile of ascending `sorted`; null when it's empty. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]!;
+}
+
+/**
+ * Runs per process from a file written by `saveBuildHistory`. A missing or
+ * unreadable file is an empty history — it's a cache, not a source of truth.
+ */
+export function loadBuildHistory(file: string): Record<string, BuildRun[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch {
+    return {};
+  }
+  if (typeof parsed !== 'object' || parsed === null) return {};
+  const history: Record<string, BuildRun[]> = {};
+  for (const [name, runs] of Object.entries(parsed)) {
+    if (Array.isArray(runs)) history[name] = runs.filter(isBuildRun);
+  }
+  return history;
+}
+
+/**
+ * Write `history` to `file`, creating its directory. Goes through a temp file
+ * and a rename so a crash mid-write can't leave half a file behind.
+ */
+export function saveBuildHistory(file: string, history: Record<string, BuildRun[]>): void {
+  mkdirSync(dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  writeFileSync(tmp, `${JSON.stringify(history)}\n`);
+  renameSync(tmp, file);
+}
+
+function isBuildRun(value: unknown): value is BuildRun {
+  const run = value as Partial<BuildRun> | null;
+  return (
+    typeof run === 'object' &&
+    run !== null &&
+    typeof run.startedAt === 'number' &&
+    typeof run.success === 'boolean' &&
+    typeof run.errors === 'number' &&
+    typeof run.warnings === 'number' &&
+    (run.durationMs === undefined || typeof run.durationMs === 'number')
+  );
+}
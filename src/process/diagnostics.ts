@@ -0,0 +1,150 @@
+import { stripAnsi } from './parsers.js';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/** One problem a compiler or linter reported against a file. */
+export interface Diagnostic {
+  /** As the tool printed it — usually relative to the process's cwd. */
+  file: string;
+  line?: number;
+  column?: number;
+  severity: DiagnosticSeverity;
+  /** The tool's code for the problem: `TS2322`, `NG8001`, an eslint rule. */
+  code?: string;
+  message: string;
+}
+
+// tsc: "src/a.ts(12,5): error TS2322: Type ..." and, with --pretty (the watch
+// default), "src/a.ts:12:5 - error TS2322: Type ...". Angular forwards the
+// latter behind an "Error: " prefix and uses NG codes for template errors.
+const TSC_PLAIN = /^(?:Error: )?(\S.*?)\((\d+),(\d+)\): (error|warning) ([A-Z]+\d+): (.*)$/;
+const TSC_PRETTY = /(?:^|\s)(\S+?):(\d+):(\d+) - (error|warning) ([A-Z]+\d+): (.*)$/;
+// esbuild (and Angular's esbuild builder): "✘ [ERROR] Could not resolve "x"",
+// a blank line, then the location on its own line: "    src/a.ts:1:7:".
+const ESBUILD_HEADER = /^\s*[✘▲] \[(ERROR|WARNING)\] (.*?)(?: \[plugin [^\]]+\])?\s*$/;
+const ESBUILD_LOCATION = /^\s+(\S.*?):(\d+):(\d+):\s*$/;
+// webpack: "ERROR in ./src/a.ts 12:4-10", "ERROR in ./src/a.ts:12:4", ts-loader's
+// "[tsl] ERROR in /app/src/a.ts(12,5)". The message is either on the same line
+// after " - " or on the next one. "ERROR in [eslint]" introduces eslint output
+// and is left to the eslint patterns.
+const WEBPACK_HEADER =
+  /^\s*(?:\[tsl\] )?(ERROR|WARNING) in ([^\s[]\S*?)(?:(?::| )(\d+):(\d+)(?:-\d+)?|\((\d+),(\d+)\))?(?:\s+-\s+(.*))?\s*$/;
+// eslint's default "stylish" formatter: the file on its own line, then one
+// indented "  12:5  error  'x' is defined but never used  no-unused-vars" per
+// problem, a blank line after each file.
+const ESLINT_FILE = /^(?:\/|[A-Za-z]:\\|\.{1,2}\/)?[\w.@~-]+(?:[\\/][\w.@~-]+)+\.\w+$/;
+const ESLINT_PROBLEM = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?\s*$/;
+// eslint's "compact" formatter: "/app/src/a.ts: line 12, col 5, Error - msg (rule)".
+const ESLINT_COMPACT =
+  /^(\S.*?): line (\d+), col (\d+), (Error|Warning) - (.*?)(?: \(([@\w/-]+)\))?\s*$/;
+// A code in front of a message: "TS2322: Type ..." (Angular via esbuild, ts-loader).
+const LEADING_CODE = /^([A-Z]+\d+): (.*)$/;
+// A rule id after it: "Comparison with -0 ... [equals-negative-zero]" (esbuild).
+const TRAILING_CODE = /^(.*?) \[([\w-]+)\]$/;
+
+type Pending =
+  | { kind: 'esbuild'; severity: DiagnosticSeverity; message: string }
+  | { kind: 'webpack'; file: string; line?: number; column?: number; severity: DiagnosticSeverity };
+
+/**
+ * Picks structured diagnostics out of compiler and linter output: tsc (plain
+ * and --pretty), esbuild, webpack (including ts-loader), eslint (stylish and
+ * compact) and Angular, which prints tsc- and esbuild-style diagnostics.
+ * Several of these spread one diagnostic over a few lines, so the parser keeps
+ * state between lines — use one per process.
+ */
+export class DiagnosticParser {
+  private pending: Pending | null = null;
+  /** The file an eslint stylish block is listing problems for. */
+  private eslintFile: string | null = null;
+
+  /** Feed one line; returns a diagnostic when this line completes one. */
+  push(rawLine: string): Diagnostic | null {
+    const line = stripAnsi(rawLine);
+    if (this.pending) {
+      if (line.trim() === '') return null;
+      const pending = this.pending;
+      this.pending = null;
+      if (pending.kind === 'webpack') {
+        const { file, line: lineNo, column, severity } = pending;
+        return withCode({ file, line: lineNo, column, severity, message: line.trim() });
+      }
+      const at = ESBUILD_LOCATION.exec(line);
+      if (at) {
+        return withCode({
+          file: at[1]!,
+          line: Number(at[2]),
+          column: Number(at[3]),
+          severity: pending.severity,
+          message: pending.message,
+        });
+      }
+      // No location after the header: nothing to point at. Read this line afresh.
+    }
+
+    let m = TSC_PLAIN.exec(line) ?? TSC_PRETTY.exec(line);
+    if (m) {
+      return {
+        file: m[1]!,
+        line: Number(m[2]),
+        column: Number(m[3]),
+        severity: m[4] as DiagnosticSeverity,
+        code: m[5],
+        message: m[6]!.trim(),
+      };
+    }
+    if ((m = ESLINT_COMPACT.exec(line))) {
+      return {
+        file: m[1]!,
+        line: Number(m[2]),
+        column: Number(m[3]),
+        severity: m[4] === 'Error' ? 'error' : 'warning',
+        code: m[6],
+        message: m[5]!.trim(),
+      };
+    }
+    if ((m = ESBUILD_HEADER.exec(line))) {
+      this.pending = { kind: 'esbuild', severity: severityOf(m[1]!), message: m[2]!.trim() };
+      return null;
+    }
+    if ((m = WEBPACK_HEADER.exec(line))) {
+      const lineNo = m[3] ?? m[5];
+      const column = m[4] ?? m[6];
+      const location = {
+        file: m[2]!,
+        line: lineNo ? Number(lineNo) : undefined,
+        column: column ? Number(column) : undefined,
+        severity: severityOf(m[1]!),
+      };
+      if (m[7]) return withCode({ ...location, message: m[7].trim() });
+      this.pending = { kind: 'webpack', ...location };
+      return null;
+    }
+    if (this.eslintFile && (m = ESLINT_PROBLEM.exec(line))) {
+      return {
+        file: this.eslintFile,
+        line: Number(m[1]),
+        column: Number(m[2]),
+        severity: m[3] as DiagnosticSeverity,
+        code: m[5],
+        message: m[4]!.trim(),
+      };
+    }
+    if (ESLINT_FILE.test(line)) this.eslintFile = line;
+    else if (line.trim() === '') this.eslintFile = null;
+    return null;
+  }
+}
+
+function severityOf(label: string): DiagnosticSeverity {
+  return label === 'ERROR' ? 'error' : 'warning';
+}
+
+/** Move a leading `TS2322:` or trailing `[rule-id]` out of the message into `code`. */
+function withCode(diagnostic: Diagnostic): Diagnostic {
+  const leading = LEADING_CODE.exec(diagnostic.message);
+  if (leading) return { ...diagnostic, code: leading[1], message: leading[2]! };
+  const trailing = TRAILING_CODE.exec(diagnostic.message);
+  if (trailing) return { ...diagnostic, code: trailing[2], message: trailing[1]! };
+  return diagnostic;
+}
@@ -0,0 +1,78 @@
+import type { LimitAction, LimitsConfig } from '../config/schema.js';
+import { formatDuration } from '../config/duration.js';
+import { formatBytes, type MetricsSample } from './metrics.js';
+
+export type LimitKind = 'memory' | 'cpu';
+
+/** A `limits:` ceiling that stayed crossed for `sustained_for`. */
+export interface LimitExceeded {
+  limit: LimitKind;
+  /** The sample that tripped it: bytes for memory, percent of one core for CPU. */
+  value: number;
+  /** The configured ceiling, in the same unit as `value`. */
+  max: number;
+  /** How long the process had been over the ceiling. */
+  sustainedMs: number;
+  action: LimitAction;
+  /** `"memory 6.1 GB over the 4.0 GB limit for 30.0s"` — the process's last error. */
+  message: string;
+}
+
+/**
+ * Per-process state for checking samples against `limits:`. A limit trips
+ * once every sample over a span of `sustained_for` exceeded it, and then not
+ * again until a sample drops back under — one report per episode, not one
+ * per sample.
+ */
+export class LimitTracker {
+  private readonly overSince = new Map<LimitKind, number>();
+  private readonly tripped = new Set<LimitKind>();
+
+  /** Returns the breaches this sample completes (usually none). */
+  check(limits: LimitsConfig, sample: MetricsSample): LimitExceeded[] {
+    const exceeded: LimitExceeded[] = [];
+    const ceilings: [LimitKind, number | undefined, number][] = [
+      [
+        'memory',
+        limits.max_memory_mb != null ? limits.max_memory_mb * 1024 * 1024 : undefined,
+        sample.rss,
+      ],
+      ['cpu', limits.max_cpu_percent, sample.cpu],
+    ];
+    for (const [kind, max, value] of ceilings) {
+      if (max == null || value <= max) {
+        this.overSince.delete(kind);
+        this.tripped.delete(kind);
+        continue;
+      }
+      const since = this.overSince.get(kind) ?? sample.timestamp;
+      this.overSince.set(kind, since);
+      const sustainedMs = sample.timestamp - since;
+      if (this.tripped.has(kind) || sustainedMs < limits.sustained_for) continue;
+      this.tripped.add(kind);
+      exceeded.push({
+        limit: kind,
+        value,
+        max,
+        sustainedMs,
+        action: limits.action,
+        message: describeLimit(kind, value, max, sustainedMs),
+      });
+    }
+    return exceeded;
+  }
+
+  /** Forget any episode in progress — the process was (re)spawned. */
+  reset(): void {
+    this.overSince.clear();
+    this.tripped.clear();
+  }
+}
+
+function describeLimit(kind: LimitKind, value: number, max: number, sustainedMs: number): string {
+  const over =
+    kind === 'memory'
+      ? `memory ${formatBytes(value)} over the ${formatBytes(max)} limit`
+      : `CPU ${Math.round(value)}% over the ${max}% limit`;
+  return sustainedMs > 0 ? `${over} for ${formatDuration(sustainedMs)}` : over;
+}
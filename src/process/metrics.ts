@@ -0,0 +1,174 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+/** One resource reading for a process's whole process group. */
+export interface MetricsSample {
+  timestamp: number;
+  /**
+   * CPU used since the previous sample, as a percentage of one core (a group
+   * keeping two cores busy reads 200). 0 for the first sample of a spawn.
+   */
+  cpu: number;
+  /** Resident memory of every process in the group, in bytes. */
+  rss: number;
+  /** How many processes the group had. */
+  processes: number;
+}
+
+/** Raw counters for one process group, summed over its members. */
+export interface GroupUsage {
+  /** utime + stime of every member, in clock ticks. */
+  cpuTicks: number;
+  rssBytes: number;
+  processes: number;
+}
+
+/**
+ * Clock ticks per second for `/proc/<pid>/stat` times. `USER_HZ` is fixed at
+ * 100 on every Linux architecture as part of the userspace ABI.
+ */
+const CLOCK_TICKS = 100;
+
+/**
+ * Sum CPU time and RSS per process group from `/proc`, for the groups in
+ * `pgids`. One pass over `/proc/<pid>/stat` finds the members (its `pgrp`
+ * field); RSS comes from each member's `status` (`VmRSS`, in kB). Processes
+ * that exit mid-scan are skipped. Linux only — returns an empty map when
+ * `/proc` can't be read.
+ */
+export function readGroupUsage(
+  pgids: ReadonlySet<number>,
+  procDir = '/proc',
+): Map<number, GroupUsage> {
+  const usage = new Map<number, GroupUsage>();
+  if (pgids.size === 0) return usage;
+  let entries: string[];
+  try {
+    entries = readdirSync(procDir);
+  } catch {
+    return usage;
+  }
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) continue;
+    try {
+      const stat = parseStat(readFileSync(join(procDir, entry, 'stat'), 'utf-8'));
+      if (!stat || !pgids.has(stat.pgrp)) continue;
+      const status = readFileSync(join(procDir, entry, 'status'), 'utf-8');
+      const rssKb = Number(/^VmRSS:\s+(\d+)\s+kB/m.exec(status)?.[1] ?? 0);
+      const group = usage.get(stat.pgrp) ?? { cpuTicks: 0, rssBytes: 0, processes: 0 };
+      group.cpuTicks += stat.utime + stat.stime;
+      group.rssBytes += rssKb * 1024;
+      group.processes++;
+      usage.set(stat.pgrp, group);
+    } catch {
+      // Exited between readdir and read.
+    }
+  }
+  return usage;
+}
+
+/**
+ * The fields of a `/proc/<pid>/stat` line we need. The command name (field 2)
+ * is parenthesized and may itself contain spaces and parentheses, so fields
+ * are counted from the last `)`.
+ */
+function parseStat(text: string): { pgrp: number; utime: number; stime: number } | null {
+  const close = text.lastIndexOf(')');
+  if (close === -1) return null;
+  // Field 3 (state) onwards.
+  const fields = text.slice(close + 2).split(' ');
+  const pgrp = Number(fields[2]);
+  const utime = Number(fields[11]);
+  const stime = Number(fields[12]);
+  if (![pgrp, utime, stime].every(Number.isFinite)) return null;
+  return { pgrp, utime, stime };
+}
+
+/** Fixed-capacity history of samples; the oldest drop off once it's full. */
+export class MetricsHistory {
+  private readonly samples: (MetricsSample | undefined)[];
+  private next = 0;
+  private count = 0;
+
+  constructor(public readonly capacity: number) {
+    this.samples = new Array<MetricsSample | undefined>(capacity);
+  }
+
+  push(sample: MetricsSample): void {
+    this.samples[this.next] = sample;
+    this.next = (this.next + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  /** The most recent `n` samples (default: all), oldest first. */
+  recent(n = this.count): MetricsSample[] {
+    const take = Math.max(0, Math.min(n, this.count));
+    const out: MetricsSample[] = [];
+    for (let i = take; i > 0; i--) {
+      out.push(this.samples[(this.next - i + this.capacity) % this.capacity]!);
+    }
+    return out;
+  }
+
+  latest(): MetricsSample | undefined {
+    return this.count > 0
+      ? this.samples[(this.next - 1 + this.capacity) % this.capacity]
+      : undefined;
+  }
+
+  size(): number {
+    return this.count;
+  }
+}
+
+/**
+ * Turns successive `/proc` readings into samples. CPU% needs two readings of
+ * the same group, so the sampler remembers the last counters per group; a
+ * restarted process has a new pgid and starts from scratch.
+ */
+export class MetricsSampler {
+  private previous = new Map<number, { cpuTicks: number; at: number }>();
+
+  constructor(private readonly procDir = '/proc') {}
+
+  /**
+   * Sample every `name → pgid` in `groups`. Groups with no live member left
+   * (the process just exited) are omitted from the result.
+   */
+  sample(groups: ReadonlyMap<string, number>, now = Date.now()): Map<string, MetricsSample> {
+    const usage = readGroupUsage(new Set(groups.values()), this.procDir);
+    const samples = new Map<string, MetricsSample>();
+    const seen = new Map<number, { cpuTicks: number; at: number }>();
+    for (const [name, pgid] of groups) {
+      const group = usage.get(pgid);
+      if (!group) continue;
+      const prev = this.previous.get(pgid);
+      const elapsedSec = prev ? (now - prev.at) / 1000 : 0;
+      const cpu =
+        prev && elapsedSec > 0
+          ? Math.max(0, ((group.cpuTicks - prev.cpuTicks) / CLOCK_TICKS / elapsedSec) * 100)
+          : 0;
+      samples.set(name, {
+        timestamp: now,
+        cpu: Math.round(cpu * 10) / 10,
+        rss: group.rssBytes,
+        processes: group.processes,
+      });
+      seen.set(pgid, { cpuTicks: group.cpuTicks, at: now });
+    }
+    this.previous = seen;
+    return samples;
+  }
+}
+
+/** `"12.5 MB"` — compact byte sizes for the dashboard and MCP text output. */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value >= 100 || unit === 0 ? Math.round(value) : value.toFixed(1)} ${units[unit]}`;
+}
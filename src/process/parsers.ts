@@ -1,4 +1,4 @@
-import type { ProcessType } from '../config/schema.js';
+import type { BuildParserConfig, ProcessConfig, ProcessType } from '../config/schema.js';
 
 export type BuildEvent =
   | { type: 'build:start' }
@@ -149,13 +149,347 @@ export const parseAngularLine: LineParser = (rawLine) => {
   return null;
 };
 
+/**
+ * The build in progress, for tools whose completion line carries no count or
+ * no timing: when it started and the diagnostics seen since. Parsers built on
+ * it are stateful, so `getParser` hands each process its own.
+ */
+class BuildTally {
+  private startedAt: number | null = null;
+  errors = 0;
+  warnings = 0;
+
+  constructor(private readonly now: () => number) {}
+
+  /** A build started and hasn't completed yet. */
+  get active(): boolean {
+    return this.startedAt !== null;
+  }
+
+  start(): BuildEvent {
+    this.startedAt = this.now();
+    this.errors = 0;
+    this.warnings = 0;
+    return { type: 'build:start' };
+  }
+
+  /** Complete the build; `counts` wins over what was tallied when the tool prints totals. */
+  complete(counts: { errors?: number; warnings?: number; durationMs?: number } = {}): BuildEvent {
+    const errors = counts.errors ?? this.errors;
+    const warnings = counts.warnings ?? this.warnings;
+    const durationMs =
+      counts.durationMs ?? (this.startedAt !== null ? this.now() - this.startedAt : undefined);
+    this.startedAt = null;
+    this.errors = 0;
+    this.warnings = 0;
+    return { type: 'build:complete', success: errors === 0, errors, warnings, durationMs };
+  }
+
+  /** Note an error diagnostic; it becomes the `build:failed` reason. */
+  error(line: string): BuildEvent {
+    this.errors++;
+    return { type: 'build:failed', reason: line.trim() };
+  }
+
+  /**
+   * The build failed as a whole. With errors to report that's a failed
+   * `build:complete` carrying the counts, otherwise a `build:failed` with the
+   * line as the reason.
+   */
+  fail(line: string, counts: { errors?: number; warnings?: number } = {}): BuildEvent {
+    if ((counts.errors ?? this.errors) > 0) return this.complete(counts);
+    this.startedAt = null;
+    this.errors = 0;
+    this.warnings = 0;
+    return { type: 'build:failed', reason: line.trim() };
+  }
+}
+
+/** `"1.23s"`, `"345ms"`, `"2.345 s"` → ms. */
+function parseDuration(value: string, unit: string): number {
+  return unit === 'ms' ? Math.round(Number(value)) : Math.round(Number(value) * 1000);
+}
+
+// Dev server: "VITE v5.0.0  ready in 312 ms", then "[vite] hmr update /src/App.tsx"
+// or "[vite] page reload src/main.ts" per successful transform. `vite build
+// --watch`: "vite v5.0.0 building for production...", "build started..." on a
+// rebuild, "✓ built in 1.23s" / "built in 345ms." at the end.
+const VITE_START = /\bbuilding for [\w-]+\b|^\s*build started\b/;
+const VITE_READY = /\bVITE v[\d.]+\S*\s+ready in (\d+(?:\.\d+)?)\s*(ms|s)\b/;
+const VITE_BUILT = /\bbuilt in (\d+(?:\.\d+)?)\s*(ms|s)\b/;
+const VITE_HMR = /\[vite\]\s+(?:hmr update|page reload)\b/;
+const VITE_ERROR =
+  /\[vite\]\s+(?:Internal server error|Pre-transform error)\b|^\s*error during build\b|✘ \[ERROR\]|\[plugin:[^\]]+\]/;
+const VITE_WARNING = /^\s*\(!\)|▲ \[WARNING\]|\[vite\]\s+warning\b/i;
+
+export function createViteParser(now: () => number = Date.now): LineParser {
+  const tally = new BuildTally(now);
+  return (rawLine) => {
+    const line = stripAnsi(rawLine);
+    if (VITE_ERROR.test(line)) return tally.error(line);
+    if (VITE_WARNING.test(line)) {
+      tally.warnings++;
+      return null;
+    }
+    if (VITE_START.test(line)) return tally.start();
+    const ready = line.match(VITE_READY) ?? line.match(VITE_BUILT);
+    if (ready) return tally.complete({ durationMs: parseDuration(ready[1]!, ready[2]!) });
+    // An HMR update is a transform that went through — the previous error, if
+    // any, is fixed.
+    if (VITE_HMR.test(line)) return tally.complete({ errors: 0 });
+    return null;
+  };
+}
+
+// Next 13+ dev: "○ Compiling /page ...", "✓ Compiled /page in 2.3s (512 modules)",
+// "✓ Ready in 1843ms", "⨯ ./app/page.tsx:3:1", "⚠ ..." for warnings. Next 12:
+// "wait  - compiling...", "event - compiled client and server successfully in
+// 1234 ms (156 modules)", "error - ...", "warn  - ...". `next build`:
+// "Creating an optimized production build ...", "✓ Compiled successfully".
+const NEXT_START =
+  /(?:^\s*○ Compiling\b|^\s*wait\s+-\s+compiling\b|Creating an optimized production build)/i;
+const NEXT_COMPLETE =
+  /(?:^\s*✓ (?:Compiled|Ready)\b|^\s*event\s+-\s+compiled\b|^\s*ready\s+-\s+started server\b)/;
+const NEXT_DURATION = /\bin (\d+(?:\.\d+)?)\s*(ms|s)\b/;
+const NEXT_ERROR = /(?:^\s*⨯ |^\s*error\s+-\s|Failed to compile)/;
+const NEXT_WARNING = /(?:^\s*⚠ |^\s*warn\s+-\s)/;
+
+export function createNextParser(now: () => number = Date.now): LineParser {
+  const tally = new BuildTally(now);
+  return (rawLine) => {
+    const line = stripAnsi(rawLine);
+    if (NEXT_ERROR.test(line)) return tally.error(line);
+    if (NEXT_WARNING.test(line)) {
+      tally.warnings++;
+      return null;
+    }
+    if (NEXT_START.test(line)) return tally.start();
+    if (NEXT_COMPLETE.test(line)) {
+      const duration = line.match(NEXT_DURATION);
+      return tally.complete({
+        durationMs: duration ? parseDuration(duration[1]!, duration[2]!) : undefined,
+      });
+    }
+    return null;
+  };
+}
+
+// `esbuild --watch`: "[watch] build started (change: "src/a.ts")", "[watch]
+// build finished, watching for changes...", diagnostics as "✘ [ERROR] ..." /
+// "▲ [WARNING] ...". A one-off build ends with "⚡ Done in 12ms".
+const ESBUILD_START = /^\s*\[watch\] build started\b/;
+const ESBUILD_FINISHED = /^\s*\[watch\] build finished\b/;
+const ESBUILD_DONE = /⚡ Done in (\d+(?:\.\d+)?)(ms|s)\b/;
+const ESBUILD_ERROR = /✘ \[ERROR\]/;
+const ESBUILD_WARNING = /▲ \[WARNING\]/;
+
+export function createEsbuildParser(now: () => number = Date.now): LineParser {
+  const tally = new BuildTally(now);
+  return (rawLine) => {
+    const line = stripAnsi(rawLine);
+    if (ESBUILD_ERROR.test(line)) return tally.error(line);
+    if (ESBUILD_WARNING.test(line)) {
+      tally.warnings++;
+      return null;
+    }
+    if (ESBUILD_START.test(line)) return tally.start();
+    if (ESBUILD_FINISHED.test(line)) return tally.complete();
+    const done = line.match(ESBUILD_DONE);
+    if (done) return tally.complete({ durationMs: parseDuration(done[1]!, done[2]!) });
+    return null;
+  };
+}
+
+// `tsc --watch`: "[10:21:33 AM] Starting compilation in watch mode...", "File
+// change detected. Starting incremental compilation...", then "Found 3 errors.
+// Watching for file changes." (also "Found 1 error in src/a.ts:4"). Diagnostics
+// are "src/a.ts(4,7): error TS2322: ..." or, with --pretty, "src/a.ts:4:7 -
+// error TS2322: ...". tsc has no warnings and prints no timing.
+const TSC_START = /Starting (?:compilation in watch mode|incremental compilation)/;
+const TSC_FOUND = /\bFound (\d+) errors?\b/;
+const TSC_ERROR = /\berror TS\d+:/;
+
+export function createTscParser(now: () => number = Date.now): LineParser {
+  const tally = new BuildTally(now);
+  return (rawLine) => {
+    const line = stripAnsi(rawLine);
+    if (TSC_START.test(line)) return tally.start();
+    const found = line.match(TSC_FOUND);
+    if (found) return tally.complete({ errors: Number(found[1]), warnings: 0 });
+    if (TSC_ERROR.test(line)) return tally.error(line);
+    return null;
+  };
+}
+
+// `vitest` (watch): " DEV  v1.2.0 /repo" or " RERUN  src/a.test.ts x2" per run,
+// then the summary " Tests  1 failed | 12 passed (13)" and " Duration  2.34s
+// (transform ...)". Each failed test is an error; the run's duration is the
+// summary's.
+const VITEST_START = /^\s*(?:DEV|RUN|RERUN)\s{2,}/;
+const VITEST_TESTS = /^\s*Tests\s{2,}(?:(\d+) failed)?/;
+const VITEST_DURATION = /^\s*Duration\s{2,}(\d+(?:\.\d+)?)(ms|s)\b/;
+const VITEST_ERROR = /^\s*(?:FAIL|×|❯)\s+\S.*>/;
+
+export function createVitestParser(now: () => number = Date.now): LineParser {
+  const tally = new BuildTally(now);
+  let failed = 0;
+  return (rawLine) => {
+    const line = stripAnsi(rawLine);
+    if (VITEST_START.test(line)) {
+      failed = 0;
+      return tally.start();
+    }
+    const tests = line.match(VITEST_TESTS);
+    if (tests) {
+      failed = Number(tests[1] ?? 0);
+      return null;
+    }
+    const duration = line.match(VITEST_DURATION);
+    if (duration) {
+      return tally.complete({
+        errors: failed,
+        durationMs: parseDuration(duration[1]!, duration[2]!),
+      });
+    }
+    if (VITEST_ERROR.test(line)) return { type: 'build:failed', reason: line.trim() };
+    return null;
+  };
+}
+
+// `jest --watch`: "Determining test suites to run..." per run, "FAIL
+// src/a.test.ts" per failing suite, then "Tests:       1 failed, 12 passed, 13
+// total" and "Time:        2.345 s" (", estimated 3 s" when it has a guess).
+const JEST_START = /^\s*Determining test suites to run\b/;
+const JEST_TESTS = /^\s*Tests:\s+(?:(\d+) failed)?/;
+const JEST_TIME = /^\s*Time:\s+(\d+(?:\.\d+)?)\s*(ms|s)\b/;
+const JEST_FAIL = /^\s*FAIL\s+\S/;
+
+export function createJestParser(now: () => number = Date.now): LineParser {
+  const tally = new BuildTally(now);
+  let failed = 0;
+  return (rawLine) => {
+    const line = stripAnsi(rawLine);
+    if (JEST_START.test(line)) {
+      failed = 0;
+      return tally.start();
+    }
+    const tests = line.match(JEST_TESTS);
+    if (tests) {
+      failed = Number(tests[1] ?? 0);
+      return null;
+    }
+    const time = line.match(JEST_TIME);
+    if (time) {
+      return tally.complete({ errors: failed, durationMs: parseDuration(time[1]!, time[2]!) });
+    }
+    if (JEST_FAIL.test(line)) return { type: 'build:failed', reason: line.trim() };
+    return null;
+  };
+}
+
+// `rollup -w`: "bundles src/main.ts → dist/bundle.js..." per build, "created
+// dist/bundle.js in 1.2s" when it's written, "[2024-01-10 12:00:00] waiting for
+// changes..." once idle. Errors are "[!] RollupError: ..." (no "created" line
+// follows), warnings "(!) Unresolved dependencies".
+const ROLLUP_START = /^\s*bundles\s+.+→/;
+const ROLLUP_CREATED = /^\s*created\s+.+\sin\s+(\d+(?:\.\d+)?)\s*(ms|s)\b/;
+const ROLLUP_WAITING = /\bwaiting for changes\.\.\./;
+const ROLLUP_ERROR = /^\s*\[!\]/;
+const ROLLUP_WARNING = /^\s*\(!\)/;
+
+export function createRollupParser(now: () => number = Date.now): LineParser {
+  const tally = new BuildTally(now);
+  return (rawLine) => {
+    const line = stripAnsi(rawLine);
+    if (ROLLUP_ERROR.test(line)) return tally.error(line);
+    if (ROLLUP_WARNING.test(line)) {
+      tally.warnings++;
+      return null;
+    }
+    if (ROLLUP_START.test(line)) return tally.start();
+    const created = line.match(ROLLUP_CREATED);
+    if (created) return tally.complete({ durationMs: parseDuration(created[1]!, created[2]!) });
+    // A failed build never prints "created"; the idle line closes it instead.
+    if (ROLLUP_WAITING.test(line) && tally.active) return tally.complete();
+    return null;
+  };
+}
+
+/**
+ * A parser from a process's `build:` regexes. Tried in the order failure,
+ * success, start, progress, error_line, warning_line; the first that matches
+ * decides the event.
+ */
+export function createBuildParser(
+  config: BuildParserConfig,
+  now: () => number = Date.now,
+): LineParser {
+  const tally = new BuildTally(now);
+  const compile = (source: string | undefined) => (source ? new RegExp(source) : null);
+  const failure = compile(config.failure);
+  const success = compile(config.success);
+  const start = compile(config.start);
+  const progress = compile(config.progress);
+  const errorLine = compile(config.error_line);
+  const warningLine = compile(config.warning_line);
+
+  return (rawLine) => {
+    const line = stripAnsi(rawLine);
+    const failed = failure?.exec(line);
+    if (failed) return tally.fail(line, countsFrom(failed));
+    const done = success?.exec(line);
+    if (done) return tally.complete(countsFrom(done));
+    if (start?.test(line)) return tally.start();
+    const percent = progress?.exec(line);
+    if (percent) {
+      const value = Number(percent[1]);
+      if (Number.isFinite(value)) {
+        return { type: 'build:progress', percent: Math.min(100, Math.max(0, value)) };
+      }
+    }
+    if (errorLine?.test(line)) return tally.error(line);
+    if (warningLine?.test(line)) tally.warnings++;
+    return null;
+  };
+}
+
+/** The `errors` / `warnings` named groups of a summary match, where present. */
+function countsFrom(match: RegExpExecArray): { errors?: number; warnings?: number } {
+  const count = (value: string | undefined) => (value != null ? Number(value) : undefined);
+  return { errors: count(match.groups?.errors), warnings: count(match.groups?.warnings) };
+}
+
+/**
+ * The build parser for a process type, or null for types without one. The
+ * stateful parsers (everything but webpack and angular) are created fresh, so
+ * call this once per process.
+ */
 export function getParser(type: ProcessType): LineParser | null {
   switch (type) {
     case 'webpack':
       return parseWebpackLine;
     case 'angular':
       return parseAngularLine;
+    case 'vite':
+      return createViteParser();
+    case 'next':
+      return createNextParser();
+    case 'esbuild':
+      return createEsbuildParser();
+    case 'tsc':
+      return createTscParser();
+    case 'vitest':
+      return createVitestParser();
+    case 'jest':
+      return createJestParser();
+    case 'rollup':
+      return createRollupParser();
     default:
       return null;
   }
 }
+
+/** The parser for a process: its `build:` regexes if it has them, else its type's. */
+export function parserFor(config: Pick<ProcessConfig, 'type' | 'build'>): LineParser | null {
+  return config.build ? createBuildParser(config.build) : getParser(config.type);
+}
@@ -0,0 +1,314 @@
+import { createReadStream, existsSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import type { OrckitConfig } from '../config/schema.js';
+import { parseDuration } from '../config/duration.js';
+import { logFilePath } from '../reporter/log-reporter.js';
+import type { OutputLine } from './output.js';
+import type { Stream } from './runner.js';
+
+/** What `searchLogs` reads from; a real `Orckit` satisfies it. */
+export interface LogSearchSource {
+  readonly config: OrckitConfig;
+  output(name: string): OutputLine[];
+}
+
+export interface LogSearchQuery {
+  /** Regular expression (or literal text when `regex` is false). */
+  pattern: string;
+  /** Treat `pattern` as a JavaScript regex. Defaults to true. */
+  regex?: boolean;
+  ignoreCase?: boolean;
+  /** Epoch ms; lines older than this are skipped. */
+  since?: number;
+  /** Epoch ms; lines newer than this are skipped. */
+  until?: number;
+  /** Restrict to these processes. Unknown names are an error. */
+  processes?: string[];
+  /** Restrict to processes in these categories. */
+  categories?: string[];
+  stream?: Stream | 'all';
+  /** Lines of surrounding output to return with each match (like `grep -C`). */
+  context?: number;
+  /** Cap on returned matches; the most recent ones win. */
+  limit?: number;
+}
+
+export interface LogSearchOptions {
+  /**
+   * Absolute `logs.dir` written by `attachLogReporter`. When set, its files are
+   * searched too, for output that has scrolled out of the in-memory buffers.
+   */
+  logDir?: string | null;
+  /**
+   * Only read file sessions that started before this epoch ms. Sessions since
+   * then are still in the buffers; reading both would report every match
+   * twice. Callers pass the time they attached (i.e. before `start()`).
+   */
+  historyBefore?: number;
+}
+
+export interface SearchLine {
+  /**
+   * Epoch ms. For lines read from a log file this is the start of the session
+   * the line belongs to — the files carry no per-line timestamps.
+   */
+  timestamp: number;
+  stream: Stream;
+  text: string;
+}
+
+export interface LogSearchMatch {
+  name: string;
+  source: 'buffer' | 'file';
+  line: SearchLine;
+  /** `[start, end)` character offsets of every match within `line.text`. */
+  ranges: [number, number][];
+  before: SearchLine[];
+  after: SearchLine[];
+}
+
+export interface LogSearchResult {
+  pattern: string;
+  matches: LogSearchMatch[];
+  /** True when more than `limit` lines matched and older ones were dropped. */
+  truncated: boolean;
+  /** Processes whose buffers (and, where present, log files) were searched. */
+  processes: string[];
+}
+
+export const DEFAULT_SEARCH_LIMIT = 200;
+export const MAX_SEARCH_LIMIT = 1000;
+export const MAX_SEARCH_CONTEXT = 20;
+
+/**
+ * Search every selected process's output buffer — and, with `logDir`, the
+ * older sessions in its log file — for lines matching the query. Matches come
+ * back oldest first; when more than `limit` lines match, the oldest are
+ * dropped and `truncated` is set.
+ *
+ * Throws on an invalid regex or an unknown process name.
+ */
+export async function searchLogs(
+  source: LogSearchSource,
+  query: LogSearchQuery,
+  options: LogSearchOptions = {},
+): Promise<LogSearchResult> {
+  const re = compilePattern(query);
+  const limit = clamp(query.limit ?? DEFAULT_SEARCH_LIMIT, 1, MAX_SEARCH_LIMIT);
+  const context = clamp(query.context ?? 0, 0, MAX_SEARCH_CONTEXT);
+  const names = selectProcesses(source.config, query);
+  const inWindow = (from: number, to: number) =>
+    (query.since == null || to >= query.since) && (query.until == null || from <= query.until);
+  const streamOk = (s: Stream) => !query.stream || query.stream === 'all' || query.stream === s;
+
+  const collector = new MatchCollector(limit);
+  for (const name of names) {
+    if (options.logDir) {
+      const file = logFilePath(options.logDir, name);
+      if (existsSync(file)) {
+        await scanFile(file, {
+          name,
+          context,
+          historyBefore: options.historyBefore ?? Infinity,
+          inWindow,
+          matches: (line) => streamOk(line.stream) && re.test(line.text),
+          ranges: (text) => matchRanges(re, text),
+          push: (m) => collector.push(m),
+        });
+      }
+    }
+
+    const lines = source.output(name);
+    lines.forEach((line, i) => {
+      if (!streamOk(line.stream) || !inWindow(line.timestamp, line.timestamp)) return;
+      if (!re.test(line.text)) return;
+      collector.push({
+        name,
+        source: 'buffer',
+        line: toSearchLine(line),
+        ranges: matchRanges(re, line.text),
+        before: lines.slice(Math.max(0, i - context), i).map(toSearchLine),
+        after: lines.slice(i + 1, i + 1 + context).map(toSearchLine),
+      });
+    });
+  }
+
+  return {
+    pattern: query.pattern,
+    matches: collector.sorted(),
+    truncated: collector.dropped > 0,
+    processes: names,
+  };
+}
+
+/**
+ * Resolve a `since`/`until` bound given either as a duration back from `now`
+ * (`"15m"`, `"2h"`), an ISO timestamp, or epoch ms.
+ */
+export function parseTimeBound(input: string, now = Date.now()): number {
+  const trimmed = input.trim();
+  if (/^\d+(?:\.\d+)?(ms|s|m|h)$/.test(trimmed)) return now - parseDuration(trimmed);
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+  const parsed = Date.parse(trimmed);
+  if (Number.isNaN(parsed)) {
+    throw new Error(
+      `invalid time "${input}" — expected a duration ago ("15m"), an ISO timestamp, or epoch ms`,
+    );
+  }
+  return parsed;
+}
+
+function compilePattern(query: LogSearchQuery): RegExp {
+  const source = query.regex === false ? escapeRegExp(query.pattern) : query.pattern;
+  try {
+    // No `g` flag: `test()` on a global regex is stateful across calls.
+    return new RegExp(source, query.ignoreCase ? 'i' : '');
+  } catch (err) {
+    throw new Error(`invalid pattern: ${(err as Error).message}`);
+  }
+}
+
+function selectProcesses(config: OrckitConfig, query: LogSearchQuery): string[] {
+  const all = Object.keys(config.processes);
+  for (const name of query.processes ?? []) {
+    if (!config.processes[name]) throw new Error(`unknown process "${name}"`);
+  }
+  return all.filter((name) => {
+    if (query.processes?.length && !query.processes.includes(name)) return false;
+    if (query.categories?.length && !query.categories.includes(config.processes[name]!.category))
+      return false;
+    return true;
+  });
+}
+
+function matchRanges(re: RegExp, text: string): [number, number][] {
+  const global = new RegExp(re.source, re.flags + 'g');
+  const ranges: [number, number][] = [];
+  for (const m of text.matchAll(global)) {
+    // Zero-width matches (`^`, lookaheads) have nothing to highlight.
+    if (m[0].length > 0) ranges.push([m.index, m.index + m[0].length]);
+  }
+  return ranges;
+}
+
+function toSearchLine(line: OutputLine): SearchLine {
+  return { timestamp: line.timestamp, stream: line.stream, text: line.text };
+}
+
+const HEADER_RE = /^== .+ started (\S+) \(pid \d+\)$/;
+const FOOTER_RE = /^-- (\S+) /;
+
+interface ScanContext {
+  name: string;
+  context: number;
+  historyBefore: number;
+  inWindow: (from: number, to: number) => boolean;
+  matches: (line: SearchLine) => boolean;
+  ranges: (text: string) => [number, number][];
+  push: (match: LogSearchMatch) => void;
+}
+
+/**
+ * Stream a log file (format: see `attachLogReporter`) session by session.
+ * Each session's window is [header time, footer time]; its lines inherit the
+ * header time. Context never crosses a session boundary.
+ */
+async function scanFile(path: string, ctx: ScanContext): Promise<void> {
+  const rl = createInterface({ input: createReadStream(path, 'utf-8'), crlfDelay: Infinity });
+
+  let sessionStart = 0;
+  let session: { line: SearchLine; match: LogSearchMatch | null }[] = [];
+  const flush = (sessionEnd: number) => {
+    if (ctx.inWindow(sessionStart, sessionEnd)) {
+      session.forEach((entry, i) => {
+        if (!entry.match) return;
+        entry.match.before = session.slice(Math.max(0, i - ctx.context), i).map((e) => e.line);
+        entry.match.after = session.slice(i + 1, i + 1 + ctx.context).map((e) => e.line);
+        ctx.push(entry.match);
+      });
+    }
+    session = [];
+  };
+
+  try {
+    for await (const raw of rl) {
+      const header = HEADER_RE.exec(raw);
+      if (header) {
+        const started = Date.parse(header[1]!);
+        flush(Number.isNaN(started) ? sessionStart : started);
+        // Sessions from here on were written by the running orckit and are
+        // still in the in-memory buffers.
+        if (started >= ctx.historyBefore) return;
+        sessionStart = Number.isNaN(started) ? sessionStart : started;
+        continue;
+      }
+      const footer = FOOTER_RE.exec(raw);
+      if (footer) {
+        const ended = Date.parse(footer[1]!);
+        if (!Number.isNaN(ended)) {
+          flush(ended);
+          continue;
+        }
+      }
+      if (raw.startsWith('=====')) continue;
+      let line: SearchLine;
+      if (raw.startsWith('! ')) {
+        line = { timestamp: sessionStart, stream: 'stderr', text: raw.slice(2) };
+      } else if (raw.startsWith('  ')) {
+        line = { timestamp: sessionStart, stream: 'stdout', text: raw.slice(2) };
+      } else {
+        continue;
+      }
+      const match: LogSearchMatch | null = ctx.matches(line)
+        ? {
+            name: ctx.name,
+            source: 'file',
+            line,
+            ranges: ctx.ranges(line.text),
+            before: [],
+            after: [],
+          }
+        : null;
+      session.push({ line, match });
+    }
+    flush(Date.now());
+  } finally {
+    rl.close();
+  }
+}
+
+/** Keeps the `limit` most recent matches without holding every match in memory. */
+class MatchCollector {
+  private readonly items: LogSearchMatch[] = [];
+  dropped = 0;
+
+  constructor(private readonly limit: number) {}
+
+  push(match: LogSearchMatch): void {
+    this.items.push(match);
+    // Amortize: trim in batches rather than on every push.
+    if (this.items.length >= this.limit * 2) this.trim();
+  }
+
+  sorted(): LogSearchMatch[] {
+    this.trim();
+    return this.items;
+  }
+
+  private trim(): void {
+    this.items.sort((a, b) => a.line.timestamp - b.line.timestamp);
+    const excess = this.items.length - this.limit;
+    if (excess > 0) {
+      this.items.splice(0, excess);
+      this.dropped += excess;
+    }
+  }
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function clamp(n: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, n));
+}
@@ -3,12 +3,17 @@ import type { BootSummary, Orckit } from '../orchestrator/orchestrator.js';
 import { formatDuration } from '../config/duration.js';
 import type { ProcessState } from '../orchestrator/lifecycle.js';
 import type { HookKind } from '../orchestrator/hooks.js';
+import { describeWatchTrigger } from '../orchestrator/watch.js';
+import { describeConfigChange, type ConfigChange } from '../orchestrator/reload.js';
+import type { LimitExceeded } from '../process/limits.js';
+import type { CrashLoop } from '../orchestrator/restart.js';
 
 const STATE_COLOR: Record<ProcessState, (s: string) => string> = {
   pending: chalk.gray,
   starting: chalk.yellow,
   ready: chalk.green,
   running: chalk.green,
+  unhealthy: chalk.magenta,
   finished: chalk.green,
   stopping: chalk.yellow,
   stopped: chalk.gray,
@@ -20,6 +25,7 @@ const STATE_ICON: Record<ProcessState, string> = {
   starting: '⠋',
   ready: '✓',
   running: '●',
+  unhealthy: '!',
   finished: '✓',
   stopping: '⠿',
   stopped: '○',
@@ -57,6 +63,8 @@ export function attachCliReporter(orckit: Orckit, opts: CliReporterOptions = {})
   const hint = opts.printHint ?? ((msg: string) => out('\n' + msg));
   const tailLines = opts.failureTailLines ?? 10;
   const quiet = opts.quietProcessEvents ?? false;
+  // Processes currently `unhealthy`, so their return to `running` is announced.
+  const unhealthy = new Set<string>();
 
   const onStarting = (name: string) => {
     if (quiet) return;
@@ -73,6 +81,7 @@ export function attachCliReporter(orckit: Orckit, opts: CliReporterOptions = {})
     );
   };
   const onStopping = (name: string) => {
+    unhealthy.delete(name);
     if (quiet) return;
     out(chalk.gray(`  ${STATE_ICON.stopping} ${name} stopping`));
   };
@@ -118,9 +127,46 @@ export function attachCliReporter(orckit: Orckit, opts: CliReporterOptions = {})
       }
     }
   };
-  const onRestarting = (name: string, attempt: number) => {
+  const onRestarting = (name: string, attempt: number, delayMs: number) => {
     if (quiet) return;
-    out(`  ${chalk.yellow('↻')} ${name} restarting (attempt ${attempt})`);
+    out(
+      `  ${chalk.yellow('↻')} ${name} restarting in ${formatDuration(delayMs)} (attempt ${attempt})`,
+    );
+  };
+  const onWatchTriggered = (name: string, files: string[]) => {
+    if (quiet) return;
+    out(`  ${chalk.yellow('↻')} ${name} restarting: ${describeWatchTrigger(files)}`);
+  };
+  // Announced in both modes, like hooks below: the dashboard redraws its graph
+  // on a reload but doesn't say what changed.
+  const onConfigReloaded = (change: ConfigChange) => {
+    out(`  ${chalk.cyan('↻')} config reloaded: ${describeConfigChange(change)}`);
+  };
+  // Both modes, like limits below: the dashboard shows the `unhealthy` state
+  // but not why, or that it passed.
+  const onUnhealthy = (name: string, reason: string) => {
+    unhealthy.add(name);
+    out(`  ${chalk.magenta(STATE_ICON.unhealthy)} ${name} unhealthy: ${chalk.magenta(reason)}`);
+  };
+  const onRunning = (name: string) => {
+    // Also fires after every boot; only a recovery from unhealthy is news.
+    if (!unhealthy.delete(name)) return;
+    out(`  ${chalk.green(STATE_ICON.running)} ${name} healthy again`);
+  };
+  // Also in both modes: the dashboard shows the restart or stop that follows,
+  // not that a limit caused it.
+  const onLimitExceeded = (name: string, exceeded: LimitExceeded) => {
+    const outcome =
+      exceeded.action === 'restart'
+        ? ' — restarting'
+        : exceeded.action === 'stop'
+          ? ' — stopping'
+          : '';
+    out(`  ${chalk.yellow('⚠')} ${name}: ${exceeded.message}${outcome}`);
+  };
+  // Both modes: the dashboard's retry counter doesn't say the retries came fast.
+  const onCrashLoop = (name: string, loop: CrashLoop) => {
+    out(`  ${chalk.red('⟳')} ${name}: ${chalk.red(loop.message)}`);
   };
   // Hooks are announced in BOTH plain and dashboard modes: the dashboard's live
   // region doesn't render hook activity, so these lines (routed through its
@@ -200,6 +246,12 @@ export function attachCliReporter(orckit: Orckit, opts: CliReporterOptions = {})
   orckit.on('process:port-freed', onPortFreed);
   orckit.on('process:failed', onFailed);
   orckit.on('process:restarting', onRestarting);
+  orckit.on('process:watch-triggered', onWatchTriggered);
+  orckit.on('config:reloaded', onConfigReloaded);
+  orckit.on('process:limit-exceeded', onLimitExceeded);
+  orckit.on('process:crash-loop', onCrashLoop);
+  orckit.on('process:unhealthy', onUnhealthy);
+  orckit.on('process:running', onRunning);
   orckit.on('hook:start', onHookStart);
   orckit.on('hook:failed', onHookFailed);
   orckit.on('all:ready', onAllReady);
@@ -219,6 +271,12 @@ export function attachCliReporter(orckit: Orckit, opts: CliReporterOptions = {})
     orckit.off('process:port-freed', onPortFreed);
     orckit.off('process:failed', onFailed);
     orckit.off('process:restarting', onRestarting);
+    orckit.off('process:watch-triggered', onWatchTriggered);
+    orckit.off('config:reloaded', onConfigReloaded);
+    orckit.off('process:limit-exceeded', onLimitExceeded);
+    orckit.off('process:crash-loop', onCrashLoop);
+    orckit.off('process:unhealthy', onUnhealthy);
+    orckit.off('process:running', onRunning);
     orckit.off('hook:start', onHookStart);
     orckit.off('hook:failed', onHookFailed);
     orckit.off('all:ready', onAllReady);
@@ -1,11 +1,13 @@
 import chalk from 'chalk';
 import type { Orckit } from '../orchestrator/orchestrator.js';
-import type { ProcessState } from '../orchestrator/lifecycle.js';
+import { isActive, type ProcessState } from '../orchestrator/lifecycle.js';
 import { buildGraph, type DependencyGraph } from '../graph/resolver.js';
 import { renderGraph } from './graph-view.js';
 import { formatDuration } from '../config/duration.js';
 import { brandHeader } from './brand.js';
 import type { BuildEvent } from '../process/parsers.js';
+import { describeWatchTrigger } from '../orchestrator/watch.js';
+import { formatBytes, type MetricsSample } from '../process/metrics.js';
 
 const HIDE_CURSOR = '\x1b[?25l';
 const SHOW_CURSOR = '\x1b[?25h';
@@ -68,14 +70,20 @@ export function attachDashboard(
   if (!opts.force && !stream.isTTY) return null;
 
   const tickMs = opts.tickMs ?? 80;
-  const graph: DependencyGraph = buildGraph(orckit.config);
+  let graph: DependencyGraph = buildGraph(orckit.config);
   const project = orckit.config.project;
+  const profile = orckit.config.profile;
   const links = opts.links ?? [];
 
   const states = new Map<string, ProcessState>(orckit.states());
   const annotations = new Map<string, string>();
   const builds = new Map<string, BuildStatus>();
   const startedAt = new Map<string, number>();
+  // "restarting: 3 files changed", held across the stop/start of a
+  // watch-triggered restart until the process settles again.
+  const watchTriggers = new Map<string, string>();
+  // Latest CPU / memory sample per process, shown as a column while it's up.
+  const metrics = new Map<string, MetricsSample>();
 
   let frame = 0;
   let disposed = false;
@@ -83,7 +91,8 @@ export function attachDashboard(
 
   const composeAnnotation = (name: string): string => {
     const parts: string[] = [];
-    const ann = annotations.get(name);
+    const trigger = watchTriggers.get(name);
+    const ann = trigger ?? annotations.get(name);
     if (ann) parts.push(ann);
     const build = builds.get(name);
     if (build) parts.push(renderBuild(build));
@@ -97,7 +106,7 @@ export function attachDashboard(
   };
 
   const render = (): string => {
-    const headerLabels = composeHeaderLabels(project, links);
+    const headerLabels = composeHeaderLabels(project, profile, links);
     const header = brandHeader(headerLabels);
 
     const composed = new Map<string, string>();
@@ -106,10 +115,14 @@ export function attachDashboard(
       if (ann) composed.set(name, ann);
     }
 
+    const columns = new Map<string, string>();
+    for (const [name, sample] of metrics) columns.set(name, renderMetrics(sample));
+
     const body = renderGraph(graph, {
       states,
       spinnerFrame: frame,
       annotations: composed,
+      columns,
     })
       .split('\n')
       .map((line) => '  ' + line)
@@ -152,6 +165,7 @@ export function attachDashboard(
     if (state === 'pending' || state === 'starting' || state === 'stopped') {
       builds.delete(name);
     }
+    if (!isActive(state)) metrics.delete(name);
     redraw();
   };
   const onStarting = (name: string) => {
@@ -159,14 +173,17 @@ export function attachDashboard(
     // process:state fires alongside; no need to redraw here.
   };
   const onReady = (name: string, ms: number) => {
+    watchTriggers.delete(name);
     annotations.set(name, chalk.dim(`(${formatDuration(ms)})`));
     redraw();
   };
   const onFinished = (name: string, ms: number) => {
+    watchTriggers.delete(name);
     annotations.set(name, chalk.dim(`(${formatDuration(ms)})`));
     redraw();
   };
   const onFailed = (name: string) => {
+    watchTriggers.delete(name);
     const started = startedAt.get(name);
     const elapsed = started != null ? Date.now() - started : null;
     annotations.set(
@@ -196,6 +213,30 @@ export function attachDashboard(
     builds.delete(name);
     redraw();
   };
+  const onWatchTriggered = (name: string, files: string[]) => {
+    watchTriggers.set(name, chalk.yellow(`(restarting: ${describeWatchTrigger(files)})`));
+    builds.delete(name);
+    redraw();
+  };
+  const onMetrics = (name: string, sample: MetricsSample) => {
+    metrics.set(name, sample);
+    redraw();
+  };
+  const onConfigReloaded = () => {
+    graph = buildGraph(orckit.config);
+    const current = orckit.states();
+    for (const name of states.keys()) {
+      if (current.has(name)) continue;
+      states.delete(name);
+      annotations.delete(name);
+      builds.delete(name);
+      startedAt.delete(name);
+      watchTriggers.delete(name);
+      metrics.delete(name);
+    }
+    for (const [name, state] of current) states.set(name, state);
+    redraw();
+  };
   const onBuild = (name: string, event: BuildEvent) => {
     switch (event.type) {
       case 'build:start':
@@ -229,6 +270,9 @@ export function attachDashboard(
   orckit.on('process:stopped', onStopped);
   orckit.on('process:failed', onFailed);
   orckit.on('process:restarting', onRestarting);
+  orckit.on('process:watch-triggered', onWatchTriggered);
+  orckit.on('config:reloaded', onConfigReloaded);
+  orckit.on('process:metrics', onMetrics);
   orckit.on('process:build', onBuild);
 
   // Initial paint.
@@ -272,21 +316,34 @@ export function attachDashboard(
       orckit.off('process:stopped', onStopped);
       orckit.off('process:failed', onFailed);
       orckit.off('process:restarting', onRestarting);
+      orckit.off('process:watch-triggered', onWatchTriggered);
+      orckit.off('config:reloaded', onConfigReloaded);
+      orckit.off('process:metrics', onMetrics);
       orckit.off('process:build', onBuild);
     },
   };
 }
 
-function composeHeaderLabels(project: string | undefined, links: DashboardLink[]): string[] {
+function composeHeaderLabels(
+  project: string | undefined,
+  profile: string | undefined,
+  links: DashboardLink[],
+): string[] {
   const labels: string[] = [];
   labels.push(chalk.hex(ACCENT).bold('orckit'));
   labels.push(project ? chalk.dim(project) : chalk.dim('(no project)'));
+  if (profile) labels.push(`${chalk.hex(ACCENT_DIM)('prof')}  ${chalk.dim(profile)}`);
   for (const link of links) {
     labels.push(`${chalk.hex(ACCENT_DIM)(link.label.padEnd(4))}  ${chalk.dim(link.value)}`);
   }
   return labels;
 }
 
+/** `" 12%  143 MB"` — fixed-width so the column lines up across rows. */
+function renderMetrics(sample: MetricsSample): string {
+  return `${`${Math.round(sample.cpu)}%`.padStart(4)} ${formatBytes(sample.rss).padStart(7)}`;
+}
+
 function renderBuild(build: BuildStatus): string {
   switch (build.kind) {
     case 'building': {
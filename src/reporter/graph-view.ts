@@ -12,6 +12,7 @@ const STATE_ICON: Record<ProcessState, string> = {
   starting: SPINNER_FRAMES[0]!, // overridden per-frame by spinnerFrame option
   ready: '✓',
   running: '●',
+  unhealthy: '!',
   finished: '✓',
   stopping: '⠿',
   stopped: '○',
@@ -23,6 +24,7 @@ const STATE_COLOR: Record<ProcessState, (s: string) => string> = {
   starting: chalk.yellow,
   ready: chalk.green,
   running: chalk.green,
+  unhealthy: chalk.magenta,
   finished: chalk.green,
   stopping: chalk.yellow,
   stopped: chalk.gray,
@@ -47,6 +49,11 @@ export interface RenderGraphOptions {
    * `(132ms)` for ready processes or `(retry 2)` for restarting ones.
    */
   annotations?: ReadonlyMap<string, string>;
+  /**
+   * Per-row plain-text column rendered (dimmed, aligned) between the name and
+   * the dependency list — the dashboard's live CPU / memory readout.
+   */
+  columns?: ReadonlyMap<string, string>;
 }
 
 /**
@@ -60,6 +67,7 @@ export function renderGraph(graph: DependencyGraph, opts: RenderGraphOptions = {
   if (waves.length === 0) return chalk.dim('(no processes)');
 
   const nameWidth = Math.max(0, ...[...graph.keys()].map((n) => n.length));
+  const columnWidth = Math.max(0, ...[...(opts.columns?.values() ?? [])].map((c) => c.length));
   const lines: string[] = [];
   const spinnerIcon =
     SPINNER_FRAMES[
@@ -88,13 +96,16 @@ export function renderGraph(graph: DependencyGraph, opts: RenderGraphOptions = {
       const icon = STATE_COLOR[state](rawIcon);
       const deps = graph.get(name)!;
       const annotation = opts.annotations?.get(name);
+      const column = opts.columns?.get(name);
       const hasTrailing = deps.length > 0 || annotation;
-      // Only pad the name when something follows; otherwise we'd emit trailing
-      // whitespace on every leaf row.
-      const renderedName = hasTrailing ? name.padEnd(nameWidth) : name;
+      // Only pad the name (and column) when something follows; otherwise we'd
+      // emit trailing whitespace on every leaf row.
+      const renderedName = hasTrailing || column ? name.padEnd(nameWidth) : name;
+      const colText = hasTrailing ? (column ?? '').padEnd(columnWidth) : (column ?? '');
+      const colPart = colText ? `  ${chalk.dim(colText)}` : '';
       const depPart = deps.length > 0 ? `  ${chalk.dim('← ' + deps.join(', '))}` : '';
       const annPart = annotation ? `  ${annotation}` : '';
-      lines.push(`${sideBar}  ${icon} ${renderedName}${depPart}${annPart}`);
+      lines.push(`${sideBar}  ${icon} ${renderedName}${colPart}${depPart}${annPart}`);
     }
     if (!isLast) lines.push(sideBar);
   }
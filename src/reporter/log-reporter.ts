@@ -34,7 +34,7 @@ export function attachLogReporter(orckit: Orckit, opts: LogReporterOptions): Log
   const fileFor = (name: string): string => {
     const cached = files.get(name);
     if (cached) return cached;
-    const path = join(dir, `${sanitize(name)}.log`);
+    const path = logFilePath(dir, name);
     files.set(name, path);
     return path;
   };
@@ -93,6 +93,14 @@ export function attachLogReporter(orckit: Orckit, opts: LogReporterOptions): Log
   };
 }
 
+/**
+ * Where the log reporter writes `name`'s output inside `dir`. Shared with log
+ * search so both sides agree on the (sanitized) file name.
+ */
+export function logFilePath(dir: string, name: string): string {
+  return join(dir, `${sanitize(name)}.log`);
+}
+
 function sessionHeader(name: string): string {
   const ts = timestamp();
   const banner = '='.repeat(72);
@@ -0,0 +1,210 @@
+import { execa } from 'execa';
+import type { Orckit } from '../orchestrator/orchestrator.js';
+import type { NotificationChannel, NotificationEvent } from '../config/schema.js';
+import type { BuildEvent } from '../process/parsers.js';
+import { formatDuration } from '../config/duration.js';
+import { mergeEnv } from '../util/env.js';
+
+/** What a channel is told — also the JSON body a webhook receives. */
+export interface Notification {
+  event: NotificationEvent;
+  project: string;
+  /** The process it's about; null for `all-ready`. */
+  name: string | null;
+  title: string;
+  message: string;
+  /** Epoch ms. */
+  timestamp: number;
+}
+
+export interface NotifierOptions {
+  /** The channel types this notifier delivers. Default: `command` and `webhook`. */
+  types?: NotificationChannel['type'][];
+  /** Receives each notification bound for a `browser` channel. */
+  browser?: (notification: Notification) => void;
+  /** A delivery failed; notifications never throw into the orchestrator. */
+  onError?: (channel: NotificationChannel, err: Error) => void;
+  /** Clock for the debounce window. Exposed mainly for tests. */
+  now?: () => number;
+}
+
+export interface NotifierHandle {
+  /** Detach event listeners. Deliveries already in flight still finish. */
+  dispose(): void;
+}
+
+/** How long a command or webhook may take before it's abandoned. */
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/**
+ * Turn orckit events into notifications for the `notifications.channels` of
+ * the given types: a process failing, coming back after a failure, a build
+ * finishing unsuccessfully, and a boot with everything ready. Channels are read
+ * from `orckit.config` on every event, so a config reload applies to the next
+ * notification.
+ */
+export function attachNotifier(orckit: Orckit, opts: NotifierOptions = {}): NotifierHandle {
+  const types = new Set(opts.types ?? ['command', 'webhook']);
+  const now = opts.now ?? Date.now;
+  // When each down process failed, for the recovery message.
+  const failedAt = new Map<string, number>();
+  // Per channel, when each event + process was last sent (for `debounce`).
+  const lastSent = new WeakMap<NotificationChannel, Map<string, number>>();
+
+  const notify = (
+    event: NotificationEvent,
+    name: string | null,
+    title: string,
+    message: string,
+  ) => {
+    const notification: Notification = {
+      event,
+      project: orckit.projectName,
+      name,
+      title,
+      message,
+      timestamp: now(),
+    };
+    for (const channel of orckit.config.notifications.channels) {
+      if (!types.has(channel.type) || !channel.on.includes(event)) continue;
+      if (name != null && channel.processes && !selects(orckit, channel.processes, name)) continue;
+      const sent = lastSent.get(channel) ?? new Map<string, number>();
+      lastSent.set(channel, sent);
+      const key = `${event}:${name ?? ''}`;
+      const last = sent.get(key);
+      if (last != null && notification.timestamp - last < channel.debounce) continue;
+      sent.set(key, notification.timestamp);
+      deliver(channel, notification, opts).catch((err: Error) => opts.onError?.(channel, err));
+    }
+  };
+
+  const onFailed = (name: string, err?: Error) => {
+    if (!failedAt.has(name)) failedAt.set(name, now());
+    notify('failed', name, `${name} failed`, err?.message ?? 'process failed');
+  };
+  const onUp = (name: string) => {
+    const since = failedAt.get(name);
+    if (since == null) return;
+    failedAt.delete(name);
+    notify(
+      'recovered',
+      name,
+      `${name} recovered`,
+      `back up after ${formatDuration(now() - since)}`,
+    );
+  };
+  // Stopped by hand: coming back later isn't a recovery.
+  const onStopped = (name: string) => failedAt.delete(name);
+  const onBuild = (name: string, event: BuildEvent) => {
+    if (event.type !== 'build:complete' || event.success) return;
+    const counts = [`${event.errors} ${event.errors === 1 ? 'error' : 'errors'}`];
+    if (event.warnings > 0) {
+      counts.push(`${event.warnings} ${event.warnings === 1 ? 'warning' : 'warnings'}`);
+    }
+    notify('build-failed', name, `${name} build failed`, counts.join(', '));
+  };
+  const onAllReady = (names: string[]) => {
+    notify('all-ready', null, 'all processes ready', names.join(', '));
+  };
+
+  orckit.on('process:failed', onFailed);
+  orckit.on('process:ready', onUp);
+  orckit.on('process:running', onUp);
+  orckit.on('process:finished', onUp);
+  orckit.on('process:stopped', onStopped);
+  orckit.on('process:build', onBuild);
+  orckit.on('all:ready', onAllReady);
+
+  return {
+    dispose() {
+      orckit.off('process:failed', onFailed);
+      orckit.off('process:ready', onUp);
+      orckit.off('process:running', onUp);
+      orckit.off('process:finished', onUp);
+      orckit.off('process:stopped', onStopped);
+      orckit.off('process:build', onBuild);
+      orckit.off('all:ready', onAllReady);
+    },
+  };
+}
+
+/**
+ * Whether any of `selectors` picks `name`. A selector that matches nothing
+ * (a process since removed, an empty category) just doesn't match.
+ */
+function selects(orckit: Orckit, selectors: string[], name: string): boolean {
+  return selectors.some((selector) => {
+    try {
+      return orckit.resolveTargets([selector]).includes(name);
+    } catch {
+      return false;
+    }
+  });
+}
+
+async function deliver(
+  channel: NotificationChannel,
+  notification: Notification,
+  opts: NotifierOptions,
+): Promise<void> {
+  switch (channel.type) {
+    case 'browser':
+      opts.browser?.(notification);
+      return;
+    case 'command': {
+      const result = await execa('bash', ['-c', renderCommand(channel.command, notification)], {
+        env: mergeEnv(notificationEnv(notification)),
+        timeout: DELIVERY_TIMEOUT_MS,
+        reject: false,
+      });
+      if (result.exitCode !== 0) {
+        const stderr = result.stderr ? `: ${String(result.stderr).trim()}` : '';
+        throw new Error(`notification command exited with code ${result.exitCode ?? '?'}${stderr}`);
+      }
+      return;
+    }
+    case 'webhook': {
+      const res = await fetch(channel.url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...channel.headers },
+        body: JSON.stringify(notification),
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`webhook ${channel.url} answered ${res.status}`);
+      return;
+    }
+  }
+}
+
+/** Replace each `{{field}}` with the shell-quoted value, ready for `bash -c`. */
+export function renderCommand(command: string, notification: Notification): string {
+  const fields = notificationFields(notification);
+  return command.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, field: string) =>
+    Object.hasOwn(fields, field) ? shellQuote(fields[field]!) : match,
+  );
+}
+
+function notificationFields(notification: Notification): Record<string, string> {
+  return {
+    event: notification.event,
+    project: notification.project,
+    name: notification.name ?? '',
+    title: notification.title,
+    message: notification.message,
+    timestamp: new Date(notification.timestamp).toISOString(),
+  };
+}
+
+/** `ORCKIT_EVENT`, `ORCKIT_NAME`, … — the same values as the placeholders. */
+function notificationEnv(notification: Notification): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(notificationFields(notification)).map(([k, v]) => [
+      `ORCKIT_${k.toUpperCase()}`,
+      v,
+    ]),
+  );
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
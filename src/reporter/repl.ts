@@ -21,6 +21,7 @@ const HELP_TEXT = [
   '  ? or h          show this help',
   '',
   '  with no name, `r` and `r!` operate on every currently-failed process.',
+  '  a name may also be @category or a glob (`api-*`).',
 ].join('\n');
 
 /**
@@ -0,0 +1,82 @@
+/**
+ * Compile a glob to an anchored RegExp over `/`-separated paths:
+ *
+ *   `*`    any run of characters except `/`
+ *   `?`    one character except `/`
+ *   `**`   any number of path segments (`a/**` also matches `a` itself)
+ *   `{a,b}` alternation (may nest)
+ *   `[...]` character class, `[!...]` negated
+ *
+ * Everything else is literal.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]!;
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        const atStart = i === 0 || glob[i - 1] === '/';
+        const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        if (atStart && atEnd) {
+          if (i + 2 === glob.length) {
+            // Trailing `/**`: the directory itself or anything below it.
+            if (re.endsWith('/')) re = `${re.slice(0, -1)}(?:/.*)?`;
+            else re += '.*';
+          } else {
+            // `**/` in the middle or at the start: zero or more segments.
+            re += '(?:[^/]*/)*';
+            i++;
+          }
+          i++;
+          continue;
+        }
+      }
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        re += '\\[';
+        continue;
+      }
+      let body = glob.slice(i + 1, end);
+      if (body.startsWith('!')) body = `^${body.slice(1)}`;
+      re += `[${body.replace(/\\/g, '\\\\')}]`;
+      i = end;
+    } else if (c === '{') {
+      braces++;
+      re += '(?:';
+    } else if (c === '}' && braces > 0) {
+      braces--;
+      re += ')';
+    } else if (c === ',' && braces > 0) {
+      re += '|';
+    } else {
+      re += c.replace(/[.+^$()|\\\]{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** True when `glob` uses any wildcard syntax (as opposed to naming one path). */
+export function hasGlobChars(glob: string): boolean {
+  return /[*?[{]/.test(glob);
+}
+
+/**
+ * The leading directory of `glob` that contains no wildcards — the narrowest
+ * directory a watcher has to observe to see every match: `src/**` → `src`,
+ * `*.py` → `.`, `cmd/server` → `cmd/server`.
+ */
+export function globBase(glob: string): string {
+  if (!hasGlobChars(glob)) return glob.replace(/\/+$/, '') || '.';
+  const segments = glob.split('/');
+  const literal: string[] = [];
+  for (const segment of segments) {
+    if (hasGlobChars(segment)) break;
+    literal.push(segment);
+  }
+  return literal.join('/') || (glob.startsWith('/') ? '/' : '.');
+}
@@ -12,6 +12,48 @@ export function isPortFree(port: number, host = '127.0.0.1'): Promise<boolean> {
   });
 }
 
+/**
+ * Ask the OS for a free TCP port on `host` by binding port 0 and releasing it.
+ * Inherently racy — another program can grab the port before the process
+ * that's handed it binds — but the window is short and the port-conflict
+ * guard catches the rare loser at spawn time.
+ */
+export function findFreePort(host = '127.0.0.1'): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, host, () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+      server.close(() => (port > 0 ? resolve(port) : reject(new Error('no port assigned'))));
+    });
+  });
+}
+
+/**
+ * Resolve a `ports:` declaration: fixed numbers pass through, each `auto`
+ * becomes a distinct free port (never one of the fixed ones, never handed out
+ * twice in the same call).
+ */
+export async function allocatePorts(
+  declared: Record<string, number | 'auto'>,
+  host = '127.0.0.1',
+): Promise<Record<string, number>> {
+  const taken = new Set(Object.values(declared).filter((p): p is number => p !== 'auto'));
+  const resolved: Record<string, number> = {};
+  for (const [name, value] of Object.entries(declared)) {
+    if (value !== 'auto') {
+      resolved[name] = value;
+      continue;
+    }
+    let port = await findFreePort(host);
+    while (taken.has(port)) port = await findFreePort(host);
+    taken.add(port);
+    resolved[name] = port;
+  }
+  return resolved;
+}
+
 /**
  * PIDs currently holding `port` over TCP on the local host, via `lsof`. Used by
  * the orphan-port sweep to find escaped processes that survived a process-tree
@@ -0,0 +1,4 @@
+/** A plain object — not null, not an array — as parsed YAML or JSON gives it. */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -39,7 +39,10 @@ export function streamOrckitEvents(orckit: Orckit, res: ServerResponse): () => v
   };
 
   on('process:state', (name, state) => send('state', { name, state }));
-  on('process:starting', (name) => send('starting', { name }));
+  // Carries the spawn's override (if any) so clients can flag a non-config command.
+  on('process:starting', (name) =>
+    send('starting', { name, override: orckit.inspect(name).override ?? undefined }),
+  );
   on('process:ready', (name, durationMs) => send('ready', { name, durationMs }));
   on('process:running', (name) => send('running', { name }));
   on('process:finished', (name, durationMs) => send('finished', { name, durationMs }));
@@ -48,7 +51,21 @@ export function streamOrckitEvents(orckit: Orckit, res: ServerResponse): () => v
   on('process:port-freed', (name, port, pid) => send('port-freed', { name, port, pid }));
   on('process:stopped', (name, durationMs) => send('stopped', { name, durationMs }));
   on('process:failed', (name, error) => send('failed', { name, error: error?.message }));
-  on('process:restarting', (name, attempt) => send('restarting', { name, attempt }));
+  on('process:restarting', (name, attempt, delayMs) =>
+    send('restarting', { name, attempt, delayMs }),
+  );
+  on('process:restart-cancelled', (name) => send('restart-cancelled', { name }));
+  on('process:crash-loop', (name, loop) => send('crash-loop', { name, ...loop }));
+  on('process:unhealthy', (name, reason) => send('unhealthy', { name, reason }));
+  // Both become one `boot-step` event: the client appends it to the process's
+  // timeline, or starts a new one when `startedAt` differs from the one it has.
+  on('process:probe', (name, attempt, startedAt) =>
+    send('boot-step', { name, startedAt, step: { kind: 'probe', ...attempt } }),
+  );
+  on('process:boot-step', (name, step, startedAt) => send('boot-step', { name, startedAt, step }));
+  on('process:watch-triggered', (name, files) => send('watch-triggered', { name, files }));
+  // The process set or topology may have changed: clients refetch the snapshot.
+  on('config:reloaded', (change) => send('config-reloaded', change));
   on('process:line', (name, line) =>
     send('line', {
       name,
@@ -62,6 +79,10 @@ export function streamOrckitEvents(orckit: Orckit, res: ServerResponse): () => v
   // momentary event — the client pins it next to the process, so it wants
   // "where the build stands" not "what just happened".
   on('process:build', (name, event) => send('build', { name, build: reduceBuild(event) }));
+  on('process:build-run', (name, run) => send('build-run', { name, run }));
+  on('process:diagnostics', (name, diagnostics) => send('diagnostics', { name, diagnostics }));
+  on('process:metrics', (name, sample) => send('metrics', { name, sample }));
+  on('process:limit-exceeded', (name, exceeded) => send('limit-exceeded', { name, exceeded }));
   on('boot:complete', (summary) => send('boot:complete', summary));
   on('all:ready', (names) => send('all:ready', { names }));
 
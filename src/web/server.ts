@@ -4,10 +4,15 @@ import {
   type IncomingMessage,
   type ServerResponse,
 } from 'node:http';
-import type { Orckit } from '../orchestrator/orchestrator.js';
+import { isIP } from 'node:net';
+import { resolve } from 'node:path';
+import type { Orckit, RestartOptions } from '../orchestrator/orchestrator.js';
+import type { ConfigChange } from '../orchestrator/reload.js';
 import { reduceBuild, type BuildEvent, type BuildStatus } from '../process/parsers.js';
+import { searchLogs, parseTimeBound, type LogSearchQuery } from '../process/search.js';
 import { buildSnapshot, recentOutput } from './snapshot.js';
 import { streamOrckitEvents } from './events.js';
+import { attachNotifier } from '../reporter/notifier.js';
 import { resolveStaticDir, serveStaticAsset } from './static.js';
 import type { IdeLink } from './ide.js';
 
@@ -21,6 +26,11 @@ export interface WebUiServerOptions {
    * logs and errors become `jetbrains://` links. Null/undefined disables it.
    */
   ide?: IdeLink | null;
+  /**
+   * Accept a `command` / `env` override on `POST /api/restart/:name`. Off by
+   * default: it runs whatever command the request names.
+   */
+  allowOverrides?: boolean;
 }
 
 export interface WebUiServerHandle {
@@ -37,10 +47,19 @@ export interface WebUiServerHandle {
  *   GET  /assets/*            → bundled JS/CSS/fonts
  *   GET  /api/state           → full snapshot (initial hydration)
  *   GET  /api/output/:name    → recent N lines from a process buffer
- *   GET  /events              → SSE stream of orckit events
- *   POST /api/restart/:name   → restart a process (cascade by default)
+ *   GET  /api/search?q=…      → regex search over buffers (+ log files)
+ *   GET  /events              → SSE stream of orckit events (and `browser`
+ *                               notifications, as `notification` events)
+ *   POST /api/restart/:name   → restart a process (cascade by default); an optional
+ *                               JSON body `{ command?, env?, cascade? }` overrides the
+ *                               next spawn's command / env (with `allowOverrides`,
+ *                               from a same-origin JSON request only)
  *   POST /api/start/:name     → start a process (+ deps, skipping running ones)
  *   POST /api/stop/:name      → stop a process
+ *   POST /api/cancel-restart/:name → call off a queued automatic restart
+ *
+ * `:name` on restart/start/stop may also be a selector — `@category` or a
+ * glob (`api-*`), URL-encoded — acting on every process it picks.
  *
  * Follows the same shape as `attachMcpServer`: subscribes to events, returns
  * a handle whose `dispose()` cleanly shuts down the HTTP listener and
@@ -52,6 +71,7 @@ export async function attachWebUi(
 ): Promise<WebUiServerHandle> {
   const host = opts.host ?? '127.0.0.1';
   const ide = opts.ide ?? null;
+  const allowOverrides = opts.allowOverrides ?? false;
   const staticDir = resolveStaticDir();
 
   // Track last error per process so the initial snapshot can surface it
@@ -60,11 +80,17 @@ export async function attachWebUi(
   const onFailed = (name: string, err?: Error) => {
     lastErrors.set(name, err?.message ?? 'process failed');
   };
+  const onUnhealthy = (name: string, reason: string) => {
+    lastErrors.set(name, reason);
+  };
   const onReady = (name: string) => {
     lastErrors.delete(name);
   };
   orckit.on('process:failed', onFailed);
+  orckit.on('process:unhealthy', onUnhealthy);
   orckit.on('process:ready', onReady);
+  // A recovery from `unhealthy` goes straight back to running, without `ready`.
+  orckit.on('process:running', onReady);
 
   // Track the latest build status per process so reconnecting clients (and the
   // initial snapshot) see the current build state, not just live deltas. SSE
@@ -95,9 +121,36 @@ export async function attachWebUi(
   };
   orckit.on('process:build', onBuild);
   orckit.on('process:restarting', onRestarting);
+  const onConfigReloaded = (change: ConfigChange) => {
+    for (const name of change.removed) {
+      lastErrors.delete(name);
+      builds.delete(name);
+      buildErrors.delete(name);
+    }
+  };
+  orckit.on('config:reloaded', onConfigReloaded);
+
+  // Log files only matter for sessions that predate this server; everything
+  // newer is still in the process buffers.
+  const search = {
+    logDir: orckit.config.logs.enabled ? resolve(orckit.config.logs.dir) : null,
+    historyBefore: Date.now(),
+  };
 
   const activeEventStreams = new Set<ServerResponse>();
 
+  // `browser` notification channels are delivered here, to every open
+  // dashboard; the page decides whether to show them (only while hidden).
+  const notifier = attachNotifier(orckit, {
+    types: ['browser'],
+    browser: (notification) => {
+      for (const stream of activeEventStreams) {
+        if (stream.writableEnded) continue;
+        stream.write(`event: notification\ndata: ${JSON.stringify(notification)}\n\n`);
+      }
+    },
+  });
+
   const http: HttpServer = createServer((req, res) => {
     void handleRequest(req, res).catch((err) => {
       if (!res.headersSent) {
@@ -116,7 +169,11 @@ export async function attachWebUi(
     const method = req.method ?? 'GET';
 
     if (method === 'GET' && path === '/api/state') {
-      sendJson(res, 200, buildSnapshot(orckit, { lastErrors, builds, buildErrors, ide }));
+      sendJson(
+        res,
+        200,
+        buildSnapshot(orckit, { lastErrors, builds, buildErrors, ide, allowOverrides }),
+      );
       return;
     }
 
@@ -130,6 +187,16 @@ export async function attachWebUi(
       return;
     }
 
+    if (method === 'GET' && path === '/api/search') {
+      try {
+        const query = parseSearchQuery(new URLSearchParams(url.slice(path.length)));
+        sendJson(res, 200, await searchLogs(orckit, query, search));
+      } catch (err) {
+        sendJson(res, 400, { error: (err as Error).message });
+      }
+      return;
+    }
+
     if (method === 'GET' && path === '/events') {
       handleEventStream(req, res);
       return;
@@ -138,7 +205,13 @@ export async function attachWebUi(
     if (method === 'POST' && path.startsWith('/api/restart/')) {
       const name = decodeURIComponent(path.slice('/api/restart/'.length));
       try {
-        await orckit.restart([name]);
+        const options = parseRestartBody(await readBody(req));
+        const refused = options.override && refuseOverride(req, host, allowOverrides);
+        if (refused) {
+          sendJson(res, refused.status, { error: refused.error });
+          return;
+        }
+        await orckit.restart([name], options);
         sendJson(res, 200, { ok: true });
       } catch (err) {
         sendJson(res, 400, { error: (err as Error).message });
@@ -168,6 +241,17 @@ export async function attachWebUi(
       return;
     }
 
+    if (method === 'POST' && path.startsWith('/api/cancel-restart/')) {
+      const name = decodeURIComponent(path.slice('/api/cancel-restart/'.length));
+      try {
+        if (orckit.cancelRestart(name)) sendJson(res, 200, { ok: true });
+        else sendJson(res, 409, { error: `no restart of "${name}" is pending` });
+      } catch (err) {
+        sendJson(res, 400, { error: (err as Error).message });
+      }
+      return;
+    }
+
     // CORS for the Vite dev server (port 5174) hitting the live orckit during
     // frontend development. In production both are same-origin so this is a
     // no-op for browser-served pages.
@@ -226,7 +310,7 @@ export async function attachWebUi(
     // separate /api/state fetch when it reconnects.
     res.write(`event: snapshot\n`);
     res.write(
-      `data: ${JSON.stringify(buildSnapshot(orckit, { lastErrors, builds, buildErrors, ide }))}\n\n`,
+      `data: ${JSON.stringify(buildSnapshot(orckit, { lastErrors, builds, buildErrors, ide, allowOverrides }))}\n\n`,
     );
   }
 
@@ -240,9 +324,13 @@ export async function attachWebUi(
     port,
     async dispose() {
       orckit.off('process:failed', onFailed);
+      orckit.off('process:unhealthy', onUnhealthy);
       orckit.off('process:ready', onReady);
+      orckit.off('process:running', onReady);
       orckit.off('process:build', onBuild);
       orckit.off('process:restarting', onRestarting);
+      orckit.off('config:reloaded', onConfigReloaded);
+      notifier.dispose();
       for (const stream of activeEventStreams) {
         try {
           stream.end();
@@ -268,6 +356,157 @@ function sendJson(res: ServerResponse, status: number, body: unknown): void {
   res.end(JSON.stringify(body));
 }
 
+/**
+ * Why a restart may not carry a command / env override, or null when it may.
+ * Overrides run whatever the request names, so beyond `allowOverrides` the
+ * request must be JSON (which a cross-site form can't send), must not come
+ * from another origin — the dashboard and the web-ui's Vite dev proxy are both
+ * same-origin — and must name this server by IP, `localhost` or its bound
+ * host, which a DNS-rebound name can't.
+ */
+function refuseOverride(
+  req: IncomingMessage,
+  boundHost: string,
+  allowOverrides: boolean,
+): { status: number; error: string } | null {
+  if (!allowOverrides) {
+    return {
+      status: 403,
+      error: 'restart overrides are disabled — set web.allow_overrides: true to allow them',
+    };
+  }
+  const type = req.headers['content-type']?.split(';')[0]!.trim().toLowerCase();
+  if (type !== 'application/json') {
+    return { status: 415, error: 'a restart override must be sent as application/json' };
+  }
+  const host = req.headers.host ?? '';
+  const hostname = hostnameOf(host);
+  if (
+    hostname === null ||
+    !(isIP(hostname) || hostname === 'localhost' || hostname === boundHost)
+  ) {
+    return { status: 403, error: `restart overrides for host "${host}" are not accepted` };
+  }
+  const origin = req.headers.origin;
+  if (origin !== undefined && origin !== `http://${host}`) {
+    return { status: 403, error: `restart overrides from origin "${origin}" are not accepted` };
+  }
+  return null;
+}
+
+/** `[::1]:7677` → `::1`; null for something that isn't a host. */
+function hostnameOf(host: string): string | null {
+  try {
+    return new URL(`http://${host}`).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return null;
+  }
+}
+
+/** Largest request body accepted; restart overrides are a command and a few env vars. */
+const MAX_BODY_BYTES = 64 * 1024;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolveBody, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error(`request body over ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * `/api/restart/:name` body → `RestartOptions`. Empty means a plain restart
+ * with the config — which is also how an override is reverted.
+ */
+function parseRestartBody(raw: string): RestartOptions {
+  if (raw.trim() === '') return {};
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new Error('request body is not valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new Error('request body must be a JSON object');
+  }
+  const { command, env, cascade, ...rest } = body as Record<string, unknown>;
+  const unknown = Object.keys(rest);
+  if (unknown.length > 0) throw new Error(`unknown field "${unknown[0]}"`);
+  if (command !== undefined && (typeof command !== 'string' || command.trim() === '')) {
+    throw new Error('command must be a non-empty string');
+  }
+  if (
+    env !== undefined &&
+    (typeof env !== 'object' ||
+      env === null ||
+      Array.isArray(env) ||
+      !Object.values(env).every((v) => typeof v === 'string'))
+  ) {
+    throw new Error('env must map names to string values');
+  }
+  if (cascade !== undefined && typeof cascade !== 'boolean') {
+    throw new Error('cascade must be a boolean');
+  }
+  const options: RestartOptions = {};
+  if (cascade !== undefined) options.cascade = cascade;
+  if (command !== undefined || env !== undefined) {
+    options.override = {
+      command: command as string | undefined,
+      env: env as Record<string, string> | undefined,
+    };
+  }
+  return options;
+}
+
+/**
+ * `/api/search` query string → `LogSearchQuery`. `process` and `category`
+ * accept repeated params or comma-separated lists; `since`/`until` take
+ * anything `parseTimeBound` does.
+ */
+function parseSearchQuery(params: URLSearchParams): LogSearchQuery {
+  const pattern = params.get('q');
+  if (!pattern) throw new Error('missing search pattern (?q=)');
+  const list = (key: string) => {
+    const values = params.getAll(key).flatMap((v) => v.split(',').filter(Boolean));
+    return values.length > 0 ? values : undefined;
+  };
+  const int = (key: string) => {
+    const raw = params.get(key);
+    if (raw == null) return undefined;
+    const n = Number(raw);
+    if (!Number.isInteger(n)) throw new Error(`${key} must be an integer, got "${raw}"`);
+    return n;
+  };
+  const stream = params.get('stream') ?? 'all';
+  if (stream !== 'stdout' && stream !== 'stderr' && stream !== 'all') {
+    throw new Error(`stream must be stdout, stderr or all, got "${stream}"`);
+  }
+  const since = params.get('since');
+  const until = params.get('until');
+  return {
+    pattern,
+    regex: params.get('regex') !== 'false',
+    ignoreCase: params.get('ignoreCase') === 'true',
+    since: since != null ? parseTimeBound(since) : undefined,
+    until: until != null ? parseTimeBound(until) : undefined,
+    processes: list('process'),
+    categories: list('category'),
+    stream,
+    context: int('context'),
+    limit: int('limit'),
+  };
+}
+
 function listen(server: HttpServer, port: number, host: string): Promise<void> {
   return new Promise((resolveListen, reject) => {
     const onError = (err: NodeJS.ErrnoException) => {
@@ -1,8 +1,14 @@
 import { resolve } from 'node:path';
-import type { Orckit } from '../orchestrator/orchestrator.js';
+import type { Orckit, ProcessOverride } from '../orchestrator/orchestrator.js';
 import type { ProcessState } from '../orchestrator/lifecycle.js';
 import type { OutputLine } from '../process/output.js';
 import type { BuildStatus } from '../process/parsers.js';
+import type { Diagnostic } from '../process/diagnostics.js';
+import type { BuildRun } from '../process/build-history.js';
+import type { MetricsSample } from '../process/metrics.js';
+import type { LimitExceeded } from '../process/limits.js';
+import type { BootTimelineSnapshot } from '../orchestrator/timeline.js';
+import type { CrashLoop } from '../orchestrator/restart.js';
 import type { IdeLink } from './ide.js';
 
 export interface ProcessSnapshot {
@@ -15,6 +21,16 @@ export interface ProcessSnapshot {
   pid: number | null;
   startedAt: number | null;
   retries: number;
+  /** When the queued automatic restart spawns (epoch ms); null when none is queued. */
+  nextRestartAt: number | null;
+  /** The last crash loop, until the process is started by hand or its retries reset. */
+  crashLoop?: CrashLoop;
+  /**
+   * Set when the running spawn was started with a one-off override instead of
+   * its config (`POST /api/restart/:name` with a body); `command` above is
+   * still the config's.
+   */
+  override?: ProcessOverride;
   optional: boolean;
   /**
    * Absolute working directory the process is spawned in (`config.cwd` resolved
@@ -23,18 +39,37 @@ export interface ProcessSnapshot {
    * process's output against it before building IDE deep links.
    */
   cwd: string;
+  /** The last failure, or else the standing `limits:` breach's message. */
   lastError?: string;
+  /** The last `limits:` breach, until something other than the limit restarts the process. */
+  limitExceeded?: LimitExceeded;
   /** Latest build status, for processes whose `type` has a build parser. */
   build?: BuildStatus;
   /** Diagnostic lines from the latest failing build, if any. Cleared on rebuild/success. */
   buildErrors?: string[];
+  /** The latest build's errors and warnings by file / line / column (see `Orckit.diagnostics`). */
+  diagnostics: Diagnostic[];
+  /** Finished builds, oldest first (see `Orckit.buildHistory`). */
+  builds: BuildRun[];
+  /** CPU / memory history, oldest first; empty until sampled (or when `metrics` is off). */
+  metrics: MetricsSample[];
+  /** The latest boot step by step — hooks, spawn, each ready-check attempt; null before the first. */
+  boot: BootTimelineSnapshot | null;
 }
 
 export interface OrckitSnapshot {
   project: string;
+  /** The config profile applied at load time (`--profile`), or null. */
+  profile: string | null;
   processes: ProcessSnapshot[];
+  /** The top-level `ports:` as resolved at load time (`auto` replaced by the allocated port). */
+  ports: Record<string, number>;
   /** IDE deep-link descriptor when a JetBrains project was detected; null otherwise. */
   ide: IdeLink | null;
+  /** Whether a `browser` notification channel is configured — the dashboard offers to enable them. */
+  notifications: boolean;
+  /** Whether `POST /api/restart/:name` takes a command / env override (`web.allow_overrides`). */
+  overrides: boolean;
 }
 
 export interface SnapshotContext {
@@ -46,6 +81,8 @@ export interface SnapshotContext {
   buildErrors: ReadonlyMap<string, string[]>;
   /** Resolved IDE deep-link descriptor, or null when not a JetBrains project / disabled. */
   ide: IdeLink | null;
+  /** Whether restart overrides are accepted. */
+  allowOverrides: boolean;
 }
 
 /**
@@ -66,19 +103,31 @@ export function buildSnapshot(orckit: Orckit, ctx: SnapshotContext): OrckitSnaps
       pid: inspect.pid,
       startedAt: inspect.startedAt,
       retries: inspect.retries,
+      nextRestartAt: inspect.nextRestartAt,
+      crashLoop: inspect.crashLoop ?? undefined,
+      override: inspect.override ?? undefined,
       optional: processConfig.optional,
       // Resolve the same way the Runner spawns: `config.cwd ?? process.cwd()`,
       // with a relative `config.cwd` taken against orckit's working directory.
       cwd: resolve(processConfig.cwd ?? '.'),
-      lastError: ctx.lastErrors.get(name),
+      lastError: ctx.lastErrors.get(name) ?? inspect.limitExceeded?.message,
+      limitExceeded: inspect.limitExceeded ?? undefined,
       build: ctx.builds.get(name),
       buildErrors: ctx.buildErrors.get(name),
+      diagnostics: orckit.diagnostics(name),
+      builds: orckit.buildHistory(name),
+      metrics: orckit.metrics(name),
+      boot: orckit.timeline(name),
     });
   }
   return {
     project: orckit.projectName,
+    profile: orckit.config.profile ?? null,
     processes,
+    ports: orckit.config.ports,
     ide: ctx.ide,
+    notifications: orckit.config.notifications.channels.some((c) => c.type === 'browser'),
+    overrides: ctx.allowOverrides,
   };
 }
 
@@ -0,0 +1,232 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ComposeError, composeConfig, findLine } from '../../src/config/compose.js';
+
+type Processes = Record<string, Record<string, unknown>>;
+
+describe('composeConfig', () => {
+  let dir: string;
+
+  const write = (rel: string, text: string) => {
+    const path = join(dir, rel);
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, text);
+    return path;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'orckit-compose-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prefixes included processes and resolves depends_on within and across files', () => {
+    write(
+      'packages/api/orckit.yaml',
+      [
+        'project: api-only',
+        'processes:',
+        '  migrate:',
+        '    command: npm run migrate',
+        '  server:',
+        '    command: npm start',
+        '    cwd: src',
+        '    depends_on: [migrate, db]',
+      ].join('\n'),
+    );
+    const { value } = composeConfig(
+      [
+        'project: mono',
+        'include:',
+        '  - packages/api/orckit.yaml',
+        'processes:',
+        '  db:',
+        '    command: postgres',
+      ].join('\n'),
+      join(dir, 'orckit.yaml'),
+    );
+    const out = value as { project: string; processes: Processes; include?: unknown };
+    expect(out.project).toBe('mono');
+    expect(out.include).toBeUndefined();
+    expect(Object.keys(out.processes)).toEqual(['db', 'api:migrate', 'api:server']);
+    expect(out.processes['api:server']!.depends_on).toEqual(['api:migrate', 'db']);
+    expect(out.processes['api:server']!.cwd).toBe(join(dir, 'packages/api/src'));
+    expect(out.processes['api:migrate']!.cwd).toBe(join(dir, 'packages/api'));
+  });
+
+  it('takes an explicit prefix, or none', () => {
+    write('a/orckit.yaml', 'processes:\n  web:\n    command: vite\n');
+    write('b/orckit.yaml', 'processes:\n  worker:\n    command: node w.js\n');
+    const root = join(dir, 'orckit.yaml');
+    const { value } = composeConfig(
+      [
+        'include:',
+        '  - { path: a/orckit.yaml, prefix: frontend }',
+        "  - { path: b/orckit.yaml, prefix: '' }",
+      ].join('\n'),
+      root,
+    );
+    expect(Object.keys((value as { processes: Processes }).processes)).toEqual([
+      'frontend:web',
+      'worker',
+    ]);
+  });
+
+  it('renames port references to siblings and carries their ports along', () => {
+    write(
+      'packages/api/orckit.yaml',
+      [
+        'ports:',
+        '  worker: 4300',
+        '  server: 4000',
+        '  metrics: 9100',
+        'processes:',
+        '  worker:',
+        '    command: node worker.js',
+        '  server:',
+        '    command: node server.js --worker ${processes.worker.port} --db ${processes.db.port}',
+        '    env: { PORT: "${ports.server}", RAW: "$${processes.worker.port}", M: "${ports.metrics}" }',
+      ].join('\n'),
+    );
+    const { value, locate } = composeConfig(
+      'include: [packages/api/orckit.yaml]\nports:\n  api:server: 4100\n',
+      join(dir, 'orckit.yaml'),
+    );
+    const out = value as { ports: Record<string, number>; processes: Processes };
+    expect(out.ports).toEqual({ 'api:server': 4100, 'api:worker': 4300 });
+    expect(out.processes['api:server']!.command).toBe(
+      'node server.js --worker ${processes.api:worker.port} --db ${processes.db.port}',
+    );
+    expect(out.processes['api:server']!.env).toEqual({
+      PORT: '${ports.api:server}',
+      RAW: '$${processes.worker.port}',
+      M: '${ports.metrics}',
+    });
+    expect(locate(['ports', 'api:worker'])).toMatch(/packages\/api\/orckit\.yaml:2$/);
+  });
+
+  it('deep-merges extends bases under the extending file', () => {
+    write(
+      'base.yaml',
+      [
+        'project: base',
+        'env_file: [.env]',
+        'processes:',
+        '  db:',
+        '    command: postgres',
+        '    env: { PGPORT: "5432", PGUSER: dev }',
+        '    depends_on: [volume]',
+      ].join('\n'),
+    );
+    const root = join(dir, 'app', 'orckit.yaml');
+    const { value } = composeConfig(
+      [
+        'extends: ../base.yaml',
+        'project: app',
+        'processes:',
+        '  db:',
+        '    env: { PGUSER: app }',
+        '    depends_on: []',
+      ].join('\n'),
+      root,
+    );
+    const out = value as { project: string; env_file: string[]; processes: Processes };
+    expect(out.project).toBe('app');
+    expect(out.env_file).toEqual([join(dir, '.env')]);
+    expect(out.processes.db).toEqual({
+      command: 'postgres',
+      env: { PGPORT: '5432', PGUSER: 'app' },
+      depends_on: [],
+    });
+  });
+
+  it('appends preflight checks from included files', () => {
+    write('svc/orckit.yaml', 'preflight:\n  - name: go\n    command: go version\n');
+    const { value } = composeConfig(
+      'include: [svc/orckit.yaml]\npreflight:\n  - name: node\n    command: node -v\n',
+      join(dir, 'orckit.yaml'),
+    );
+    expect((value as { preflight: { name: string }[] }).preflight.map((c) => c.name)).toEqual([
+      'node',
+      'go',
+    ]);
+  });
+
+  it('locates merged values in the file and line that defined them', () => {
+    write(
+      'packages/api/orckit.yaml',
+      ['processes:', '  server:', '    command: npm start', '    restart: sometimes'].join('\n'),
+    );
+    const composed = composeConfig(
+      'include:\n  - packages/api/orckit.yaml\n',
+      join(dir, 'orckit.yaml'),
+    );
+    const at = composed.locate(['processes', 'api:server', 'restart']);
+    expect(at).toMatch(/packages\/api\/orckit\.yaml:4$/);
+    expect(composed.locate(['ports'])).toBeNull();
+  });
+
+  it('reports a missing file at the line that references it', () => {
+    const root = join(dir, 'orckit.yaml');
+    try {
+      composeConfig('project: x\ninclude:\n  - nope/orckit.yaml\n', root);
+      expect.fail('expected throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(ComposeError);
+      expect((err as ComposeError).file).toMatch(/orckit\.yaml:3$/);
+      expect((err as Error).message).toContain('nope/orckit.yaml');
+    }
+  });
+
+  it('rejects cycles and name collisions', () => {
+    write('a.yaml', 'extends: b.yaml\n');
+    write('b.yaml', 'extends: a.yaml\n');
+    expect(() => composeConfig('extends: a.yaml\n', join(dir, 'orckit.yaml'))).toThrow(
+      /circular extends\/include: .*a\.yaml → .*b\.yaml → .*a\.yaml/,
+    );
+
+    write('web/orckit.yaml', 'processes:\n  dev:\n    command: vite\n');
+    expect(() =>
+      composeConfig(
+        "processes:\n  dev:\n    command: x\ninclude:\n  - { path: web/orckit.yaml, prefix: '' }\n",
+        join(dir, 'orckit.yaml'),
+      ),
+    ).toThrow(/process "dev" is already defined/);
+  });
+});
+
+describe('findLine', () => {
+  const text = [
+    '# comment',
+    'processes:',
+    '  api:',
+    '    command: node api.js',
+    '    env:',
+    '      PORT: "3000"',
+    '  web:',
+    '    command: vite',
+    'preflight:',
+    '  - name: node',
+    '    command: node -v',
+    '  - name: go',
+    '    command: go version',
+  ].join('\n');
+
+  it('follows nested keys and list items by indentation', () => {
+    expect(findLine(text, ['processes'])).toBe(2);
+    expect(findLine(text, ['processes', 'api', 'env', 'PORT'])).toBe(6);
+    expect(findLine(text, ['processes', 'web', 'command'])).toBe(8);
+    expect(findLine(text, ['preflight', '1'])).toBe(12);
+    expect(findLine(text, ['preflight', '0', 'name'])).toBe(10);
+    expect(findLine(text, ['preflight', '1', 'command'])).toBe(13);
+  });
+
+  it('falls back to the deepest key found', () => {
+    expect(findLine(text, ['processes', 'api', 'ready', 'url'])).toBe(3);
+    expect(findLine(text, ['missing'])).toBeNull();
+  });
+});
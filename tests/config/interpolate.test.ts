@@ -0,0 +1,225 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { interpolateConfig, parseDotenv } from '../../src/config/interpolate.js';
+
+describe('parseDotenv', () => {
+  it('parses assignments, comments, export prefixes and quotes', () => {
+    const vars = parseDotenv(
+      [
+        '# comment',
+        '',
+        'PLAIN=value',
+        'export EXPORTED=yes',
+        'SPACED = padded  # trailing comment',
+        'HASH=a#b',
+        "SINGLE='keep ${raw} \\n'",
+        'DOUBLE="line1\\nline2 \\"q\\""',
+        'EMPTY=',
+      ].join('\n'),
+    );
+    expect(vars).toEqual({
+      PLAIN: 'value',
+      EXPORTED: 'yes',
+      SPACED: 'padded',
+      HASH: 'a#b',
+      SINGLE: 'keep ${raw} \\n',
+      DOUBLE: 'line1\nline2 "q"',
+      EMPTY: '',
+    });
+  });
+
+  it('rejects a line that is not an assignment, naming the line', () => {
+    expect(() => parseDotenv('OK=1\nnot an assignment')).toThrow(/line 2/);
+  });
+});
+
+describe('interpolateConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'orckit-interp-'));
+  });
+
+  const run = (raw: unknown, env: NodeJS.ProcessEnv = {}) =>
+    interpolateConfig(raw, { baseDir: dir, env });
+
+  it('layers process.env < top-level env_file < process env_file < env', () => {
+    writeFileSync(join(dir, 'shared.env'), 'A=shared\nB=shared\nC=shared\n');
+    writeFileSync(join(dir, 'api.env'), 'B=api\nC=api\n');
+    const { value, issues } = run(
+      {
+        env_file: ['shared.env'],
+        processes: {
+          api: {
+            command: 'echo ${A} ${B} ${C} ${D}',
+            env_file: ['api.env'],
+            env: { C: 'inline' },
+          },
+          web: { command: 'echo ${B}' },
+        },
+      },
+      { A: 'inherited', D: 'inherited' },
+    );
+    expect(issues).toEqual([]);
+    const processes = (value as { processes: Record<string, Record<string, unknown>> }).processes;
+    expect(processes.api!.command).toBe('echo shared api inline inherited');
+    expect(processes.api!.env).toEqual({ A: 'shared', B: 'api', C: 'inline' });
+    expect(processes.web!.command).toBe('echo shared');
+    expect(processes.web!.env).toEqual({ A: 'shared', B: 'shared', C: 'shared' });
+  });
+
+  it('resolves cwd, stop_command, ready checks and hooks', () => {
+    const { value, issues } = run(
+      {
+        processes: {
+          api: {
+            command: 'serve',
+            cwd: '${ROOT}/api',
+            stop_command: 'kill ${ROOT}',
+            ready: { type: 'http', url: 'http://localhost:${PORT:-3000}/' },
+            hooks: { pre_start: 'cd ${ROOT} && make' },
+          },
+          job: { command: 'x', ready: { type: 'custom', command: 'check ${ROOT}' } },
+        },
+      },
+      { ROOT: '/srv' },
+    );
+    expect(issues).toEqual([]);
+    const { api, job } = (value as { processes: Record<string, Record<string, unknown>> })
+      .processes;
+    expect(api).toMatchObject({
+      cwd: '/srv/api',
+      stop_command: 'kill /srv',
+      ready: { url: 'http://localhost:3000/' },
+      hooks: { pre_start: 'cd /srv && make' },
+    });
+    expect(job!.ready).toMatchObject({ command: 'check /srv' });
+  });
+
+  it('applies :- defaults to unset and empty variables, and keeps $${ literal', () => {
+    const { value, issues } = run(
+      { processes: { a: { command: '${EMPTY:-x} ${NOPE:-} ${EMPTY} $${SHELL_ONLY}' } } },
+      { EMPTY: '' },
+    );
+    expect(issues).toEqual([]);
+    expect((value as { processes: { a: { command: string } } }).processes.a.command).toBe(
+      'x   ${SHELL_ONLY}',
+    );
+  });
+
+  it('reports every unset variable with its field path', () => {
+    const { issues } = run({
+      processes: {
+        api: { command: 'run ${MISSING}', env: { URL: '${ALSO_MISSING}' } },
+      },
+    });
+    expect(issues.map((i) => i.path)).toEqual(['processes.api.env.URL', 'processes.api.command']);
+    expect(issues[0]!.message).toMatch(/\$\{ALSO_MISSING\} is not set/);
+  });
+
+  it('resolves ${ports.x} and ${processes.x.port} and coerces numeric port fields', () => {
+    const { value, issues } = interpolateConfig(
+      {
+        ports: { api: 'auto' },
+        processes: {
+          api: {
+            command: 'serve --port ${ports.api}',
+            ports: ['${ports.api}'],
+            ready: { type: 'tcp', port: '${processes.api.port}' },
+          },
+          web: { command: 'vite', env: { API: 'http://localhost:${processes.api.port}' } },
+        },
+      },
+      { baseDir: dir, env: {}, ports: { api: 41234 } },
+    );
+    expect(issues).toEqual([]);
+    const out = value as {
+      ports: Record<string, number>;
+      processes: Record<string, Record<string, unknown>>;
+    };
+    expect(out.ports).toEqual({ api: 41234 });
+    expect(out.processes.api).toMatchObject({
+      command: 'serve --port 41234',
+      ports: [41234],
+      ready: { port: 41234 },
+    });
+    expect(out.processes.web!.env).toEqual({ API: 'http://localhost:41234' });
+  });
+
+  it('resolves the path of file checks and the port of database and grpc checks', () => {
+    const ready = (check: Record<string, unknown>) => {
+      const { value, issues } = interpolateConfig(
+        { processes: { a: { command: 'x', ready: check } } },
+        { baseDir: dir, env: { RUN_DIR: '/run/app' }, ports: { db: 41234 } },
+      );
+      expect(issues).toEqual([]);
+      return (value as { processes: { a: { ready: unknown } } }).processes.a.ready;
+    };
+    expect(ready({ type: 'file', path: '${RUN_DIR}/ready' })).toMatchObject({
+      path: '/run/app/ready',
+    });
+    expect(ready({ type: 'unix-socket', path: '${RUN_DIR}/app.sock' })).toMatchObject({
+      path: '/run/app/app.sock',
+    });
+    for (const type of ['postgres', 'redis', 'grpc-health']) {
+      expect(ready({ type, port: '${ports.db}' })).toMatchObject({ port: 41234 });
+    }
+    expect(ready({ type: 'redis' })).toEqual({ type: 'redis' });
+  });
+
+  it('resolves the checks inside a composite ready check', () => {
+    const { value, issues } = interpolateConfig(
+      {
+        processes: {
+          api: {
+            command: 'serve',
+            ready: {
+              type: 'all',
+              checks: [
+                { type: 'http', url: 'http://localhost:${ports.api}/health' },
+                { type: 'custom', command: 'check ${ROOT}' },
+                { type: 'tcp', port: '${NOPE}' },
+              ],
+            },
+          },
+        },
+      },
+      { baseDir: dir, env: { ROOT: '/srv' }, ports: { api: 41234 } },
+    );
+    expect(issues.map((i) => i.path)).toEqual(['processes.api.ready.checks.2.port']);
+    expect((value as { processes: { api: { ready: unknown } } }).processes.api.ready).toEqual({
+      type: 'all',
+      checks: [
+        { type: 'http', url: 'http://localhost:41234/health' },
+        { type: 'custom', command: 'check /srv' },
+        { type: 'tcp', port: '${NOPE}' },
+      ],
+    });
+  });
+
+  it('resolves the liveness check like the ready check', () => {
+    const { value, issues } = interpolateConfig(
+      {
+        processes: {
+          api: {
+            command: 'serve',
+            liveness: { type: 'http', url: 'http://${HOST}:${ports.api}/healthz' },
+          },
+          db: { command: 'postgres', liveness: { type: 'postgres', port: '${ports.db}' } },
+        },
+      },
+      { baseDir: dir, env: { HOST: 'localhost' }, ports: { api: 41234, db: 41235 } },
+    );
+    expect(issues).toEqual([]);
+    const { api, db } = (value as { processes: Record<string, Record<string, unknown>> }).processes;
+    expect(api!.liveness).toEqual({ type: 'http', url: 'http://localhost:41234/healthz' });
+    expect(db!.liveness).toEqual({ type: 'postgres', port: 41235 });
+  });
+
+  it('passes non-config shapes through untouched', () => {
+    expect(run('not a config').value).toBe('not a config');
+    expect(run({ processes: { a: 'bad' } }).value).toEqual({ processes: { a: 'bad' } });
+  });
+});
@@ -1,8 +1,15 @@
-import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { mkdirSync, mkdtempSync, writeFileSync, rmSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
-import { ConfigError, loadConfig, parseConfigText, validateConfig } from '../../src/config/load.js';
+import {
+  ConfigError,
+  allocateConfigPorts,
+  hasUnallocatedPorts,
+  loadConfig,
+  parseConfigText,
+  validateConfig,
+} from '../../src/config/load.js';
 
 describe('parseConfigText', () => {
   it('parses minimal YAML', () => {
@@ -65,3 +72,233 @@ describe('loadConfig', () => {
     expect(() => loadConfig(join(dir, 'missing.yaml'))).toThrow(/missing.yaml/);
   });
 });
+
+describe('loadConfig with env_file and ${VAR} interpolation', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'orckit-env-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves env_file paths relative to the config file', () => {
+    writeFileSync(join(dir, '.env'), 'DATABASE_URL=postgres://localhost/app\nPORT=4000\n');
+    const path = join(dir, 'orckit.yaml');
+    writeFileSync(
+      path,
+      [
+        'env_file: [.env]',
+        'processes:',
+        '  api:',
+        '    command: node server.js --port ${PORT}',
+        '    ready: { type: http, url: "http://localhost:${PORT}/health" }',
+      ].join('\n'),
+    );
+    const config = loadConfig(path);
+    expect(config.processes.api?.command).toBe('node server.js --port 4000');
+    expect(config.processes.api?.env.DATABASE_URL).toBe('postgres://localhost/app');
+    expect(config.processes.api?.ready).toMatchObject({ url: 'http://localhost:4000/health' });
+  });
+
+  it('names the field path of an unset variable', () => {
+    const path = join(dir, 'orckit.yaml');
+    writeFileSync(
+      path,
+      'processes:\n  api:\n    command: echo ok\n    env:\n      URL: ${ORCKIT_TEST_UNSET_VAR}\n',
+    );
+    try {
+      loadConfig(path);
+      expect.fail('expected throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigError);
+      expect((err as Error).message).toContain('processes.api.env.URL');
+      expect((err as Error).message).toContain('${ORCKIT_TEST_UNSET_VAR} is not set');
+    }
+  });
+
+  it('reports an env_file that cannot be read', () => {
+    const path = join(dir, 'orckit.yaml');
+    writeFileSync(path, 'processes:\n  api:\n    command: ls\n    env_file: [missing.env]\n');
+    expect(() => loadConfig(path)).toThrow(/processes\.api\.env_file\.0: cannot read/);
+  });
+});
+
+describe('parseConfigText with ports', () => {
+  const yaml = `
+ports:
+  api: auto
+  db: 5432
+processes:
+  db:
+    command: postgres -p \${ports.db}
+    ready: { type: tcp, port: '\${ports.db}' }
+  api:
+    command: node server.js --port \${ports.api}
+    env: { DB_PORT: '\${processes.db.port}' }
+    ready: { type: http, url: 'http://localhost:\${processes.api.port}/health' }
+    ports: ['\${ports.api}']
+  web:
+    command: vite --api http://localhost:\${processes.api.port}
+`;
+
+  it('allocates auto ports and exposes them as ${ports.x} and ${processes.x.port}', async () => {
+    const loaded = parseConfigText(yaml);
+    expect(hasUnallocatedPorts(loaded)).toBe(true);
+    const config = await allocateConfigPorts(loaded);
+    expect(hasUnallocatedPorts(config)).toBe(false);
+    const api = config.ports.api!;
+    expect(api).toBeGreaterThan(0);
+    expect(api).not.toBe(5432);
+    expect(config.ports.db).toBe(5432);
+    expect(config.processes.db?.ready).toMatchObject({ type: 'tcp', port: 5432 });
+    expect(config.processes.api?.command).toBe(`node server.js --port ${api}`);
+    expect(config.processes.api?.env.DB_PORT).toBe('5432');
+    expect(config.processes.api?.ports).toEqual([api]);
+    expect(config.processes.api?.ready).toMatchObject({ url: `http://localhost:${api}/health` });
+    expect(config.processes.web?.command).toBe(`vite --api http://localhost:${api}`);
+  });
+
+  it('keeps a previous allocation, and leaves a config without auto ports as is', async () => {
+    const config = parseConfigText(yaml, undefined, { keepPorts: { api: 4100 } });
+    expect(hasUnallocatedPorts(config)).toBe(false);
+    expect(await allocateConfigPorts(config)).toBe(config);
+    expect(config.processes.api?.command).toBe('node server.js --port 4100');
+  });
+
+  it('rejects a malformed port declaration and an undeclared reference', () => {
+    expect(() =>
+      parseConfigText('ports:\n  api: sometimes\nprocesses:\n  a:\n    command: ls\n'),
+    ).toThrow(/ports\.api: expected a port number/);
+    expect(() => parseConfigText('processes:\n  a:\n    command: ls ${ports.nope}\n')).toThrow(
+      /processes\.a\.command: \$\{ports\.nope\} does not match/,
+    );
+  });
+});
+
+describe('parseConfigText with profiles', () => {
+  const yaml = `
+profiles:
+  e2e:
+    processes: [tests]
+    required: [tests]
+    overrides:
+      api:
+        env: { DATABASE_URL: 'postgres://localhost/\${DB_NAME:-e2e}' }
+processes:
+  api:
+    command: node api.js
+  web:
+    command: vite
+  tests:
+    command: playwright test
+    depends_on: [api]
+    optional: true
+`;
+
+  it('applies the requested profile before interpolation and validation', () => {
+    const config = parseConfigText(yaml, undefined, { profile: 'e2e' });
+    expect(config.profile).toBe('e2e');
+    expect(Object.keys(config.processes)).toEqual(['api', 'tests']);
+    expect(config.processes.tests?.optional).toBe(false);
+    expect(config.processes.api?.env.DATABASE_URL).toBe('postgres://localhost/e2e');
+  });
+
+  it('loads every process when no profile is requested', () => {
+    const config = parseConfigText(yaml);
+    expect(config.profile).toBeUndefined();
+    expect(Object.keys(config.processes)).toEqual(['api', 'web', 'tests']);
+    expect(Object.keys(config.profiles)).toEqual(['e2e']);
+  });
+
+  it('rejects an unknown profile', () => {
+    expect(() => parseConfigText(yaml, 'orckit.yaml', { profile: 'nope' })).toThrow(
+      /orckit\.yaml: invalid profile:\n {2}- profile: unknown profile "nope" \(available: e2e\)/,
+    );
+  });
+});
+
+describe('loadConfig with include and extends', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'orckit-compose-'));
+    mkdirSync(join(dir, 'packages', 'api'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('validates the composed config, with cross-file depends_on and port references', () => {
+    writeFileSync(
+      join(dir, 'packages', 'api', 'orckit.yaml'),
+      'processes:\n  server:\n    command: node server.js\n    depends_on: [db]\n',
+    );
+    const path = join(dir, 'orckit.yaml');
+    writeFileSync(
+      path,
+      [
+        'include: [packages/api/orckit.yaml]',
+        'ports:',
+        '  api:server: 4100',
+        'processes:',
+        '  db:',
+        '    command: postgres',
+        '  web:',
+        '    command: vite',
+        '    depends_on: [api:server]',
+        '    env: { API_PORT: "${processes.api:server.port}" }',
+      ].join('\n'),
+    );
+    const config = loadConfig(path);
+    expect(Object.keys(config.processes)).toEqual(['db', 'web', 'api:server']);
+    expect(config.processes['api:server']?.depends_on).toEqual(['db']);
+    expect(config.processes['api:server']?.cwd).toBe(join(dir, 'packages', 'api'));
+    expect(config.processes.web?.env.API_PORT).toBe('4100');
+  });
+
+  it("resolves an included file's references to its own processes' ports", () => {
+    writeFileSync(
+      join(dir, 'packages', 'api', 'orckit.yaml'),
+      [
+        'ports:',
+        '  worker: 4300',
+        'processes:',
+        '  worker:',
+        '    command: node worker.js',
+        '  server:',
+        '    command: node server.js --worker ${processes.worker.port:-3000}',
+      ].join('\n'),
+    );
+    const path = join(dir, 'orckit.yaml');
+    writeFileSync(
+      path,
+      [
+        'include: [packages/api/orckit.yaml]',
+        'processes:',
+        '  web:',
+        '    command: vite',
+        '    env: { WORKER: "${processes.api:worker.port:-1}" }',
+      ].join('\n'),
+    );
+    const config = loadConfig(path);
+    expect(config.ports).toEqual({ 'api:worker': 4300 });
+    expect(config.processes['api:server']?.command).toBe('node server.js --worker 4300');
+    expect(config.processes.web?.env.WORKER).toBe('4300');
+  });
+
+  it('names the included file and line of an invalid field', () => {
+    writeFileSync(
+      join(dir, 'packages', 'api', 'orckit.yaml'),
+      'processes:\n  server:\n    command: node server.js\n    restart: sometimes\n',
+    );
+    const path = join(dir, 'orckit.yaml');
+    writeFileSync(path, 'include:\n  - packages/api/orckit.yaml\n');
+    expect(() => loadConfig(path)).toThrow(
+      /processes\.api:server\.restart: .*\(.*packages\/api\/orckit\.yaml:4\)/,
+    );
+  });
+});
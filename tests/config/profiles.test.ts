@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { applyProfile, profileProcesses } from '../../src/config/profiles.js';
+
+const raw = {
+  profile: 'full',
+  processes: {
+    db: { command: 'postgres' },
+    api: { command: 'node api.js', depends_on: ['db'], env: { LOG: 'info', MODE: 'dev' } },
+    web: { command: 'vite', depends_on: ['api'] },
+    storybook: { command: 'storybook dev', optional: true },
+    e2e: { command: 'playwright test', depends_on: ['web'], optional: true },
+  },
+  profiles: {
+    full: {},
+    frontend: {
+      processes: ['web'],
+      optional: ['db'],
+      overrides: { web: { command: 'vite --mode mock' } },
+    },
+    e2e: {
+      processes: ['e2e'],
+      required: ['e2e'],
+      overrides: {
+        api: { env: { MODE: 'test' }, ready: { type: 'http', url: 'http://localhost:3000' } },
+      },
+    },
+  },
+};
+
+type Processes = Record<string, Record<string, unknown>>;
+
+describe('applyProfile', () => {
+  it('keeps the selected processes and their dependencies, with overrides applied', () => {
+    const { value, issues } = applyProfile(raw, 'e2e');
+    expect(issues).toEqual([]);
+    const out = value as { profile: string; processes: Processes };
+    expect(out.profile).toBe('e2e');
+    expect(Object.keys(out.processes)).toEqual(['db', 'api', 'web', 'e2e']);
+    expect(out.processes.e2e!.optional).toBe(false);
+    expect(out.processes.api!.env).toEqual({ LOG: 'info', MODE: 'test' });
+    expect(out.processes.api!.ready).toEqual({ type: 'http', url: 'http://localhost:3000' });
+    // The input is not mutated.
+    expect(raw.processes.api.env.MODE).toBe('dev');
+  });
+
+  it('marks processes optional and replaces commands', () => {
+    const out = applyProfile(raw, 'frontend').value as { processes: Processes };
+    expect(Object.keys(out.processes)).toEqual(['db', 'api', 'web']);
+    expect(out.processes.db!.optional).toBe(true);
+    expect(out.processes.web!.command).toBe('vite --mode mock');
+  });
+
+  it("falls back to the config's own profile key, and null applies none", () => {
+    const byDefault = applyProfile(raw, undefined).value as {
+      profile: string;
+      processes: Processes;
+    };
+    expect(byDefault.profile).toBe('full');
+    expect(Object.keys(byDefault.processes)).toHaveLength(5);
+    const none = applyProfile(raw, null).value as { profile?: string };
+    expect(none.profile).toBeUndefined();
+  });
+
+  it('reports an unknown profile with the available names', () => {
+    const { issues } = applyProfile(raw, 'staging');
+    expect(issues).toEqual([
+      { path: 'profile', message: 'unknown profile "staging" (available: full, frontend, e2e)' },
+    ]);
+  });
+
+  it('reports unknown process references in every profile', () => {
+    const { issues } = applyProfile(
+      {
+        processes: { api: { command: 'x' } },
+        profiles: {
+          a: { processes: ['api', 'wbe'] },
+          b: { overrides: { nope: { command: 'y' } } },
+        },
+      },
+      'a',
+    );
+    expect(issues).toEqual([
+      { path: 'profiles.a.processes.1', message: 'unknown process "wbe"' },
+      { path: 'profiles.b.overrides.nope', message: 'unknown process "nope"' },
+    ]);
+  });
+});
+
+describe('profileProcesses', () => {
+  it('returns every process when the profile selects none', () => {
+    expect([...profileProcesses(raw.processes, {})]).toEqual(Object.keys(raw.processes));
+    expect([...profileProcesses(raw.processes, { processes: ['api'], required: [] })]).toEqual([
+      'db',
+      'api',
+    ]);
+  });
+});
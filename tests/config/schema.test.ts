@@ -73,6 +73,57 @@ describe('processConfigSchema', () => {
     expect(parsed.stop_command).toBe('docker stop foo');
   });
 
+  it('parses limits, with sustained_for as a duration string or milliseconds', () => {
+    const parsed = processConfigSchema.parse({
+      command: 'x',
+      limits: { max_memory_mb: 4096, sustained_for: '2m' },
+    });
+    expect(parsed.limits).toEqual({ max_memory_mb: 4096, sustained_for: 120_000, action: 'warn' });
+    const ms = processConfigSchema.parse({
+      command: 'x',
+      limits: { max_cpu_percent: 150, sustained_for: 500, action: 'restart' },
+    });
+    expect(ms.limits?.sustained_for).toBe(500);
+    expect(ms.limits?.action).toBe('restart');
+  });
+
+  it('rejects limits without a ceiling, or with a bad duration', () => {
+    expect(() => processConfigSchema.parse({ command: 'x', limits: { action: 'stop' } })).toThrow(
+      /max_memory_mb and\/or max_cpu_percent/,
+    );
+    expect(() =>
+      processConfigSchema.parse({
+        command: 'x',
+        limits: { max_memory_mb: 100, sustained_for: 'soon' },
+      }),
+    ).toThrow(/invalid duration/);
+  });
+
+  it('parses restart_backoff and reset_retries_after, with defaults', () => {
+    const parsed = processConfigSchema.parse({
+      command: 'x',
+      restart_backoff: { initial: '500ms', max: '30s' },
+      reset_retries_after: '5m',
+    });
+    expect(parsed.restart_backoff).toEqual({
+      initial: 500,
+      max: 30_000,
+      multiplier: 2,
+      jitter: 0,
+    });
+    expect(parsed.reset_retries_after).toBe(300_000);
+    expect(parsed.crash_loop).toEqual({ failures: 3, within: 60_000 });
+  });
+
+  it('rejects a restart_backoff whose max is below initial, or jitter above 1', () => {
+    expect(() =>
+      processConfigSchema.parse({ command: 'x', restart_backoff: { initial: '10s', max: '5s' } }),
+    ).toThrow(/max must be at least initial/);
+    expect(() =>
+      processConfigSchema.parse({ command: 'x', restart_backoff: { jitter: 1.5 } }),
+    ).toThrow();
+  });
+
   it('requires a command', () => {
     expect(() => processConfigSchema.parse({})).toThrow();
   });
@@ -84,6 +135,8 @@ describe('processConfigSchema', () => {
   it('accepts known types', () => {
     expect(processConfigSchema.parse({ command: 'x', type: 'webpack' }).type).toBe('webpack');
     expect(processConfigSchema.parse({ command: 'x', type: 'angular' }).type).toBe('angular');
+    expect(processConfigSchema.parse({ command: 'x', type: 'vite' }).type).toBe('vite');
+    expect(processConfigSchema.parse({ command: 'x', type: 'tsc' }).type).toBe('tsc');
   });
 
   describe('type: docker', () => {
@@ -146,6 +199,43 @@ describe('processConfigSchema', () => {
       expect(parsed.stop_command).toBe('docker compose down');
     });
   });
+
+  describe('build', () => {
+    it('accepts a parser with a completion regex', () => {
+      const parsed = processConfigSchema.parse({
+        command: 'hugo server',
+        build: { start: 'rebuilding site', success: '^Total in \\d+ ms', error_line: '^ERROR' },
+      });
+      expect(parsed.build?.success).toBe('^Total in \\d+ ms');
+    });
+
+    it('needs success or failure', () => {
+      expect(() =>
+        processConfigSchema.parse({ command: 'x', build: { start: 'building' } }),
+      ).toThrow(/set success and\/or failure/);
+    });
+
+    it('rejects a regex that does not compile', () => {
+      expect(() =>
+        processConfigSchema.parse({ command: 'x', build: { success: 'done(' } }),
+      ).toThrow(/invalid regular expression/);
+      expect(() =>
+        processConfigSchema.parse({ command: 'x', build: { success: 'ok', progress: '(' } }),
+      ).toThrow(/invalid regular expression/);
+    });
+
+    it('requires a capture group in progress', () => {
+      expect(() =>
+        processConfigSchema.parse({ command: 'x', build: { success: 'ok', progress: '\\d+%' } }),
+      ).toThrow(/capture group/);
+    });
+
+    it('rejects unknown keys', () => {
+      expect(() =>
+        processConfigSchema.parse({ command: 'x', build: { success: 'ok', done: 'x' } }),
+      ).toThrow();
+    });
+  });
 });
 
 describe('readyCheckSchema', () => {
@@ -159,6 +249,43 @@ describe('readyCheckSchema', () => {
     });
   });
 
+  it('accepts http status codes, classes, ranges and lists', () => {
+    const parse = (expected_status: unknown) =>
+      readyCheckSchema.safeParse({ type: 'http', url: 'http://localhost', expected_status })
+        .success;
+    expect(parse(204)).toBe(true);
+    expect(parse('2xx')).toBe(true);
+    expect(parse('200-299')).toBe(true);
+    expect(parse([200, '3xx'])).toBe(true);
+    expect(parse('6xx')).toBe(false);
+    expect(parse('299-200')).toBe(false);
+    expect(parse([])).toBe(false);
+  });
+
+  it('rejects json_equals without a json_path', () => {
+    expect(() =>
+      processConfigSchema.parse({
+        command: 'x',
+        ready: { type: 'http', url: 'http://localhost', json_equals: 'UP' },
+      }),
+    ).toThrow(/json_equals needs a json_path/);
+  });
+
+  it('parses all / any / sequence over the plain check types', () => {
+    const parsed = readyCheckSchema.parse({
+      type: 'all',
+      checks: [
+        { type: 'http', url: 'http://localhost:8080/health' },
+        { type: 'log-pattern', pattern: 'routes loaded' },
+      ],
+    });
+    expect(parsed).toMatchObject({ type: 'all', timeout_ms: 60_000 });
+    expect(() => readyCheckSchema.parse({ type: 'any', checks: [] })).toThrow();
+    expect(() =>
+      readyCheckSchema.parse({ type: 'sequence', checks: [{ type: 'exit-code' }] }),
+    ).toThrow();
+  });
+
   it('parses tcp check with port range validation', () => {
     expect(() => readyCheckSchema.parse({ type: 'tcp', port: 0 })).toThrow();
     expect(() => readyCheckSchema.parse({ type: 'tcp', port: 70_000 })).toThrow();
@@ -208,7 +335,12 @@ describe('orckitConfigSchema', () => {
 
   it('applies mcp defaults when block is omitted', () => {
     const parsed = orckitConfigSchema.parse({ processes: { a: { command: 'echo' } } });
-    expect(parsed.mcp).toEqual({ enabled: true, port: 7676, host: '127.0.0.1' });
+    expect(parsed.mcp).toEqual({
+      enabled: true,
+      port: 7676,
+      host: '127.0.0.1',
+      allow_control: false,
+    });
   });
 
   it('applies mcp defaults when block is empty', () => {
@@ -216,7 +348,12 @@ describe('orckitConfigSchema', () => {
       processes: { a: { command: 'echo' } },
       mcp: {},
     });
-    expect(parsed.mcp).toEqual({ enabled: true, port: 7676, host: '127.0.0.1' });
+    expect(parsed.mcp).toEqual({
+      enabled: true,
+      port: 7676,
+      host: '127.0.0.1',
+      allow_control: false,
+    });
   });
 
   it('mcp.port partial override keeps other defaults', () => {
@@ -224,7 +361,38 @@ describe('orckitConfigSchema', () => {
       processes: { a: { command: 'echo' } },
       mcp: { port: 7700 },
     });
-    expect(parsed.mcp).toEqual({ enabled: true, port: 7700, host: '127.0.0.1' });
+    expect(parsed.mcp).toEqual({
+      enabled: true,
+      port: 7700,
+      host: '127.0.0.1',
+      allow_control: false,
+    });
+  });
+
+  it('mcp.allow_control: true is honored', () => {
+    const parsed = orckitConfigSchema.parse({
+      processes: { a: { command: 'echo' } },
+      mcp: { allow_control: true },
+    });
+    expect(parsed.mcp.allow_control).toBe(true);
+    expect(parsed.mcp.enabled).toBe(true);
+  });
+
+  it('applies web defaults, with restart overrides off', () => {
+    const parsed = orckitConfigSchema.parse({
+      processes: { a: { command: 'echo' } },
+      web: { port: 7700 },
+    });
+    expect(parsed.web).toEqual({
+      enabled: true,
+      port: 7700,
+      host: '127.0.0.1',
+      allow_overrides: false,
+    });
+    expect(orckitConfigSchema.parse({ processes: { a: { command: 'echo' } } }).web).toEqual({
+      ...parsed.web,
+      port: 7677,
+    });
   });
 
   it('mcp.enabled: false is honored', () => {
@@ -321,6 +489,74 @@ describe('orckitConfigSchema', () => {
     ).toThrow();
   });
 
+  it('defaults build_history to 100 in-memory runs', () => {
+    const parsed = orckitConfigSchema.parse({ processes: { a: { command: 'echo' } } });
+    expect(parsed.build_history).toEqual({
+      size: 100,
+      persist: false,
+      file: '.orckit/build-history.json',
+    });
+    expect(() =>
+      orckitConfigSchema.parse({
+        processes: { a: { command: 'echo' } },
+        build_history: { size: 0 },
+      }),
+    ).toThrow();
+  });
+
+  it('fills in notification channel defaults', () => {
+    const parsed = orckitConfigSchema.parse({
+      processes: { a: { command: 'echo' } },
+      notifications: {
+        channels: [
+          { type: 'command', command: 'notify-send {{title}} {{ message }}' },
+          { type: 'webhook', url: 'https://hooks.example.com/x', on: ['failed'], debounce: '30s' },
+        ],
+      },
+    });
+    expect(parsed.notifications.channels).toEqual([
+      {
+        type: 'command',
+        command: 'notify-send {{title}} {{ message }}',
+        on: ['failed', 'recovered', 'build-failed', 'all-ready'],
+        debounce: 0,
+      },
+      {
+        type: 'webhook',
+        url: 'https://hooks.example.com/x',
+        headers: {},
+        on: ['failed'],
+        debounce: 30_000,
+      },
+    ]);
+    expect(
+      orckitConfigSchema.parse({ processes: { a: { command: 'echo' } } }).notifications,
+    ).toEqual({ channels: [] });
+  });
+
+  it('rejects unknown notification fields and non-http webhooks', () => {
+    const parse = (channel: unknown) =>
+      orckitConfigSchema.parse({
+        processes: { a: { command: 'echo' } },
+        notifications: { channels: [channel] },
+      });
+    expect(() => parse({ type: 'command', command: 'say {{titel}}' })).toThrow(
+      /unknown field .*titel/,
+    );
+    expect(() => parse({ type: 'webhook', url: 'ftp://example.com/x' })).toThrow();
+    expect(() => parse({ type: 'browser', on: [] })).toThrow();
+    expect(() => parse({ type: 'email', to: 'me@example.com' })).toThrow();
+  });
+
+  it('rejects limits when metrics sampling is off', () => {
+    expect(() =>
+      orckitConfigSchema.parse({
+        processes: { web: { command: 'x', limits: { max_memory_mb: 100 } } },
+        metrics: { enabled: false },
+      }),
+    ).toThrow(/need metrics.enabled: true/);
+  });
+
   it('accepts a complete configuration', () => {
     const parsed = orckitConfigSchema.parse({
       project: 'demo',
@@ -0,0 +1,118 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Orckit } from '../../src/orchestrator/orchestrator.js';
+import { validateConfig } from '../../src/config/load.js';
+import {
+  attachControlServer,
+  type ControlFrame,
+  type ControlServerHandle,
+  type StatusResult,
+} from '../../src/daemon/control.js';
+import { DaemonNotRunningError, sendControlRequest } from '../../src/daemon/client.js';
+
+describe('control socket', () => {
+  let dir: string;
+  let socketPath: string;
+  let orckit: Orckit;
+  let control: ControlServerHandle;
+  let onShutdown: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'orckit-control-'));
+    socketPath = join(dir, 'orckit.sock');
+    orckit = new Orckit(
+      validateConfig({
+        project: 'ctl',
+        processes: {
+          api: { command: 'echo booted; sleep 30' },
+          web: { command: 'sleep 30', depends_on: ['api'] },
+        },
+      }),
+    );
+    onShutdown = vi.fn();
+    control = await attachControlServer(orckit, { socketPath, onShutdown });
+  });
+
+  afterEach(async () => {
+    await control.dispose();
+    await orckit.dispose();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('answers status with every process', async () => {
+    const status = (await sendControlRequest(socketPath, { command: 'status' })) as StatusResult;
+    expect(status.project).toBe('ctl');
+    expect(status.pid).toBe(process.pid);
+    expect(status.processes.map((p) => [p.name, p.state])).toEqual([
+      ['api', 'pending'],
+      ['web', 'pending'],
+    ]);
+  });
+
+  it('starts, restarts and stops processes through the Orckit API', async () => {
+    await sendControlRequest(socketPath, { command: 'start', names: ['web'] });
+    expect(orckit.state('api')).toBe('running');
+    expect(orckit.state('web')).toBe('running');
+
+    const pidBefore = orckit.inspect('api').pid;
+    await sendControlRequest(socketPath, { command: 'restart', names: ['api'], cascade: false });
+    expect(orckit.inspect('api').pid).not.toBe(pidBefore);
+
+    await sendControlRequest(socketPath, { command: 'stop', names: ['web'] });
+    expect(orckit.state('web')).toBe('stopped');
+    expect(orckit.state('api')).toBe('running');
+    expect(onShutdown).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown process names', async () => {
+    await expect(
+      sendControlRequest(socketPath, { command: 'stop', names: ['nope'] }),
+    ).rejects.toThrow(/unknown process "nope"/);
+  });
+
+  it('stop without names asks the daemon to shut down', async () => {
+    await sendControlRequest(socketPath, { command: 'stop', names: [] });
+    await vi.waitFor(() => expect(onShutdown).toHaveBeenCalledTimes(1));
+  });
+
+  it('logs returns the buffered tail', async () => {
+    await orckit.start();
+    await vi.waitFor(() => expect(orckit.output('api')).toHaveLength(1));
+    const frames: ControlFrame[] = [];
+    await sendControlRequest(socketPath, { command: 'logs', name: 'api' }, (f) => frames.push(f));
+    expect(frames).toEqual([
+      expect.objectContaining({ type: 'line', name: 'api', text: 'booted', stream: 'stdout' }),
+    ]);
+  });
+
+  it('attach streams reporter output until the server goes away', async () => {
+    const frames: ControlFrame[] = [];
+    const done = sendControlRequest(socketPath, { command: 'attach' }, (f) => frames.push(f));
+    await vi.waitFor(() => expect(frames[0]?.type).toBe('status'));
+
+    await orckit.start(['api']);
+    await vi.waitFor(() =>
+      expect(frames.some((f) => f.type === 'output' && f.text.includes('api ready'))).toBe(true),
+    );
+
+    await control.dispose();
+    await expect(done).resolves.toBeUndefined();
+  });
+
+  it('refuses to take over a socket another daemon is listening on', async () => {
+    await expect(attachControlServer(orckit, { socketPath, onShutdown: () => {} })).rejects.toThrow(
+      /already listening/,
+    );
+  });
+});
+
+describe('sendControlRequest', () => {
+  it('reports a missing daemon with DaemonNotRunningError', async () => {
+    const socketPath = join(tmpdir(), `orckit-missing-${process.pid}.sock`);
+    await expect(sendControlRequest(socketPath, { command: 'status' })).rejects.toBeInstanceOf(
+      DaemonNotRunningError,
+    );
+  });
+});
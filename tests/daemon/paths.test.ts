@@ -0,0 +1,55 @@
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { daemonPaths, runningDaemonPid, writeDaemonPid } from '../../src/daemon/paths.js';
+
+describe('daemonPaths', () => {
+  it('keeps every file under .orckit/ next to the config', () => {
+    const paths = daemonPaths('/work/app');
+    expect(paths.dir).toBe('/work/app/.orckit');
+    expect(paths.pidFile).toBe('/work/app/.orckit/orckit.pid');
+    expect(paths.socketPath).toBe('/work/app/.orckit/orckit.sock');
+    expect(paths.logFile).toBe('/work/app/.orckit/daemon.log');
+  });
+
+  it('moves an over-long socket path into the temp dir, deterministically', () => {
+    const deep = '/work/' + 'nested/'.repeat(20) + 'app';
+    const a = daemonPaths(deep);
+    expect(a.socketPath.startsWith(tmpdir())).toBe(true);
+    expect(a.socketPath).toBe(daemonPaths(deep).socketPath);
+    expect(a.socketPath).not.toBe(daemonPaths(deep + '2').socketPath);
+  });
+});
+
+describe('runningDaemonPid', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'orckit-paths-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns null when no pid file exists', () => {
+    expect(runningDaemonPid(daemonPaths(dir))).toBeNull();
+  });
+
+  it('returns the pid of a live daemon', () => {
+    const paths = daemonPaths(dir);
+    writeDaemonPid(paths, process.pid);
+    expect(runningDaemonPid(paths)).toBe(process.pid);
+  });
+
+  it('clears a stale pid file and socket', () => {
+    const paths = daemonPaths(dir);
+    // Max pid on Linux is 2^22; nothing lives above it.
+    writeDaemonPid(paths, 2 ** 22 + 1);
+    writeFileSync(paths.socketPath, '');
+    expect(runningDaemonPid(paths)).toBeNull();
+    expect(existsSync(paths.pidFile)).toBe(false);
+    expect(existsSync(paths.socketPath)).toBe(false);
+  });
+});
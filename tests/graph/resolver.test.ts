@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest';
 import {
   buildGraph,
   DependencyError,
+  expandSelectors,
   filterToTargets,
   groupIntoWaves,
   resolveStartOrder,
@@ -135,6 +136,58 @@ describe('filterToTargets', () => {
     const graph = buildGraph(configWith({ a: [] }));
     expect(() => filterToTargets(graph, ['nope'])).toThrow(DependencyError);
   });
+
+  it('expands selectors before pulling in dependencies', () => {
+    const graph = buildGraph(configWith({ a: [], b: ['a'], c: [] }));
+    const categories = new Map([
+      ['a', 'infra'],
+      ['b', 'backend'],
+      ['c', 'frontend'],
+    ]);
+    expect([...filterToTargets(graph, ['@backend'], categories)].sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('expandSelectors', () => {
+  const graph = buildGraph(
+    configWith({ db: [], 'api-users': ['db'], 'api-orders': ['db'], web: ['api-users'] }),
+  );
+  const categories = new Map([
+    ['db', 'infra'],
+    ['api-users', 'backend'],
+    ['api-orders', 'backend'],
+    ['web', 'frontend'],
+  ]);
+
+  it('passes plain names through', () => {
+    expect(expandSelectors(graph, ['web', 'db'], categories)).toEqual(['db', 'web']);
+  });
+
+  it('picks every process in an @category, in config order', () => {
+    expect(expandSelectors(graph, ['@backend'], categories)).toEqual(['api-users', 'api-orders']);
+  });
+
+  it('matches globs against names', () => {
+    expect(expandSelectors(graph, ['api-*'], categories)).toEqual(['api-users', 'api-orders']);
+    expect(expandSelectors(graph, ['{web,db}'], categories)).toEqual(['db', 'web']);
+  });
+
+  it('dedupes overlapping selectors', () => {
+    expect(expandSelectors(graph, ['api-users', '@backend', 'api-*'], categories)).toEqual([
+      'api-users',
+      'api-orders',
+    ]);
+  });
+
+  it('rejects a selector that matches nothing', () => {
+    expect(() => expandSelectors(graph, ['nope'], categories)).toThrow(/unknown process "nope"/);
+    expect(() => expandSelectors(graph, ['@mobile'], categories)).toThrow(
+      /no process in category "mobile"/,
+    );
+    expect(() => expandSelectors(graph, ['worker-*'], categories)).toThrow(
+      /no process matches "worker-\*"/,
+    );
+  });
 });
 
 describe('visualize', () => {
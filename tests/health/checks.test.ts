@@ -1,7 +1,12 @@
+import { existsSync, mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
 import { createServer as createHttpServer, type Server as HttpServer } from 'node:http';
+import { createServer as createHttp2Server, type Http2Server } from 'node:http2';
 import { createServer as createNetServer, type Server as NetServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { afterEach, describe, expect, it } from 'vitest';
 import { createProbe, readyCheckLocalEndpoint } from '../../src/health/checks.js';
+import { readyCheckSchema, type HttpReadyCheck, type ReadyCheck } from '../../src/config/schema.js';
 
 let httpServer: HttpServer | null = null;
 let tcpServer: NetServer | null = null;
@@ -84,6 +89,187 @@ describe('HttpProbe', () => {
   });
 });
 
+describe('HttpProbe — request and response matching', () => {
+  /** Serve `status` + `body`, recording each request's method, headers and body. */
+  async function serve(status: number, body: string) {
+    const seen: { method?: string; headers: Record<string, unknown>; body: string }[] = [];
+    httpServer = createHttpServer((req, res) => {
+      let received = '';
+      req.on('data', (c: Buffer) => (received += c.toString()));
+      req.on('end', () => {
+        seen.push({ method: req.method, headers: req.headers, body: received });
+        res.statusCode = status;
+        res.end(body);
+      });
+    });
+    const port = await new Promise<number>((resolve) => {
+      httpServer!.listen(0, '127.0.0.1', () => {
+        const addr = httpServer!.address();
+        resolve(typeof addr === 'object' && addr ? addr.port : 0);
+      });
+    });
+    return { url: `http://127.0.0.1:${port}/health`, seen };
+  }
+
+  const probeFor = (check: Record<string, unknown>) =>
+    createProbe(readyCheckSchema.parse({ type: 'http', ...check }) as HttpReadyCheck);
+
+  it('sends the configured method, headers and body', async () => {
+    const { url, seen } = await serve(200, 'ok');
+    const probe = probeFor({
+      url,
+      method: 'POST',
+      headers: { authorization: 'Bearer dev', 'content-type': 'application/json' },
+      body: '{"deep":true}',
+    });
+    expect(await probe.check()).toEqual({ ok: true });
+    expect(seen[0]).toMatchObject({
+      method: 'POST',
+      headers: { authorization: 'Bearer dev', 'content-length': '13' },
+      body: '{"deep":true}',
+    });
+  });
+
+  it('accepts status classes, ranges and lists', async () => {
+    const { url } = await serve(204, '');
+    expect((await probeFor({ url, expected_status: '2xx' }).check()).ok).toBe(true);
+    expect((await probeFor({ url, expected_status: '200-204' }).check()).ok).toBe(true);
+    expect((await probeFor({ url, expected_status: [200, 204] }).check()).ok).toBe(true);
+    expect(await probeFor({ url, expected_status: [200, '3xx'] }).check()).toEqual({
+      ok: false,
+      reason: 'HTTP 204 (expected 200 or 3xx)',
+    });
+  });
+
+  it('checks body_contains', async () => {
+    const { url } = await serve(200, 'status: starting');
+    expect(await probeFor({ url, body_contains: 'ready' }).check()).toEqual({
+      ok: false,
+      reason: 'response body does not contain "ready"',
+    });
+    expect((await probeFor({ url, body_contains: 'starting' }).check()).ok).toBe(true);
+  });
+
+  it('checks json_path and json_equals', async () => {
+    const { url } = await serve(200, '{"status":"DOWN","checks":[{"name":"db","up":true}]}');
+    expect((await probeFor({ url, json_path: 'checks[0].up', json_equals: true }).check()).ok).toBe(
+      true,
+    );
+    expect(await probeFor({ url, json_path: '$.status', json_equals: 'UP' }).check()).toEqual({
+      ok: false,
+      reason: '$.status is "DOWN" (expected "UP")',
+    });
+    expect(await probeFor({ url, json_path: '$.version' }).check()).toEqual({
+      ok: false,
+      reason: '$.version not found in the response',
+    });
+  });
+
+  it('reports a non-JSON body when json_path is set', async () => {
+    const { url } = await serve(200, '<html>');
+    expect(await probeFor({ url, json_path: '$.status' }).check()).toEqual({
+      ok: false,
+      reason: 'response body is not JSON (needed for $.status)',
+    });
+  });
+
+  it('gives up on a slow response after attempt_timeout_ms', async () => {
+    httpServer = createHttpServer(() => {
+      // never answers
+    });
+    const port = await new Promise<number>((resolve) => {
+      httpServer!.listen(0, '127.0.0.1', () => {
+        const addr = httpServer!.address();
+        resolve(typeof addr === 'object' && addr ? addr.port : 0);
+      });
+    });
+    const probe = probeFor({ url: `http://127.0.0.1:${port}/`, attempt_timeout_ms: 50 });
+    expect(await probe.check()).toEqual({ ok: false, reason: 'no response within 50ms' });
+    httpServer.closeAllConnections();
+  });
+});
+
+describe('CompositeProbe', () => {
+  const composite = (check: Record<string, unknown>) =>
+    createProbe(readyCheckSchema.parse(check) as Exclude<ReadyCheck, { type: 'exit-code' }>);
+
+  it('all: ready once every part has passed, naming the parts still pending', async () => {
+    const port = await startTcp();
+    const probe = composite({
+      type: 'all',
+      checks: [
+        { type: 'tcp', host: '127.0.0.1', port },
+        { type: 'log-pattern', pattern: 'routes loaded' },
+      ],
+    });
+    expect(await probe.check()).toEqual({
+      ok: false,
+      reason: 'waiting on log-pattern: awaiting pattern /routes loaded/',
+    });
+    probe.feedLine?.('routes loaded (12)');
+    expect(await probe.check()).toEqual({ ok: true });
+  });
+
+  it('any: ready when one part passes', async () => {
+    const port = await startTcp();
+    const probe = composite({
+      type: 'any',
+      checks: [
+        { type: 'log-pattern', pattern: 'never printed' },
+        { type: 'tcp', host: '127.0.0.1', port },
+      ],
+    });
+    expect(await probe.check()).toEqual({ ok: true });
+  });
+
+  it('any: lists every part when none passes', async () => {
+    const probe = composite({
+      type: 'any',
+      checks: [
+        { type: 'log-pattern', pattern: 'up' },
+        { type: 'custom', command: 'exit 3' },
+      ],
+    });
+    expect(await probe.check()).toEqual({
+      ok: false,
+      reason: 'none ready — log-pattern: awaiting pattern /up/; custom `exit 3`: command exited 3',
+    });
+  });
+
+  it('sequence: polls each part only after the previous one passed', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'orckit-seq-'));
+    const marker = join(dir, 'checked');
+    const probe = composite({
+      type: 'sequence',
+      checks: [
+        { type: 'log-pattern', pattern: 'migrated' },
+        { type: 'custom', command: `touch ${marker}` },
+      ],
+    });
+    expect(await probe.check()).toEqual({
+      ok: false,
+      reason: 'waiting on step 1 of 2, log-pattern: awaiting pattern /migrated/',
+    });
+    expect(existsSync(marker)).toBe(false);
+    probe.feedLine?.('migrated 3 tables');
+    expect(await probe.check()).toEqual({ ok: true });
+    expect(existsSync(marker)).toBe(true);
+  });
+
+  it('polls at the fastest part interval and takes the combined timeout', () => {
+    const probe = composite({
+      type: 'all',
+      checks: [
+        { type: 'tcp', port: 5432, interval_ms: 500 },
+        { type: 'log-pattern', pattern: 'x' },
+      ],
+      timeout_ms: 9000,
+    });
+    expect(probe.intervalMs).toBe(100);
+    expect(probe.timeoutMs).toBe(9000);
+  });
+});
+
 describe('TcpProbe', () => {
   it('passes when port accepts connections', async () => {
     const port = await startTcp();
@@ -109,6 +295,222 @@ describe('TcpProbe', () => {
   });
 });
 
+describe('FileProbe', () => {
+  it('waits for the file, then for its content to match', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'orckit-file-'));
+    const probe = createProbe(
+      readyCheckSchema.parse({ type: 'file', path: 'tmp/ready', pattern: '^port=\\d+' }) as Exclude<
+        ReadyCheck,
+        { type: 'exit-code' }
+      >,
+      { cwd: dir },
+    );
+    expect(await probe.check()).toEqual({ ok: false, reason: 'tmp/ready does not exist' });
+    mkdirSync(join(dir, 'tmp'));
+    writeFileSync(join(dir, 'tmp/ready'), 'starting');
+    expect(await probe.check()).toEqual({
+      ok: false,
+      reason: 'tmp/ready does not match /^port=\\d+/',
+    });
+    writeFileSync(join(dir, 'tmp/ready'), 'port=4000');
+    expect(await probe.check()).toEqual({ ok: true });
+  });
+});
+
+describe('UnixSocketProbe', () => {
+  it('passes once the socket accepts connections', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'orckit-sock-'));
+    const probe = createProbe(
+      { type: 'unix-socket', path: 'app.sock', interval_ms: 100, timeout_ms: 1000 },
+      { cwd: dir },
+    );
+    expect((await probe.check()).ok).toBe(false);
+    tcpServer = createNetServer();
+    await new Promise<void>((r) => tcpServer!.listen(join(dir, 'app.sock'), () => r()));
+    expect(await probe.check()).toEqual({ ok: true });
+  });
+});
+
+/** A TCP stand-in that answers the first chunk it receives with `reply(chunk)`. */
+async function startStandIn(reply: (request: Buffer) => Buffer | string): Promise<number> {
+  tcpServer = createNetServer((socket) => {
+    socket.once('data', (chunk) => socket.write(reply(chunk)));
+    socket.on('error', () => {});
+  });
+  return new Promise<number>((resolve) => {
+    tcpServer!.listen(0, '127.0.0.1', () => {
+      const addr = tcpServer!.address();
+      resolve(typeof addr === 'object' && addr ? addr.port : 0);
+    });
+  });
+}
+
+/** A postgres backend message: type byte, int32 length, body. */
+function pgMessage(type: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(5);
+  header.write(type, 0);
+  header.writeInt32BE(4 + body.length, 1);
+  return Buffer.concat([header, body]);
+}
+
+function pgError(code: string, message: string): Buffer {
+  return pgMessage('E', Buffer.from(`SFATAL\0C${code}\0M${message}\0\0`));
+}
+
+describe('PostgresProbe', () => {
+  const probeFor = (port: number) =>
+    createProbe(
+      readyCheckSchema.parse({ type: 'postgres', host: '127.0.0.1', port, user: 'app' }) as Exclude<
+        ReadyCheck,
+        { type: 'exit-code' }
+      >,
+    );
+
+  it('passes on an authentication request and sends a startup message', async () => {
+    let startup = '';
+    const port = await startStandIn((req) => {
+      startup = req.subarray(8).toString();
+      return pgMessage('R', Buffer.from([0, 0, 0, 3])); // cleartext password please
+    });
+    expect(await probeFor(port).check()).toEqual({ ok: true });
+    expect(startup).toBe('user\0app\0database\0app\0\0');
+  });
+
+  it('fails while the database system is starting up', async () => {
+    const port = await startStandIn(() => pgError('57P03', 'the database system is starting up'));
+    expect(await probeFor(port).check()).toEqual({
+      ok: false,
+      reason: 'postgres: the database system is starting up',
+    });
+  });
+
+  it('counts other errors (unknown database, bad role) as accepting', async () => {
+    const port = await startStandIn(() => pgError('3D000', 'database "app" does not exist'));
+    expect(await probeFor(port).check()).toEqual({ ok: true });
+  });
+
+  it('fails on a server that is not postgres', async () => {
+    const port = await startStandIn(() => 'HTTP/1.1 400 Bad Request\r\n\r\n');
+    expect((await probeFor(port).check()).ok).toBe(false);
+  });
+});
+
+describe('RedisProbe', () => {
+  const probeFor = (port: number, password?: string) =>
+    createProbe(
+      readyCheckSchema.parse({ type: 'redis', host: '127.0.0.1', port, password }) as Exclude<
+        ReadyCheck,
+        { type: 'exit-code' }
+      >,
+    );
+
+  it('passes on PONG', async () => {
+    let request = '';
+    const port = await startStandIn((req) => {
+      request = req.toString();
+      return '+PONG\r\n';
+    });
+    expect(await probeFor(port).check()).toEqual({ ok: true });
+    expect(request).toBe('*1\r\n$4\r\nPING\r\n');
+  });
+
+  it('authenticates first when a password is set', async () => {
+    let request = '';
+    const port = await startStandIn((req) => {
+      request = req.toString();
+      return '+OK\r\n+PONG\r\n';
+    });
+    expect(await probeFor(port, 's3cret').check()).toEqual({ ok: true });
+    expect(request).toBe('*2\r\n$4\r\nAUTH\r\n$6\r\ns3cret\r\n*1\r\n$4\r\nPING\r\n');
+  });
+
+  it('reports the error reply while loading', async () => {
+    const port = await startStandIn(() => '-LOADING Redis is loading the dataset in memory\r\n');
+    expect(await probeFor(port).check()).toEqual({
+      ok: false,
+      reason: 'redis: LOADING Redis is loading the dataset in memory',
+    });
+  });
+});
+
+describe('GrpcHealthProbe', () => {
+  let h2Server: Http2Server | null = null;
+
+  afterEach(async () => {
+    if (h2Server) {
+      await new Promise<void>((r) => h2Server!.close(() => r()));
+      h2Server = null;
+    }
+  });
+
+  /** Answer Health/Check with `status` for "api" (NOT_FOUND for other services). */
+  async function startHealthServer(status: number): Promise<{ port: number; services: string[] }> {
+    const services: string[] = [];
+    h2Server = createHttp2Server();
+    h2Server.on('stream', (stream, headers) => {
+      const chunks: Buffer[] = [];
+      stream.on('data', (c: Buffer) => chunks.push(c));
+      stream.on('end', () => {
+        const body = Buffer.concat(chunks).subarray(5);
+        const service = body.length > 2 ? body.subarray(2).toString() : '';
+        services.push(service);
+        if (headers[':path'] !== '/grpc.health.v1.Health/Check' || (service && service !== 'api')) {
+          stream.respond(
+            {
+              ':status': 200,
+              'content-type': 'application/grpc',
+              'grpc-status': '5',
+              'grpc-message': 'unknown%20service',
+            },
+            { endStream: true },
+          );
+          return;
+        }
+        stream.respond(
+          { ':status': 200, 'content-type': 'application/grpc' },
+          { waitForTrailers: true },
+        );
+        stream.on('wantTrailers', () => stream.sendTrailers({ 'grpc-status': '0' }));
+        stream.end(Buffer.from([0, 0, 0, 0, 2, 0x08, status]));
+      });
+    });
+    const port = await new Promise<number>((resolve) => {
+      h2Server!.listen(0, '127.0.0.1', () => {
+        const addr = h2Server!.address();
+        resolve(typeof addr === 'object' && addr ? addr.port : 0);
+      });
+    });
+    return { port, services };
+  }
+
+  const probeFor = (port: number, service?: string) =>
+    createProbe(
+      readyCheckSchema.parse({ type: 'grpc-health', host: '127.0.0.1', port, service }) as Exclude<
+        ReadyCheck,
+        { type: 'exit-code' }
+      >,
+    );
+
+  it('passes when the server reports SERVING', async () => {
+    const { port, services } = await startHealthServer(1);
+    expect(await probeFor(port, 'api').check()).toEqual({ ok: true });
+    expect(services).toEqual(['api']);
+  });
+
+  it('fails with the serving status otherwise', async () => {
+    const { port } = await startHealthServer(2);
+    expect(await probeFor(port).check()).toEqual({ ok: false, reason: 'server is NOT_SERVING' });
+  });
+
+  it('reports a non-OK grpc-status with its message', async () => {
+    const { port } = await startHealthServer(1);
+    expect(await probeFor(port, 'billing').check()).toEqual({
+      ok: false,
+      reason: 'grpc-status 5: unknown service',
+    });
+  });
+});
+
 describe('LogPatternProbe', () => {
   it('initially not ready', async () => {
     const probe = createProbe({ type: 'log-pattern', pattern: 'ready', timeout_ms: 1000 });
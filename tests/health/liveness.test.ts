@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { monitorLiveness } from '../../src/health/liveness.js';
+import type { HealthProbe } from '../../src/health/checks.js';
+
+/** A probe that answers from `results` in turn, repeating the last one. */
+function scriptedProbe(results: boolean[]): HealthProbe & { count: number } {
+  const probe: HealthProbe & { count: number } = {
+    count: 0,
+    intervalMs: 5,
+    timeoutMs: 5,
+    async check() {
+      const ok = results[Math.min(probe.count, results.length - 1)]!;
+      probe.count++;
+      return ok ? { ok: true } : { ok: false, reason: `check ${probe.count}` };
+    },
+  };
+  return probe;
+}
+
+const config = { interval_ms: 5, failure_threshold: 3, initial_delay_ms: 0 };
+
+function until(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const tick = () => {
+      if (cond()) resolve();
+      else if (Date.now() - start > timeoutMs) reject(new Error('timed out'));
+      else setTimeout(tick, 5);
+    };
+    tick();
+  });
+}
+
+describe('monitorLiveness', () => {
+  it('reports unhealthy once after failure_threshold consecutive failures', async () => {
+    const probe = scriptedProbe([true, false, true, false, false, false]);
+    const reasons: string[] = [];
+    const ac = new AbortController();
+    const done = monitorLiveness(
+      probe,
+      config,
+      { onUnhealthy: (r) => reasons.push(r), onRecovered: () => {} },
+      ac.signal,
+    );
+    await until(() => probe.count >= 10);
+    ac.abort();
+    await done;
+    expect(reasons).toEqual(['liveness check failed 3 times in a row (last: check 6)']);
+  });
+
+  it('reports recovery on the first passing check after unhealthy', async () => {
+    const probe = scriptedProbe([false, false, false, false, true]);
+    const events: string[] = [];
+    const ac = new AbortController();
+    const done = monitorLiveness(
+      probe,
+      config,
+      {
+        onUnhealthy: () => events.push('unhealthy'),
+        onRecovered: () => events.push('recovered'),
+      },
+      ac.signal,
+    );
+    await until(() => events.length === 2);
+    ac.abort();
+    await done;
+    expect(events).toEqual(['unhealthy', 'recovered']);
+    expect(probe.count).toBe(5);
+  });
+
+  it('waits initial_delay_ms before the first check and stops on abort', async () => {
+    const probe = scriptedProbe([false]);
+    const ac = new AbortController();
+    const done = monitorLiveness(
+      probe,
+      { ...config, initial_delay_ms: 10_000 },
+      { onUnhealthy: () => {}, onRecovered: () => {} },
+      ac.signal,
+    );
+    await new Promise((r) => setTimeout(r, 30));
+    ac.abort();
+    await done;
+    expect(probe.count).toBe(0);
+  });
+});
@@ -3,7 +3,7 @@
  *
  * Spawns `tsx src/cli.ts start` as a child process with a tiny YAML config,
  * waits for the printed MCP URL, then connects an MCP client over Streamable
- * HTTP and exercises each of the three tools. Mirrors
+ * HTTP and exercises the read-only tools. Mirrors
  * `tests/integration/fullstack.test.ts` in style.
  *
  * Run with:
@@ -52,6 +52,7 @@ describe('orc start + MCP end-to-end', () => {
         'mcp:',
         '  enabled: true',
         `  port: ${mcpPort}`,
+        '  allow_control: true',
         'processes:',
         '  worker:',
         '    command: sleep 30',
@@ -112,12 +113,21 @@ describe('orc start + MCP end-to-end', () => {
     rmSync(tmpDir, { recursive: true, force: true });
   }, 15_000);
 
-  it('exposes the three orckit tools via the printed URL', async () => {
+  it('exposes the orckit tools via the printed URL', async () => {
     const result = await client.listTools();
     expect(result.tools.map((t) => t.name).sort()).toEqual([
+      'get_boot_timeline',
+      'get_build_history',
+      'get_diagnostics',
       'get_errors',
       'get_logs',
+      'get_metrics',
       'get_status',
+      'restart_process',
+      'search_logs',
+      'start_process',
+      'stop_process',
+      'wait_for',
     ]);
   });
 
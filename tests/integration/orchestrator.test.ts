@@ -1,8 +1,11 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
 import { createServer as createNetServer, type Server as NetServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { afterEach, describe, expect, it } from 'vitest';
 import { Orckit } from '../../src/orchestrator/orchestrator.js';
 import type { OrckitConfig } from '../../src/config/schema.js';
-import { validateConfig } from '../../src/config/load.js';
+import { parseConfigText, validateConfig } from '../../src/config/load.js';
 import { isPortFree } from '../../src/util/port.js';
 
 function makeConfig(
@@ -32,6 +35,18 @@ describe('Orckit end-to-end', () => {
     expect(orckit.state('hi')).toBe('finished');
   });
 
+  it('allocates auto ports on start when the caller has not', async () => {
+    orckit = new Orckit(
+      parseConfigText(
+        'ports:\n  api: auto\nprocesses:\n  api:\n    command: echo port ${ports.api}\n    ready: { type: exit-code }\n',
+      ),
+    );
+    await orckit.start();
+    const port = orckit.config.ports.api!;
+    expect(port).not.toBe(65_535);
+    expect(orckit.output('api').map((l) => l.text)).toEqual([`port ${port}`]);
+  });
+
   it('respects depends_on order', async () => {
     const order: string[] = [];
     orckit = new Orckit(
@@ -117,6 +132,48 @@ describe('Orckit end-to-end', () => {
     expect(orckit.state('srv')).toBe('running');
   });
 
+  it('waits on every part of an `all` ready check', async () => {
+    orckit = new Orckit(
+      makeConfig({
+        gw: {
+          command: 'echo starting && sleep 0.2 && echo "routes loaded" && sleep 2',
+          ready: {
+            type: 'all',
+            checks: [
+              { type: 'custom', command: 'true' },
+              { type: 'log-pattern', pattern: 'routes loaded' },
+            ],
+            timeout_ms: 3000,
+          },
+        },
+      }),
+    );
+    await orckit.start();
+    expect(orckit.state('gw')).toBe('running');
+  });
+
+  it('names the pending part when a composite ready check times out', async () => {
+    orckit = new Orckit(
+      makeConfig({
+        gw: {
+          command: 'sleep 5',
+          ready: {
+            type: 'all',
+            checks: [
+              { type: 'custom', command: 'true' },
+              { type: 'log-pattern', pattern: 'routes loaded' },
+            ],
+            timeout_ms: 300,
+          },
+        },
+      }),
+    );
+    const errors: string[] = [];
+    orckit.on('process:failed', (_n, err) => errors.push(err?.message ?? ''));
+    await expect(orckit.start()).rejects.toThrow();
+    expect(errors[0]).toMatch(/last: waiting on log-pattern: awaiting pattern \/routes loaded\//);
+  });
+
   it('treats a clean exit (code 0) after ready as stopped, not failed', async () => {
     orckit = new Orckit(
       makeConfig({
@@ -198,6 +255,129 @@ describe('Orckit end-to-end', () => {
     expect(restarts.length).toBeGreaterThanOrEqual(1);
   });
 
+  it('backs off between restarts and flags the crash loop', async () => {
+    orckit = new Orckit(
+      makeConfig({
+        crash: {
+          command: 'echo ready && exit 1',
+          ready: { type: 'log-pattern', pattern: 'ready', timeout_ms: 3000 },
+          restart: 'on-failure',
+          restart_backoff: { initial: 50, max: 150, multiplier: 2 },
+          max_retries: 3,
+          crash_loop: { failures: 3, within: '10s' },
+          manual_retry: true,
+        },
+      }),
+    );
+    const delays: number[] = [];
+    const loops: string[] = [];
+    orckit.on('process:restarting', (_n, _attempt, delayMs) => delays.push(delayMs));
+    orckit.on('process:crash-loop', (_n, loop) => loops.push(loop.message));
+    await orckit.start();
+    await new Promise((r) => setTimeout(r, 1500));
+    expect(delays).toEqual([50, 100, 150]);
+    expect(loops).toEqual(['crash loop: 3 failures within 10s']);
+  });
+
+  it('cancels a queued restart, leaving the process failed', async () => {
+    orckit = new Orckit(
+      makeConfig({
+        crash: {
+          command: 'echo ready && exit 1',
+          ready: { type: 'log-pattern', pattern: 'ready', timeout_ms: 3000 },
+          restart: 'on-failure',
+          restart_delay_ms: 5000,
+          manual_retry: true,
+        },
+      }),
+    );
+    const cancelled: string[] = [];
+    orckit.on('process:restart-cancelled', (name) => cancelled.push(name));
+    const queued = new Promise<void>((r) => orckit!.once('process:restarting', () => r()));
+    await orckit.start();
+    await queued;
+    expect(orckit.inspect('crash').nextRestartAt).toBeGreaterThan(Date.now());
+    expect(orckit.cancelRestart('crash')).toBe(true);
+    await new Promise((r) => setTimeout(r, 50));
+    expect(cancelled).toEqual(['crash']);
+    expect(orckit.state('crash')).toBe('failed');
+    expect(orckit.inspect('crash').nextRestartAt).toBeNull();
+    expect(orckit.cancelRestart('crash')).toBe(false);
+  });
+
+  it('gives the retry budget back after reset_retries_after of healthy uptime', async () => {
+    orckit = new Orckit(
+      makeConfig({
+        flaky: {
+          command: 'echo ready && sleep 0.2 && exit 1',
+          ready: { type: 'log-pattern', pattern: 'ready', timeout_ms: 3000 },
+          restart: 'on-failure',
+          restart_delay_ms: 20,
+          max_retries: 1,
+          reset_retries_after: 100,
+        },
+      }),
+    );
+    const restarts: number[] = [];
+    orckit.on('process:restarting', (_n, attempt) => restarts.push(attempt));
+    await orckit.start();
+    await new Promise((r) => setTimeout(r, 1000));
+    // With max_retries: 1 and no reset, it would have restarted once.
+    expect(restarts.length).toBeGreaterThanOrEqual(2);
+    expect(restarts.every((attempt) => attempt === 1)).toBe(true);
+  });
+
+  it('marks a process unhealthy when its liveness check fails, and back when it passes', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'orckit-liveness-'));
+    const flag = join(dir, 'alive');
+    writeFileSync(flag, '');
+    orckit = new Orckit(
+      makeConfig({
+        svc: {
+          command: 'sleep 30',
+          liveness: {
+            type: 'custom',
+            command: `test -f ${flag}`,
+            interval_ms: 50,
+            failure_threshold: 2,
+          },
+        },
+      }),
+    );
+    const reasons: string[] = [];
+    orckit.on('process:unhealthy', (_n, reason) => reasons.push(reason));
+    await orckit.start();
+    expect(orckit.state('svc')).toBe('running');
+
+    rmSync(flag);
+    await new Promise((r) => setTimeout(r, 400));
+    expect(orckit.state('svc')).toBe('unhealthy');
+    expect(reasons).toHaveLength(1);
+
+    writeFileSync(flag, '');
+    await new Promise((r) => setTimeout(r, 300));
+    expect(orckit.state('svc')).toBe('running');
+  });
+
+  it('restarts an unhealthy process under restart: on-failure', async () => {
+    orckit = new Orckit(
+      makeConfig({
+        svc: {
+          command: 'sleep 30',
+          liveness: { type: 'custom', command: 'false', interval_ms: 50, failure_threshold: 1 },
+          restart: 'on-failure',
+          restart_delay_ms: 50,
+          max_retries: 1,
+        },
+      }),
+    );
+    const restarts: number[] = [];
+    orckit.on('process:restarting', (_n, attempt) => restarts.push(attempt));
+    await orckit.start();
+    await new Promise((r) => setTimeout(r, 1000));
+    expect(restarts).toEqual([1]);
+  });
+
   it('reports failure (BootFailedError) when the process exits during health check', async () => {
     orckit = new Orckit(
       makeConfig({
@@ -265,6 +445,32 @@ describe('Orckit end-to-end', () => {
     expect(seen).toContain('p:post_start');
   });
 
+  it('records every boot step and probe attempt in the timeline', async () => {
+    orckit = new Orckit(
+      makeConfig({
+        srv: {
+          command: 'sleep 0.3 && echo READY && sleep 2',
+          ready: { type: 'log-pattern', pattern: 'READY', timeout_ms: 3000 },
+          hooks: { pre_start: 'true', post_start: 'true' },
+        },
+      }),
+    );
+    expect(orckit.timeline('srv')).toBeNull();
+    const probes: boolean[] = [];
+    orckit.on('process:probe', (_n, attempt) => probes.push(attempt.ok));
+    await orckit.start();
+
+    const boot = orckit.timeline('srv')!;
+    const kinds = boot.steps.map((s) => (s.kind === 'hook' ? s.hook : s.kind));
+    expect(kinds[0]).toBe('pre_start');
+    expect(kinds[1]).toBe('spawn');
+    expect(kinds.slice(-3)).toEqual(['probe', 'ready', 'post_start']);
+    expect(probes.length).toBeGreaterThan(1);
+    expect(probes.at(-1)).toBe(true);
+    expect(probes.slice(0, -1).every((ok) => !ok)).toBe(true);
+    expect(boot.steps.every((s) => s.timestamp >= boot.startedAt)).toBe(true);
+  });
+
   it('marks a process failed (not stuck pending) when its pre_start hook fails', async () => {
     orckit = new Orckit(
       makeConfig({
@@ -442,6 +648,179 @@ describe('Orckit end-to-end', () => {
     expect(startTimes.length).toBe(2);
   });
 
+  it('restarts a process (and optionally its dependents) when watched files change', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'orckit-watch-'));
+    const starts: string[] = [];
+    const triggers: [string, string[]][] = [];
+    orckit = new Orckit(
+      makeConfig({
+        api: {
+          command: 'sleep 30',
+          cwd: dir,
+          watch: { paths: ['**/*.py'], debounce_ms: 50, restart_dependents: true },
+        },
+        web: { command: 'sleep 30', depends_on: ['api'] },
+      }),
+    );
+    orckit.on('process:starting', (name) => starts.push(name));
+    orckit.on('process:watch-triggered', (name, files) => triggers.push([name, files]));
+    await orckit.start();
+    expect(starts).toEqual(['api', 'web']);
+
+    writeFileSync(join(dir, 'app.py'), 'print(1)');
+    writeFileSync(join(dir, 'notes.txt'), 'ignored');
+    const deadline = Date.now() + 5000;
+    while (starts.length < 4 && Date.now() < deadline) await new Promise((r) => setTimeout(r, 25));
+
+    expect(triggers).toEqual([['api', ['app.py']]]);
+    expect(starts).toEqual(['api', 'web', 'api', 'web']);
+    expect(orckit.state('api')).toBe('running');
+  });
+
+  it('restarts once with an overridden command and env, then back to the config', async () => {
+    orckit = new Orckit(
+      makeConfig({
+        srv: {
+          command: 'echo "config $MODE" && sleep 5',
+          env: { MODE: 'plain' },
+          ready: { type: 'log-pattern', pattern: 'config|override', timeout_ms: 3000 },
+        },
+      }),
+    );
+    await orckit.start();
+    expect(orckit.inspect('srv').override).toBeNull();
+
+    const override = { command: 'echo "override $MODE $EXTRA" && sleep 5', env: { EXTRA: 'x' } };
+    await orckit.restart(['srv'], { override });
+    expect(orckit.state('srv')).toBe('running');
+    expect(orckit.inspect('srv').override).toEqual(override);
+    expect(orckit.output('srv').map((l) => l.text)).toContain('override plain x');
+
+    await orckit.restart(['srv']);
+    expect(orckit.inspect('srv').override).toBeNull();
+    expect(orckit.output('srv').at(-1)?.text).toBe('config plain');
+  });
+
+  it('refuses an override for more than one process', async () => {
+    orckit = new Orckit(makeConfig({ a: { command: 'sleep 1' }, b: { command: 'sleep 1' } }));
+    await expect(orckit.restart(['a', 'b'], { override: { command: 'true' } })).rejects.toThrow(
+      /exactly one process/,
+    );
+  });
+
+  it('reloads a config: stops removed, restarts changed plus dependents, starts added', async () => {
+    const events: string[] = [];
+    orckit = new Orckit(
+      makeConfig({
+        db: { command: 'sleep 30' },
+        api: { command: 'sleep 30', depends_on: ['db'] },
+        web: { command: 'sleep 30', depends_on: ['api'] },
+        legacy: { command: 'sleep 30' },
+      }),
+    );
+    await orckit.start();
+    orckit.on('process:starting', (name) => events.push(`start ${name}`));
+    orckit.on('process:stopped', (name) => events.push(`stop ${name}`));
+    orckit.on('config:reloaded', () => events.push('reloaded'));
+
+    const change = await orckit.reload(
+      makeConfig({
+        db: { command: 'sleep 30' },
+        api: { command: 'sleep 31', depends_on: ['db'] },
+        web: { command: 'sleep 30', depends_on: ['api'] },
+        worker: { command: 'sleep 30', depends_on: ['db'] },
+      }),
+    );
+
+    expect(change).toEqual({
+      added: ['worker'],
+      removed: ['legacy'],
+      changed: ['api'],
+      restarted: ['api', 'web'],
+    });
+    expect(events.filter((e) => e.startsWith('stop')).sort()).toEqual([
+      'stop api',
+      'stop legacy',
+      'stop web',
+    ]);
+    expect(events.indexOf('reloaded')).toBeLessThan(events.indexOf('start api'));
+    expect(events.filter((e) => e.startsWith('start'))).toEqual([
+      'start api',
+      'start web',
+      'start worker',
+    ]);
+    expect([...orckit.states().keys()]).toEqual(['db', 'api', 'web', 'worker']);
+    expect(orckit.config.processes.api?.command).toBe('sleep 31');
+  });
+
+  it('rejects a reload whose dependency graph does not resolve, leaving the stack as it was', async () => {
+    const config = makeConfig({ a: { command: 'sleep 30' } });
+    orckit = new Orckit(config);
+    await orckit.start();
+    const bad = makeConfig({
+      a: { command: 'sleep 30', depends_on: ['b'] },
+      b: { command: 'sleep 30', depends_on: ['a'] },
+    });
+    await expect(orckit.reload(bad)).rejects.toThrow(/circular dependency/);
+    expect(orckit.config).toBe(config);
+    expect(orckit.state('a')).toBe('running');
+  });
+
+  it.runIf(process.platform === 'linux')(
+    'samples CPU and memory for the whole process group',
+    async () => {
+      // A shell with a child: both are in the group the runner spawned.
+      orckit = new Orckit(
+        makeConfig({ busy: { command: 'sleep 30 & wait' } }, { metrics: { interval_ms: 250 } }),
+      );
+      const sampled = new Promise<[string, { rss: number; processes: number }]>((resolve) =>
+        orckit!.once('process:metrics', (name, sample) => resolve([name, sample])),
+      );
+      await orckit.start();
+      const [name, sample] = await sampled;
+      expect(name).toBe('busy');
+      expect(sample.processes).toBeGreaterThanOrEqual(2);
+      expect(sample.rss).toBeGreaterThan(0);
+      expect(orckit.metrics('busy')).toContainEqual(sample);
+    },
+  );
+
+  it.runIf(process.platform === 'linux')(
+    'stops a process that crosses its memory limit and keeps the breach',
+    async () => {
+      // Any shell is well over 100 KB resident; with sustained_for: 0 the first
+      // sample trips it.
+      orckit = new Orckit(
+        makeConfig(
+          {
+            hog: {
+              command: 'sleep 30',
+              limits: { max_memory_mb: 0.1, sustained_for: 0, action: 'stop' },
+            },
+          },
+          { metrics: { interval_ms: 250 } },
+        ),
+      );
+      const exceeded = new Promise<string>((resolve) =>
+        orckit!.once('process:limit-exceeded', (_name, breach) => resolve(breach.message)),
+      );
+      const stopped = new Promise<void>((resolve) =>
+        orckit!.once('process:stopped', () => resolve()),
+      );
+      await orckit.start();
+      expect(await exceeded).toMatch(/^memory .* over the 102 KB limit$/);
+      await stopped;
+      expect(orckit.state('hog')).toBe('stopped');
+      expect(orckit.inspect('hog').limitExceeded).toMatchObject({
+        limit: 'memory',
+        action: 'stop',
+      });
+
+      await orckit.startTargets(['hog']);
+      expect(orckit.inspect('hog').limitExceeded).toBeNull();
+    },
+  );
+
   it('fails fast when the ready-check port is already taken (no false "ready")', async () => {
     // Hold a port so the orckit process can't bind. Without the pre-spawn
     // guard, the TCP probe would immediately succeed against this stale
@@ -502,4 +881,152 @@ describe('Orckit end-to-end', () => {
     await orckit.start();
     expect(orckit.state('svc')).toBe('running');
   });
+
+  it('emits process:build from the regexes of a build: block', async () => {
+    orckit = new Orckit(
+      makeConfig({
+        gen: {
+          command:
+            "printf 'watching\\ngenerating\\nWARN unused import\\ngenerated 3 files\\n'; sleep 30",
+          ready: { type: 'log-pattern', pattern: 'watching', timeout_ms: 5000 },
+          build: { start: '^generating', success: '^generated', warning_line: '^WARN' },
+        },
+      }),
+    );
+    const builds: unknown[] = [];
+    orckit.on('process:build', (name, event) => builds.push(event));
+    await orckit.start();
+    const deadline = Date.now() + 5000;
+    while (builds.length < 2 && Date.now() < deadline) await new Promise((r) => setTimeout(r, 20));
+    expect(builds).toMatchObject([
+      { type: 'build:start' },
+      { type: 'build:complete', success: true, errors: 0, warnings: 1 },
+    ]);
+  });
+
+  it("starts each spawn's build tally afresh", async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'orckit-tally-'));
+    const mark = join(dir, 'crashed');
+    orckit = new Orckit(
+      makeConfig({
+        gen: {
+          // The first run dies mid-build after two warnings; the next one
+          // only prints the summary line.
+          command:
+            `if [ -f ${mark} ]; then printf 'watching\\ngenerated\\n'; ` +
+            `else touch ${mark}; printf 'watching\\ngenerating\\nWARN a\\nWARN b\\n'; fi; ` +
+            'sleep 30',
+          ready: { type: 'log-pattern', pattern: 'watching', timeout_ms: 5000 },
+          build: { start: '^generating', success: '^generated', warning_line: '^WARN' },
+        },
+      }),
+    );
+    const builds: unknown[] = [];
+    orckit.on('process:build', (name, event) => builds.push(event));
+    try {
+      await orckit.start();
+      const deadline = Date.now() + 5000;
+      const warned = () => orckit.output('gen').some((l) => l.text === 'WARN b');
+      while (!warned() && Date.now() < deadline) await new Promise((r) => setTimeout(r, 20));
+      await orckit.restart(['gen']);
+      while (builds.length < 2 && Date.now() < deadline) {
+        await new Promise((r) => setTimeout(r, 20));
+      }
+      expect(builds).toMatchObject([
+        { type: 'build:start' },
+        { type: 'build:complete', success: true, errors: 0, warnings: 0 },
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('records finished builds and persists them across runs', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'orckit-builds-'));
+    const config = makeConfig(
+      {
+        gen: {
+          command: "printf 'watching\\ngenerating\\ngenerated\\n'; sleep 30",
+          ready: { type: 'log-pattern', pattern: 'watching', timeout_ms: 5000 },
+          build: { start: '^generating', success: '^generated' },
+        },
+      },
+      { build_history: { persist: true, file: join(dir, 'build-history.json') } },
+    );
+    try {
+      orckit = new Orckit(config);
+      const runs: unknown[] = [];
+      orckit.on('process:build-run', (name, run) => runs.push(run));
+      await orckit.start();
+      const deadline = Date.now() + 5000;
+      while (runs.length < 1 && Date.now() < deadline) await new Promise((r) => setTimeout(r, 20));
+      expect(runs).toMatchObject([{ success: true, errors: 0, warnings: 0 }]);
+      expect(orckit.buildHistory('gen')).toEqual(runs);
+      await orckit.dispose();
+
+      orckit = new Orckit(config);
+      expect(orckit.buildHistory('gen')).toEqual(runs);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('collects the diagnostics of the latest build', async () => {
+    orckit = new Orckit(
+      makeConfig({
+        types: {
+          type: 'tsc',
+          command:
+            "printf 'Starting compilation in watch mode...\\nsrc/a.ts(3,7): error TS2322: Type mismatch.\\nFound 1 error. Watching for file changes.\\n'; sleep 30",
+          ready: { type: 'log-pattern', pattern: 'Watching', timeout_ms: 5000 },
+        },
+      }),
+    );
+    const lists: unknown[] = [];
+    orckit.on('process:diagnostics', (name, diagnostics) => lists.push(diagnostics));
+    await orckit.start();
+    expect(orckit.diagnostics('types')).toEqual([
+      {
+        file: 'src/a.ts',
+        line: 3,
+        column: 7,
+        severity: 'error',
+        code: 'TS2322',
+        message: 'Type mismatch.',
+      },
+    ]);
+    expect(lists).toHaveLength(1);
+  });
+
+  it('accepts @category and glob selectors as targets', async () => {
+    const svc = (extra: Record<string, unknown>) => ({
+      command: 'echo up; sleep 30',
+      ready: { type: 'log-pattern', pattern: 'up', timeout_ms: 5000 },
+      ...extra,
+    });
+    orckit = new Orckit(
+      makeConfig({
+        db: svc({ category: 'infra' }),
+        'api-users': svc({ category: 'backend', depends_on: ['db'] }),
+        'api-orders': svc({ category: 'backend', depends_on: ['db'] }),
+        web: svc({ category: 'frontend', depends_on: ['api-users'] }),
+      }),
+    );
+    await orckit.start(['@backend']);
+    expect(orckit.state('db')).toBe('running');
+    expect(orckit.state('api-users')).toBe('running');
+    expect(orckit.state('api-orders')).toBe('running');
+    expect(orckit.state('web')).toBe('pending');
+
+    await orckit.stop(['api-*']);
+    expect(orckit.state('api-users')).toBe('stopped');
+    expect(orckit.state('api-orders')).toBe('stopped');
+    expect(orckit.state('db')).toBe('running');
+
+    await expect(orckit.stop(['@mobile'])).rejects.toThrow(/no process in category "mobile"/);
+    // An unknown name fails the whole call before anything is stopped.
+    await expect(orckit.stop(['db', 'nope'])).rejects.toThrow(/unknown process "nope"/);
+    expect(orckit.state('db')).toBe('running');
+    expect(orckit.resolveTargets(['@infra', 'web'])).toEqual(['db', 'web']);
+  });
 });
@@ -33,10 +33,30 @@ describe('attachMcpServer over Streamable HTTP', () => {
     await orckit.dispose();
   });
 
-  it('lists exactly the three orckit tools with input schemas', async () => {
+  it('lists the orckit tools with input schemas', async () => {
     const result = await client.listTools();
     const names = result.tools.map((t) => t.name).sort();
-    expect(names).toEqual(['get_errors', 'get_logs', 'get_status']);
+    expect(names).toEqual([
+      'get_boot_timeline',
+      'get_build_history',
+      'get_diagnostics',
+      'get_errors',
+      'get_logs',
+      'get_metrics',
+      'get_status',
+      'restart_process',
+      'search_logs',
+      'start_process',
+      'stop_process',
+      'wait_for',
+    ]);
+
+    const restartTool = result.tools.find((t) => t.name === 'restart_process')!;
+    expect(restartTool.inputSchema.properties).toMatchObject({
+      name: expect.any(Object),
+      cascade: expect.any(Object),
+    });
+    expect(restartTool.inputSchema.required).toEqual(['name']);
 
     const logsTool = result.tools.find((t) => t.name === 'get_logs')!;
     expect(logsTool.inputSchema.properties).toMatchObject({
@@ -112,6 +132,26 @@ describe('attachMcpServer over Streamable HTTP', () => {
     ]);
   });
 
+  it('search_logs finds matching lines across processes', async () => {
+    const handles = (
+      orckit as unknown as {
+        handles: Map<string, { buffer: { push(t: string, s: 'stdout' | 'stderr'): unknown } }>;
+      }
+    ).handles;
+    handles.get('api')!.buffer.push('Error: db timeout', 'stderr');
+    handles.get('worker')!.buffer.push('job done', 'stdout');
+
+    const result = await client.callTool({
+      name: 'search_logs',
+      arguments: { pattern: 'error|done', ignore_case: true, since: '5m' },
+    });
+    expect(result.isError).not.toBe(true);
+    const json = extractJson(result) as unknown as { matches: { name: string }[] };
+    expect(json.matches.map((m) => m.name)).toEqual(['api', 'worker']);
+    const text = (result.content as { type: string; text: string }[])[0].text;
+    expect(text).toMatch(/^2 matches for \/error\|done\//);
+  });
+
   it('get_logs returns an isError result for an unknown process', async () => {
     const result = await client.callTool({
       name: 'get_logs',
@@ -122,6 +162,80 @@ describe('attachMcpServer over Streamable HTTP', () => {
     expect(text).toMatch(/unknown process/);
   });
 
+  it('start_process and stop_process drive the orchestrator', async () => {
+    let result = await client.callTool({ name: 'start_process', arguments: { name: 'api' } });
+    expect(result.isError).not.toBe(true);
+    let api = extractJson(result).processes!.find((p) => p.name === 'api')!;
+    expect(api.state).toBe('running');
+    expect(api.pid).toEqual(expect.any(Number));
+
+    result = await client.callTool({ name: 'stop_process', arguments: { name: 'api' } });
+    expect(result.isError).not.toBe(true);
+    api = extractJson(result).processes!.find((p) => p.name === 'api')!;
+    expect(api.state).toBe('stopped');
+  });
+
+  it('wait_for resolves once the process reaches the requested state', async () => {
+    const call = client.callTool({
+      name: 'wait_for',
+      arguments: { name: 'api', until: 'state', state: 'running', timeout_ms: 5000 },
+    });
+    void orckit.startTargets(['api']);
+    const result = await call;
+    expect(result.isError).not.toBe(true);
+    expect(extractJson(result)).toMatchObject({
+      name: 'api',
+      condition: 'state',
+      state: 'running',
+    });
+  });
+
+  it('wait_for reports a timeout as an isError result', async () => {
+    const result = await client.callTool({
+      name: 'wait_for',
+      arguments: { name: 'api', until: 'build', timeout_ms: 20 },
+    });
+    expect(result.isError).toBe(true);
+    const text = (result.content as { type: string; text: string }[])[0].text;
+    expect(text).toMatch(/timed out after 20ms waiting for api to finish a build/);
+  });
+
+  it('restart_process returns an isError result for an unknown process', async () => {
+    const result = await client.callTool({
+      name: 'restart_process',
+      arguments: { name: 'nope' },
+    });
+    expect(result.isError).toBe(true);
+    const text = (result.content as { type: string; text: string }[])[0].text;
+    expect(text).toMatch(/unknown process/);
+  });
+
+  it('omits the control tools when allowControl is false', async () => {
+    const readOnly = await attachMcpServer(orckit, { port: 0, allowControl: false });
+    const roClient = new Client(
+      { name: 'orckit-mcp-test', version: '0.0.0' },
+      { capabilities: {} },
+    );
+    try {
+      await roClient.connect(new StreamableHTTPClientTransport(new URL(readOnly.url)));
+      const names = (await roClient.listTools()).tools.map((t) => t.name).sort();
+      expect(names).toEqual([
+        'get_boot_timeline',
+        'get_build_history',
+        'get_diagnostics',
+        'get_errors',
+        'get_logs',
+        'get_metrics',
+        'get_status',
+        'search_logs',
+        'wait_for',
+      ]);
+    } finally {
+      await roClient.close();
+      await readOnly.dispose();
+    }
+  });
+
   it('rejects an EADDRINUSE bind with a clear message', async () => {
     const port = server.port;
     await expect(attachMcpServer(orckit, { port })).rejects.toThrow(/already in use/);
@@ -133,6 +247,8 @@ function extractJson(result: unknown): {
   errors?: { name: string; lastError: string | null; recentStderr: { text: string }[] }[];
   name?: string;
   lines?: { text: string }[];
+  condition?: string;
+  state?: string;
 } {
   const content = (result as { content: { type: string; text: string }[] }).content;
   const jsonBlock = content.find((c) => c.text.startsWith('```json'))!;
@@ -3,22 +3,50 @@ import {
   buildStatus,
   buildErrors,
   buildLogs,
+  buildMetrics,
+  buildTimeline,
+  buildDiagnostics,
+  buildBuildHistory,
+  formatBuildHistoryText,
+  formatDiagnosticsText,
+  formatMetricsText,
+  formatTimelineText,
   formatStatusText,
   formatErrorsText,
   formatLogsText,
+  runControl,
+  formatControlText,
+  type OrckitControl,
   type OrckitView,
 } from '../../src/mcp/tools.js';
 import { validateConfig } from '../../src/config/load.js';
+import { buildGraph, categoriesOf, expandSelectors } from '../../src/graph/resolver.js';
 import type { ProcessState } from '../../src/orchestrator/lifecycle.js';
 import type { OutputLine } from '../../src/process/output.js';
+import type { MetricsSample } from '../../src/process/metrics.js';
+import type { LimitExceeded } from '../../src/process/limits.js';
+import type { BootTimelineSnapshot } from '../../src/orchestrator/timeline.js';
+import type { Diagnostic } from '../../src/process/diagnostics.js';
+import type { BuildRun } from '../../src/process/build-history.js';
 
 function makeView(setup: {
   processes: Record<string, { manual_retry?: boolean }>;
   inspect: Record<
     string,
-    { state: ProcessState; pid?: number | null; startedAt?: number | null; retries?: number }
+    {
+      state: ProcessState;
+      pid?: number | null;
+      startedAt?: number | null;
+      retries?: number;
+      limitExceeded?: LimitExceeded;
+      nextRestartAt?: number;
+    }
   >;
   output?: Record<string, OutputLine[]>;
+  metrics?: Record<string, MetricsSample[]>;
+  timelines?: Record<string, BootTimelineSnapshot>;
+  diagnostics?: Record<string, Diagnostic[]>;
+  builds?: Record<string, BuildRun[]>;
 }): OrckitView {
   const config = validateConfig({
     project: 'test',
@@ -30,6 +58,7 @@ function makeView(setup: {
     ),
   });
   const output = setup.output ?? {};
+  const metrics = setup.metrics ?? {};
   return {
     config,
     inspect(name) {
@@ -40,6 +69,8 @@ function makeView(setup: {
         pid: info.pid ?? null,
         startedAt: info.startedAt ?? null,
         retries: info.retries ?? 0,
+        limitExceeded: info.limitExceeded ?? null,
+        nextRestartAt: info.nextRestartAt ?? null,
       };
     },
     states() {
@@ -48,6 +79,18 @@ function makeView(setup: {
     output(name) {
       return output[name] ?? [];
     },
+    metrics(name, n) {
+      return (metrics[name] ?? []).slice(-(n ?? Infinity));
+    },
+    timeline(name) {
+      return setup.timelines?.[name] ?? null;
+    },
+    diagnostics(name) {
+      return setup.diagnostics?.[name] ?? [];
+    },
+    buildHistory(name, n) {
+      return (setup.builds?.[name] ?? []).slice(-(n ?? Infinity));
+    },
   };
 }
 
@@ -57,7 +100,7 @@ describe('buildStatus', () => {
       processes: { db: {}, api: { manual_retry: true } },
       inspect: {
         db: { state: 'running', pid: 1234, startedAt: Date.now() - 5000 },
-        api: { state: 'failed', retries: 2 },
+        api: { state: 'failed', retries: 2, nextRestartAt: Date.now() + 4000 },
       },
     });
 
@@ -74,6 +117,8 @@ describe('buildStatus', () => {
     expect(api.pid).toBeNull();
     expect(api.uptimeMs).toBeNull();
     expect(api.retries).toBe(2);
+    expect(api.restartInMs).toBeGreaterThan(3000);
+    expect(db.restartInMs).toBeNull();
     expect(api.manualRetry).toBe(true);
   });
 });
@@ -119,6 +164,55 @@ describe('buildErrors', () => {
     expect(errs[0].recentStderr).toEqual([]);
   });
 
+  it('includes processes with a standing limit breach, even when not failed', () => {
+    const breach: LimitExceeded = {
+      limit: 'memory',
+      value: 6 * 1024 ** 3,
+      max: 4 * 1024 ** 3,
+      sustainedMs: 30_000,
+      action: 'restart',
+      message: 'memory 6.0 GB over the 4.0 GB limit for 30.0s',
+    };
+    const view = makeView({
+      processes: { web: {}, api: {} },
+      inspect: {
+        web: { state: 'running', pid: 1, limitExceeded: breach },
+        api: { state: 'running', pid: 2 },
+      },
+    });
+    // A failure from before the breach doesn't mask it.
+    const errs = buildErrors(view, new Map([['web', 'exited (code 1)']]));
+
+    expect(errs).toHaveLength(1);
+    expect(errs[0]).toMatchObject({ name: 'web', state: 'running', lastError: breach.message });
+    expect(errs[0].limitExceeded).toEqual(breach);
+
+    const text = formatErrorsText(errs);
+    expect(text).toMatch(/^1 over a resource limit:/);
+    expect(text).toContain(
+      '⚠ web (running)  memory 6.0 GB over the 4.0 GB limit for 30.0s — restarted',
+    );
+  });
+
+  it('includes unhealthy processes with their liveness failure', () => {
+    const view = makeView({
+      processes: { api: {}, db: {} },
+      inspect: {
+        api: { state: 'unhealthy', pid: 1 },
+        db: { state: 'failed' },
+      },
+    });
+    const reason = 'liveness check failed 3 times in a row (last: HTTP 503)';
+
+    const errs = buildErrors(view, new Map([['api', reason]]));
+
+    expect(errs.map((e) => e.name)).toEqual(['api', 'db']);
+    expect(errs[0]).toMatchObject({ state: 'unhealthy', lastError: reason });
+    const text = formatErrorsText(errs);
+    expect(text).toMatch(/^1 failed process, 1 unhealthy:/);
+    expect(text).toContain(`! api (unhealthy)  ${reason}`);
+  });
+
   it('caps recent stderr at 50 lines', () => {
     const stderrLines: OutputLine[] = Array.from({ length: 80 }, (_, i) => ({
       text: `err ${i}`,
@@ -139,6 +233,213 @@ describe('buildErrors', () => {
   });
 });
 
+describe('buildMetrics', () => {
+  const sample = (cpu: number, rss: number, processes = 1): MetricsSample => ({
+    timestamp: 0,
+    cpu,
+    rss,
+    processes,
+  });
+
+  it('summarizes the recent history per process', () => {
+    const view = makeView({
+      processes: { api: {}, db: {} },
+      inspect: { api: { state: 'running' }, db: { state: 'pending' } },
+      metrics: {
+        api: [
+          sample(50, 100 * 1024 * 1024),
+          sample(10, 200 * 1024 * 1024),
+          sample(30, 150 * 1024 * 1024, 3),
+        ],
+      },
+    });
+
+    const entries = buildMetrics(view, { samples: 2 });
+
+    const api = entries.find((e) => e.name === 'api')!;
+    expect(api.history).toHaveLength(2);
+    expect(api.latest?.cpu).toBe(30);
+    expect(api.cpu).toEqual({ avg: 20, max: 30 });
+    expect(api.rss?.max).toBe(200 * 1024 * 1024);
+    const db = entries.find((e) => e.name === 'db')!;
+    expect(db.latest).toBeNull();
+
+    const text = formatMetricsText(entries);
+    expect(text).toMatch(/api\s+cpu 30%\s+rss 150 MB\s+\(3 procs\)/);
+    expect(text).toMatch(/db\s+\(no samples\)/);
+  });
+
+  it('filters to one process and rejects unknown names', () => {
+    const view = makeView({ processes: { api: {} }, inspect: { api: { state: 'running' } } });
+    expect(buildMetrics(view, { name: 'api' }).map((e) => e.name)).toEqual(['api']);
+    expect(() => buildMetrics(view, { name: 'nope' })).toThrow(/unknown process/);
+  });
+});
+
+describe('buildTimeline', () => {
+  const probe = (attempt: number, ok: boolean, reason?: string) => ({
+    kind: 'probe' as const,
+    attempt,
+    timestamp: 1_000 + attempt * 100,
+    ok,
+    reason,
+    latencyMs: 2,
+  });
+
+  it('returns null boot for a process that has not been started', () => {
+    const view = makeView({ processes: { api: {} }, inspect: { api: { state: 'pending' } } });
+    const result = buildTimeline(view, { name: 'api' });
+    expect(result).toEqual({ name: 'api', state: 'pending', boot: null });
+    expect(formatTimelineText(result)).toMatch(/not been started/);
+  });
+
+  it('throws for an unknown process', () => {
+    const view = makeView({ processes: { api: {} }, inspect: { api: { state: 'running' } } });
+    expect(() => buildTimeline(view, { name: 'nope' })).toThrow(/unknown process/);
+  });
+
+  it('folds repeated failed probes with the same reason into one line', () => {
+    const view = makeView({
+      processes: { api: {} },
+      inspect: { api: { state: 'running' } },
+      timelines: {
+        api: {
+          startedAt: 1_000,
+          droppedProbes: 0,
+          steps: [
+            { kind: 'hook', hook: 'pre_start', timestamp: 1_000, durationMs: 40 },
+            { kind: 'spawn', timestamp: 1_050, pid: 4242 },
+            probe(1, false, 'connection refused'),
+            probe(2, false, 'connection refused'),
+            probe(3, false, 'connection refused'),
+            probe(4, false, 'HTTP 503'),
+            probe(5, true),
+            { kind: 'ready', timestamp: 1_510 },
+          ],
+        },
+      },
+    });
+    const text = formatTimelineText(buildTimeline(view, { name: 'api' }), 2_000);
+    expect(text).toMatch(/api \(running\) — boot began 1\.0s ago/);
+    expect(text).toMatch(/pre_start hook ✓ 40ms/);
+    expect(text).toMatch(/\+50ms +spawned \(pid 4242\)/);
+    expect(text).toMatch(/probe #1–#3 \(3×\) ✗ {2}connection refused/);
+    expect(text).toMatch(/probe #4 ✗ {2}HTTP 503/);
+    expect(text).toMatch(/probe #5 ✓/);
+    expect(text).toMatch(/\+510ms +ready/);
+  });
+
+  it('notes probe attempts dropped after the first one', () => {
+    const view = makeView({
+      processes: { api: {} },
+      inspect: { api: { state: 'starting' } },
+      timelines: {
+        api: {
+          startedAt: 1_000,
+          droppedProbes: 120,
+          steps: [probe(1, false, 'refused'), probe(122, false, 'refused')],
+        },
+      },
+    });
+    const lines = formatTimelineText(buildTimeline(view, { name: 'api' }), 2_000).split('\n');
+    expect(lines[1]).toMatch(/probe #1 ✗/);
+    expect(lines[2]).toMatch(/120 more attempts not kept/);
+    expect(lines[3]).toMatch(/probe #122 ✗/);
+  });
+});
+
+describe('buildDiagnostics', () => {
+  const tsError: Diagnostic = {
+    file: 'src/api.ts',
+    line: 12,
+    column: 5,
+    severity: 'error',
+    code: 'TS2322',
+    message: "Type 'string' is not assignable to type 'number'.",
+  };
+  const lintWarning: Diagnostic = {
+    file: 'src/api.ts',
+    line: 20,
+    column: 1,
+    severity: 'warning',
+    code: 'no-console',
+    message: 'Unexpected console statement',
+  };
+  const view = makeView({
+    processes: { db: {}, api: {}, web: {} },
+    inspect: { db: { state: 'running' }, api: { state: 'failed' }, web: { state: 'running' } },
+    diagnostics: {
+      api: [tsError, lintWarning],
+      web: [{ file: 'src/main.ts', severity: 'warning', message: 'Critical dependency' }],
+    },
+  });
+
+  it('lists only processes with diagnostics, filtered by severity', () => {
+    expect(buildDiagnostics(view, {}).map((e) => e.name)).toEqual(['api', 'web']);
+    const errors = buildDiagnostics(view, { severity: 'error' });
+    expect(errors.map((e) => [e.name, e.diagnostics])).toEqual([['api', [tsError]]]);
+  });
+
+  it('returns a named process even without diagnostics, and rejects unknown names', () => {
+    expect(buildDiagnostics(view, { name: 'db' })).toMatchObject([{ name: 'db', diagnostics: [] }]);
+    expect(() => buildDiagnostics(view, { name: 'nope' })).toThrow(/unknown process/);
+  });
+
+  it('formats per process, grouped by file', () => {
+    const text = formatDiagnosticsText(buildDiagnostics(view, {}));
+    expect(text).toMatch(/^1 error, 2 warnings:/);
+    expect(text).toContain(
+      "  src/api.ts\n    12:5    error  TS2322  Type 'string' is not assignable to type 'number'.\n" +
+        '    20:1    warning  no-console  Unexpected console statement',
+    );
+    expect(text).toContain('  src/main.ts\n    -       warning  Critical dependency');
+    expect(formatDiagnosticsText(buildDiagnostics(view, { name: 'db' }))).toMatch(
+      /^no diagnostics for db/,
+    );
+  });
+});
+
+describe('buildBuildHistory', () => {
+  const run = (startedAt: number, durationMs: number, errors = 0): BuildRun => ({
+    startedAt,
+    durationMs,
+    success: errors === 0,
+    errors,
+    warnings: 0,
+  });
+  const view = makeView({
+    processes: { db: {}, web: {} },
+    inspect: { db: { state: 'running' }, web: { state: 'running' } },
+    builds: {
+      web: [run(Date.UTC(2026, 0, 1, 10), 4000), run(Date.UTC(2026, 0, 1, 11), 6000, 2)],
+    },
+  });
+
+  it('lists processes with builds, summarizing the returned runs', () => {
+    const entries = buildBuildHistory(view, {});
+    expect(entries.map((e) => e.name)).toEqual(['web']);
+    expect(entries[0]!.stats).toEqual({ runs: 2, failures: 1, p50Ms: 4000, p95Ms: 6000 });
+    const last = buildBuildHistory(view, { runs: 1 });
+    expect(last[0]!.stats).toEqual({ runs: 1, failures: 1, p50Ms: 6000, p95Ms: 6000 });
+  });
+
+  it('returns a named process even without builds, and rejects unknown names', () => {
+    expect(buildBuildHistory(view, { name: 'db' })).toMatchObject([{ name: 'db', runs: [] }]);
+    expect(() => buildBuildHistory(view, { name: 'nope' })).toThrow(/unknown process/);
+  });
+
+  it('formats a summary then the runs, newest first', () => {
+    expect(formatBuildHistoryText(buildBuildHistory(view, {}))).toBe(
+      [
+        '✓ web — 2 builds, 1 failed · p50 4.0s · p95 6.0s',
+        '  2026-01-01T11:00:00.000Z  ✗ 6.0s     2 errors',
+        '  2026-01-01T10:00:00.000Z  ✓ 4.0s',
+      ].join('\n'),
+    );
+    expect(formatBuildHistoryText([])).toBe('no builds recorded yet');
+  });
+});
+
 describe('buildLogs', () => {
   const sampleOutput: OutputLine[] = [
     { text: 'a', stream: 'stdout', timestamp: 1 },
@@ -211,6 +512,77 @@ describe('buildLogs', () => {
   });
 });
 
+describe('runControl', () => {
+  function makeControl(): { control: OrckitControl; calls: string[] } {
+    const calls: string[] = [];
+    const states: Record<string, { state: ProcessState }> = {
+      db: { state: 'running' },
+      api: { state: 'failed' },
+    };
+    const view = makeView({ processes: { db: {}, api: {} }, inspect: states });
+    const control: OrckitControl = {
+      ...view,
+      resolveTargets(selectors) {
+        return expandSelectors(buildGraph(view.config), selectors, categoriesOf(view.config));
+      },
+      async restart(targets, options) {
+        calls.push(`restart ${targets.join(',')} cascade=${options?.cascade}`);
+        for (const t of targets) states[t]!.state = 'running';
+      },
+      async startTargets(targets) {
+        calls.push(`start ${targets.join(',')}`);
+        for (const t of targets) states[t]!.state = 'running';
+      },
+      async stop(targets) {
+        calls.push(`stop ${targets?.join(',')}`);
+        for (const t of targets ?? []) states[t]!.state = 'stopped';
+      },
+    };
+    return { control, calls };
+  }
+
+  it('restarts with cascade by default and reports the settled status', async () => {
+    const { control, calls } = makeControl();
+    const result = await runControl(control, 'restart', { name: 'api' });
+    expect(calls).toEqual(['restart api cascade=undefined']);
+    expect(result.cascade).toBe(true);
+    expect(result.processes.find((p) => p.name === 'api')!.state).toBe('running');
+    expect(formatControlText(result)).toMatch(/^restarted api and its dependents — now running/);
+  });
+
+  it('passes cascade: false through', async () => {
+    const { control, calls } = makeControl();
+    const result = await runControl(control, 'restart', { name: 'api', cascade: false });
+    expect(calls).toEqual(['restart api cascade=false']);
+    expect(formatControlText(result)).toMatch(/^restarted api — now running/);
+  });
+
+  it('starts and stops a single process', async () => {
+    const { control, calls } = makeControl();
+    await runControl(control, 'start', { name: 'api' });
+    const stopped = await runControl(control, 'stop', { name: 'db' });
+    expect(calls).toEqual(['start api', 'stop db']);
+    expect(stopped.processes.find((p) => p.name === 'db')!.state).toBe('stopped');
+    expect(formatControlText(stopped)).toMatch(/^stopped db — now stopped/);
+  });
+
+  it('acts on every process a selector picks', async () => {
+    const { control, calls } = makeControl();
+    const result = await runControl(control, 'stop', { name: '*' });
+    expect(calls).toEqual(['stop db,api']);
+    expect(result.targets).toEqual(['db', 'api']);
+    expect(formatControlText(result)).toMatch(
+      /^stopped \* \(db, api\) — now db stopped, api stopped/,
+    );
+  });
+
+  it('rejects unknown process names before touching the orchestrator', async () => {
+    const { control, calls } = makeControl();
+    await expect(runControl(control, 'stop', { name: 'nope' })).rejects.toThrow(/unknown process/);
+    expect(calls).toEqual([]);
+  });
+});
+
 describe('formatters', () => {
   it('formatStatusText is human-readable and includes the counts summary', () => {
     const text = formatStatusText([
@@ -241,6 +613,23 @@ describe('formatters', () => {
     expect(text).toMatch(/retries 2/);
   });
 
+  it('formatStatusText lists the allocated ports when given them', () => {
+    const entry = {
+      name: 'api',
+      state: 'running' as const,
+      pid: 1,
+      startedAt: 0,
+      uptimeMs: 0,
+      retries: 0,
+      restartInMs: null,
+      manualRetry: false,
+    };
+    expect(formatStatusText([entry], { api_http: 41234, db: 5432 })).toMatch(
+      /\nports: api_http 41234, db 5432$/,
+    );
+    expect(formatStatusText([entry])).not.toMatch(/ports:/);
+  });
+
   it('formatErrorsText says all healthy when no errors', () => {
     expect(formatErrorsText([])).toMatch(/no errors/);
   });
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Orckit } from '../../src/orchestrator/orchestrator.js';
+import { validateConfig } from '../../src/config/load.js';
+import { waitFor, formatWaitForText, WaitForTimeoutError } from '../../src/mcp/wait-for.js';
+import type { OutputLine } from '../../src/process/output.js';
+
+function line(text: string, stream: OutputLine['stream'] = 'stdout'): OutputLine {
+  return { text, stream, timestamp: Date.now() };
+}
+
+describe('waitFor', () => {
+  let orckit: Orckit;
+
+  beforeEach(() => {
+    orckit = new Orckit(
+      validateConfig({
+        project: 'wait-test',
+        processes: {
+          api: { command: 'sleep 1', restart: 'never' },
+          web: { command: 'sleep 1', restart: 'never' },
+        },
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await orckit.dispose();
+  });
+
+  const listeners = () =>
+    orckit.listenerCount('process:state') +
+    orckit.listenerCount('process:build') +
+    orckit.listenerCount('process:line');
+
+  it('resolves on the state transition for the named process only', async () => {
+    const pending = waitFor(orckit, 'api', { kind: 'state', state: 'running' });
+    orckit.emit('process:state', 'web', 'running');
+    orckit.emit('process:state', 'api', 'starting');
+    orckit.emit('process:state', 'api', 'running');
+    const result = await pending;
+    expect(result).toMatchObject({ name: 'api', condition: 'state', state: 'running' });
+    expect(listeners()).toBe(0);
+  });
+
+  it('resolves immediately when the state is already reached', async () => {
+    const result = await waitFor(orckit, 'api', { kind: 'state', state: 'pending' });
+    expect(result).toMatchObject({ condition: 'state', state: 'pending', elapsedMs: 0 });
+  });
+
+  it('accepts running when waiting for ready', async () => {
+    const pending = waitFor(orckit, 'api', { kind: 'state', state: 'ready' });
+    orckit.emit('process:state', 'api', 'running');
+    expect((await pending).condition).toBe('state');
+  });
+
+  it('resolves on the next build completion with the reduced status', async () => {
+    const pending = waitFor(orckit, 'web', { kind: 'build' });
+    orckit.emit('process:build', 'web', { type: 'build:start' });
+    orckit.emit('process:build', 'web', { type: 'build:progress', percent: 50 });
+    orckit.emit('process:build', 'web', {
+      type: 'build:complete',
+      success: false,
+      errors: 2,
+      warnings: 1,
+    });
+    const result = await pending;
+    expect(result).toMatchObject({
+      condition: 'build',
+      build: { phase: 'done', success: false, errors: 2, warnings: 1 },
+    });
+    expect(formatWaitForText(result)).toMatch(/web build failed — 2 errors, 1 warnings/);
+  });
+
+  it('resolves on a build:failed event', async () => {
+    const pending = waitFor(orckit, 'web', { kind: 'build' });
+    orckit.emit('process:build', 'web', { type: 'build:failed', reason: 'out of memory' });
+    expect(formatWaitForText(await pending)).toMatch(/build failed: out of memory/);
+  });
+
+  it('waits past per-line build:failed events for the build summary', async () => {
+    const pending = waitFor(orckit, 'web', { kind: 'build' }, { failureQuietMs: 200 });
+    orckit.emit('process:build', 'web', { type: 'build:start' });
+    orckit.emit('process:build', 'web', { type: 'build:failed', reason: 'ERROR in ./src/a.ts' });
+    orckit.emit('process:build', 'web', { type: 'build:failed', reason: 'ERROR in ./src/b.ts' });
+    await new Promise((r) => setTimeout(r, 50));
+    orckit.emit('process:build', 'web', { type: 'build:failed', reason: 'ERROR in ./src/c.ts' });
+    orckit.emit('process:build', 'web', {
+      type: 'build:complete',
+      success: false,
+      errors: 3,
+      warnings: 0,
+    });
+    expect(await pending).toMatchObject({
+      build: { phase: 'done', success: false, errors: 3, warnings: 0 },
+    });
+    expect(listeners()).toBe(0);
+  });
+
+  it('resolves with the first new line matching the pattern', async () => {
+    const pending = waitFor(orckit, 'api', { kind: 'log', pattern: 'listening on \\d+' });
+    orckit.emit('process:line', 'api', line('booting'));
+    orckit.emit('process:line', 'web', line('listening on 1'));
+    orckit.emit('process:line', 'api', line('listening on 3000', 'stderr'));
+    const result = await pending;
+    expect(result).toMatchObject({
+      condition: 'log',
+      line: { text: 'listening on 3000', stream: 'stderr' },
+    });
+  });
+
+  it('times out naming the last state seen', async () => {
+    const pending = waitFor(orckit, 'api', { kind: 'state', state: 'running' }, { timeoutMs: 30 });
+    orckit.emit('process:state', 'api', 'failed');
+    const err = await pending.catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(WaitForTimeoutError);
+    expect((err as Error).message).toMatch(/api to reach running \(currently failed\)/);
+    expect(listeners()).toBe(0);
+  });
+
+  it('rejects and detaches when the signal aborts', async () => {
+    const abort = new AbortController();
+    const pending = waitFor(orckit, 'api', { kind: 'build' }, { signal: abort.signal });
+    abort.abort();
+    await expect(pending).rejects.toThrow(/aborted/);
+    expect(listeners()).toBe(0);
+  });
+
+  it('rejects an unknown process or an invalid pattern up-front', async () => {
+    await expect(waitFor(orckit, 'nope', { kind: 'build' })).rejects.toThrow(/unknown process/);
+    await expect(waitFor(orckit, 'api', { kind: 'log', pattern: '(' })).rejects.toThrow(
+      /invalid pattern/,
+    );
+    expect(listeners()).toBe(0);
+  });
+});
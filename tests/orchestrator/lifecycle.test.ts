@@ -28,8 +28,24 @@ describe('transition', () => {
     expect(transition('finished', { kind: 'start' })).toBe('starting');
   });
 
+  it('running → unhealthy on liveness-failed, and back on liveness-recovered', () => {
+    expect(transition('running', { kind: 'liveness-failed' })).toBe('unhealthy');
+    expect(transition('unhealthy', { kind: 'liveness-recovered' })).toBe('running');
+  });
+
+  it('only a running process can become unhealthy', () => {
+    expect(() => transition('starting', { kind: 'liveness-failed' })).toThrow(
+      IllegalTransitionError,
+    );
+  });
+
+  it('unhealthy → failed on unexpected exit, stopped on expected exit', () => {
+    expect(transition('unhealthy', { kind: 'exited', expected: false, code: 1 })).toBe('failed');
+    expect(transition('unhealthy', { kind: 'exited', expected: true, code: null })).toBe('stopped');
+  });
+
   it('active states → stopping on stop-requested', () => {
-    for (const s of ['starting', 'ready', 'running'] as ProcessState[]) {
+    for (const s of ['starting', 'ready', 'running', 'unhealthy'] as ProcessState[]) {
       expect(transition(s, { kind: 'stop-requested' })).toBe('stopping');
     }
   });
@@ -90,7 +106,7 @@ describe('transition', () => {
 });
 
 describe('isActive / isTerminal', () => {
-  it.each(['starting', 'ready', 'running'] as ProcessState[])('%s is active', (s) => {
+  it.each(['starting', 'ready', 'running', 'unhealthy'] as ProcessState[])('%s is active', (s) => {
     expect(isActive(s)).toBe(true);
     expect(isTerminal(s)).toBe(false);
   });
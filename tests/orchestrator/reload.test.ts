@@ -0,0 +1,93 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { validateConfig } from '../../src/config/load.js';
+import { Orckit } from '../../src/orchestrator/orchestrator.js';
+import {
+  describeConfigChange,
+  diffProcesses,
+  watchConfig,
+  type ConfigChange,
+} from '../../src/orchestrator/reload.js';
+import type { FileWatchHandle } from '../../src/orchestrator/watch.js';
+
+describe('diffProcesses', () => {
+  it('reports added, removed and changed processes in config order', () => {
+    const prev = validateConfig({
+      processes: { a: { command: 'x' }, b: { command: 'y' }, c: { command: 'z' } },
+    });
+    const next = validateConfig({
+      processes: {
+        d: { command: 'w' },
+        c: { command: 'z', env: { DEBUG: '1' } },
+        a: { command: 'x' },
+      },
+    });
+    expect(diffProcesses(prev, next)).toEqual({ added: ['d'], removed: ['b'], changed: ['c'] });
+  });
+});
+
+describe('describeConfigChange', () => {
+  it('lists each kind of change, or says nothing changed', () => {
+    const change: ConfigChange = {
+      added: ['worker'],
+      removed: ['legacy'],
+      changed: ['api'],
+      restarted: ['api', 'web'],
+    };
+    expect(describeConfigChange(change)).toBe('+worker −legacy ~api');
+    expect(describeConfigChange({ added: [], removed: [], changed: [], restarted: [] })).toBe(
+      'no process changes',
+    );
+  });
+});
+
+describe('watchConfig', () => {
+  let dir: string;
+  let orckit: Orckit;
+  let watch: FileWatchHandle | null = null;
+
+  const waitFor = async (check: () => boolean) => {
+    const deadline = Date.now() + 5000;
+    while (!check() && Date.now() < deadline) await new Promise((r) => setTimeout(r, 25));
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'orckit-reload-'));
+  });
+
+  afterEach(async () => {
+    watch?.close();
+    watch = null;
+    await orckit.dispose();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies valid edits and reports invalid ones without touching the stack', async () => {
+    const path = join(dir, 'orckit.yaml');
+    writeFileSync(path, 'processes:\n  a:\n    command: sleep 30\n');
+    orckit = new Orckit(validateConfig({ processes: { a: { command: 'sleep 30' } } }));
+    await orckit.start();
+
+    const changes: ConfigChange[] = [];
+    const errors: Error[] = [];
+    watch = watchConfig(orckit, {
+      configPath: path,
+      debounceMs: 50,
+      onReload: (change) => changes.push(change),
+      onError: (err) => errors.push(err),
+    });
+
+    writeFileSync(path, 'processes:\n  a:\n    command: ""\n');
+    await waitFor(() => errors.length > 0);
+    expect(errors[0]?.message).toMatch(/processes\.a\.command/);
+    expect(orckit.state('a')).toBe('running');
+
+    writeFileSync(path, 'processes:\n  a:\n    command: sleep 30\n  b:\n    command: sleep 30\n');
+    await waitFor(() => changes.length > 0);
+    expect(changes[0]).toMatchObject({ added: ['b'], removed: [], changed: [] });
+    await waitFor(() => orckit.state('b') === 'running');
+    expect(orckit.state('b')).toBe('running');
+  });
+});
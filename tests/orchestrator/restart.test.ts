@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { CrashLoopDetector, restartDelay } from '../../src/orchestrator/restart.js';
+
+describe('restartDelay', () => {
+  it('is the flat restart_delay_ms without restart_backoff', () => {
+    expect(restartDelay({ restart_delay_ms: 2000 }, 1)).toBe(2000);
+    expect(restartDelay({ restart_delay_ms: 2000 }, 5)).toBe(2000);
+  });
+
+  it('grows by the multiplier per attempt and stops at max', () => {
+    const config = {
+      restart_delay_ms: 2000,
+      restart_backoff: { initial: 500, max: 3000, multiplier: 2, jitter: 0 },
+    };
+    expect([1, 2, 3, 4, 5].map((n) => restartDelay(config, n))).toEqual([
+      500, 1000, 2000, 3000, 3000,
+    ]);
+  });
+
+  it('spreads the delay by up to jitter either way', () => {
+    const config = {
+      restart_delay_ms: 2000,
+      restart_backoff: { initial: 1000, max: 1000, multiplier: 2, jitter: 0.2 },
+    };
+    expect(restartDelay(config, 1, () => 0)).toBe(800);
+    expect(restartDelay(config, 1, () => 0.5)).toBe(1000);
+    expect(restartDelay(config, 1, () => 1)).toBe(1200);
+  });
+});
+
+describe('CrashLoopDetector', () => {
+  const config = { failures: 3, within: 60_000 };
+
+  it('reports once the threshold of failures falls within the window', () => {
+    const detector = new CrashLoopDetector();
+    expect(detector.record(config, 0)).toBeNull();
+    expect(detector.record(config, 10_000)).toBeNull();
+    expect(detector.record(config, 20_000)).toEqual({
+      failures: 3,
+      windowMs: 60_000,
+      message: 'crash loop: 3 failures within 1m',
+    });
+  });
+
+  it('forgets failures that fell out of the window', () => {
+    const detector = new CrashLoopDetector();
+    detector.record(config, 0);
+    detector.record(config, 10_000);
+    expect(detector.record(config, 65_000)).toBeNull();
+    expect(detector.record(config, 69_000)).not.toBeNull();
+  });
+
+  it('starts counting afresh after reporting', () => {
+    const detector = new CrashLoopDetector();
+    for (const t of [0, 1, 2]) detector.record(config, t);
+    expect(detector.record(config, 3)).toBeNull();
+    expect(detector.record(config, 4)).toBeNull();
+    expect(detector.record(config, 5)).not.toBeNull();
+  });
+});
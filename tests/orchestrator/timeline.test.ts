@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { BootTimeline } from '../../src/orchestrator/timeline.js';
+
+describe('BootTimeline', () => {
+  it('records steps in order', () => {
+    const timeline = new BootTimeline(1_000);
+    timeline.record({ kind: 'spawn', timestamp: 1_001, pid: 7 });
+    timeline.record({ kind: 'probe', attempt: 1, timestamp: 1_002, ok: true, latencyMs: 1 });
+    timeline.record({ kind: 'ready', timestamp: 1_003 });
+    expect(timeline.snapshot()).toEqual({
+      startedAt: 1_000,
+      droppedProbes: 0,
+      steps: [
+        { kind: 'spawn', timestamp: 1_001, pid: 7 },
+        { kind: 'probe', attempt: 1, timestamp: 1_002, ok: true, latencyMs: 1 },
+        { kind: 'ready', timestamp: 1_003 },
+      ],
+    });
+  });
+
+  it('keeps the first probe attempt and the latest ones past the cap', () => {
+    const timeline = new BootTimeline(0);
+    timeline.record({ kind: 'spawn', timestamp: 0, pid: 7 });
+    for (let attempt = 1; attempt <= 250; attempt++) {
+      timeline.record({ kind: 'probe', attempt, timestamp: attempt, ok: false, latencyMs: 0 });
+    }
+    const { steps, droppedProbes } = timeline.snapshot();
+    const attempts = steps.flatMap((s) => (s.kind === 'probe' ? [s.attempt] : []));
+    expect(droppedProbes).toBe(50);
+    expect(attempts).toHaveLength(200);
+    expect(attempts[0]).toBe(1);
+    expect(attempts[1]).toBe(52);
+    expect(attempts.at(-1)).toBe(250);
+    expect(steps[0]!.kind).toBe('spawn');
+  });
+});
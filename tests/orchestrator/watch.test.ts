@@ -0,0 +1,128 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  describeWatchTrigger,
+  watchFiles,
+  type FileWatchHandle,
+} from '../../src/orchestrator/watch.js';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe('watchFiles', () => {
+  let dir: string;
+  let handle: FileWatchHandle | null = null;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'orckit-watch-'));
+    mkdirSync(join(dir, 'src', 'pkg'), { recursive: true });
+    mkdirSync(join(dir, 'src', 'node_modules'), { recursive: true });
+  });
+
+  afterEach(() => {
+    handle?.close();
+    handle = null;
+  });
+
+  it('batches matching changes into one debounced call', async () => {
+    const calls: string[][] = [];
+    handle = watchFiles(
+      { cwd: dir, paths: ['src/**/*.go'], ignore: ['**/node_modules/**'], debounceMs: 100 },
+      (files) => {
+        calls.push(files);
+      },
+    );
+    writeFileSync(join(dir, 'src', 'main.go'), 'package main');
+    writeFileSync(join(dir, 'src', 'pkg', 'util.go'), 'package pkg');
+    writeFileSync(join(dir, 'src', 'README.md'), 'not watched');
+    writeFileSync(join(dir, 'src', 'node_modules', 'x.go'), 'ignored');
+    await sleep(400);
+    expect(calls).toEqual([['src/main.go', 'src/pkg/util.go']]);
+  });
+
+  it('collects changes made while the callback runs into one follow-up call', async () => {
+    const calls: string[][] = [];
+    let release!: () => void;
+    handle = watchFiles({ cwd: dir, paths: ['src'], ignore: [], debounceMs: 50 }, (files) => {
+      calls.push(files);
+      if (calls.length === 1) return new Promise<void>((r) => (release = r));
+    });
+    writeFileSync(join(dir, 'src', 'a.py'), '1');
+    await sleep(200);
+    expect(calls).toEqual([['src/a.py']]);
+    writeFileSync(join(dir, 'src', 'b.py'), '2');
+    writeFileSync(join(dir, 'src', 'c.py'), '3');
+    await sleep(200);
+    expect(calls).toHaveLength(1);
+    release();
+    await sleep(200);
+    expect(calls).toEqual([['src/a.py'], ['src/b.py', 'src/c.py']]);
+  });
+
+  it('skips dependency and VCS directories unless a path names one', async () => {
+    mkdirSync(join(dir, 'node_modules', 'lib'), { recursive: true });
+    mkdirSync(join(dir, '.git'));
+    const calls: string[][] = [];
+    handle = watchFiles(
+      { cwd: dir, paths: ['**/*.js', 'node_modules/lib/*.json'], ignore: [], debounceMs: 100 },
+      (files) => {
+        calls.push(files);
+      },
+    );
+    writeFileSync(join(dir, 'app.js'), '1');
+    writeFileSync(join(dir, 'src', 'pkg', 'util.js'), '2');
+    writeFileSync(join(dir, 'node_modules', 'lib', 'index.js'), 'ignored');
+    writeFileSync(join(dir, 'node_modules', 'lib', 'package.json'), '{}');
+    writeFileSync(join(dir, '.git', 'hook.js'), 'ignored');
+    await sleep(400);
+    expect(calls).toEqual([['app.js', 'node_modules/lib/package.json', 'src/pkg/util.js']]);
+  });
+
+  it('watches directories created after it started', async () => {
+    const calls: string[][] = [];
+    handle = watchFiles(
+      { cwd: dir, paths: ['src/**/*.go'], ignore: [], debounceMs: 100 },
+      (files) => {
+        calls.push(files);
+      },
+    );
+    mkdirSync(join(dir, 'src', 'cmd'));
+    await sleep(50);
+    writeFileSync(join(dir, 'src', 'cmd', 'main.go'), 'package main');
+    await sleep(400);
+    expect(calls).toEqual([['src/cmd/main.go']]);
+  });
+
+  it('only reports direct entries for a single-segment glob', async () => {
+    const calls: string[][] = [];
+    handle = watchFiles({ cwd: dir, paths: ['*.py'], ignore: [], debounceMs: 100 }, (files) => {
+      calls.push(files);
+    });
+    writeFileSync(join(dir, 'main.py'), '1');
+    writeFileSync(join(dir, 'src', 'other.py'), 'not matched');
+    await sleep(400);
+    expect(calls).toEqual([['main.py']]);
+  });
+
+  it('stops reporting after close and skips missing directories', async () => {
+    const calls: string[][] = [];
+    handle = watchFiles(
+      { cwd: dir, paths: ['src/**', 'missing/**'], ignore: [], debounceMs: 20 },
+      (files) => {
+        calls.push(files);
+      },
+    );
+    handle.close();
+    writeFileSync(join(dir, 'src', 'late.txt'), 'x');
+    await sleep(150);
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('describeWatchTrigger', () => {
+  it('names a single file and counts several', () => {
+    expect(describeWatchTrigger(['main.go'])).toBe('main.go changed');
+    expect(describeWatchTrigger(['a', 'b', 'c'])).toBe('3 files changed');
+  });
+});
@@ -0,0 +1,115 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  BuildHistory,
+  buildStats,
+  loadBuildHistory,
+  percentile,
+  saveBuildHistory,
+  type BuildRun,
+} from '../../src/process/build-history.js';
+
+const complete = (success: boolean, durationMs?: number) =>
+  ({ type: 'build:complete', success, errors: success ? 0 : 2, warnings: 1, durationMs }) as const;
+
+describe('BuildHistory', () => {
+  it('records a run per build:complete, timed from its build:start', () => {
+    const history = new BuildHistory(10);
+    expect(history.record({ type: 'build:start' }, 1000)).toBeNull();
+    expect(history.record({ type: 'build:progress', percent: 50 }, 1500)).toBeNull();
+    expect(history.record({ type: 'build:failed', reason: 'x' }, 1600)).toBeNull();
+    expect(history.record(complete(false), 3500)).toEqual({
+      startedAt: 1000,
+      durationMs: 2500,
+      success: false,
+      errors: 2,
+      warnings: 1,
+    });
+    expect(history.recent()).toHaveLength(1);
+  });
+
+  it("prefers the tool's own duration, and has none without either", () => {
+    const history = new BuildHistory(10);
+    history.record({ type: 'build:start' }, 1000);
+    expect(history.record(complete(true, 800), 3000)).toMatchObject({ durationMs: 800 });
+    const untimed = history.record(complete(true), 5000)!;
+    expect(untimed.startedAt).toBe(5000);
+    expect(untimed).not.toHaveProperty('durationMs');
+  });
+
+  it('keeps the latest `capacity` runs, seeded ones included', () => {
+    const seed: BuildRun[] = [1, 2, 3].map((i) => ({
+      startedAt: i,
+      durationMs: i,
+      success: true,
+      errors: 0,
+      warnings: 0,
+    }));
+    const history = new BuildHistory(3, seed);
+    history.record(complete(true, 4), 4);
+    expect(history.recent().map((r) => r.durationMs)).toEqual([2, 3, 4]);
+    expect(history.recent(2).map((r) => r.durationMs)).toEqual([3, 4]);
+    expect(history.recent(0)).toEqual([]);
+  });
+});
+
+describe('buildStats', () => {
+  it('takes nearest-rank percentiles over the timed runs', () => {
+    const runs: BuildRun[] = [
+      ...Array.from({ length: 19 }, (_, i) => ({
+        startedAt: i,
+        durationMs: (i + 1) * 100,
+        success: i !== 3,
+        errors: 0,
+        warnings: 0,
+      })),
+      { startedAt: 20, success: true, errors: 0, warnings: 0 },
+      { startedAt: 21, durationMs: 10_000, success: false, errors: 1, warnings: 0 },
+    ];
+    expect(buildStats(runs)).toEqual({ runs: 21, failures: 2, p50Ms: 1000, p95Ms: 1900 });
+    expect(buildStats([])).toEqual({ runs: 0, failures: 0, p50Ms: null, p95Ms: null });
+  });
+
+  it('percentile handles the edges', () => {
+    expect(percentile([], 50)).toBeNull();
+    expect(percentile([7], 95)).toBe(7);
+    expect(percentile([1, 2, 3, 4], 0)).toBe(1);
+    expect(percentile([1, 2, 3, 4], 100)).toBe(4);
+  });
+});
+
+describe('loadBuildHistory / saveBuildHistory', () => {
+  let dir: string;
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('round-trips through a file, creating its directory', () => {
+    dir = mkdtempSync(join(tmpdir(), 'orckit-builds-'));
+    const file = join(dir, '.orckit', 'build-history.json');
+    const history = {
+      web: [{ startedAt: 1, durationMs: 900, success: true, errors: 0, warnings: 3 }],
+    };
+    saveBuildHistory(file, history);
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual(history);
+    expect(loadBuildHistory(file)).toEqual(history);
+  });
+
+  it('reads a missing or malformed file as empty, dropping malformed runs', () => {
+    dir = mkdtempSync(join(tmpdir(), 'orckit-builds-'));
+    const file = join(dir, 'build-history.json');
+    expect(loadBuildHistory(file)).toEqual({});
+    writeFileSync(file, '{not json');
+    expect(loadBuildHistory(file)).toEqual({});
+    writeFileSync(
+      file,
+      JSON.stringify({
+        web: [{ startedAt: 1, success: true, errors: 0, warnings: 0 }, { startedAt: 'x' }],
+        api: 'nope',
+      }),
+    );
+    expect(loadBuildHistory(file)).toEqual({
+      web: [{ startedAt: 1, success: true, errors: 0, warnings: 0 }],
+    });
+  });
+});
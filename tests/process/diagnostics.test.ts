@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import { DiagnosticParser, type Diagnostic } from '../../src/process/diagnostics.js';
+
+/** Feed `lines` to a fresh parser; the diagnostics that came out. */
+function parse(lines: string[]): Diagnostic[] {
+  const parser = new DiagnosticParser();
+  return lines.flatMap((line) => parser.push(line) ?? []);
+}
+
+describe('DiagnosticParser', () => {
+  it('reads plain and --pretty tsc diagnostics', () => {
+    expect(
+      parse([
+        "src/api.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+        "\x1B[96msrc/db.ts\x1B[0m:\x1B[93m3\x1B[0m:\x1B[93m10\x1B[0m - \x1B[91merror\x1B[0m\x1B[90m TS2304: \x1B[0mCannot find name 'pool'.",
+        '',
+        '3 import { pool } from "pg";',
+      ]),
+    ).toEqual([
+      {
+        file: 'src/api.ts',
+        line: 12,
+        column: 5,
+        severity: 'error',
+        code: 'TS2322',
+        message: "Type 'string' is not assignable to type 'number'.",
+      },
+      {
+        file: 'src/db.ts',
+        line: 3,
+        column: 10,
+        severity: 'error',
+        code: 'TS2304',
+        message: "Cannot find name 'pool'.",
+      },
+    ]);
+  });
+
+  it('reads the tsc and NG diagnostics Angular forwards', () => {
+    expect(
+      parse([
+        "Error: apps/widget/src/app/app.component.ts:25:7 - error TS2300: Duplicate identifier 'x'.",
+        "Error: apps/widget/src/app/app.component.html:3:1 - error NG8001: 'app-chart' is not a known element.",
+      ]),
+    ).toMatchObject([
+      { file: 'apps/widget/src/app/app.component.ts', line: 25, column: 7, code: 'TS2300' },
+      { file: 'apps/widget/src/app/app.component.html', line: 3, column: 1, code: 'NG8001' },
+    ]);
+  });
+
+  it('joins an esbuild header to the location on a later line', () => {
+    expect(
+      parse([
+        '✘ [ERROR] Could not resolve "./missing"',
+        '',
+        '    src/index.ts:1:7:',
+        '      1 │ import "./missing";',
+        '▲ [WARNING] Comparison with -0 using the "===" operator [equals-negative-zero]',
+        '',
+        '    src/math.ts:4:13:',
+        '✘ [ERROR] TS2322: Type mismatch [plugin angular-compiler]',
+        '',
+        '    src/app/app.component.ts:5:2:',
+      ]),
+    ).toEqual([
+      {
+        file: 'src/index.ts',
+        line: 1,
+        column: 7,
+        severity: 'error',
+        message: 'Could not resolve "./missing"',
+      },
+      {
+        file: 'src/math.ts',
+        line: 4,
+        column: 13,
+        severity: 'warning',
+        code: 'equals-negative-zero',
+        message: 'Comparison with -0 using the "===" operator',
+      },
+      {
+        file: 'src/app/app.component.ts',
+        line: 5,
+        column: 2,
+        severity: 'error',
+        code: 'TS2322',
+        message: 'Type mismatch',
+      },
+    ]);
+  });
+
+  it('drops an esbuild header that names no location', () => {
+    expect(parse(['✘ [ERROR] Cannot start service: Host version mismatch', 'done'])).toEqual([]);
+  });
+
+  it('reads webpack diagnostics with the message on the same or the next line', () => {
+    expect(
+      parse([
+        'ERROR in ./src/app.ts 12:4-10',
+        "Module not found: Error: Can't resolve './chart' in '/app/src'",
+        'ERROR in ./src/app.ts 20:4 - Type error',
+        '[tsl] ERROR in /app/src/main.ts(7,3)',
+        "      TS2339: Property 'foo' does not exist on type 'Window'.",
+        'WARNING in ./src/legacy.js',
+        'Critical dependency: the request of a dependency is an expression',
+      ]),
+    ).toEqual([
+      {
+        file: './src/app.ts',
+        line: 12,
+        column: 4,
+        severity: 'error',
+        message: "Module not found: Error: Can't resolve './chart' in '/app/src'",
+      },
+      { file: './src/app.ts', line: 20, column: 4, severity: 'error', message: 'Type error' },
+      {
+        file: '/app/src/main.ts',
+        line: 7,
+        column: 3,
+        severity: 'error',
+        code: 'TS2339',
+        message: "Property 'foo' does not exist on type 'Window'.",
+      },
+      {
+        file: './src/legacy.js',
+        line: undefined,
+        column: undefined,
+        severity: 'warning',
+        message: 'Critical dependency: the request of a dependency is an expression',
+      },
+    ]);
+  });
+
+  it('reads eslint stylish output, including through webpack', () => {
+    expect(
+      parse([
+        'ERROR in [eslint]',
+        '/app/src/api.ts',
+        "  12:5  error    'x' is assigned a value but never used  no-unused-vars",
+        '  20:1  warning  Unexpected console statement            no-console',
+        '',
+        '/app/src/db.ts',
+        '  3:10  error  Parsing error: Unexpected token',
+        '',
+        '✖ 3 problems (2 errors, 1 warning)',
+      ]),
+    ).toEqual([
+      {
+        file: '/app/src/api.ts',
+        line: 12,
+        column: 5,
+        severity: 'error',
+        code: 'no-unused-vars',
+        message: "'x' is assigned a value but never used",
+      },
+      {
+        file: '/app/src/api.ts',
+        line: 20,
+        column: 1,
+        severity: 'warning',
+        code: 'no-console',
+        message: 'Unexpected console statement',
+      },
+      {
+        file: '/app/src/db.ts',
+        line: 3,
+        column: 10,
+        severity: 'error',
+        code: undefined,
+        message: 'Parsing error: Unexpected token',
+      },
+    ]);
+  });
+
+  it('reads eslint compact output', () => {
+    expect(
+      parse([
+        '/app/src/api.ts: line 12, col 5, Warning - Unexpected console statement. (no-console)',
+      ]),
+    ).toEqual([
+      {
+        file: '/app/src/api.ts',
+        line: 12,
+        column: 5,
+        severity: 'warning',
+        code: 'no-console',
+        message: 'Unexpected console statement.',
+      },
+    ]);
+  });
+
+  it('ignores ordinary output', () => {
+    expect(
+      parse([
+        'webpack compiled successfully',
+        'GET /api/users 200 12ms',
+        '  12:30  server started',
+        '[10:21:35 AM] Found 0 errors. Watching for file changes.',
+      ]),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { LimitTracker } from '../../src/process/limits.js';
+import type { LimitsConfig } from '../../src/config/schema.js';
+import type { MetricsSample } from '../../src/process/metrics.js';
+
+const MB = 1024 * 1024;
+
+function sample(timestamp: number, rssMb: number, cpu = 0): MetricsSample {
+  return { timestamp, cpu, rss: rssMb * MB, processes: 1 };
+}
+
+describe('LimitTracker', () => {
+  const memory: LimitsConfig = { max_memory_mb: 100, sustained_for: 10_000, action: 'restart' };
+
+  it('trips once a limit has been exceeded for sustained_for', () => {
+    const tracker = new LimitTracker();
+    expect(tracker.check(memory, sample(0, 150))).toEqual([]);
+    expect(tracker.check(memory, sample(5_000, 160))).toEqual([]);
+    const [breach, ...rest] = tracker.check(memory, sample(10_000, 170));
+    expect(rest).toEqual([]);
+    expect(breach).toEqual({
+      limit: 'memory',
+      value: 170 * MB,
+      max: 100 * MB,
+      sustainedMs: 10_000,
+      action: 'restart',
+      message: 'memory 170 MB over the 100 MB limit for 10.0s',
+    });
+  });
+
+  it('starts the clock over when a sample drops back under', () => {
+    const tracker = new LimitTracker();
+    tracker.check(memory, sample(0, 150));
+    tracker.check(memory, sample(5_000, 90));
+    expect(tracker.check(memory, sample(10_000, 150))).toEqual([]);
+    expect(tracker.check(memory, sample(20_000, 150))).toHaveLength(1);
+  });
+
+  it('reports an episode once, and again only after it ends', () => {
+    const tracker = new LimitTracker();
+    const instant: LimitsConfig = { max_cpu_percent: 50, sustained_for: 0, action: 'warn' };
+    expect(tracker.check(instant, sample(0, 10, 80))[0]?.message).toBe(
+      'CPU 80% over the 50% limit',
+    );
+    expect(tracker.check(instant, sample(1_000, 10, 90))).toEqual([]);
+    tracker.check(instant, sample(2_000, 10, 20));
+    expect(tracker.check(instant, sample(3_000, 10, 95))).toHaveLength(1);
+  });
+
+  it('reports memory and CPU independently', () => {
+    const tracker = new LimitTracker();
+    const both: LimitsConfig = {
+      max_memory_mb: 100,
+      max_cpu_percent: 100,
+      sustained_for: 0,
+      action: 'stop',
+    };
+    const breaches = tracker.check(both, sample(0, 200, 250));
+    expect(breaches.map((b) => b.limit)).toEqual(['memory', 'cpu']);
+  });
+
+  it('reset() forgets an episode in progress', () => {
+    const tracker = new LimitTracker();
+    tracker.check(memory, sample(0, 150));
+    tracker.reset();
+    expect(tracker.check(memory, sample(10_000, 150))).toEqual([]);
+  });
+});
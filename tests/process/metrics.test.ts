@@ -0,0 +1,124 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  MetricsHistory,
+  MetricsSampler,
+  formatBytes,
+  readGroupUsage,
+  type MetricsSample,
+} from '../../src/process/metrics.js';
+
+/** A fake `/proc/<pid>` with the `stat` fields the reader uses. */
+function writeProc(
+  root: string,
+  pid: number,
+  p: { comm?: string; pgrp: number; utime: number; stime: number; rssKb: number },
+) {
+  const dir = join(root, String(pid));
+  mkdirSync(dir, { recursive: true });
+  // pid (comm) state ppid pgrp session tty tpgid flags minflt cminflt majflt cmajflt utime stime ...
+  const fields = ['S', '1', String(p.pgrp), '1', '0', '-1', '0', '0', '0', '0', '0'];
+  writeFileSync(
+    join(dir, 'stat'),
+    `${pid} (${p.comm ?? 'node'}) ${[...fields, String(p.utime), String(p.stime), '0', '0'].join(' ')}\n`,
+  );
+  writeFileSync(join(dir, 'status'), `Name:\tnode\nVmRSS:\t   ${p.rssKb} kB\n`);
+}
+
+describe('readGroupUsage', () => {
+  let proc: string;
+
+  beforeEach(() => {
+    proc = mkdtempSync(join(tmpdir(), 'orckit-proc-'));
+  });
+
+  afterEach(() => {
+    rmSync(proc, { recursive: true, force: true });
+  });
+
+  it('sums CPU ticks and RSS over every member of each requested group', () => {
+    writeProc(proc, 100, { pgrp: 100, utime: 10, stime: 5, rssKb: 1000 });
+    writeProc(proc, 101, {
+      comm: 'esbuild (worker) x',
+      pgrp: 100,
+      utime: 20,
+      stime: 0,
+      rssKb: 500,
+    });
+    writeProc(proc, 200, { pgrp: 200, utime: 1, stime: 1, rssKb: 10 });
+    writeProc(proc, 300, { pgrp: 300, utime: 7, stime: 7, rssKb: 70 });
+    mkdirSync(join(proc, 'self'));
+
+    const usage = readGroupUsage(new Set([100, 200]), proc);
+
+    expect(usage.get(100)).toEqual({ cpuTicks: 35, rssBytes: 1500 * 1024, processes: 2 });
+    expect(usage.get(200)).toEqual({ cpuTicks: 2, rssBytes: 10 * 1024, processes: 1 });
+    expect(usage.has(300)).toBe(false);
+  });
+
+  it('returns nothing when /proc is unreadable', () => {
+    expect(readGroupUsage(new Set([1]), join(proc, 'missing')).size).toBe(0);
+  });
+});
+
+describe('MetricsSampler', () => {
+  let proc: string;
+
+  beforeEach(() => {
+    proc = mkdtempSync(join(tmpdir(), 'orckit-proc-'));
+  });
+
+  afterEach(() => {
+    rmSync(proc, { recursive: true, force: true });
+  });
+
+  it('derives CPU % from the tick delta between samples', () => {
+    const sampler = new MetricsSampler(proc);
+    const groups = new Map([['api', 100]]);
+    writeProc(proc, 100, { pgrp: 100, utime: 100, stime: 0, rssKb: 2048 });
+    const first = sampler.sample(groups, 10_000).get('api')!;
+    expect(first.cpu).toBe(0);
+    expect(first.rss).toBe(2048 * 1024);
+
+    // 150 ticks (1.5s of CPU) over 2s of wall time → 75% of a core.
+    writeProc(proc, 100, { pgrp: 100, utime: 200, stime: 50, rssKb: 4096 });
+    const second = sampler.sample(groups, 12_000).get('api')!;
+    expect(second.cpu).toBe(75);
+    expect(second.rss).toBe(4096 * 1024);
+  });
+
+  it('omits groups with no live member', () => {
+    const sampler = new MetricsSampler(proc);
+    expect(sampler.sample(new Map([['gone', 999]])).size).toBe(0);
+  });
+});
+
+describe('MetricsHistory', () => {
+  const sample = (timestamp: number): MetricsSample => ({
+    timestamp,
+    cpu: 0,
+    rss: 0,
+    processes: 1,
+  });
+
+  it('keeps the most recent samples up to its capacity, oldest first', () => {
+    const history = new MetricsHistory(3);
+    expect(history.latest()).toBeUndefined();
+    for (let t = 1; t <= 5; t++) history.push(sample(t));
+    expect(history.size()).toBe(3);
+    expect(history.recent().map((s) => s.timestamp)).toEqual([3, 4, 5]);
+    expect(history.recent(2).map((s) => s.timestamp)).toEqual([4, 5]);
+    expect(history.latest()?.timestamp).toBe(5);
+  });
+});
+
+describe('formatBytes', () => {
+  it('picks a unit and keeps one decimal below 100', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(150 * 1024 * 1024)).toBe('150 MB');
+    expect(formatBytes(2.25 * 1024 ** 3)).toBe('2.3 GB');
+  });
+});
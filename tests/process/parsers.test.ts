@@ -1,12 +1,44 @@
 import { describe, expect, it } from 'vitest';
 import {
+  createBuildParser,
+  createEsbuildParser,
+  createJestParser,
+  createNextParser,
+  createRollupParser,
+  createTscParser,
+  createViteParser,
+  createVitestParser,
   getParser,
+  parserFor,
   parseAngularLine,
   parseWebpackLine,
   reduceBuild,
   stripAnsi,
+  type BuildEvent,
+  type LineParser,
 } from '../../src/process/parsers.js';
 
+/** A clock that moves only when told to. */
+function fakeClock() {
+  let t = 1_000_000;
+  return { now: () => t, advance: (ms: number) => (t += ms) };
+}
+
+/** Feed `lines` to `parser`, advancing the clock per line; the events that came out. */
+function feed(
+  parser: LineParser,
+  lines: string[],
+  clock?: ReturnType<typeof fakeClock>,
+): BuildEvent[] {
+  const events: BuildEvent[] = [];
+  for (const line of lines) {
+    const event = parser(line);
+    if (event) events.push(event);
+    clock?.advance(100);
+  }
+  return events;
+}
+
 describe('stripAnsi', () => {
   it('removes color codes', () => {
     expect(stripAnsi('\x1B[32m✔\x1B[39m done')).toBe('✔ done');
@@ -149,10 +181,342 @@ describe('parseAngularLine', () => {
   });
 });
 
+describe('createViteParser', () => {
+  it('reports the dev server ready time', () => {
+    const events = feed(createViteParser(), [
+      '',
+      '  \x1B[32m\x1B[1mVITE\x1B[22m v5.0.10\x1B[39m  \x1B[2mready in \x1B[0m\x1B[1m312\x1B[22m\x1B[2m ms\x1B[22m',
+      '',
+      '  ➜  Local:   http://localhost:5173/',
+    ]);
+    expect(events).toEqual([
+      { type: 'build:complete', success: true, errors: 0, warnings: 0, durationMs: 312 },
+    ]);
+  });
+
+  it('fails on a transform error and recovers on the next HMR update', () => {
+    const events = feed(createViteParser(), [
+      '10:21:33 AM [vite] Internal server error: Transform failed with 1 error:',
+      '/app/src/App.tsx:4:10: ERROR: Expected ";" but found "x"',
+      '10:21:40 AM [vite] hmr update /src/App.tsx',
+    ]);
+    expect(events).toEqual([
+      {
+        type: 'build:failed',
+        reason: '10:21:33 AM [vite] Internal server error: Transform failed with 1 error:',
+      },
+      { type: 'build:complete', success: true, errors: 0, warnings: 0, durationMs: undefined },
+    ]);
+  });
+
+  it('counts warnings in a `vite build --watch` run', () => {
+    const events = feed(createViteParser(), [
+      'vite v5.0.10 building for production...',
+      'transforming (34) src/main.tsx',
+      '✓ 34 modules transformed.',
+      '(!) Some chunks are larger than 500 kB after minification.',
+      '✓ built in 1.23s',
+    ]);
+    expect(events).toEqual([
+      { type: 'build:start' },
+      { type: 'build:complete', success: true, errors: 0, warnings: 1, durationMs: 1230 },
+    ]);
+  });
+});
+
+describe('createNextParser', () => {
+  it('follows a Next 14 dev compile', () => {
+    const events = feed(createNextParser(), [
+      '  ▲ Next.js 14.1.0',
+      ' ✓ Ready in 1843ms',
+      ' ○ Compiling / ...',
+      ' ✓ Compiled / in 2.3s (512 modules)',
+    ]);
+    expect(events).toEqual([
+      { type: 'build:complete', success: true, errors: 0, warnings: 0, durationMs: 1843 },
+      { type: 'build:start' },
+      { type: 'build:complete', success: true, errors: 0, warnings: 0, durationMs: 2300 },
+    ]);
+  });
+
+  it('captures a compile error as the failure reason', () => {
+    const events = feed(createNextParser(), [
+      ' ○ Compiling /dashboard ...',
+      ' ⨯ ./app/dashboard/page.tsx:3:1',
+      "Module not found: Can't resolve './chart'",
+    ]);
+    expect(events).toEqual([
+      { type: 'build:start' },
+      { type: 'build:failed', reason: '⨯ ./app/dashboard/page.tsx:3:1' },
+    ]);
+  });
+
+  it('understands the Next 12 log prefixes', () => {
+    const events = feed(createNextParser(), [
+      'wait  - compiling...',
+      'warn  - Fast Refresh had to perform a full reload.',
+      'event - compiled client and server successfully in 1234 ms (156 modules)',
+    ]);
+    expect(events).toEqual([
+      { type: 'build:start' },
+      { type: 'build:complete', success: true, errors: 0, warnings: 1, durationMs: 1234 },
+    ]);
+  });
+});
+
+describe('createEsbuildParser', () => {
+  it('times a watch rebuild and counts its diagnostics', () => {
+    const clock = fakeClock();
+    const events = feed(
+      createEsbuildParser(clock.now),
+      [
+        '[watch] build started (change: "src/index.ts")',
+        '✘ [ERROR] Could not resolve "./missing"',
+        '',
+        '    src/index.ts:1:7:',
+        '▲ [WARNING] Comparison with -0 using the "===" operator [equals-negative-zero]',
+        '1 warning and 1 error',
+        '[watch] build finished',
+      ],
+      clock,
+    );
+    expect(events).toEqual([
+      { type: 'build:start' },
+      { type: 'build:failed', reason: '✘ [ERROR] Could not resolve "./missing"' },
+      { type: 'build:complete', success: false, errors: 1, warnings: 1, durationMs: 600 },
+    ]);
+  });
+
+  it('reads the duration of a one-off build', () => {
+    expect(createEsbuildParser()('⚡ Done in 12ms')).toEqual({
+      type: 'build:complete',
+      success: true,
+      errors: 0,
+      warnings: 0,
+      durationMs: 12,
+    });
+  });
+});
+
+describe('createTscParser', () => {
+  it('takes the error count from the "Found N errors" summary', () => {
+    const clock = fakeClock();
+    const events = feed(
+      createTscParser(clock.now),
+      [
+        '\x1Bc[10:21:33 AM] Starting compilation in watch mode...',
+        '',
+        "src/api.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+        "src/api.ts:20:3 - error TS2304: Cannot find name 'foo'.",
+        '[10:21:35 AM] Found 2 errors. Watching for file changes.',
+      ],
+      clock,
+    );
+    expect(events).toEqual([
+      { type: 'build:start' },
+      {
+        type: 'build:failed',
+        reason: "src/api.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      },
+      { type: 'build:failed', reason: "src/api.ts:20:3 - error TS2304: Cannot find name 'foo'." },
+      { type: 'build:complete', success: false, errors: 2, warnings: 0, durationMs: 400 },
+    ]);
+  });
+
+  it('completes a clean incremental rebuild', () => {
+    const events = feed(createTscParser(), [
+      '[10:22:01 AM] File change detected. Starting incremental compilation...',
+      '[10:22:01 AM] Found 0 errors. Watching for file changes.',
+    ]);
+    expect(events[1]).toMatchObject({ type: 'build:complete', success: true, errors: 0 });
+  });
+});
+
+describe('createVitestParser', () => {
+  it('reports failed tests as errors with the run duration', () => {
+    const events = feed(createVitestParser(), [
+      ' RERUN  src/api.test.ts x1',
+      '',
+      ' ❯ src/api.test.ts (3 tests | 1 failed) 12ms',
+      '   × api > rejects bad input 4ms',
+      ' FAIL  src/api.test.ts > api > rejects bad input',
+      ' Test Files  1 failed (1)',
+      '      Tests  1 failed | 2 passed (3)',
+      '   Start at  10:21:33',
+      '   Duration  812ms (transform 40ms, setup 0ms, collect 60ms, tests 12ms)',
+      '',
+      ' FAIL  Tests failed. Watching for file changes...',
+    ]);
+    expect(events).toEqual([
+      { type: 'build:start' },
+      { type: 'build:failed', reason: '× api > rejects bad input 4ms' },
+      { type: 'build:failed', reason: 'FAIL  src/api.test.ts > api > rejects bad input' },
+      { type: 'build:complete', success: false, errors: 1, warnings: 0, durationMs: 812 },
+    ]);
+  });
+
+  it('completes a passing run', () => {
+    const events = feed(createVitestParser(), [
+      ' DEV  v1.2.0 /repo',
+      '      Tests  13 passed (13)',
+      '   Duration  2.34s (transform 400ms)',
+    ]);
+    expect(events).toEqual([
+      { type: 'build:start' },
+      { type: 'build:complete', success: true, errors: 0, warnings: 0, durationMs: 2340 },
+    ]);
+  });
+});
+
+describe('createJestParser', () => {
+  it('reports failed tests as errors with the run time', () => {
+    const events = feed(createJestParser(), [
+      'Determining test suites to run...',
+      ' FAIL  src/api.test.js',
+      '  ● api › rejects bad input',
+      'Test Suites: 1 failed, 3 passed, 4 total',
+      'Tests:       1 failed, 12 passed, 13 total',
+      'Snapshots:   0 total',
+      'Time:        2.345 s, estimated 3 s',
+      'Ran all test suites related to changed files.',
+    ]);
+    expect(events).toEqual([
+      { type: 'build:start' },
+      { type: 'build:failed', reason: 'FAIL  src/api.test.js' },
+      { type: 'build:complete', success: false, errors: 1, warnings: 0, durationMs: 2345 },
+    ]);
+  });
+});
+
+describe('createRollupParser', () => {
+  it('completes on "created" with its duration and counted warnings', () => {
+    const events = feed(createRollupParser(), [
+      'rollup v4.9.0',
+      'bundles src/main.ts → dist/bundle.js...',
+      '(!) Unresolved dependencies',
+      'created dist/bundle.js in 1.2s',
+      '',
+      '[2024-01-10 12:00:00] waiting for changes...',
+    ]);
+    expect(events).toEqual([
+      { type: 'build:start' },
+      { type: 'build:complete', success: true, errors: 0, warnings: 1, durationMs: 1200 },
+    ]);
+  });
+
+  it('closes a failed build on the idle line', () => {
+    const clock = fakeClock();
+    const events = feed(
+      createRollupParser(clock.now),
+      [
+        'bundles src/main.ts → dist/bundle.js...',
+        '[!] RollupError: Could not resolve "./missing" from "src/main.ts"',
+        'src/main.ts',
+        '[2024-01-10 12:00:05] waiting for changes...',
+      ],
+      clock,
+    );
+    expect(events).toEqual([
+      { type: 'build:start' },
+      {
+        type: 'build:failed',
+        reason: '[!] RollupError: Could not resolve "./missing" from "src/main.ts"',
+      },
+      { type: 'build:complete', success: false, errors: 1, warnings: 0, durationMs: 300 },
+    ]);
+  });
+});
+
+describe('createBuildParser', () => {
+  const hugo = {
+    start: 'Change detected, rebuilding site',
+    success: '^Total in \\d+ ms',
+    failure: '^Error: error building site',
+    error_line: '^ERROR ',
+    warning_line: '^WARN ',
+  };
+
+  it('follows a rebuild from the configured regexes', () => {
+    const clock = fakeClock();
+    const events = feed(
+      createBuildParser(hugo, clock.now),
+      [
+        'Change detected, rebuilding site.',
+        '2024-01-10 12:00:00.000 +0000',
+        'WARN  found no layout file for "html" for kind "taxonomy"',
+        'Total in 45 ms',
+      ],
+      clock,
+    );
+    expect(events).toEqual([
+      { type: 'build:start' },
+      { type: 'build:complete', success: true, errors: 0, warnings: 1, durationMs: 300 },
+    ]);
+  });
+
+  it('reports counted errors on failure, or the failure line without any', () => {
+    const parser = createBuildParser(hugo);
+    expect(
+      feed(parser, [
+        'Change detected, rebuilding site.',
+        'ERROR render of "page" failed: template: _default/single.html:3: unexpected EOF',
+        'Error: error building site: render: failed to render pages',
+      ]),
+    ).toMatchObject([
+      { type: 'build:start' },
+      { type: 'build:failed' },
+      { type: 'build:complete', success: false, errors: 1, warnings: 0 },
+    ]);
+    expect(parser('Error: error building site: assemble: no such file')).toEqual({
+      type: 'build:failed',
+      reason: 'Error: error building site: assemble: no such file',
+    });
+  });
+
+  it('takes counts from named groups and progress from the first capture group', () => {
+    const parser = createBuildParser({
+      progress: '\\[(\\d+)/100\\]',
+      success: 'generated with (?<warnings>\\d+) warnings',
+      failure: '(?<errors>\\d+) files? failed',
+    });
+    expect(parser('[42/100] user.proto')).toEqual({ type: 'build:progress', percent: 42 });
+    expect(parser('generated with 2 warnings')).toMatchObject({
+      type: 'build:complete',
+      success: true,
+      warnings: 2,
+    });
+    expect(parser('3 files failed')).toMatchObject({
+      type: 'build:complete',
+      success: false,
+      errors: 3,
+    });
+  });
+});
+
+describe('parserFor', () => {
+  it("prefers a process's build regexes over its type's parser", () => {
+    const parser = parserFor({ type: 'webpack', build: { success: '^ok$' } });
+    expect(parser).not.toBe(parseWebpackLine);
+    expect(parser!('ok')).toMatchObject({ type: 'build:complete', success: true });
+  });
+
+  it("falls back to the type's parser", () => {
+    expect(parserFor({ type: 'webpack' })).toBe(parseWebpackLine);
+    expect(parserFor({ type: 'bash' })).toBeNull();
+  });
+});
+
 describe('getParser', () => {
   it('returns parsers for known types', () => {
     expect(getParser('webpack')).toBe(parseWebpackLine);
     expect(getParser('angular')).toBe(parseAngularLine);
+    for (const type of ['vite', 'next', 'esbuild', 'tsc', 'vitest', 'jest', 'rollup'] as const) {
+      expect(getParser(type)).toBeTypeOf('function');
+    }
+  });
+
+  it('gives each process its own stateful parser', () => {
+    expect(getParser('tsc')).not.toBe(getParser('tsc'));
   });
 
   it('returns null for bash', () => {
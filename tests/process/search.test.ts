@@ -0,0 +1,176 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { validateConfig } from '../../src/config/load.js';
+import type { OutputLine } from '../../src/process/output.js';
+import { searchLogs, parseTimeBound, type LogSearchSource } from '../../src/process/search.js';
+
+function makeSource(output: Record<string, OutputLine[]>): LogSearchSource {
+  const config = validateConfig({
+    project: 'search-test',
+    processes: {
+      api: { command: 'echo', category: 'backend' },
+      worker: { command: 'echo', category: 'backend' },
+      web: { command: 'echo', category: 'frontend' },
+    },
+  });
+  return { config, output: (name) => output[name] ?? [] };
+}
+
+function line(text: string, timestamp: number, stream: OutputLine['stream'] = 'stdout') {
+  return { text, stream, timestamp };
+}
+
+describe('searchLogs over buffers', () => {
+  const source = makeSource({
+    api: [
+      line('boot', 1000),
+      line('listening on 3000', 1100),
+      line('GET /health 200', 1200),
+      line('Error: db timeout', 1300, 'stderr'),
+      line('retrying', 1400),
+    ],
+    worker: [line('error in job 7', 1250, 'stderr')],
+    web: [line('compiled', 1050)],
+  });
+
+  it('matches a regex across processes, oldest first, with ranges', async () => {
+    const result = await searchLogs(source, { pattern: 'error', ignoreCase: true });
+    expect(result.processes).toEqual(['api', 'worker', 'web']);
+    expect(result.matches.map((m) => [m.name, m.line.text])).toEqual([
+      ['worker', 'error in job 7'],
+      ['api', 'Error: db timeout'],
+    ]);
+    expect(result.matches[1]!.ranges).toEqual([[0, 5]]);
+    expect(result.matches[1]!.source).toBe('buffer');
+    expect(result.truncated).toBe(false);
+  });
+
+  it('returns context lines around each match', async () => {
+    const result = await searchLogs(source, { pattern: 'timeout', context: 1 });
+    const [m] = result.matches;
+    expect(m!.before.map((l) => l.text)).toEqual(['GET /health 200']);
+    expect(m!.after.map((l) => l.text)).toEqual(['retrying']);
+  });
+
+  it('filters by time window, process, category and stream', async () => {
+    const windowed = await searchLogs(source, { pattern: '.', since: 1150, until: 1250 });
+    expect(windowed.matches.map((m) => m.line.text)).toEqual(['GET /health 200', 'error in job 7']);
+
+    const byProcess = await searchLogs(source, { pattern: 'o', processes: ['web'] });
+    expect(byProcess.matches.map((m) => m.line.text)).toEqual(['compiled']);
+
+    const byCategory = await searchLogs(source, { pattern: 'o', categories: ['frontend'] });
+    expect(byCategory.processes).toEqual(['web']);
+
+    const stderr = await searchLogs(source, { pattern: '.', stream: 'stderr' });
+    expect(stderr.matches).toHaveLength(2);
+  });
+
+  it('treats the pattern literally when regex is false', async () => {
+    const result = await searchLogs(source, { pattern: 'GET /health', regex: false });
+    expect(result.matches).toHaveLength(1);
+    const none = await searchLogs(source, { pattern: '.*', regex: false });
+    expect(none.matches).toHaveLength(0);
+  });
+
+  it('keeps the most recent matches when over the limit', async () => {
+    const result = await searchLogs(source, { pattern: '.', processes: ['api'], limit: 2 });
+    expect(result.matches.map((m) => m.line.text)).toEqual(['Error: db timeout', 'retrying']);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('rejects an invalid regex and unknown process names', async () => {
+    await expect(searchLogs(source, { pattern: '(' })).rejects.toThrow(/invalid pattern/);
+    await expect(searchLogs(source, { pattern: 'x', processes: ['nope'] })).rejects.toThrow(
+      /unknown process "nope"/,
+    );
+  });
+});
+
+describe('searchLogs over log files', () => {
+  let dir: string;
+  const t0 = Date.parse('2026-01-01T10:00:00.000Z');
+  const iso = (offsetMs: number) => new Date(t0 + offsetMs).toISOString();
+  const banner = '='.repeat(72);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'orckit-search-'));
+    writeFileSync(
+      join(dir, 'api.log'),
+      [
+        '',
+        banner,
+        `== api started ${iso(0)} (pid 1)`,
+        banner,
+        '  booting',
+        '! Error: old failure',
+        `-- ${iso(60_000)} failed: exited (code 1)`,
+        '',
+        banner,
+        `== api started ${iso(120_000)} (pid 2)`,
+        banner,
+        '  Error: second session',
+        '  still up',
+        '',
+        banner,
+        `== api started ${iso(3_600_000)} (pid 3)`,
+        banner,
+        '  Error: current run',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('reads sessions before historyBefore with session-start timestamps', async () => {
+    const source = makeSource({});
+    const result = await searchLogs(
+      source,
+      { pattern: 'Error', context: 1 },
+      { logDir: dir, historyBefore: t0 + 3_600_000 },
+    );
+    expect(result.matches.map((m) => [m.source, m.line.stream, m.line.text])).toEqual([
+      ['file', 'stderr', 'Error: old failure'],
+      ['file', 'stdout', 'Error: second session'],
+    ]);
+    expect(result.matches[0]!.line.timestamp).toBe(t0);
+    // Context stays within a session.
+    expect(result.matches[0]!.before.map((l) => l.text)).toEqual(['booting']);
+    expect(result.matches[0]!.after).toEqual([]);
+    expect(result.matches[1]!.before).toEqual([]);
+    expect(result.matches[1]!.after.map((l) => l.text)).toEqual(['still up']);
+  });
+
+  it('applies the time window per session', async () => {
+    const result = await searchLogs(
+      makeSource({}),
+      { pattern: 'Error', since: t0 + 90_000 },
+      { logDir: dir, historyBefore: t0 + 3_600_000 },
+    );
+    expect(result.matches.map((m) => m.line.text)).toEqual(['Error: second session']);
+  });
+
+  it('orders file history before newer buffered lines', async () => {
+    const source = makeSource({ api: [line('Error: live', t0 + 3_700_000)] });
+    const result = await searchLogs(
+      source,
+      { pattern: 'Error', processes: ['api'] },
+      { logDir: dir, historyBefore: t0 + 3_600_000 },
+    );
+    expect(result.matches.map((m) => m.line.text)).toEqual([
+      'Error: old failure',
+      'Error: second session',
+      'Error: live',
+    ]);
+  });
+});
+
+describe('parseTimeBound', () => {
+  it('accepts durations ago, ISO timestamps and epoch ms', () => {
+    expect(parseTimeBound('15m', 1_000_000)).toBe(100_000);
+    expect(parseTimeBound('2026-01-01T00:00:00Z')).toBe(Date.parse('2026-01-01T00:00:00Z'));
+    expect(parseTimeBound('12345')).toBe(12345);
+    expect(() => parseTimeBound('yesterday')).toThrow(/invalid time/);
+  });
+});
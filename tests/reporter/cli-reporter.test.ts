@@ -119,6 +119,71 @@ describe('attachCliReporter — hook activity', () => {
   });
 });
 
+describe('attachCliReporter — resource limits', () => {
+  it('announces a limit breach and its action, in dashboard mode too', () => {
+    const captured: string[] = [];
+    const orckit = makeFakeOrckit();
+    attachCliReporter(orckit, { out: (m) => captured.push(m), quietProcessEvents: true });
+
+    orckit.emit('process:limit-exceeded', 'web', {
+      limit: 'memory',
+      value: 6 * 1024 ** 3,
+      max: 4 * 1024 ** 3,
+      sustainedMs: 30_000,
+      action: 'restart',
+      message: 'memory 6.0 GB over the 4.0 GB limit for 30.0s',
+    });
+
+    expect(captured).toHaveLength(1);
+    expect(captured[0]).toContain(
+      'web: memory 6.0 GB over the 4.0 GB limit for 30.0s — restarting',
+    );
+  });
+});
+
+describe('attachCliReporter — liveness', () => {
+  it('announces an unhealthy process and its recovery, in dashboard mode too', () => {
+    const captured: string[] = [];
+    const orckit = makeFakeOrckit();
+    attachCliReporter(orckit, { out: (m) => captured.push(m), quietProcessEvents: true });
+
+    orckit.emit('process:running', 'api');
+    orckit.emit('process:unhealthy', 'api', 'liveness check failed 3 times in a row');
+    orckit.emit('process:running', 'api');
+
+    expect(captured).toHaveLength(2);
+    expect(captured[0]).toContain('api unhealthy: liveness check failed 3 times in a row');
+    expect(captured[1]).toContain('api healthy again');
+  });
+});
+
+describe('attachCliReporter — restarts', () => {
+  it('says when the restart will happen', () => {
+    const captured: string[] = [];
+    const orckit = makeFakeOrckit();
+    attachCliReporter(orckit, { out: (m) => captured.push(m) });
+
+    orckit.emit('process:restarting', 'api', 2, 4000);
+
+    expect(captured[0]).toContain('api restarting in 4.0s (attempt 2)');
+  });
+
+  it('announces a crash loop, in dashboard mode too', () => {
+    const captured: string[] = [];
+    const orckit = makeFakeOrckit();
+    attachCliReporter(orckit, { out: (m) => captured.push(m), quietProcessEvents: true });
+
+    orckit.emit('process:crash-loop', 'api', {
+      failures: 3,
+      windowMs: 60_000,
+      message: 'crash loop: 3 failures within 1m',
+    });
+
+    expect(captured).toHaveLength(1);
+    expect(captured[0]).toContain('api: crash loop: 3 failures within 1m');
+  });
+});
+
 describe('attachCliReporter — stop logging', () => {
   it('logs which process is stopping, then that it stopped with duration', () => {
     const captured: string[] = [];
@@ -54,6 +54,12 @@ class FakeStream extends EventEmitter {
   }
 }
 
+/** The most recently drawn frame (everything after the last brand header). */
+function lastFrame(stream: FakeStream): string {
+  const out = stream.rendered();
+  return out.slice(out.lastIndexOf('orckit'));
+}
+
 describe('attachDashboard', () => {
   afterEach(() => {
     vi.useRealTimers();
@@ -157,6 +163,96 @@ describe('attachDashboard', () => {
     }
   });
 
+  it('keeps a watch-trigger annotation through the restart until ready', () => {
+    const orckit = fakeOrckit(configWith({ api: [] }), new Map([['api', 'running']]));
+    const stream = new FakeStream();
+    const handle = attachDashboard(orckit, {
+      stream: stream as unknown as NodeJS.WriteStream,
+      tickMs: 0,
+    })!;
+    try {
+      orckit.emit('process:watch-triggered', 'api', ['a.go', 'b.go', 'c.go']);
+      orckit.emit('process:stopping', 'api');
+      orckit.emit('process:state', 'api', 'starting');
+      expect(lastFrame(stream)).toMatch(/restarting: 3 files changed/);
+
+      orckit.emit('process:state', 'api', 'ready');
+      orckit.emit('process:ready', 'api', 90);
+      expect(lastFrame(stream)).not.toMatch(/restarting:/);
+    } finally {
+      handle.dispose();
+    }
+  });
+
+  it('redraws the graph from the new config on config:reloaded', () => {
+    const orckit = fakeOrckit(
+      configWith({ db: [], legacy: [] }),
+      new Map<string, ProcessState>([
+        ['db', 'running'],
+        ['legacy', 'running'],
+      ]),
+    );
+    const stream = new FakeStream();
+    const handle = attachDashboard(orckit, {
+      stream: stream as unknown as NodeJS.WriteStream,
+      tickMs: 0,
+    })!;
+    try {
+      expect(lastFrame(stream)).toMatch(/legacy/);
+      const mutable = orckit as unknown as {
+        config: OrckitConfig;
+        states: () => Map<string, ProcessState>;
+      };
+      mutable.config = configWith({ db: [], worker: ['db'] });
+      mutable.states = () =>
+        new Map<string, ProcessState>([
+          ['db', 'running'],
+          ['worker', 'pending'],
+        ]);
+      orckit.emit('config:reloaded', {
+        added: ['worker'],
+        removed: ['legacy'],
+        changed: [],
+        restarted: [],
+      });
+      const frame = lastFrame(stream);
+      expect(frame).not.toMatch(/legacy/);
+      expect(frame).toMatch(/worker/);
+      expect(frame).toMatch(/1\/2\s+ready/);
+    } finally {
+      handle.dispose();
+    }
+  });
+
+  it('shows the latest CPU and memory sample while a process is up', () => {
+    const orckit = fakeOrckit(
+      configWith({ db: [], api: ['db'] }),
+      new Map<string, ProcessState>([
+        ['db', 'ready'],
+        ['api', 'running'],
+      ]),
+    );
+    const stream = new FakeStream();
+    const handle = attachDashboard(orckit, {
+      stream: stream as unknown as NodeJS.WriteStream,
+      tickMs: 0,
+    })!;
+    try {
+      orckit.emit('process:metrics', 'api', {
+        timestamp: 0,
+        cpu: 12.4,
+        rss: 150 * 1024 * 1024,
+        processes: 2,
+      });
+      expect(lastFrame(stream)).toMatch(/api\s+12%\s+150 MB/);
+
+      orckit.emit('process:state', 'api', 'stopped');
+      expect(lastFrame(stream)).not.toMatch(/12%/);
+    } finally {
+      handle.dispose();
+    }
+  });
+
   it('renders build state next to processes that emit build events', () => {
     const orckit = fakeOrckit(configWith({ web: [] }), new Map([['web', 'running']]));
     const stream = new FakeStream();
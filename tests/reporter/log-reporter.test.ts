@@ -67,7 +67,7 @@ describe('attachLogReporter', () => {
     orckit.emit('process:starting', 'api');
     orckit.emit('process:line', 'api', line('boot 1'));
     orckit.emit('process:failed', 'api', new Error('crashed'));
-    orckit.emit('process:restarting', 'api', 1);
+    orckit.emit('process:restarting', 'api', 1, 2000);
     orckit.emit('process:starting', 'api');
     orckit.emit('process:line', 'api', line('boot 2'));
 
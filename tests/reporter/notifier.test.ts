@@ -0,0 +1,253 @@
+import { EventEmitter } from 'node:events';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { attachNotifier, renderCommand, type Notification } from '../../src/reporter/notifier.js';
+import { notificationChannelSchema } from '../../src/config/schema.js';
+import type { Orckit } from '../../src/orchestrator/orchestrator.js';
+
+const CATEGORIES: Record<string, string[]> = { '@backend': ['api', 'db'] };
+
+/** An event emitter with just enough of Orckit for the notifier. */
+function makeFakeOrckit(channels: unknown[]): EventEmitter & Orckit {
+  const orckit = new EventEmitter() as unknown as EventEmitter & Orckit;
+  Object.assign(orckit, {
+    projectName: 'shop',
+    config: {
+      notifications: { channels: channels.map((c) => notificationChannelSchema.parse(c)) },
+    },
+    resolveTargets: (selectors: string[]) =>
+      selectors.flatMap((s) => {
+        if (CATEGORIES[s]) return CATEGORIES[s];
+        if (s.startsWith('@')) throw new Error(`unknown category "${s}"`);
+        return [s];
+      }),
+  });
+  return orckit;
+}
+
+/** A notifier delivering browser channels into the returned list. */
+function collect(orckit: Orckit, now?: () => number) {
+  const sent: Notification[] = [];
+  const handle = attachNotifier(orckit, {
+    types: ['browser'],
+    browser: (n) => sent.push(n),
+    now,
+  });
+  return { sent, handle };
+}
+
+describe('attachNotifier', () => {
+  it('reports a failure and the recovery after it', () => {
+    let clock = 1000;
+    const orckit = makeFakeOrckit([{ type: 'browser' }]);
+    const { sent } = collect(orckit, () => clock);
+
+    orckit.emit('process:ready', 'api');
+    orckit.emit('process:failed', 'api', new Error('exited with code 1'));
+    clock = 13_500;
+    orckit.emit('process:ready', 'api');
+    orckit.emit('process:ready', 'api');
+
+    expect(sent).toEqual([
+      {
+        event: 'failed',
+        project: 'shop',
+        name: 'api',
+        title: 'api failed',
+        message: 'exited with code 1',
+        timestamp: 1000,
+      },
+      {
+        event: 'recovered',
+        project: 'shop',
+        name: 'api',
+        title: 'api recovered',
+        message: 'back up after 12.5s',
+        timestamp: 13_500,
+      },
+    ]);
+  });
+
+  it("doesn't call a start after a manual stop a recovery", () => {
+    const orckit = makeFakeOrckit([{ type: 'browser', on: ['recovered'] }]);
+    const { sent } = collect(orckit);
+    orckit.emit('process:failed', 'api');
+    orckit.emit('process:stopped', 'api');
+    orckit.emit('process:running', 'api');
+    expect(sent).toEqual([]);
+  });
+
+  it('reports failed builds with their counts, and all-ready', () => {
+    const orckit = makeFakeOrckit([{ type: 'browser', on: ['build-failed', 'all-ready'] }]);
+    const { sent } = collect(orckit);
+    const complete = (success: boolean, errors: number, warnings: number) =>
+      ({ type: 'build:complete', success, errors, warnings }) as const;
+
+    orckit.emit('process:build', 'web', { type: 'build:start' });
+    orckit.emit('process:build', 'web', complete(true, 0, 2));
+    orckit.emit('process:build', 'web', complete(false, 1, 0));
+    orckit.emit('process:build', 'web', complete(false, 3, 1));
+    orckit.emit('process:failed', 'web');
+    orckit.emit('all:ready', ['api', 'web']);
+
+    expect(sent.map((n) => [n.event, n.name, n.title, n.message])).toEqual([
+      ['build-failed', 'web', 'web build failed', '1 error'],
+      ['build-failed', 'web', 'web build failed', '3 errors, 1 warning'],
+      ['all-ready', null, 'all processes ready', 'api, web'],
+    ]);
+  });
+
+  it('filters by process selector, letting all-ready through', () => {
+    const orckit = makeFakeOrckit([{ type: 'browser', processes: ['@backend', '@gone'] }]);
+    const { sent } = collect(orckit);
+    orckit.emit('process:failed', 'web');
+    orckit.emit('process:failed', 'db');
+    orckit.emit('all:ready', ['api', 'db', 'web']);
+    expect(sent.map((n) => [n.event, n.name])).toEqual([
+      ['failed', 'db'],
+      ['all-ready', null],
+    ]);
+  });
+
+  it('debounces repeats of an event per process', () => {
+    let clock = 0;
+    const orckit = makeFakeOrckit([{ type: 'browser', debounce: '30s' }]);
+    const { sent } = collect(orckit, () => clock);
+    orckit.emit('process:failed', 'api');
+    clock = 10_000;
+    orckit.emit('process:failed', 'api');
+    orckit.emit('process:failed', 'web');
+    clock = 30_000;
+    orckit.emit('process:failed', 'api');
+    expect(sent.map((n) => [n.name, n.timestamp])).toEqual([
+      ['api', 0],
+      ['web', 10_000],
+      ['api', 30_000],
+    ]);
+  });
+
+  it('only delivers the channel types it was given, and stops on dispose', () => {
+    const orckit = makeFakeOrckit([{ type: 'browser' }]);
+    const browser = vi.fn();
+    attachNotifier(orckit, { browser }).dispose();
+    const { sent, handle } = collect(orckit);
+    handle.dispose();
+    orckit.emit('process:failed', 'api');
+    expect(browser).not.toHaveBeenCalled();
+    expect(sent).toEqual([]);
+  });
+
+  describe('command channels', () => {
+    let dir: string;
+    afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('runs the command with quoted fields and ORCKIT_* env', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'orckit-notify-'));
+      const out = join(dir, 'out.txt');
+      const orckit = makeFakeOrckit([
+        {
+          type: 'command',
+          command: `printf '%s|%s|%s\\n' {{title}} {{message}} "$ORCKIT_EVENT" > ${out}`,
+        },
+      ]);
+      const onError = vi.fn();
+      attachNotifier(orckit, { onError });
+      orckit.emit('process:failed', 'api', new Error(`can't bind; $PORT in use`));
+      await vi.waitFor(() =>
+        expect(readFileSync(out, 'utf-8')).toBe(`api failed|can't bind; $PORT in use|failed\n`),
+      );
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('reports a command that exits non-zero', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'orckit-notify-'));
+      const orckit = makeFakeOrckit([{ type: 'command', command: 'echo nope >&2; exit 3' }]);
+      const onError = vi.fn();
+      attachNotifier(orckit, { onError });
+      orckit.emit('process:failed', 'api');
+      await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+      expect(onError.mock.calls[0]![1].message).toBe(
+        'notification command exited with code 3: nope',
+      );
+    });
+  });
+
+  describe('webhook channels', () => {
+    let server: Server;
+    afterEach(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    async function listen(status: number) {
+      const requests: { headers: Record<string, unknown>; body: unknown }[] = [];
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+        req.on('end', () => {
+          requests.push({ headers: req.headers, body: JSON.parse(body) });
+          res.writeHead(status).end();
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      return { url: `http://127.0.0.1:${port}/hook`, requests };
+    }
+
+    it('POSTs the notification as JSON with the configured headers', async () => {
+      const { url, requests } = await listen(204);
+      const orckit = makeFakeOrckit([
+        { type: 'webhook', url, headers: { authorization: 'Bearer s3cret' } },
+      ]);
+      const onError = vi.fn();
+      attachNotifier(orckit, { onError, now: () => 42 });
+      orckit.emit('all:ready', ['api']);
+      await vi.waitFor(() => expect(requests).toHaveLength(1));
+      expect(requests[0]!.headers).toMatchObject({
+        authorization: 'Bearer s3cret',
+        'content-type': 'application/json',
+      });
+      expect(requests[0]!.body).toEqual({
+        event: 'all-ready',
+        project: 'shop',
+        name: null,
+        title: 'all processes ready',
+        message: 'api',
+        timestamp: 42,
+      });
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('reports a webhook that answers with an error status', async () => {
+      const { url } = await listen(500);
+      const orckit = makeFakeOrckit([{ type: 'webhook', url }]);
+      const onError = vi.fn();
+      attachNotifier(orckit, { onError });
+      orckit.emit('process:failed', 'api');
+      await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+      expect(onError.mock.calls[0]![1].message).toBe(`webhook ${url} answered 500`);
+    });
+  });
+});
+
+describe('renderCommand', () => {
+  const notification: Notification = {
+    event: 'failed',
+    project: 'shop',
+    name: null,
+    title: "it's down",
+    message: '$(rm -rf ~) `x`',
+    timestamp: 0,
+  };
+
+  it('shell-quotes each field and leaves unknown placeholders alone', () => {
+    expect(renderCommand('say {{ title }} {{message}} [{{name}}] {{nope}}', notification)).toBe(
+      `say 'it'\\''s down' '$(rm -rf ~) \`x\`' [''] {{nope}}`,
+    );
+    expect(renderCommand('{{constructor}} {{toString}}', notification)).toBe(
+      '{{constructor}} {{toString}}',
+    );
+    expect(renderCommand('at {{timestamp}}', notification)).toBe(`at '1970-01-01T00:00:00.000Z'`);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { globBase, globToRegExp, hasGlobChars } from '../../src/util/glob.js';
+
+const matches = (glob: string, path: string) => globToRegExp(glob).test(path);
+
+describe('globToRegExp', () => {
+  it('keeps * and ? within one path segment', () => {
+    expect(matches('*.go', 'main.go')).toBe(true);
+    expect(matches('*.go', 'cmd/main.go')).toBe(false);
+    expect(matches('file?.txt', 'file1.txt')).toBe(true);
+    expect(matches('file?.txt', 'file/.txt')).toBe(false);
+  });
+
+  it('lets ** span any number of segments, including none', () => {
+    expect(matches('**/*.py', 'app.py')).toBe(true);
+    expect(matches('**/*.py', 'pkg/sub/app.py')).toBe(true);
+    expect(matches('src/**/*.go', 'src/main.go')).toBe(true);
+    expect(matches('src/**/*.go', 'src/a/b/main.go')).toBe(true);
+    expect(matches('**/node_modules/**', 'web/node_modules/x/index.js')).toBe(true);
+    expect(matches('vendor/**', 'vendor')).toBe(true);
+    expect(matches('vendor/**', 'vendored/x')).toBe(false);
+  });
+
+  it('supports braces and character classes, and escapes the rest', () => {
+    expect(matches('*.{ts,tsx}', 'app.tsx')).toBe(true);
+    expect(matches('*.{ts,tsx}', 'app.js')).toBe(false);
+    expect(matches('log[0-9].txt', 'log7.txt')).toBe(true);
+    expect(matches('log[!0-9].txt', 'log7.txt')).toBe(false);
+    expect(matches('a+b.txt', 'a+b.txt')).toBe(true);
+    expect(matches('a.txt', 'abtxt')).toBe(false);
+  });
+});
+
+describe('globBase / hasGlobChars', () => {
+  it('returns the literal leading directory', () => {
+    expect(globBase('src/**/*.go')).toBe('src');
+    expect(globBase('*.py')).toBe('.');
+    expect(globBase('cmd/server/')).toBe('cmd/server');
+    expect(hasGlobChars('cmd/server')).toBe(false);
+    expect(hasGlobChars('{a,b}')).toBe(true);
+  });
+});
@@ -1,7 +1,13 @@
 import { createServer, type Server } from 'node:net';
 import { execa, type ResultPromise } from 'execa';
 import { afterEach, describe, expect, it } from 'vitest';
-import { findPortHolders, isPortFree, killPortHolders } from '../../src/util/port.js';
+import {
+  allocatePorts,
+  findFreePort,
+  findPortHolders,
+  isPortFree,
+  killPortHolders,
+} from '../../src/util/port.js';
 
 describe('isPortFree', () => {
   let server: Server | null = null;
@@ -29,6 +35,21 @@ describe('isPortFree', () => {
   });
 });
 
+describe('findFreePort / allocatePorts', () => {
+  it('hands out a bindable port', async () => {
+    const port = await findFreePort();
+    expect(port).toBeGreaterThan(0);
+    expect(await isPortFree(port)).toBe(true);
+  });
+
+  it('keeps fixed ports and gives each auto entry a distinct port', async () => {
+    const ports = await allocatePorts({ db: 5432, api: 'auto', web: 'auto' });
+    expect(ports.db).toBe(5432);
+    expect(ports.api).not.toBe(ports.web);
+    expect([ports.api, ports.web]).not.toContain(5432);
+  });
+});
+
 /** Reserve and immediately release a free local port number to drive tests. */
 function freePort(): Promise<number> {
   return new Promise((resolve) => {